@@ -1,52 +1,112 @@
 import React, { useState, useEffect } from "react";
+import { formatShortDate } from "~/lib/dateUtils";
+import {
+  API_TOKEN_SCOPES,
+  type ApiTokenInfo,
+  type ApiTokenScope,
+} from "~/types/apiToken";
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   isOpen,
   onClose,
 }) => {
-  const [currentApiKey, setCurrentApiKey] = useState("");
-  const [newApiKey, setNewApiKey] = useState("");
-  const [showApiKey, setShowApiKey] = useState(false);
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [maxAgeDays, setMaxAgeDays] = useState(365);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["jobs:read"]);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
 
+  const loadTokens = async () => {
+    try {
+      const response = await fetch("/api/tokens");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to load API tokens");
+      }
+      setTokens(data.tokens);
+      setMaxAgeDays(data.maxAgeDays);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   useEffect(() => {
     if (isOpen) {
-      // Load current API key from localStorage when modal opens
-      const storedApiKey = localStorage.getItem("hugex_api_key");
-      if (storedApiKey) {
-        setCurrentApiKey(storedApiKey);
-      }
+      setCreatedToken(null);
+      setError(null);
+      loadTokens();
     }
   }, [isOpen]);
 
-  const handleSave = () => {
-    if (newApiKey.trim()) {
-      localStorage.setItem("hugex_api_key", newApiKey.trim());
-      setCurrentApiKey(newApiKey.trim());
-      setNewApiKey("");
-      alert("API key saved successfully!");
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope]
+    );
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to create API token");
+      }
+      setCreatedToken(data.token);
+      setName("");
+      await loadTokens();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreating(false);
     }
   };
 
-  const handleDelete = () => {
-    if (confirm("Are you sure you want to delete your API key?")) {
-      localStorage.removeItem("hugex_api_key");
-      setCurrentApiKey("");
-      setNewApiKey("");
-      alert("API key deleted successfully!");
+  const handleRevoke = async (token: ApiTokenInfo) => {
+    if (
+      !confirm(
+        `Revoke "${token.name}"? Scripts using it will stop working immediately.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || "Failed to revoke API token");
+      }
+      await loadTokens();
+    } catch (err) {
+      setError((err as Error).message);
     }
   };
 
   const handleCopy = async () => {
-    const keyToCopy = currentApiKey || newApiKey;
-    if (keyToCopy) {
+    if (createdToken) {
       try {
-        await navigator.clipboard.writeText(keyToCopy);
+        await navigator.clipboard.writeText(createdToken);
         setCopySuccess(true);
         setTimeout(() => setCopySuccess(false), 2000);
       } catch (err) {
@@ -56,7 +116,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   };
 
   const generateCurlExample = () => {
-    const apiKey = currentApiKey || newApiKey || "your-api-key-here";
+    const apiKey = createdToken || "hugex_your-token-here";
     return `curl -X POST https://your-domain.com/api/jobs/create-with-key \\
   -H "Content-Type: application/json" \\
   -H "Authorization: Bearer ${apiKey}" \\
@@ -92,7 +152,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
         {/* Header */}
         <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-            API Key Management
+            API Tokens
           </h2>
           <button
             onClick={onClose}
@@ -116,99 +176,140 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
 
         {/* Content */}
         <div className="space-y-6 p-6">
-          {/* Current API Key Section */}
-          <div>
-            <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Current API Key
-            </label>
-            {currentApiKey ? (
-              <div className="space-y-3">
-                <div className="flex items-center gap-2">
-                  <input
-                    type={showApiKey ? "text" : "password"}
-                    value={currentApiKey}
-                    readOnly
-                    className="flex-1 rounded-md border border-gray-300 bg-gray-50 px-3 py-2 font-mono text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
-                  />
-                  <button
-                    onClick={() => setShowApiKey(!showApiKey)}
-                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
-                  >
-                    {showApiKey ? (
-                      <i className="fas fa-eye-slash"></i>
-                    ) : (
-                      <i className="fas fa-eye"></i>
-                    )}
-                  </button>
-                  <button
-                    onClick={handleCopy}
-                    className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
-                  >
-                    {copySuccess ? (
-                      <i className="fas fa-check text-green-600"></i>
-                    ) : (
-                      <i className="fas fa-copy"></i>
-                    )}
-                  </button>
-                </div>
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {/* Newly created token, shown once */}
+          {createdToken && (
+            <div className="space-y-2 rounded-lg border border-green-200 bg-green-50 p-4 dark:border-green-800 dark:bg-green-900/20">
+              <p className="text-sm font-medium text-green-800 dark:text-green-300">
+                Copy your new token now - it will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={createdToken}
+                  readOnly
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                />
                 <button
-                  onClick={handleDelete}
-                  className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  onClick={handleCopy}
+                  className="rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
                 >
-                  <i className="fas fa-trash mr-1"></i>
-                  Delete API Key
+                  {copySuccess ? (
+                    <i className="fas fa-check text-green-600"></i>
+                  ) : (
+                    <i className="fas fa-copy"></i>
+                  )}
                 </button>
               </div>
+            </div>
+          )}
+
+          {/* Existing tokens */}
+          <div>
+            <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              Your Tokens
+            </h3>
+            {tokens.length > 0 ? (
+              <ul className="divide-y divide-gray-200 rounded-md border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+                {tokens.map((token) => (
+                  <li
+                    key={token.id}
+                    className="flex items-start justify-between gap-3 p-3"
+                  >
+                    <div className="min-w-0 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {token.name}{" "}
+                        <code className="text-xs text-gray-500 dark:text-gray-400">
+                          {token.prefix}…
+                        </code>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {token.scopes.join(", ")} · expires{" "}
+                        {formatShortDate(token.expiresAt)} ·{" "}
+                        {token.lastUsedAt
+                          ? `last used ${formatShortDate(token.lastUsedAt)}`
+                          : "never used"}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className="shrink-0 text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      <i className="fas fa-trash mr-1"></i>
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
             ) : (
               <p className="text-sm italic text-gray-500 dark:text-gray-400">
-                No API key configured
+                No API tokens yet
               </p>
             )}
           </div>
 
-          {/* Add/Update API Key Section */}
-          <div>
-            <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              {currentApiKey ? "Update API Key" : "Add API Key"}
-            </label>
-            <div className="space-y-3">
-              <input
-                type="password"
-                value={newApiKey}
-                onChange={(e) => setNewApiKey(e.target.value)}
-                placeholder="Enter your Hugging Face token (hf_...)"
-                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
-              />
+          {/* Create token */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Create Token
+            </h3>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Token name, e.g. CI pipeline"
+              maxLength={100}
+              className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+            />
+            <div className="space-y-1">
+              {API_TOKEN_SCOPES.map(({ scope, description }) => (
+                <label
+                  key={scope}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  <code>{scope}</code>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {description}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              >
+                {EXPIRY_OPTIONS.filter((days) => days <= maxAgeDays).map(
+                  (days) => (
+                    <option key={days} value={days}>
+                      Expires in {days} days
+                    </option>
+                  )
+                )}
+              </select>
               <button
-                onClick={handleSave}
-                disabled={!newApiKey.trim()}
+                onClick={handleCreate}
+                disabled={!name.trim() || scopes.length === 0 || creating}
                 className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
               >
-                {currentApiKey ? "Update" : "Save"} API Key
+                {creating ? "Creating..." : "Create Token"}
               </button>
             </div>
-          </div>
-
-          {/* Information Section */}
-          <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
-            <h3 className="mb-2 text-sm font-medium text-blue-800 dark:text-blue-300">
-              How to get your Hugging Face API token:
-            </h3>
-            <ol className="list-inside list-decimal space-y-1 text-sm text-blue-700 dark:text-blue-300">
-              <li>
-                Go to{" "}
-                <a
-                  href="https://huggingface.co/settings/tokens"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline"
-                >
-                  huggingface.co/settings/tokens
-                </a>
-              </li>
-              <li>Click "New token" and select "Write" access</li>
-              <li>Copy the token and paste it above</li>
-            </ol>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              A token acts as you, with the Hugging Face and GitHub accounts
+              connected right now. Jobs it creates are yours.
+            </p>
           </div>
 
           {/* Usage Example */}
@@ -324,7 +425,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
                   <code>Content-Type: application/json</code>
                 </li>
                 <li>
-                  <code>Authorization: Bearer &lt;your-api-key&gt;</code>
+                  <code>Authorization: Bearer hugex_...</code>
                 </li>
               </ul>
               <div>
@@ -332,7 +433,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
               </div>
               <div>
                 <strong>Optional fields:</strong> description, repository,
-                branch, author, environment, secrets
+                branch, environment, secrets
               </div>
               <div className="mt-3">
                 <strong>Environment & Secrets:</strong>
@@ -347,6 +448,12 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
                   </li>
                 </ul>
               </div>
+              <div className="mt-3">
+                The same header works on every <code>/api/jobs</code> endpoint,
+                within the scopes of the token. Pull requests are opened with{" "}
+                <code>POST /api/jobs/:jobId/pull-request</code>, which needs{" "}
+                <code>pr:create</code>.
+              </div>
             </div>
           </div>
         </div>
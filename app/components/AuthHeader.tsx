@@ -26,6 +26,13 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
   } | null>(externalUserInfo || null);
   const [githubOAuth2Available, setGithubOAuth2Available] = useState(false);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
+  const [linkedGithubAccounts, setLinkedGithubAccounts] = useState<string[]>(
+    authStatus.linkedGithubAccounts || []
+  );
+
+  useEffect(() => {
+    setLinkedGithubAccounts(authStatus.linkedGithubAccounts || []);
+  }, [authStatus.linkedGithubAccounts]);
 
   const prevAuthStatusRef = useRef(authStatus);
 
@@ -139,6 +146,40 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
     onLogout();
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!confirm("Sign out of hugex on all your browsers and devices?")) {
+      return;
+    }
+    await AuthService.logoutEverywhere();
+    setUserInfo(null);
+    onLogout();
+  };
+
+  const githubUsername = authStatus.githubUserInfo?.username;
+  const canLinkAccounts =
+    authStatus.hasHuggingFace &&
+    !!githubUsername &&
+    !linkedGithubAccounts.includes(githubUsername);
+
+  const handleLinkAccounts = async () => {
+    if (
+      !confirm(
+        `Link @${githubUsername} to your Hugging Face account? Signing in with either of them will then show the jobs of both.`
+      )
+    ) {
+      return;
+    }
+    if (await AuthService.setAccountsLinked(true)) {
+      setLinkedGithubAccounts([...linkedGithubAccounts, githubUsername!]);
+    }
+  };
+
+  const handleUnlinkAccounts = async () => {
+    if (await AuthService.setAccountsLinked(false)) {
+      setLinkedGithubAccounts([]);
+    }
+  };
+
   const formatExpiryTime = (expiresAt?: Date) => {
     if (!expiresAt) return "";
 
@@ -393,13 +434,34 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
                       </>
                     )}
 
-                    {/* API Key Management */}
+                    {/* Account Links */}
+                    {canLinkAccounts && (
+                      <button
+                        onClick={handleLinkAccounts}
+                        className="flex w-full items-center rounded px-2 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-gray-100"
+                      >
+                        <i className="fas fa-link mr-2 h-4 w-4"></i>
+                        Link Accounts
+                      </button>
+                    )}
+                    {linkedGithubAccounts.length > 0 && (
+                      <button
+                        onClick={handleUnlinkAccounts}
+                        className="flex w-full items-center rounded px-2 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-gray-100"
+                        title={`Linked to ${linkedGithubAccounts.map((login) => `@${login}`).join(", ")}`}
+                      >
+                        <i className="fas fa-unlink mr-2 h-4 w-4"></i>
+                        Unlink GitHub
+                      </button>
+                    )}
+
+                    {/* API Token Management */}
                     <button
                       onClick={() => setIsApiKeyModalOpen(true)}
                       className="flex w-full items-center rounded px-2 py-2 text-left text-sm text-gray-700 transition-colors hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-gray-100"
                     >
                       <i className="fas fa-key mr-2 h-4 w-4"></i>
-                      API Key
+                      API Tokens
                     </button>
                     {/* <button
                       onClick={() => AuthService.extendSession()}
@@ -414,6 +476,13 @@ export const AuthHeader: React.FC<AuthHeaderProps> = ({
                     >
                       <i className="fas fa-sign-out-alt mr-2"></i>Sign Out
                     </button>
+                    <button
+                      onClick={handleLogoutEverywhere}
+                      className="flex w-full items-center rounded px-2 py-2 text-left text-sm text-red-600 transition-colors hover:bg-red-50 hover:text-red-800 dark:text-red-400 dark:hover:bg-red-900/20 dark:hover:text-red-300"
+                    >
+                      <i className="fas fa-door-open mr-2"></i>Sign Out
+                      Everywhere
+                    </button>
                   </div>
                 </div>
               </div>
@@ -1,9 +1,5 @@
-import { useState, useEffect } from "react";
-import {
-  ConfigService,
-  DockerConfig,
-  DEFAULT_TEMPLATE,
-} from "~/lib/configService";
+import { useState, useEffect, useCallback } from "react";
+import { ConfigService, DEFAULT_TEMPLATE } from "~/lib/configService";
 import {
   AIProviderIcon,
   OpenAIIcon,
@@ -16,6 +12,19 @@ import {
   getFromLocalStorage,
   setToLocalStorage,
 } from "~/lib/autoSaveService";
+import { SecretVault } from "~/components/SecretVault";
+import type {
+  EnvironmentProfile,
+  EnvironmentProfileInput,
+  HardeningPreset,
+  NetworkMode,
+} from "~/types/environmentProfile";
+import type { SecretDelivery } from "~/types/agentImage";
+import {
+  SECRET_REFERENCE_PATTERN,
+  secretReference,
+  type SecretInfo,
+} from "~/types/secret";
 
 // Known environments with predefined configurations
 export const KNOWN_ENVIRONMENTS = [
@@ -88,109 +97,264 @@ export const KNOWN_ENVIRONMENTS = [
 
 interface ConfigurationPanelProps {
   onConfigChange?: () => void;
+  // Edit this workspace's profiles instead of the user's own
+  workspaceId?: string;
+  // Show the profiles without saving changes, for workspace viewers
+  readOnly?: boolean;
 }
 
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+// Vault secrets a profile value refers to
+const getReferencedNames = (value: string): string[] =>
+  Array.from(value.matchAll(SECRET_REFERENCE_PATTERN), (match) => match[1]);
+
+// The editable fields of a profile loaded from the server
+const toProfileInput = (
+  profile: EnvironmentProfile
+): EnvironmentProfileInput => ({
+  name: profile.name,
+  image: profile.image,
+  environment: profile.environment,
+  secrets: profile.secrets,
+  resources: profile.resources,
+  setup: profile.setup,
+  verify: profile.verify,
+  failOnVerify: profile.failOnVerify,
+  network: profile.network,
+  hardening: profile.hardening,
+  secretDelivery: profile.secretDelivery,
+  repositories: profile.repositories,
+  isDefault: profile.isDefault,
+});
+
 export const ConfigurationPanel = ({
   onConfigChange,
+  workspaceId,
+  readOnly = false,
 }: ConfigurationPanelProps) => {
   const [selectedEnvironment, setSelectedEnvironment] = useState(
     KNOWN_ENVIRONMENTS[0].id
   );
-  const [dockerConfig, setDockerConfig] = useState<DockerConfig>({
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(
+    null
+  );
+  const [profile, setProfile] = useState<EnvironmentProfileInput>({
+    name: "",
     image: "drbh/codex-universal-explore:dev",
     environment: {},
     secrets: {},
+    resources: {},
+    setup: [],
+    verify: [],
+    failOnVerify: false,
+    network: { mode: "open", allowedHosts: [] },
+    hardening: "permissive",
+    secretDelivery: "env",
+    repositories: [],
+    isDefault: false,
   });
+  const [repositoriesText, setRepositoriesText] = useState("");
+  const [commandsText, setCommandsText] = useState({ setup: "", verify: "" });
+  const [allowedHostsText, setAllowedHostsText] = useState("");
   const [isExpanded, setIsExpanded] = useState(true);
   const [newEnvKey, setNewEnvKey] = useState("");
   const [newEnvValue, setNewEnvValue] = useState("");
   const [newSecretKey, setNewSecretKey] = useState("");
-  const [newSecretValue, setNewSecretValue] = useState("");
+  const [newSecretName, setNewSecretName] = useState("");
+  const [vaultSecrets, setVaultSecrets] = useState<SecretInfo[]>([]);
   const [templateText, setTemplateText] = useState(DEFAULT_TEMPLATE);
 
-  // Auto-save configuration changes
-  const dockerAutoSave = useAutoSave([dockerConfig], {
+  // Auto-save changes to the selected profile
+  const profileAutoSave = useAutoSave([profile], {
     delay: 500, // Much faster - 500ms
     onSave: async () => {
-      await ConfigService.updateDockerConfig(dockerConfig);
+      if (!selectedProfileId) return;
+      const saved = await ConfigService.updateProfile(
+        selectedProfileId,
+        profile
+      );
+      // The server keeps one default profile per owner
+      setProfiles((prev) =>
+        prev.map((p) =>
+          p.id === saved.id
+            ? saved
+            : { ...p, isDefault: saved.isDefault ? false : p.isDefault }
+        )
+      );
       onConfigChange?.();
     },
     onSuccess: () => {
       // No intrusive success message, just console log
-      console.log("Configuration auto-saved successfully");
+      console.log("Profile auto-saved successfully");
     },
     onError: (error) => {
       // Only show errors, not success
       AutoSaveService.showSaveIndicator(
-        "Failed to save configuration",
+        `Failed to save profile: ${error.message}`,
         "error"
       );
       console.error("Auto-save failed:", error);
     },
-    enabled: true,
+    enabled: !readOnly && !!selectedProfileId,
   });
 
-  // Load configuration from localStorage
-  const loadLocalConfiguration = () => {
+  useEffect(() => {
+    setTemplateText(
+      getFromLocalStorage(STORAGE_KEYS.templateText, DEFAULT_TEMPLATE)
+    );
+  }, []);
+
+  // Show a profile in the editor
+  const showProfile = useCallback(
+    (selected: EnvironmentProfile | undefined) => {
+      setSelectedProfileId(selected?.id ?? null);
+      if (!selected) return;
+
+      setProfile(toProfileInput(selected));
+      setRepositoriesText(selected.repositories.join(", "));
+      setCommandsText({
+        setup: selected.setup.join("\n"),
+        verify: selected.verify.join("\n"),
+      });
+      setAllowedHostsText(selected.network.allowedHosts.join("\n"));
+
+      // Detect which environment matches the profile's docker image
+      const matchingEnv = KNOWN_ENVIRONMENTS.find(
+        (env) => env.image === selected.image
+      );
+      setSelectedEnvironment(matchingEnv ? matchingEnv.id : "custom");
+    },
+    []
+  );
+
+  const loadVaultSecrets = useCallback(async () => {
+    setVaultSecrets(await ConfigService.listSecrets(workspaceId));
+  }, [workspaceId]);
+
+  const loadProfiles = useCallback(async () => {
+    const { profiles: loaded } = await ConfigService.listProfiles(workspaceId);
+    setProfiles(loaded);
+    showProfile(loaded.find((p) => p.isDefault) || loaded[0]);
+    loadVaultSecrets();
+  }, [workspaceId, showProfile, loadVaultSecrets]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const vaultSecretNames = Array.from(
+    new Set(vaultSecrets.map((secret) => secret.name))
+  );
+
+  const handleProfileSelect = (profileId: string) => {
+    // Save pending edits to the profile being left
+    profileAutoSave.triggerSave();
+    showProfile(profiles.find((p) => p.id === profileId));
+  };
+
+  const handleCreateProfile = async () => {
+    const env = KNOWN_ENVIRONMENTS[0];
     try {
-      const savedConfig = getFromLocalStorage(STORAGE_KEYS.dockerConfig, null);
-      if (savedConfig) {
-        setDockerConfig(savedConfig);
-
-        // Detect which environment matches the current docker image
-        const matchingEnv = KNOWN_ENVIRONMENTS.find(
-          (env) => env.image === savedConfig.image
-        );
-        if (matchingEnv) {
-          setSelectedEnvironment(matchingEnv.id);
-        } else {
-          setSelectedEnvironment("custom");
-        }
-      }
-
-      const savedTemplateText = getFromLocalStorage(
-        STORAGE_KEYS.templateText,
-        DEFAULT_TEMPLATE
+      const created = await ConfigService.createProfile(
+        {
+          name: profiles.length ? `Profile ${profiles.length + 1}` : "Default",
+          image: env.image,
+          environment: { ...env.defaultEnvironment },
+          secrets: {},
+          resources: {},
+          setup: [],
+          verify: [],
+          failOnVerify: false,
+          network: { mode: "open", allowedHosts: [] },
+          hardening: "permissive",
+          secretDelivery: "env",
+          repositories: [],
+          // The first profile is used for every repository
+          isDefault: !profiles.length,
+        },
+        workspaceId
+      );
+      profileAutoSave.triggerSave();
+      setProfiles((prev) => [...prev, created]);
+      showProfile(created);
+      onConfigChange?.();
+    } catch (error) {
+      AutoSaveService.showSaveIndicator(
+        `Failed to create profile: ${(error as Error).message}`,
+        "error"
       );
-      setTemplateText(savedTemplateText);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfileId || !confirm(`Delete the profile ${profile.name}?`))
+      return;
+    try {
+      await ConfigService.deleteProfile(selectedProfileId);
+      const remaining = profiles.filter((p) => p.id !== selectedProfileId);
+      setProfiles(remaining);
+      showProfile(remaining.find((p) => p.isDefault) || remaining[0]);
+      onConfigChange?.();
     } catch (error) {
-      console.error("Failed to load local configuration:", error);
+      AutoSaveService.showSaveIndicator(
+        `Failed to delete profile: ${(error as Error).message}`,
+        "error"
+      );
     }
   };
 
-  // Save configuration to localStorage with auto-save
-  const saveLocalConfiguration = (config: DockerConfig) => {
-    setToLocalStorage(STORAGE_KEYS.dockerConfig, config, true);
+  const handleRepositoriesChange = (text: string) => {
+    setRepositoriesText(text);
+    // Partly typed entries are left out until they are complete
+    setProfile((prev) => ({
+      ...prev,
+      repositories: text
+        .split(/[\s,]+/)
+        .filter((r) => REPOSITORY_PATTERN.test(r)),
+    }));
   };
 
-  useEffect(() => {
-    // First load from localStorage for immediate UX
-    loadLocalConfiguration();
-    // Then load from server for sync
-    loadConfiguration();
-  }, []);
+  // One command per line, blank lines are left out
+  const handleCommandsChange = (phase: "setup" | "verify", text: string) => {
+    setCommandsText((prev) => ({ ...prev, [phase]: text }));
+    setProfile((prev) => ({
+      ...prev,
+      [phase]: text
+        .split("\n")
+        .map((command) => command.trim())
+        .filter(Boolean),
+    }));
+  };
 
-  const loadConfiguration = async () => {
-    try {
-      const dockerData = await ConfigService.getDockerConfig();
-      setDockerConfig(dockerData);
+  // Hosts are separated by commas or newlines
+  const handleAllowedHostsChange = (text: string) => {
+    setAllowedHostsText(text);
+    setProfile((prev) => ({
+      ...prev,
+      network: {
+        ...prev.network,
+        allowedHosts: text
+          .split(/[\n,]/)
+          .map((host) => host.trim())
+          .filter(Boolean),
+      },
+    }));
+  };
 
-      // Detect which environment matches the current docker image
-      const matchingEnv = KNOWN_ENVIRONMENTS.find(
-        (env) => env.image === dockerData.image
-      );
-      if (matchingEnv) {
-        setSelectedEnvironment(matchingEnv.id);
-      } else {
-        // If no match found, default to custom
-        setSelectedEnvironment("custom");
-      }
-
-      // Save to localStorage for persistence
-      saveLocalConfiguration(dockerData);
-    } catch (error) {
-      console.error("Failed to load configuration:", error);
-    }
+  const handleResourceChange = (
+    key: keyof EnvironmentProfileInput["resources"],
+    value: string
+  ) => {
+    const parsed = parseInt(value, 10);
+    setProfile((prev) => ({
+      ...prev,
+      resources: {
+        ...prev.resources,
+        [key]: parsed > 0 ? parsed : undefined,
+      },
+    }));
   };
 
   const validateGitUrl = (url: string): boolean => {
@@ -228,485 +392,786 @@ export const ConfigurationPanel = ({
 
   const addEnvironmentVariable = () => {
     if (newEnvKey.trim() && newEnvValue.trim()) {
-      const newConfig = {
-        ...dockerConfig,
+      const newProfile = {
+        ...profile,
         environment: {
-          ...dockerConfig.environment,
+          ...profile.environment,
           [newEnvKey.trim()]: newEnvValue.trim(),
         },
       };
-      setDockerConfig(newConfig);
-      saveLocalConfiguration(newConfig);
+      setProfile(newProfile);
       setNewEnvKey("");
       setNewEnvValue("");
     }
   };
 
   const removeEnvironmentVariable = (key: string) => {
-    const newConfig = {
-      ...dockerConfig,
-      environment: { ...dockerConfig.environment },
+    const newProfile = {
+      ...profile,
+      environment: { ...profile.environment },
     };
-    delete newConfig.environment[key];
-    setDockerConfig(newConfig);
-    saveLocalConfiguration(newConfig);
+    delete newProfile.environment[key];
+    setProfile(newProfile);
   };
 
+  // Profiles hold references, the values stay in the vault
   const addSecret = () => {
-    if (newSecretKey.trim() && newSecretValue.trim()) {
-      const newConfig = {
-        ...dockerConfig,
+    if (newSecretKey.trim() && newSecretName) {
+      const newProfile = {
+        ...profile,
         secrets: {
-          ...dockerConfig.secrets,
-          [newSecretKey.trim()]: newSecretValue.trim(),
+          ...profile.secrets,
+          [newSecretKey.trim()]: secretReference(newSecretName),
         },
       };
-      setDockerConfig(newConfig);
-      saveLocalConfiguration(newConfig);
+      setProfile(newProfile);
       setNewSecretKey("");
-      setNewSecretValue("");
+      setNewSecretName("");
     }
   };
 
   const removeSecret = (key: string) => {
-    const newConfig = {
-      ...dockerConfig,
-      secrets: { ...dockerConfig.secrets },
+    const newProfile = {
+      ...profile,
+      secrets: { ...profile.secrets },
     };
-    delete newConfig.secrets[key];
-    setDockerConfig(newConfig);
-    saveLocalConfiguration(newConfig);
+    delete newProfile.secrets[key];
+    setProfile(newProfile);
   };
 
   const handleEnvironmentSelect = (envId: string) => {
     const env = KNOWN_ENVIRONMENTS.find((e) => e.id === envId);
     if (env) {
       setSelectedEnvironment(envId);
-      const newConfig = {
-        ...dockerConfig,
+      const newProfile = {
+        ...profile,
         image: env.image,
-        environment: { ...dockerConfig.environment, ...env.defaultEnvironment },
+        environment: { ...profile.environment, ...env.defaultEnvironment },
       };
-      setDockerConfig(newConfig);
-      saveLocalConfiguration(newConfig);
+      setProfile(newProfile);
     }
   };
 
   return (
     <div className="p-6">
       <div className="space-y-6">
-        {/* Environment Selection */}
+        {/* Profile Selection */}
         <div>
           <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-gray-100">
-            Select Environment
+            Environment Profile
           </h2>
-          <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
-            {KNOWN_ENVIRONMENTS.map((env) => {
-              const isSelected = selectedEnvironment === env.id;
-              const hasRequiredSecrets = env.requiredSecrets.every(
-                (secret) => dockerConfig.secrets[secret]
-              );
-
-              return (
-                <div
-                  key={env.id}
-                  onClick={() => handleEnvironmentSelect(env.id)}
-                  className={`cursor-pointer rounded-lg border p-4 transition-all hover:shadow-md ${
-                    isSelected
-                      ? "border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/20"
-                      : "border-gray-200 hover:border-gray-300 dark:border-gray-600 dark:hover:border-gray-500"
-                  }`}
+          {profiles.length > 0 ? (
+            <>
+              <div className="flex items-center gap-2">
+                <select
+                  value={selectedProfileId ?? ""}
+                  onChange={(e) => handleProfileSelect(e.target.value)}
+                  className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
                 >
-                  <div className="flex items-start gap-3">
+                  {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                      {p.isDefault ? " (default)" : ""}
+                    </option>
+                  ))}
+                </select>
+                {!readOnly && (
+                  <>
+                    <button
+                      onClick={handleCreateProfile}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                      title="New profile"
+                    >
+                      <i className="fas fa-plus"></i>
+                    </button>
+                    <button
+                      onClick={handleDeleteProfile}
+                      className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
+                      title="Delete profile"
+                    >
+                      <i className="fas fa-trash"></i>
+                    </button>
+                  </>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Jobs run with the profile listing their repository, otherwise
+                with the default profile
+              </p>
+            </>
+          ) : (
+            <div className="rounded-lg border border-dashed border-gray-300 p-4 text-center dark:border-gray-600">
+              <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+                {workspaceId
+                  ? "This workspace has no environment profiles yet."
+                  : "You have no environment profiles yet."}{" "}
+                Jobs run with the server default image until one is created.
+              </p>
+              {!readOnly && (
+                <button
+                  onClick={handleCreateProfile}
+                  className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+                >
+                  <i className="fas fa-plus mr-2"></i>
+                  Create profile
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {selectedProfileId && (
+          <>
+            {/* Environment Selection */}
+            <div>
+              <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-gray-100">
+                Select Environment
+              </h2>
+              <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2">
+                {KNOWN_ENVIRONMENTS.map((env) => {
+                  const isSelected = selectedEnvironment === env.id;
+                  const hasRequiredSecrets = env.requiredSecrets.every(
+                    (secret) => profile.secrets[secret]
+                  );
+
+                  return (
                     <div
-                      className={`rounded-lg p-2 ${
+                      key={env.id}
+                      onClick={() => handleEnvironmentSelect(env.id)}
+                      className={`cursor-pointer rounded-lg border p-4 transition-all hover:shadow-md ${
                         isSelected
-                          ? "bg-blue-100 dark:bg-blue-800"
-                          : "bg-gray-100 dark:bg-gray-700"
+                          ? "border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/20"
+                          : "border-gray-200 hover:border-gray-300 dark:border-gray-600 dark:hover:border-gray-500"
                       }`}
                     >
-                      {env.icon === "openai" ? (
-                        <OpenAIIcon
-                          className={
-                            isSelected
-                              ? "text-blue-600 dark:text-blue-300"
-                              : "text-gray-600 dark:text-gray-300"
-                          }
-                          size={20}
-                        />
-                      ) : env.icon === "claude" ? (
-                        <ClaudeIcon
-                          className={
-                            isSelected
-                              ? "text-blue-600 dark:text-blue-300"
-                              : "text-gray-600 dark:text-gray-300"
-                          }
-                          size={20}
-                        />
-                      ) : (
-                        <i
-                          className={`${env.icon} text-lg ${
-                            isSelected
-                              ? "text-blue-600 dark:text-blue-300"
-                              : "text-gray-600 dark:text-gray-300"
-                          }`}
-                        ></i>
-                      )}
-                    </div>
-                    <div className="flex-1">
-                      <div className="mb-2 flex items-center justify-between">
-                        <h3
-                          className={`flex items-center gap-2 font-medium ${
+                      <div className="flex items-start gap-3">
+                        <div
+                          className={`rounded-lg p-2 ${
                             isSelected
-                              ? "text-blue-900 dark:text-blue-100"
-                              : "text-gray-900 dark:text-gray-100"
+                              ? "bg-blue-100 dark:bg-blue-800"
+                              : "bg-gray-100 dark:bg-gray-700"
                           }`}
                         >
-                          {env.name}
-                          {env.id === "hugex-codex" && (
-                            <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/30 dark:text-green-300">
-                              <i className="fas fa-star mr-1 text-xs"></i>
-                              Recommended
-                            </span>
-                          )}
-                          {env.tags.includes("Legacy") && (
-                            <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
-                              Legacy
-                            </span>
+                          {env.icon === "openai" ? (
+                            <OpenAIIcon
+                              className={
+                                isSelected
+                                  ? "text-blue-600 dark:text-blue-300"
+                                  : "text-gray-600 dark:text-gray-300"
+                              }
+                              size={20}
+                            />
+                          ) : env.icon === "claude" ? (
+                            <ClaudeIcon
+                              className={
+                                isSelected
+                                  ? "text-blue-600 dark:text-blue-300"
+                                  : "text-gray-600 dark:text-gray-300"
+                              }
+                              size={20}
+                            />
+                          ) : (
+                            <i
+                              className={`${env.icon} text-lg ${
+                                isSelected
+                                  ? "text-blue-600 dark:text-blue-300"
+                                  : "text-gray-600 dark:text-gray-300"
+                              }`}
+                            ></i>
                           )}
-                        </h3>
-                        {isSelected && (
-                          <div className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
-                            <i className="fas fa-check-circle text-sm"></i>
-                            <span className="text-xs font-medium">
-                              Selected
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                      <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
-                        {env.description}
-                      </p>
-
-                      {/* Tags */}
-                      <div className="mb-2 flex flex-wrap gap-1">
-                        {env.tags.map((tag) => {
-                          const aiIcon = AIProviderIcon({
-                            tags: [tag],
-                            size: 12,
-                          });
-                          return (
-                            <span
-                              key={tag}
-                              className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs ${
+                        </div>
+                        <div className="flex-1">
+                          <div className="mb-2 flex items-center justify-between">
+                            <h3
+                              className={`flex items-center gap-2 font-medium ${
                                 isSelected
-                                  ? "bg-blue-100 text-blue-700 dark:bg-blue-800 dark:text-blue-300"
-                                  : "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300"
+                                  ? "text-blue-900 dark:text-blue-100"
+                                  : "text-gray-900 dark:text-gray-100"
                               }`}
                             >
-                              {aiIcon && (
-                                <span className="flex items-center">
-                                  {aiIcon}
+                              {env.name}
+                              {env.id === "hugex-codex" && (
+                                <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                  <i className="fas fa-star mr-1 text-xs"></i>
+                                  Recommended
+                                </span>
+                              )}
+                              {env.tags.includes("Legacy") && (
+                                <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                                  Legacy
                                 </span>
                               )}
-                              {tag}
-                            </span>
-                          );
-                        })}
+                            </h3>
+                            {isSelected && (
+                              <div className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
+                                <i className="fas fa-check-circle text-sm"></i>
+                                <span className="text-xs font-medium">
+                                  Selected
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                          <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+                            {env.description}
+                          </p>
+
+                          {/* Tags */}
+                          <div className="mb-2 flex flex-wrap gap-1">
+                            {env.tags.map((tag) => {
+                              const aiIcon = AIProviderIcon({
+                                tags: [tag],
+                                size: 12,
+                              });
+                              return (
+                                <span
+                                  key={tag}
+                                  className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs ${
+                                    isSelected
+                                      ? "bg-blue-100 text-blue-700 dark:bg-blue-800 dark:text-blue-300"
+                                      : "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300"
+                                  }`}
+                                >
+                                  {aiIcon && (
+                                    <span className="flex items-center">
+                                      {aiIcon}
+                                    </span>
+                                  )}
+                                  {tag}
+                                </span>
+                              );
+                            })}
+                          </div>
+
+                          {/* Required secrets indicator */}
+                          {env.requiredSecrets.length > 0 && (
+                            <div
+                              className={`flex items-center gap-1 text-xs ${
+                                hasRequiredSecrets
+                                  ? "text-green-600 dark:text-green-400"
+                                  : "text-amber-600 dark:text-amber-400"
+                              }`}
+                            >
+                              <i
+                                className={`fas ${
+                                  hasRequiredSecrets
+                                    ? "fa-check-circle"
+                                    : "fa-exclamation-triangle"
+                                }`}
+                              ></i>
+                              <span>
+                                {hasRequiredSecrets
+                                  ? "All required secrets configured"
+                                  : `Requires: ${env.requiredSecrets.join(", ")}`}
+                              </span>
+                            </div>
+                          )}
+                        </div>
                       </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
 
-                      {/* Required secrets indicator */}
-                      {env.requiredSecrets.length > 0 && (
-                        <div
-                          className={`flex items-center gap-1 text-xs ${
-                            hasRequiredSecrets
-                              ? "text-green-600 dark:text-green-400"
-                              : "text-amber-600 dark:text-amber-400"
-                          }`}
-                        >
-                          <i
-                            className={`fas ${
-                              hasRequiredSecrets
-                                ? "fa-check-circle"
-                                : "fa-exclamation-triangle"
-                            }`}
-                          ></i>
-                          <span>
-                            {hasRequiredSecrets
-                              ? "All required secrets configured"
-                              : `Requires: ${env.requiredSecrets.join(", ")}`}
+            <hr className="mb-6 border-gray-200 dark:border-gray-700" />
+            <div className="mb-4 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  Details
+                </h2>
+                {(() => {
+                  const currentEnv = KNOWN_ENVIRONMENTS.find(
+                    (env) => env.id === selectedEnvironment
+                  );
+                  if (currentEnv && currentEnv.requiredSecrets.length > 0) {
+                    const missingSecrets = currentEnv.requiredSecrets.filter(
+                      (secret) => !profile.secrets[secret]
+                    );
+                    if (missingSecrets.length > 0) {
+                      return (
+                        <div className="flex items-center gap-1 rounded-md border border-amber-200 bg-amber-50 px-2 py-1 dark:border-amber-800 dark:bg-amber-900/20">
+                          <i className="fas fa-exclamation-triangle text-xs text-amber-600 dark:text-amber-400"></i>
+                          <span className="text-xs font-medium text-amber-700 dark:text-amber-300">
+                            {missingSecrets.length} missing
                           </span>
                         </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
+                      );
+                    }
+                  }
+
+                  // Check if Docker image is empty or default
+                  if (profile.image === "ubuntu:latest") {
+                    return (
+                      <div className="flex items-center gap-1 rounded-md border border-blue-200 bg-blue-50 px-2 py-1 dark:border-blue-800 dark:bg-blue-900/20">
+                        <i className="fas fa-info-circle text-xs text-blue-600 dark:text-blue-400"></i>
+                        <span className="text-xs font-medium text-blue-700 dark:text-blue-300">
+                          Needs setup
+                        </span>
+                      </div>
+                    );
+                  }
 
-        <hr className="mb-6 border-gray-200 dark:border-gray-700" />
-        <div className="mb-4 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-              Details
-            </h2>
-            {(() => {
-              const currentEnv = KNOWN_ENVIRONMENTS.find(
-                (env) => env.id === selectedEnvironment
-              );
-              if (currentEnv && currentEnv.requiredSecrets.length > 0) {
-                const missingSecrets = currentEnv.requiredSecrets.filter(
-                  (secret) => !dockerConfig.secrets[secret]
-                );
-                if (missingSecrets.length > 0) {
                   return (
-                    <div className="flex items-center gap-1 rounded-md border border-amber-200 bg-amber-50 px-2 py-1 dark:border-amber-800 dark:bg-amber-900/20">
-                      <i className="fas fa-exclamation-triangle text-xs text-amber-600 dark:text-amber-400"></i>
-                      <span className="text-xs font-medium text-amber-700 dark:text-amber-300">
-                        {missingSecrets.length} missing
+                    <div className="flex items-center gap-1 rounded-md border border-green-200 bg-green-50 px-2 py-1 dark:border-green-800 dark:bg-green-900/20">
+                      <i className="fas fa-check-circle text-xs text-green-600 dark:text-green-400"></i>
+                      <span className="text-xs font-medium text-green-700 dark:text-green-300">
+                        Ready
                       </span>
                     </div>
                   );
-                }
-              }
-
-              // Check if Docker image is empty or default
-              if (
-                !dockerConfig.image ||
-                dockerConfig.image === "ubuntu:latest"
-              ) {
-                return (
-                  <div className="flex items-center gap-1 rounded-md border border-blue-200 bg-blue-50 px-2 py-1 dark:border-blue-800 dark:bg-blue-900/20">
-                    <i className="fas fa-info-circle text-xs text-blue-600 dark:text-blue-400"></i>
-                    <span className="text-xs font-medium text-blue-700 dark:text-blue-300">
-                      Needs setup
-                    </span>
-                  </div>
-                );
-              }
-
-              return (
-                <div className="flex items-center gap-1 rounded-md border border-green-200 bg-green-50 px-2 py-1 dark:border-green-800 dark:bg-green-900/20">
-                  <i className="fas fa-check-circle text-xs text-green-600 dark:text-green-400"></i>
-                  <span className="text-xs font-medium text-green-700 dark:text-green-300">
-                    Ready
-                  </span>
-                </div>
-              );
-            })()}
-          </div>
-          <button
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="text-gray-600 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
-          >
-            {isExpanded ? (
-              <i className="fas fa-chevron-up"></i>
-            ) : (
-              <i className="fas fa-chevron-down"></i>
-            )}
-          </button>
-        </div>
-
-        {/* Docker Configuration */}
-        <div className={`space-y-6 ${isExpanded ? "block" : "hidden"}`}>
-          {/* Docker Image */}
-          <div>
-            <label
-              htmlFor="docker-image"
-              className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
-            >
-              Docker Image
-            </label>
-            <div className="flex items-center gap-2">
-              <input
-                type="text"
-                id="docker-image"
-                value={dockerConfig.image}
-                onChange={(e) => {
-                  const newImage = e.target.value;
-                  setDockerConfig((prev) => ({
-                    ...prev,
-                    image: newImage,
-                  }));
-
-                  // Update selected environment when image changes
-                  const matchingEnv = KNOWN_ENVIRONMENTS.find(
-                    (env) => env.image === newImage
-                  );
-                  if (matchingEnv) {
-                    setSelectedEnvironment(matchingEnv.id);
-                  } else {
-                    setSelectedEnvironment("custom");
-                  }
-                }}
-                className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
-                placeholder="docker/image:tag"
-              />
-              {/* Subtle auto-save status indicator positioned better */}
-              <div className="flex h-6 w-6 items-center justify-center">
-                {dockerAutoSave.isAutoSaving && (
-                  <div
-                    className="h-1.5 w-1.5 animate-pulse rounded-full bg-blue-400"
-                    title="Saving..."
-                  ></div>
-                )}
-
-                {dockerAutoSave.hasUnsavedChanges &&
-                !dockerAutoSave.isAutoSaving ? (
-                  <div
-                    className="h-1.5 w-1.5 animate-pulse rounded-full bg-amber-400"
-                    title="Pending save..."
-                  ></div>
+                })()}
+              </div>
+              <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="text-gray-600 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+              >
+                {isExpanded ? (
+                  <i className="fas fa-chevron-up"></i>
                 ) : (
-                  !dockerAutoSave.isAutoSaving &&
-                  dockerAutoSave.lastSaved && (
-                    <div
-                      className="h-1.5 w-1.5 rounded-full bg-green-400 opacity-50"
-                      title="Saved"
-                    ></div>
-                  )
+                  <i className="fas fa-chevron-down"></i>
                 )}
-              </div>
+              </button>
             </div>
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              Specify the Docker image to use for job execution
-            </p>
-
-            {/* Show environment-specific notes */}
-            {(() => {
-              const currentEnv = KNOWN_ENVIRONMENTS.find(
-                (env) => env.id === selectedEnvironment
-              );
-              if (
-                currentEnv &&
-                currentEnv.notes &&
-                dockerConfig.image === currentEnv.image
-              ) {
-                return (
-                  <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">
-                    Note: {currentEnv.notes.info}
-                    {currentEnv.notes.link && (
-                      <>
-                        {" "}
-                        <a
-                          href={currentEnv.notes.link}
-                          className="text-blue-600 hover:underline dark:text-blue-400"
-                          target="_blank"
-                          rel="noopener noreferrer"
-                        >
-                          {currentEnv.notes.link.replace(
-                            "https://github.com/",
-                            ""
-                          )}
-                        </a>
-                      </>
-                    )}
-                  </p>
-                );
-              }
-              return null;
-            })()}
-          </div>
-
-          {/* Prompt Template */}
-          <div className="mt-6">
-            <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Prompt Template
-            </label>
-            <input
-              type="text"
-              value={templateText}
-              onChange={(e) => {
-                setTemplateText(e.target.value);
-                setToLocalStorage(
-                  STORAGE_KEYS.templateText,
-                  e.target.value,
-                  true
-                );
-                onConfigChange?.(); // Notify parent of template change
-              }}
-              placeholder="Enter instruction to append to all prompts (leave empty to disable)"
-              className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
-            />
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              This instruction will be automatically appended to all task
-              prompts when not empty
-            </p>
-          </div>
-
-          {/* Environment Variables */}
-          <div className="mt-6">
-            <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Environment Variables
-            </label>
-            <div className="space-y-2">
-              {Object.entries(dockerConfig.environment).map(([key, value]) => (
-                <div key={key} className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={key}
-                    disabled
-                    className="w-1/3 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
-                  />
+
+            {/* Docker Configuration */}
+            <div className={`space-y-6 ${isExpanded ? "block" : "hidden"}`}>
+              {/* Docker Image */}
+              <div>
+                <label
+                  htmlFor="docker-image"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Docker Image
+                </label>
+                <div className="flex items-center gap-2">
                   <input
                     type="text"
-                    value={value}
-                    disabled
-                    className="flex-1 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
+                    id="docker-image"
+                    value={profile.image}
+                    onChange={(e) => {
+                      const newImage = e.target.value;
+                      setProfile((prev) => ({
+                        ...prev,
+                        image: newImage,
+                      }));
+
+                      // Update selected environment when image changes
+                      const matchingEnv = KNOWN_ENVIRONMENTS.find(
+                        (env) => env.image === newImage
+                      );
+                      if (matchingEnv) {
+                        setSelectedEnvironment(matchingEnv.id);
+                      } else {
+                        setSelectedEnvironment("custom");
+                      }
+                    }}
+                    className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                    placeholder="Repository's .hugex.yml image, or the server default"
                   />
-                  <button
-                    onClick={() => removeEnvironmentVariable(key)}
-                    className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
-                  >
-                    <i className="fas fa-trash"></i>
-                  </button>
+                  {/* Subtle auto-save status indicator positioned better */}
+                  <div className="flex h-6 w-6 items-center justify-center">
+                    {profileAutoSave.isAutoSaving && (
+                      <div
+                        className="h-1.5 w-1.5 animate-pulse rounded-full bg-blue-400"
+                        title="Saving..."
+                      ></div>
+                    )}
+
+                    {profileAutoSave.hasUnsavedChanges &&
+                    !profileAutoSave.isAutoSaving ? (
+                      <div
+                        className="h-1.5 w-1.5 animate-pulse rounded-full bg-amber-400"
+                        title="Pending save..."
+                      ></div>
+                    ) : (
+                      !profileAutoSave.isAutoSaving &&
+                      profileAutoSave.lastSaved && (
+                        <div
+                          className="h-1.5 w-1.5 rounded-full bg-green-400 opacity-50"
+                          title="Saved"
+                        ></div>
+                      )
+                    )}
+                  </div>
                 </div>
-              ))}
-              <div className="flex items-center gap-2">
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Specify the Docker image to use for job execution. Leave it
+                  empty to use the image of the repository&apos;s .hugex.yml
+                </p>
+
+                {/* Show environment-specific notes */}
+                {(() => {
+                  const currentEnv = KNOWN_ENVIRONMENTS.find(
+                    (env) => env.id === selectedEnvironment
+                  );
+                  if (
+                    currentEnv &&
+                    currentEnv.notes &&
+                    profile.image === currentEnv.image
+                  ) {
+                    return (
+                      <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">
+                        Note: {currentEnv.notes.info}
+                        {currentEnv.notes.link && (
+                          <>
+                            {" "}
+                            <a
+                              href={currentEnv.notes.link}
+                              className="text-blue-600 hover:underline dark:text-blue-400"
+                              target="_blank"
+                              rel="noopener noreferrer"
+                            >
+                              {currentEnv.notes.link.replace(
+                                "https://github.com/",
+                                ""
+                              )}
+                            </a>
+                          </>
+                        )}
+                      </p>
+                    );
+                  }
+                  return null;
+                })()}
+              </div>
+
+              {/* Profile Name */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-name"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Profile Name
+                </label>
                 <input
                   type="text"
-                  value={newEnvKey}
-                  onChange={(e) => setNewEnvKey(e.target.value)}
-                  placeholder="KEY"
-                  className="w-1/3 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                  id="profile-name"
+                  value={profile.name}
+                  onChange={(e) =>
+                    setProfile((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
                 />
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={profile.isDefault}
+                    onChange={(e) =>
+                      setProfile((prev) => ({
+                        ...prev,
+                        isDefault: e.target.checked,
+                      }))
+                    }
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  Use for repositories no other profile lists
+                </label>
+              </div>
+
+              {/* Repositories */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-repositories"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Repositories
+                </label>
                 <input
                   type="text"
-                  value={newEnvValue}
-                  onChange={(e) => setNewEnvValue(e.target.value)}
-                  placeholder="Value"
-                  className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                  id="profile-repositories"
+                  value={repositoriesText}
+                  onChange={(e) => handleRepositoriesChange(e.target.value)}
+                  placeholder="owner/repo, owner/other-repo"
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
                 />
-                <button
-                  onClick={addEnvironmentVariable}
-                  disabled={!newEnvKey.trim() || !newEnvValue.trim()}
-                  className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Jobs for these repositories run with this profile
+                </p>
+              </div>
+
+              {/* Setup and verify commands */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-setup"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
                 >
-                  <i className="fas fa-plus"></i>
-                </button>
+                  Setup Commands
+                </label>
+                <textarea
+                  id="profile-setup"
+                  rows={3}
+                  value={commandsText.setup}
+                  onChange={(e) =>
+                    handleCommandsChange("setup", e.target.value)
+                  }
+                  placeholder="npm ci"
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-sm text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                />
+                <label
+                  htmlFor="profile-verify"
+                  className="mb-2 mt-4 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Verify Commands
+                </label>
+                <textarea
+                  id="profile-verify"
+                  rows={3}
+                  value={commandsText.verify}
+                  onChange={(e) =>
+                    handleCommandsChange("verify", e.target.value)
+                  }
+                  placeholder={"npm run lint\nnpm test"}
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-sm text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                />
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={profile.failOnVerify}
+                    onChange={(e) =>
+                      setProfile((prev) => ({
+                        ...prev,
+                        failOnVerify: e.target.checked,
+                      }))
+                    }
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  Fail the job when a verify command fails
+                </label>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  One command per line, run in the repository checkout before
+                  and after the agent. Leave empty to use the repository&apos;s
+                  .hugex.yml
+                </p>
               </div>
-            </div>
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              Add custom environment variables for the Docker container
-            </p>
-          </div>
-
-          {/* Secrets */}
-          <div className="mt-6">
-            <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Secrets
-            </label>
-
-            {/* Quick Add Common Secrets */}
-            {/* <div className="mb-3 flex flex-wrap gap-2">
+
+              {/* Network policy */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-network"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Network Access
+                </label>
+                <select
+                  id="profile-network"
+                  value={profile.network.mode}
+                  onChange={(e) =>
+                    setProfile((prev) => ({
+                      ...prev,
+                      network: {
+                        ...prev.network,
+                        mode: e.target.value as NetworkMode,
+                      },
+                    }))
+                  }
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value="open">
+                    Open - unrestricted internet access
+                  </option>
+                  <option value="allowlist">
+                    Allowlist - only the hosts below, through a proxy
+                  </option>
+                  <option value="none">None - no network at all</option>
+                </select>
+                {profile.network.mode !== "none" && (
+                  <textarea
+                    rows={3}
+                    value={allowedHostsText}
+                    onChange={(e) => handleAllowedHostsChange(e.target.value)}
+                    placeholder={"registry.npmjs.org\n*.pypi.org"}
+                    aria-label={
+                      profile.network.mode === "allowlist"
+                        ? "Allowed hosts"
+                        : "Expected hosts"
+                    }
+                    className="mt-2 w-full rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-sm text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                  />
+                )}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Applies to Docker jobs. Allowlisted jobs only reach these
+                  hosts, open jobs have requests to other hosts flagged in their
+                  egress log. The repository&apos;s host and the server&apos;s
+                  model endpoints are always included. Without network, the
+                  image must bring the repository and everything the agent
+                  needs.
+                </p>
+              </div>
+
+              {/* Container hardening */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-hardening"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Container Hardening
+                </label>
+                <select
+                  id="profile-hardening"
+                  value={profile.hardening}
+                  onChange={(e) =>
+                    setProfile((prev) => ({
+                      ...prev,
+                      hardening: e.target.value as HardeningPreset,
+                    }))
+                  }
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value="permissive">
+                    Permissive - Docker&apos;s defaults
+                  </option>
+                  <option value="standard">
+                    Standard - minimal capabilities, no privilege escalation,
+                    process limits
+                  </option>
+                  <option value="strict">
+                    Strict - no capabilities, non-root, read-only root
+                    filesystem, workspace quota
+                  </option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Applies to Docker jobs. Strict containers can only write to
+                  /workspace and /tmp, so the image must work as a non-root user
+                  without installing system packages. The settings a job ran
+                  with are shown on its page.
+                </p>
+              </div>
+
+              {/* Secret delivery */}
+              <div className="mt-6">
+                <label
+                  htmlFor="profile-secret-delivery"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Secret Delivery
+                </label>
+                <select
+                  id="profile-secret-delivery"
+                  value={profile.secretDelivery}
+                  onChange={(e) =>
+                    setProfile((prev) => ({
+                      ...prev,
+                      secretDelivery: e.target.value as SecretDelivery,
+                    }))
+                  }
+                  className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value="env">Environment variables</option>
+                  <option value="files">
+                    Files - on a tmpfs, removed once the agent read them
+                  </option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Applies to Docker jobs. Files keep secrets out of docker
+                  inspect and the environment of the agent&apos;s processes. The
+                  image must declare support for them in its
+                  hugex.agent-manifest label.
+                </p>
+              </div>
+
+              {/* Resources */}
+              <div className="mt-6">
+                <p className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Resource Limits
+                </p>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={profile.resources.memoryMb ?? ""}
+                    onChange={(e) =>
+                      handleResourceChange("memoryMb", e.target.value)
+                    }
+                    placeholder="Memory (MB)"
+                    className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={profile.resources.cpuShares ?? ""}
+                    onChange={(e) =>
+                      handleResourceChange("cpuShares", e.target.value)
+                    }
+                    placeholder="CPU shares"
+                    className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Applied in Docker mode, leave empty for the server defaults
+                </p>
+              </div>
+
+              {/* Environment Variables */}
+              <div className="mt-6">
+                <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Environment Variables
+                </label>
+                <div className="space-y-2">
+                  {Object.entries(profile.environment).map(([key, value]) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={key}
+                        disabled
+                        className="w-1/3 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
+                      />
+                      <input
+                        type="text"
+                        value={value}
+                        disabled
+                        className="flex-1 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
+                      />
+                      <button
+                        onClick={() => removeEnvironmentVariable(key)}
+                        className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={newEnvKey}
+                      onChange={(e) => setNewEnvKey(e.target.value)}
+                      placeholder="KEY"
+                      className="w-1/3 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                    />
+                    <input
+                      type="text"
+                      value={newEnvValue}
+                      onChange={(e) => setNewEnvValue(e.target.value)}
+                      placeholder="Value"
+                      className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                    />
+                    <button
+                      onClick={addEnvironmentVariable}
+                      disabled={!newEnvKey.trim() || !newEnvValue.trim()}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                    >
+                      <i className="fas fa-plus"></i>
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Add custom environment variables for the Docker container
+                </p>
+              </div>
+
+              {/* Secrets */}
+              <div className="mt-6">
+                <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Secrets
+                </label>
+
+                {/* Quick Add Common Secrets */}
+                {/* <div className="mb-3 flex flex-wrap gap-2">
                       {[
                         { key: 'OPENAI_API_KEY', placeholder: 'sk-...', icon: 'fas fa-brain' },
                         { key: 'ANTHROPIC_API_KEY', placeholder: 'sk-ant-...', icon: 'fas fa-robot' },
                         { key: 'GITHUB_TOKEN', placeholder: 'ghp_...', icon: 'fab fa-github' },
                       ].map(({ key, placeholder, icon }) => (
-                        !dockerConfig.secrets[key] && (
+                        !profile.secrets[key] && (
                           <button
                             key={key}
                             onClick={() => {
@@ -726,89 +1191,147 @@ export const ConfigurationPanel = ({
                       ))}
                     </div> */}
 
-            <div className="space-y-2">
-              {Object.entries(dockerConfig.secrets).map(([key, value]) => (
-                <div key={key} className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={key}
-                    disabled
-                    className="w-1/3 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
-                  />
-                  <input
-                    type="password"
-                    value="••••••••"
-                    disabled
-                    className="flex-1 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
-                  />
-                  <button
-                    onClick={() => removeSecret(key)}
-                    className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
-                  >
-                    <i className="fas fa-trash"></i>
-                  </button>
+                <div className="space-y-2">
+                  {Object.entries(profile.secrets).map(([key, value]) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={key}
+                        disabled
+                        className="w-1/3 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
+                      />
+                      <input
+                        type="text"
+                        value={value}
+                        disabled
+                        className="flex-1 rounded-md border border-gray-300 bg-gray-100 px-3 py-2 font-mono text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-600 dark:text-gray-100"
+                      />
+                      {!getReferencedNames(value).every((name) =>
+                        vaultSecretNames.includes(name)
+                      ) && (
+                        <i
+                          className="fas fa-exclamation-triangle text-amber-500"
+                          title="Not in the secret vault"
+                        ></i>
+                      )}
+                      <button
+                        onClick={() => removeSecret(key)}
+                        className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={newSecretKey}
+                      onChange={(e) => setNewSecretKey(e.target.value)}
+                      placeholder={(() => {
+                        const currentEnv = KNOWN_ENVIRONMENTS.find(
+                          (env) => env.id === selectedEnvironment
+                        );
+                        if (
+                          currentEnv &&
+                          currentEnv.requiredSecrets.length > 0
+                        ) {
+                          const missingRequired =
+                            currentEnv.requiredSecrets.find(
+                              (secret) => !profile.secrets[secret]
+                            );
+                          if (missingRequired) {
+                            return missingRequired;
+                          }
+                        }
+                        return "SECRET_NAME";
+                      })()}
+                      className="w-1/3 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+                    />
+                    <select
+                      value={newSecretName}
+                      onChange={(e) => setNewSecretName(e.target.value)}
+                      className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                    >
+                      <option value="">Vault secret...</option>
+                      {vaultSecretNames.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={addSecret}
+                      disabled={!newSecretKey.trim() || !newSecretName}
+                      className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                    >
+                      <i className="fas fa-plus"></i>
+                    </button>
+                  </div>
                 </div>
-              ))}
-              <div className="flex items-center gap-2">
-                <input
-                  type="text"
-                  value={newSecretKey}
-                  onChange={(e) => setNewSecretKey(e.target.value)}
-                  placeholder={(() => {
-                    const currentEnv = KNOWN_ENVIRONMENTS.find(
-                      (env) => env.id === selectedEnvironment
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Pass secrets from the vault below to the container under these
+                  variable names
+                </p>
+                {(() => {
+                  const currentEnv = KNOWN_ENVIRONMENTS.find(
+                    (env) => env.id === selectedEnvironment
+                  );
+                  if (currentEnv && currentEnv.requiredSecrets.length > 0) {
+                    const missingSecrets = currentEnv.requiredSecrets.filter(
+                      (secret) => !profile.secrets[secret]
                     );
-                    if (currentEnv && currentEnv.requiredSecrets.length > 0) {
-                      const missingRequired = currentEnv.requiredSecrets.find(
-                        (secret) => !dockerConfig.secrets[secret]
+                    if (missingSecrets.length > 0) {
+                      return (
+                        <p className="mt-2 flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                          <i className="fas fa-exclamation-triangle"></i>
+                          {missingSecrets.join(", ")} required for{" "}
+                          {currentEnv.name}
+                        </p>
                       );
-                      if (missingRequired) {
-                        return missingRequired;
-                      }
                     }
-                    return "SECRET_NAME";
-                  })()}
-                  className="w-1/3 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
-                />
-                <input
-                  type="password"
-                  value={newSecretValue}
-                  onChange={(e) => setNewSecretValue(e.target.value)}
-                  placeholder="Secret value"
-                  className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
-                />
-                <button
-                  onClick={addSecret}
-                  disabled={!newSecretKey.trim() || !newSecretValue.trim()}
-                  className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
-                >
-                  <i className="fas fa-plus"></i>
-                </button>
+                  }
+                  return null;
+                })()}
               </div>
             </div>
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              Add sensitive configuration values as secrets
-            </p>
-            {(() => {
-              const currentEnv = KNOWN_ENVIRONMENTS.find(
-                (env) => env.id === selectedEnvironment
+          </>
+        )}
+
+        {/* Secret Vault */}
+        <SecretVault
+          secrets={vaultSecrets}
+          workspaceId={workspaceId}
+          readOnly={readOnly}
+          onChange={() => {
+            loadVaultSecrets();
+            onConfigChange?.();
+          }}
+        />
+
+        {/* Prompt Template */}
+        <div className="mt-6">
+          <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Prompt Template
+          </label>
+          <input
+            type="text"
+            value={templateText}
+            onChange={(e) => {
+              setTemplateText(e.target.value);
+              setToLocalStorage(
+                STORAGE_KEYS.templateText,
+                e.target.value,
+                true
               );
-              if (currentEnv && currentEnv.requiredSecrets.length > 0) {
-                const missingSecrets = currentEnv.requiredSecrets.filter(
-                  (secret) => !dockerConfig.secrets[secret]
-                );
-                if (missingSecrets.length > 0) {
-                  return (
-                    <p className="mt-2 flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
-                      <i className="fas fa-exclamation-triangle"></i>
-                      {missingSecrets.join(", ")} required for {currentEnv.name}
-                    </p>
-                  );
-                }
-              }
-              return null;
-            })()}
-          </div>
+              onConfigChange?.(); // Notify parent of template change
+            }}
+            placeholder="Enter instruction to append to all prompts (leave empty to disable)"
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            This instruction will be automatically appended to all task prompts
+            when not empty
+          </p>
         </div>
       </div>
     </div>
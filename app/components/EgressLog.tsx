@@ -0,0 +1,98 @@
+import type { EgressRecord } from "~/types/job";
+import type { NetworkPolicy } from "~/types/environmentProfile";
+
+interface EgressLogProps {
+  egress: EgressRecord[];
+  network: NetworkPolicy;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Outbound requests of a job's container, as its egress proxy saw them
+export const EgressLog = ({ egress, network }: EgressLogProps) => {
+  const unexpected = egress.filter((record) => record.unexpected);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+        <span>
+          {egress.reduce((total, record) => total + record.requests, 0)}{" "}
+          requests to {new Set(egress.map((record) => record.host)).size} hosts
+        </span>
+        {unexpected.length > 0 && (
+          <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+            <i className="fas fa-exclamation-triangle mr-1"></i>
+            {unexpected.length} to unexpected hosts
+          </span>
+        )}
+      </div>
+      <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs uppercase text-gray-500 dark:bg-gray-800 dark:text-gray-400">
+            <tr>
+              <th className="px-4 py-2">Host</th>
+              <th className="px-4 py-2">Method</th>
+              <th className="px-4 py-2 text-right">Requests</th>
+              <th className="px-4 py-2 text-right">Sent</th>
+              <th className="px-4 py-2 text-right">Received</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {egress.map((record) => (
+              <tr
+                key={`${record.method} ${record.host}`}
+                className={
+                  record.unexpected
+                    ? "bg-amber-50 dark:bg-amber-900/10"
+                    : undefined
+                }
+              >
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <code className="text-gray-900 dark:text-gray-100">
+                      {record.host}
+                    </code>
+                    {record.unexpected && (
+                      <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                        unexpected
+                      </span>
+                    )}
+                    {record.blocked > 0 && (
+                      <span className="rounded bg-red-100 px-1.5 py-0.5 text-xs text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                        {record.blocked === record.requests
+                          ? "blocked"
+                          : `${record.blocked} blocked`}
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-2 font-mono text-xs text-gray-600 dark:text-gray-400">
+                  {record.method}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600 dark:text-gray-400">
+                  {record.requests}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600 dark:text-gray-400">
+                  {formatBytes(record.bytesSent)}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600 dark:text-gray-400">
+                  {formatBytes(record.bytesReceived)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {network.mode === "allowlist"
+          ? "Only allowed hosts were reachable, requests to others were blocked."
+          : "Requests of tools ignoring HTTP_PROXY are not in this log."}{" "}
+        Expected hosts: {network.allowedHosts.join(", ") || "none"}
+      </p>
+    </div>
+  );
+};
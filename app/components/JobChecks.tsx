@@ -0,0 +1,88 @@
+import { useState } from "react";
+import type { JobCheck } from "~/types/job";
+
+interface JobChecksProps {
+  checks: JobCheck[];
+}
+
+const getCheckStatus = (check: JobCheck) =>
+  check.exitCode === undefined
+    ? "skipped"
+    : check.exitCode === 0
+      ? "passed"
+      : "failed";
+
+const STATUS_STYLES = {
+  passed:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  skipped: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400",
+};
+
+// Results of the setup and verify commands a job ran around its agent
+export const JobChecks = ({ checks }: JobChecksProps) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const failed = checks.filter((check) => getCheckStatus(check) === "failed");
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 dark:border-gray-600">
+      <div className="flex items-center justify-between border-b border-gray-200 bg-gray-50 px-4 py-3 dark:border-gray-600 dark:bg-gray-800">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Checks
+        </span>
+        <span
+          className={`rounded px-2 py-0.5 text-xs font-medium ${
+            STATUS_STYLES[failed.length ? "failed" : "passed"]
+          }`}
+        >
+          {failed.length
+            ? `${failed.length} of ${checks.length} failed`
+            : "All passed"}
+        </span>
+      </div>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-600">
+        {checks.map((check, index) => {
+          const status = getCheckStatus(check);
+          return (
+            <li key={index}>
+              <button
+                onClick={() => setExpanded(expanded === index ? null : index)}
+                disabled={!check.output}
+                className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent dark:hover:bg-gray-800"
+              >
+                <span
+                  className={`w-16 rounded px-2 py-0.5 text-center text-xs font-medium ${STATUS_STYLES[status]}`}
+                >
+                  {status}
+                </span>
+                <span className="w-12 text-xs uppercase text-gray-500 dark:text-gray-400">
+                  {check.phase}
+                </span>
+                <code className="flex-1 truncate text-sm text-gray-900 dark:text-gray-100">
+                  {check.command}
+                </code>
+                {status === "failed" && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    exit {check.exitCode}
+                  </span>
+                )}
+                {check.output && (
+                  <i
+                    className={`fas fa-chevron-${
+                      expanded === index ? "up" : "down"
+                    } text-xs text-gray-400`}
+                  ></i>
+                )}
+              </button>
+              {expanded === index && check.output && (
+                <pre className="max-h-96 overflow-auto bg-gray-900 px-4 py-3 font-mono text-xs text-gray-100">
+                  {check.output}
+                </pre>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
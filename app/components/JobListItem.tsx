@@ -32,13 +32,24 @@ interface JobListItemProps {
   onClick: (job: Job) => void;
 }
 
-const StatusBadge = ({ status }: { status: Job["status"] }) => {
+const StatusBadge = ({
+  status,
+  queuePosition,
+}: {
+  status: Job["status"];
+  queuePosition?: number;
+}) => {
   const statusConfig = {
     pending: {
       color:
         "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400",
       text: "Pending",
     },
+    queued: {
+      color:
+        "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400",
+      text: queuePosition ? `Queued #${queuePosition}` : "Queued",
+    },
     running: {
       color: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
       text: "Running",
@@ -52,6 +63,15 @@ const StatusBadge = ({ status }: { status: Job["status"] }) => {
       color: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
       text: "Failed",
     },
+    timed_out: {
+      color:
+        "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400",
+      text: "Timed out",
+    },
+    cancelled: {
+      color: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+      text: "Cancelled",
+    },
   };
 
   const config = statusConfig[status];
@@ -111,7 +131,10 @@ export const JobListItem = ({ job, onClick }: JobListItemProps) => {
                 </div>
               )}
             </div>
-            <StatusBadge status={job.status} />
+            <StatusBadge
+              status={job.status}
+              queuePosition={job.queuePosition}
+            />
           </div>
 
           <p className="mb-2 overflow-hidden text-sm text-gray-600 dark:text-gray-400">
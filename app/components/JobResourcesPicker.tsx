@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { JobResourceLimits, JobResources } from "~/types/job";
+
+interface JobResourcesPickerProps {
+  resources: JobResources;
+  limits: JobResourceLimits;
+  onChange: (resources: JobResources) => void;
+}
+
+const NUMBER_FIELDS: {
+  key: "memoryMb" | "cpuShares" | "timeoutMinutes";
+  label: string;
+  max: Exclude<keyof JobResourceLimits, "flavors">;
+}[] = [
+  { key: "memoryMb", label: "Memory (MB)", max: "maxMemoryMb" },
+  { key: "cpuShares", label: "CPU shares", max: "maxCpuShares" },
+  {
+    key: "timeoutMinutes",
+    label: "Timeout (minutes)",
+    max: "maxTimeoutMinutes",
+  },
+];
+
+// Memory, CPU, timeout and hardware of a new job. Empty fields keep the
+// environment profile's or the server's defaults.
+export const JobResourcesPicker = ({
+  resources,
+  limits,
+  onChange,
+}: JobResourcesPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const summary = [
+    resources.memoryMb && `${resources.memoryMb} MB`,
+    resources.timeoutMinutes && `${resources.timeoutMinutes} min`,
+    resources.flavor,
+  ].filter(Boolean);
+
+  const handleNumberChange = (
+    key: (typeof NUMBER_FIELDS)[number]["key"],
+    value: string
+  ) => {
+    const number = parseInt(value, 10);
+    onChange({ ...resources, [key]: number > 0 ? number : undefined });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 transition-colors hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+      >
+        <i className="fas fa-microchip text-xs text-gray-500"></i>
+        <span>{summary.length ? summary.join(" · ") : "Resources"}</span>
+        <i className="fas fa-chevron-down text-xs"></i>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-20 mt-1 w-72 space-y-3 rounded-md border border-gray-200 bg-white p-4 shadow-lg dark:border-gray-700 dark:bg-gray-800">
+          {NUMBER_FIELDS.map(({ key, label, max }) => (
+            <label key={key} className="block text-sm">
+              <span className="mb-1 block text-gray-700 dark:text-gray-300">
+                {label}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={limits[max]}
+                value={resources[key] ?? ""}
+                onChange={(e) => handleNumberChange(key, e.target.value)}
+                placeholder={`Default, at most ${limits[max]}`}
+                className="w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+              />
+            </label>
+          ))}
+          <label className="block text-sm">
+            <span className="mb-1 block text-gray-700 dark:text-gray-300">
+              Hardware (Hugging Face jobs)
+            </span>
+            <select
+              value={resources.flavor ?? ""}
+              onChange={(e) =>
+                onChange({ ...resources, flavor: e.target.value || undefined })
+              }
+              className="w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+            >
+              <option value="">Default</option>
+              {limits.flavors.map((flavor) => (
+                <option key={flavor} value={flavor}>
+                  {flavor}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Larger values are lowered to the server&apos;s maxima. A job running
+            past its timeout is stopped as timed out.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -233,9 +233,13 @@ export function LogStream({ jobId, className = "" }: LogStreamProps) {
                   ? "text-green-600"
                   : status === "failed"
                     ? "text-red-600"
-                    : status === "running"
-                      ? "text-blue-600"
-                      : "text-gray-600"
+                    : status === "timed_out"
+                      ? "text-orange-600"
+                      : status === "cancelled"
+                        ? "text-gray-500"
+                        : status === "running"
+                          ? "text-blue-600"
+                          : "text-gray-600"
               }`}
             >
               {status}
@@ -287,6 +291,20 @@ export function LogStream({ jobId, className = "" }: LogStreamProps) {
           </div>
         )}
 
+        {!isConnected && status === "timed_out" && (
+          <div className="mt-4 rounded border border-orange-500/30 bg-orange-900/20 p-2 text-center text-orange-300">
+            <i className="fas fa-hourglass-end mr-2"></i>
+            Job timed out. Re-run it with a longer timeout to give it more time.
+          </div>
+        )}
+
+        {!isConnected && status === "cancelled" && (
+          <div className="mt-4 rounded border border-gray-500/30 bg-gray-800 p-2 text-center text-gray-300">
+            <i className="fas fa-stop-circle mr-2"></i>
+            Job was cancelled.
+          </div>
+        )}
+
         <div ref={logsEndRef} />
       </div>
 
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { ConfigService } from "~/lib/configService";
+import { secretReference, type SecretInfo } from "~/types/secret";
+
+interface SecretVaultProps {
+  secrets: SecretInfo[];
+  // The workspace whose vault to manage, the user's own otherwise
+  workspaceId?: string;
+  readOnly?: boolean;
+  // Called after a secret was saved or deleted
+  onChange: () => void;
+}
+
+// Secret values are write-only: the server only ever sends back their names
+export const SecretVault: React.FC<SecretVaultProps> = ({
+  secrets,
+  workspaceId,
+  readOnly = false,
+  onChange,
+}) => {
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [repository, setRepository] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await ConfigService.saveSecret(
+        {
+          name: name.trim(),
+          value,
+          repository: repository.trim() || undefined,
+        },
+        workspaceId
+      );
+      setName("");
+      setValue("");
+      setRepository("");
+      onChange();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (secret: SecretInfo) => {
+    if (!confirm(`Delete the secret ${secret.name}?`)) return;
+    setError(null);
+    try {
+      await ConfigService.deleteSecret(secret.id);
+      onChange();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <p className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Secret Vault
+      </p>
+      <div className="space-y-2">
+        {secrets.map((secret) => (
+          <div key={secret.id} className="flex items-center gap-2">
+            <code className="w-1/3 truncate rounded-md bg-gray-100 px-3 py-2 text-sm text-gray-900 dark:bg-gray-600 dark:text-gray-100">
+              {secretReference(secret.name)}
+            </code>
+            <span className="flex-1 truncate text-sm text-gray-500 dark:text-gray-400">
+              {secret.repository || "All repositories"}
+            </span>
+            {!readOnly && (
+              <button
+                onClick={() => handleDelete(secret)}
+                className="rounded-md border border-red-300 px-3 py-2 text-red-300 transition-colors hover:bg-red-50 dark:border-red-800 dark:text-red-900 dark:hover:bg-gray-800"
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            )}
+          </div>
+        ))}
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="SECRET_NAME"
+              className="w-1/3 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+            />
+            <input
+              type="password"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Secret value"
+              autoComplete="new-password"
+              className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+            />
+            <input
+              type="text"
+              value={repository}
+              onChange={(e) => setRepository(e.target.value)}
+              placeholder="owner/name (optional)"
+              className="w-1/4 rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-400"
+            />
+            <button
+              onClick={handleSave}
+              disabled={saving || !name.trim() || !value}
+              className="rounded-md border border-gray-300 px-3 py-2 text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              <i className="fas fa-plus"></i>
+            </button>
+          </div>
+        )}
+      </div>
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Values are encrypted on the server and can&apos;t be read back. Refer to
+        them from profile secrets, or in environment values as{" "}
+        <code>{secretReference("NAME")}</code>. Saving an existing name and
+        repository replaces its value.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  isRoleAtLeast,
+  WORKSPACE_ROLES,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "~/types/workspace";
+
+interface WorkspaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The workspace to manage, or null to create one
+  workspaceId: string | null;
+  // Called after a workspace was created, deleted or left
+  onWorkspaceChange: (workspaceId: string | null) => void;
+}
+
+export const WorkspaceModal: React.FC<WorkspaceModalProps> = ({
+  isOpen,
+  onClose,
+  workspaceId,
+  onWorkspaceChange,
+}) => {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [identities, setIdentities] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [newIdentity, setNewIdentity] = useState("");
+  const [newRole, setNewRole] = useState<WorkspaceRole>("member");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageMembers = !!role && isRoleAtLeast(role, "admin");
+  const isSelf = (member: WorkspaceMember) =>
+    identities.includes(member.identity);
+
+  const loadWorkspace = useCallback(async () => {
+    if (!workspaceId) return;
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to load workspace");
+      }
+      setWorkspace(data.workspace);
+      setRole(data.role);
+      setMembers(data.members);
+      setIdentities(data.identities);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setName("");
+      setWorkspace(null);
+      setRole(null);
+      setMembers([]);
+      loadWorkspace();
+    }
+  }, [isOpen, loadWorkspace]);
+
+  // Run a request against the workspace API, showing its error if it fails
+  const request = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Request failed");
+      }
+      return data;
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await request("/api/workspaces", {
+      method: "POST",
+      body: JSON.stringify({ name: name.trim() }),
+    });
+    if (created) {
+      onWorkspaceChange(created.id);
+      onClose();
+    }
+  };
+
+  const handleSetMember = async (identity: string, memberRole: string) => {
+    const member = await request(`/api/workspaces/${workspaceId}/members`, {
+      method: "POST",
+      body: JSON.stringify({ identity, role: memberRole }),
+    });
+    if (member) {
+      setNewIdentity("");
+      await loadWorkspace();
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!confirm(`Remove ${member.identity} from this workspace?`)) return;
+
+    const removed = await request(
+      `/api/workspaces/${workspaceId}/members/${encodeURIComponent(
+        member.identity
+      )}`,
+      { method: "DELETE" }
+    );
+    if (removed) {
+      await loadWorkspace();
+    }
+  };
+
+  const handleLeave = async (identity: string) => {
+    if (!confirm("Leave this workspace?")) return;
+
+    const left = await request(
+      `/api/workspaces/${workspaceId}/members/${encodeURIComponent(identity)}`,
+      { method: "DELETE" }
+    );
+    if (left) {
+      onWorkspaceChange(null);
+      onClose();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        `Delete "${workspace?.name}"? Members lose access to its jobs and environment.`
+      )
+    ) {
+      return;
+    }
+
+    const deleted = await request(`/api/workspaces/${workspaceId}`, {
+      method: "DELETE",
+    });
+    if (deleted) {
+      onWorkspaceChange(null);
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        role="presentation"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 max-h-[90vh] w-full max-w-xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-gray-200 p-6 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            {workspaceId ? workspace?.name || "Workspace" : "New Workspace"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg
+              className="h-6 w-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="space-y-6 p-6">
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {!workspaceId && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Workspace name, e.g. Platform team"
+                maxLength={100}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Members of a workspace share its jobs and its environment. You
+                become the owner and can add members afterwards.
+              </p>
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim() || saving}
+                className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {saving ? "Creating..." : "Create Workspace"}
+              </button>
+            </div>
+          )}
+
+          {workspaceId && role && (
+            <>
+              {/* Members */}
+              <div>
+                <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Members
+                </h3>
+                <ul className="divide-y divide-gray-200 rounded-md border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+                  {members.map((member) => {
+                    const canEdit =
+                      canManageMembers &&
+                      isRoleAtLeast(role, member.role) &&
+                      !isSelf(member);
+                    return (
+                      <li
+                        key={member.identity}
+                        className="flex items-center justify-between gap-3 p-3 text-sm"
+                      >
+                        <code className="text-gray-900 dark:text-gray-100">
+                          {member.identity}
+                        </code>
+                        <div className="flex items-center gap-3">
+                          {canEdit ? (
+                            <select
+                              value={member.role}
+                              onChange={(e) =>
+                                handleSetMember(member.identity, e.target.value)
+                              }
+                              aria-label={`Role of ${member.identity}`}
+                              className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                            >
+                              {WORKSPACE_ROLES.filter((r) =>
+                                isRoleAtLeast(role, r)
+                              ).map((r) => (
+                                <option key={r} value={r}>
+                                  {r}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-gray-500 dark:text-gray-400">
+                              {member.role}
+                            </span>
+                          )}
+                          {canEdit && (
+                            <button
+                              onClick={() => handleRemoveMember(member)}
+                              className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                              aria-label={`Remove ${member.identity}`}
+                            >
+                              <i className="fas fa-trash"></i>
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              {/* Add member */}
+              {canManageMembers && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Add Member
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={newIdentity}
+                      onChange={(e) => setNewIdentity(e.target.value)}
+                      placeholder="hf:username or github:login"
+                      className="flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                    />
+                    <select
+                      value={newRole}
+                      onChange={(e) =>
+                        setNewRole(e.target.value as WorkspaceRole)
+                      }
+                      aria-label="Role"
+                      className="rounded-md border border-gray-300 bg-white px-2 py-2 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                    >
+                      {WORKSPACE_ROLES.filter((r) =>
+                        isRoleAtLeast(role, r)
+                      ).map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() =>
+                        handleSetMember(newIdentity.trim(), newRole)
+                      }
+                      disabled={!newIdentity.trim() || saving}
+                      className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Viewers see the workspace&apos;s jobs, members also run jobs
+                    in it, admins manage members, cancel jobs and edit the
+                    environment.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between gap-3 border-t border-gray-200 px-6 py-4 dark:border-gray-700">
+          <div className="flex gap-3">
+            {workspaceId && role === "owner" && (
+              <button
+                onClick={handleDelete}
+                disabled={saving}
+                className="rounded-md px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+              >
+                Delete Workspace
+              </button>
+            )}
+            {workspaceId && role && role !== "owner" && (
+              <button
+                onClick={() => {
+                  const own = members.find(isSelf);
+                  if (own) handleLeave(own.identity);
+                }}
+                disabled={saving}
+                className="rounded-md px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+              >
+                Leave Workspace
+              </button>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from "react";
+import type { WorkspaceMembership } from "~/types/workspace";
+
+interface WorkspaceSwitcherProps {
+  workspaces: Pick<WorkspaceMembership, "id" | "name" | "role">[];
+  // null for personal jobs
+  selectedWorkspaceId: string | null;
+  onSelect: (workspaceId: string | null) => void;
+  onManage: () => void;
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  selectedWorkspaceId,
+  onSelect,
+  onManage,
+}) => {
+  return (
+    <div className="flex items-center gap-2">
+      <i className="fas fa-users text-gray-400"></i>
+      <select
+        value={selectedWorkspaceId ?? ""}
+        onChange={(e) => onSelect(e.target.value || null)}
+        aria-label="Workspace"
+        className="rounded-md border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+      >
+        <option value="">Personal</option>
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name} ({workspace.role})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onManage}
+        className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+      >
+        {selectedWorkspaceId ? "Manage" : "New workspace"}
+      </button>
+    </div>
+  );
+};
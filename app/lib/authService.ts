@@ -15,6 +15,8 @@ export interface AuthStatus {
   expiresAt?: Date;
   hfUserInfo?: HFUserInfo;
   githubUserInfo?: GitHubUserInfo;
+  // GitHub accounts linked to the Hugging Face account
+  linkedGithubAccounts?: string[];
 }
 
 export interface HFUserInfo {
@@ -60,6 +62,7 @@ export class AuthService {
         expiresAt: result.expiresAt ? new Date(result.expiresAt) : undefined,
         hfUserInfo: result.hfUserInfo,
         githubUserInfo: result.githubUserInfo,
+        linkedGithubAccounts: result.linkedGithubAccounts || [],
       };
     } catch (error) {
       console.error("Failed to get auth status:", error);
@@ -267,6 +270,46 @@ export class AuthService {
     }
   }
 
+  // End every session of the current user, on all browsers and devices
+  static async logoutEverywhere(): Promise<boolean> {
+    try {
+      const response = await fetch(this.API_ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include", // Include cookies in request
+        body: JSON.stringify({ action: "logout-everywhere" }),
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error("Logout everywhere request failed:", error);
+      return false;
+    }
+  }
+
+  // Link the connected Hugging Face and GitHub accounts, or remove the links
+  static async setAccountsLinked(linked: boolean): Promise<boolean> {
+    try {
+      const response = await fetch(this.API_ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include", // Include cookies in request
+        body: JSON.stringify({
+          action: linked ? "link-accounts" : "unlink-accounts",
+        }),
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error("Account link request failed:", error);
+      return false;
+    }
+  }
+
   // Validate credential format (client-side validation)
   private static validateCredentials(credentials: {
     openaiApiKey?: string;
@@ -106,8 +106,6 @@ export class AutoSaveService {
 
 // Storage keys used throughout the application
 export const STORAGE_KEYS = {
-  dockerConfig: "hugex_docker_config",
-  localSecrets: "hugex_local_secrets",
   templateText: "hugex_template_text",
   selectedRepo: "hugex_selected_repo",
   selectedBranch: "hugex_selected_branch",
@@ -1,15 +1,14 @@
 // Configuration endpoint for repository settings
 import { AuthService } from "./authService";
+import type {
+  EnvironmentProfile,
+  EnvironmentProfileInput,
+} from "~/types/environmentProfile";
+import type { SecretInfo } from "~/types/secret";
 
 export const DEFAULT_TEMPLATE =
   "List the current directory. To complete the user task, make a short actionable todo list for yourself before making changes to the codebase.";
 
-export interface DockerConfig {
-  image: string;
-  environment: Record<string, string>;
-  secrets: Record<string, string>;
-}
-
 export class ConfigService {
   // Use relative URLs since we're now integrated with Remix
 
@@ -152,29 +151,77 @@ export class ConfigService {
     }
   }
 
-  static async getDockerConfig(): Promise<DockerConfig> {
+  // A workspace's profiles when workspaceId is given, otherwise the user's
+  // own, with secret values masked. With a repository, also the profile a
+  // job for it would run with.
+  static async listProfiles(
+    workspaceId?: string,
+    repository?: string
+  ): Promise<{
+    profiles: EnvironmentProfile[];
+    selected: EnvironmentProfile | null;
+  }> {
+    const params = new URLSearchParams();
+    if (workspaceId) params.set("workspace", workspaceId);
+    if (repository) params.set("repository", repository);
+
     try {
-      const response = await this.fetchWithCredentials(`/api/config/docker`);
+      const response = await this.fetchWithCredentials(
+        `/api/profiles?${params}`
+      );
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       return await response.json();
     } catch (error) {
-      console.error("Failed to fetch docker config:", error);
-      // Return default
-      return {
-        image: "drbh/codex-universal-explore:8",
-        environment: {},
-        secrets: {},
-      };
+      console.error("Failed to fetch environment profiles:", error);
+      return { profiles: [], selected: null };
+    }
+  }
+
+  static async createProfile(
+    input: EnvironmentProfileInput,
+    workspaceId?: string
+  ): Promise<EnvironmentProfile> {
+    const url = workspaceId
+      ? `/api/profiles?workspace=${encodeURIComponent(workspaceId)}`
+      : `/api/profiles`;
+    return this.sendProfile(url, "POST", input);
+  }
+
+  static async updateProfile(
+    profileId: string,
+    input: EnvironmentProfileInput
+  ): Promise<EnvironmentProfile> {
+    return this.sendProfile(
+      `/api/profiles/${encodeURIComponent(profileId)}`,
+      "PUT",
+      input
+    );
+  }
+
+  static async deleteProfile(profileId: string): Promise<void> {
+    const response = await this.fetchWithCredentials(
+      `/api/profiles/${encodeURIComponent(profileId)}`,
+      { method: "DELETE" }
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        errorData.error?.message || `HTTP error! status: ${response.status}`
+      );
     }
   }
 
-  static async updateDockerConfig(config: DockerConfig): Promise<DockerConfig> {
+  private static async sendProfile(
+    url: string,
+    method: "POST" | "PUT",
+    input: EnvironmentProfileInput
+  ): Promise<EnvironmentProfile> {
     try {
-      const response = await this.fetchWithCredentials(`/api/config/docker`, {
-        method: "PUT",
-        body: JSON.stringify(config),
+      const response = await this.fetchWithCredentials(url, {
+        method,
+        body: JSON.stringify(input),
       });
 
       if (!response.ok) {
@@ -186,8 +233,66 @@ export class ConfigService {
 
       return await response.json();
     } catch (error) {
-      console.error("Failed to update docker config:", error);
+      console.error("Failed to save environment profile:", error);
       throw error;
     }
   }
+
+  // Names of the vault secrets of a workspace, or the user's own. Values are
+  // never sent back.
+  static async listSecrets(workspaceId?: string): Promise<SecretInfo[]> {
+    try {
+      const response = await this.fetchWithCredentials(
+        this.secretsUrl(workspaceId)
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return (await response.json()).secrets;
+    } catch (error) {
+      console.error("Failed to fetch secrets:", error);
+      return [];
+    }
+  }
+
+  static async saveSecret(
+    secret: { name: string; value: string; repository?: string },
+    workspaceId?: string
+  ): Promise<SecretInfo> {
+    const response = await this.fetchWithCredentials(
+      this.secretsUrl(workspaceId),
+      {
+        method: "POST",
+        body: JSON.stringify(secret),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        errorData.error?.message || `HTTP error! status: ${response.status}`
+      );
+    }
+
+    return await response.json();
+  }
+
+  static async deleteSecret(secretId: string): Promise<void> {
+    const response = await this.fetchWithCredentials(
+      `/api/secrets/${encodeURIComponent(secretId)}`,
+      { method: "DELETE" }
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(
+        errorData.error?.message || `HTTP error! status: ${response.status}`
+      );
+    }
+  }
+
+  private static secretsUrl(workspaceId?: string): string {
+    return workspaceId
+      ? `/api/secrets?workspace=${encodeURIComponent(workspaceId)}`
+      : `/api/secrets`;
+  }
 }
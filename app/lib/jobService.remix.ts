@@ -1,6 +1,15 @@
 import { Job, JobDiff, FileDiff } from "~/types/job";
-import { getJobStore } from "~/lib/server/jobStore";
+import { getJobStore, type JobOwnerFilter } from "~/lib/server/jobStore";
 import { getJobProcessor } from "~/lib/server/jobProcessor";
+import type { BranchPushResult } from "~/lib/server/gitService";
+import { GitHubPullRequestService } from "~/lib/server/githubPullRequestService";
+import {
+  ProtectedPathError,
+  findProtectedPaths,
+} from "~/lib/server/repositoryConfig";
+import type { ApiCredentials } from "~/lib/server/auth";
+import { isDiffRedacted, RedactedDiffError } from "~/lib/server/redaction";
+import { parseIssueMentions } from "~/lib/githubService";
 
 // Server-side job service that uses the jobStore directly
 // This is much more efficient than making HTTP requests within the same process
@@ -15,6 +24,8 @@ export class JobService {
       status?: string;
       search?: string;
       author?: string;
+      ownedBy?: JobOwnerFilter;
+      workspaceId?: string | null;
     } = {}
   ): Promise<{
     jobs: Job[];
@@ -34,6 +45,8 @@ export class JobService {
         status = "all",
         search = "",
         author,
+        ownedBy,
+        workspaceId,
       } = options;
 
       const pageNum = parseInt(String(page));
@@ -45,6 +58,8 @@ export class JobService {
         status: status === "all" ? undefined : status,
         search: search || undefined,
         author: author || undefined,
+        ownedBy,
+        workspaceId,
       });
 
       return result;
@@ -106,6 +121,15 @@ export class JobService {
     }
   }
 
+  static async getChildJobs(jobId: string): Promise<Job[]> {
+    try {
+      return await this.jobStore.getChildJobs(jobId);
+    } catch (error) {
+      console.error("Failed to fetch child jobs:", error);
+      return [];
+    }
+  }
+
   static async getJobDiff(jobId: string): Promise<JobDiff | null> {
     try {
       return await this.jobStore.getJobDiff(jobId);
@@ -145,7 +169,7 @@ export class JobService {
   static async updateJobStatus(
     jobId: string,
     status: Job["status"],
-    changes?: any
+    changes?: Job["changes"]
   ): Promise<Job | null> {
     try {
       return await this.jobStore.updateJobStatus(jobId, status, changes);
@@ -155,6 +179,18 @@ export class JobService {
     }
   }
 
+  static async updateJob(
+    jobId: string,
+    updates: Partial<Job>
+  ): Promise<Job | null> {
+    try {
+      return await this.jobStore.updateJob(jobId, updates);
+    } catch (error) {
+      console.error("Failed to update job:", error);
+      return null;
+    }
+  }
+
   static async deleteJob(jobId: string): Promise<boolean> {
     try {
       return await this.jobStore.deleteJob(jobId);
@@ -258,8 +294,8 @@ export class JobService {
       description: string;
       baseBranch: string;
     },
-    credentials?: any
-  ): Promise<{ branch: string; commitHash: string }> {
+    credentials?: ApiCredentials
+  ): Promise<BranchPushResult> {
     try {
       const job = await this.getJob(jobId);
       const jobDiff = await this.getJobDiff(jobId);
@@ -272,6 +308,21 @@ export class JobService {
         throw new Error("No changes to commit");
       }
 
+      // Pushing would publish the credentials, or the redaction markers
+      if (job.diffRedacted || isDiffRedacted(jobDiff)) {
+        throw new RedactedDiffError();
+      }
+
+      const protectedPaths = findProtectedPaths(
+        job.repositoryConfig,
+        jobDiff.files.flatMap((file) =>
+          file.oldFilename ? [file.filename, file.oldFilename] : [file.filename]
+        )
+      );
+      if (protectedPaths.length) {
+        throw new ProtectedPathError(protectedPaths);
+      }
+
       // Use the job processor to create branch and push changes
       const result = await this.jobProcessor.createBranchAndPush({
         repositoryUrl: job.repository.url,
@@ -290,6 +341,144 @@ export class JobService {
     }
   }
 
+  /**
+   * Push the job's changes to a new branch and open a pull request for it.
+   * Without a GitHub token only the branch is pushed and prUrl points at
+   * GitHub's compare page, so the user can open the pull request themselves.
+   * Throws PatchConflictError when the changes don't apply to the base branch,
+   * RedactedDiffError when they contain credentials, ProtectedPathError when
+   * they touch paths the repository's .hugex.yml protects.
+   */
+  static async createPullRequest(
+    jobId: string,
+    options: {
+      branch: string;
+      title: string;
+      description: string;
+      baseBranch: string;
+      draft?: boolean;
+      labels?: string[];
+      reviewers?: string[];
+      useCodeowners?: boolean;
+    },
+    credentials: ApiCredentials
+  ): Promise<{
+    branch: string;
+    commitHash: string;
+    prUrl: string | null;
+    prNumber?: number;
+    warnings: string[];
+    message: string;
+  }> {
+    const job = await this.getJob(jobId);
+    const jobDiff = await this.getJobDiff(jobId);
+    if (!job || !jobDiff || !job.repository?.url) {
+      throw new Error("Job, diff, or repository not found");
+    }
+
+    const { branch, baseBranch, description, draft = false } = options;
+    const result = await this.createBranchAndPush(
+      jobId,
+      { branch, title: options.title, description, baseBranch },
+      credentials
+    );
+
+    const isGitHub = job.repository.url.includes("github.com");
+
+    // Without a GitHub token, leave opening the PR to the user
+    if (!isGitHub || !credentials.githubToken) {
+      const repoUrl = job.repository.url.replace(/\.git$/, "");
+      return {
+        branch: result.branch,
+        commitHash: result.commitHash,
+        prUrl: isGitHub ? `${repoUrl}/compare/${branch}?expand=1` : null,
+        warnings: [],
+        message: `Successfully created branch '${branch}' and pushed changes. Commit: ${result.commitHash}`,
+      };
+    }
+
+    // Link the issues the prompt referenced so merging closes them
+    const issues =
+      job.referencedIssues ||
+      parseIssueMentions(job.description).map((mention) => mention.number);
+    const closingLines = Array.from(new Set(issues)).map(
+      (issue) => `Closes #${issue}`
+    );
+    const body = [description, closingLines.join("\n")]
+      .filter(Boolean)
+      .join("\n\n");
+
+    // Requested reviewers come on top of the repository's default ones
+    const reviewers: string[] = [];
+    const teamReviewers: string[] = [];
+    for (const reviewer of [
+      ...(options.reviewers || []),
+      ...(job.repositoryConfig?.reviewers || []),
+    ]) {
+      const [name, team] = reviewer.replace(/^@/, "").split("/");
+      if (team) {
+        teamReviewers.push(team);
+      } else {
+        reviewers.push(name);
+      }
+    }
+    if (options.useCodeowners) {
+      try {
+        const owners = await GitHubPullRequestService.getCodeownersReviewers(
+          credentials.githubToken,
+          job.repository.url,
+          baseBranch,
+          jobDiff.files.map((file) => file.filename)
+        );
+        reviewers.push(...owners.users);
+        teamReviewers.push(...owners.teams);
+      } catch (error) {
+        console.warn("⚠️ Could not read CODEOWNERS:", error);
+      }
+    }
+
+    // GitHub refuses review requests to the pull request's author
+    const githubLogin = credentials.githubUserInfo?.username?.toLowerCase();
+    const requestedReviewers = Array.from(new Set(reviewers)).filter(
+      (reviewer) => reviewer.toLowerCase() !== githubLogin
+    );
+
+    // Branches pushed to the user's fork are opened cross-repo
+    const head = result.forkRepository
+      ? `${result.forkRepository.split("/")[0]}:${branch}`
+      : branch;
+
+    const pullRequest = await GitHubPullRequestService.createPullRequest({
+      token: credentials.githubToken,
+      repositoryUrl: job.repository.url,
+      head,
+      base: baseBranch,
+      title: options.title,
+      body,
+      draft,
+      labels: options.labels,
+      reviewers: requestedReviewers,
+      teamReviewers: Array.from(new Set(teamReviewers)),
+    });
+
+    await this.updateJob(jobId, {
+      pullRequest: {
+        number: pullRequest.number,
+        url: pullRequest.url,
+        draft,
+      },
+    });
+
+    return {
+      branch: result.branch,
+      commitHash: result.commitHash,
+      prUrl: pullRequest.url,
+      prNumber: pullRequest.number,
+      warnings: pullRequest.warnings,
+      message: `Opened ${draft ? "draft " : ""}pull request #${pullRequest.number} from '${head}'`,
+    };
+  }
+
   // Statistics and analytics
   static async getJobStats(): Promise<{
     total: number;
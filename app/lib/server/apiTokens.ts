@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from "crypto";
+import serverConfig from "./config";
+import type { ApiCredentials } from "./auth";
+import { getSessionStore, type ApiToken } from "./sessionStore";
+import type { ApiTokenInfo, ApiTokenScope } from "~/types/apiToken";
+
+// Personal API tokens look like hugex_<43 base64url characters>. The prefix
+// tells them apart from Hugging Face and GitHub tokens in Authorization
+// headers, and lets redaction recognize them.
+export const API_TOKEN_PREFIX = "hugex_";
+
+// Characters of the token kept in the clear, to tell tokens apart in the UI
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 4;
+
+// lastUsedAt is only written again after this long, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX);
+}
+
+// Tokens are 32 random bytes, so a fast unsalted hash is enough: there is
+// nothing to guess that would be cheaper than guessing the token
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toApiTokenInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+  };
+}
+
+// Create a token acting with the given credentials. The token is returned
+// once and only its hash is stored.
+export function createApiToken(
+  owner: string,
+  credentials: ApiCredentials,
+  options: { name: string; scopes: ApiTokenScope[]; expiresAt: Date }
+): { token: string; info: ApiTokenInfo } {
+  const store = getSessionStore();
+  const now = new Date();
+  store.deleteExpiredApiTokens(now);
+
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const latestExpiry = now.getTime() + serverConfig.API_TOKENS.MAX_AGE * 1000;
+
+  const apiToken = store.createApiToken({
+    id: randomBytes(8).toString("hex"),
+    tokenHash: hashToken(token),
+    name: options.name,
+    prefix: token.substring(0, DISPLAY_PREFIX_LENGTH),
+    scopes: Array.from(new Set(options.scopes)),
+    owner,
+    credentials,
+    createdAt: now,
+    expiresAt: new Date(Math.min(options.expiresAt.getTime(), latestExpiry)),
+  });
+
+  console.log(`🔑 Created API token ${apiToken.prefix}… for ${owner}`);
+  return { token, info: toApiTokenInfo(apiToken) };
+}
+
+// The stored token matching a presented one, unless it expired or was revoked
+export function verifyApiToken(token: string): ApiToken | null {
+  const store = getSessionStore();
+  const apiToken = store.getApiTokenByHash(hashToken(token));
+  if (!apiToken) return null;
+
+  const now = new Date();
+  if (apiToken.expiresAt <= now) {
+    store.deleteApiToken(apiToken.id, apiToken.owner);
+    return null;
+  }
+
+  if (
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    return store.updateApiToken(apiToken.id, { lastUsedAt: now }) || apiToken;
+  }
+  return apiToken;
+}
+
+export function listApiTokens(owner: string): ApiTokenInfo[] {
+  const now = new Date();
+  return getSessionStore()
+    .listApiTokens(owner)
+    .filter((token) => token.expiresAt > now)
+    .map(toApiTokenInfo);
+}
+
+export function revokeApiToken(owner: string, tokenId: string): boolean {
+  const revoked = getSessionStore().deleteApiToken(tokenId, owner);
+  if (revoked) {
+    console.log(`🔑 Revoked API token ${tokenId} of ${owner}`);
+  }
+  return revoked;
+}
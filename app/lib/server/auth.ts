@@ -1,7 +1,10 @@
-import { redirect } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
 import serverConfig from "./config";
+import { getSession } from "./session";
+import { isApiToken, verifyApiToken } from "./apiTokens";
+import type { ApiTokenScope } from "~/types/apiToken";
 
-interface ApiCredentials {
+export interface ApiCredentials {
   openaiApiKey?: string;
   huggingfaceToken?: string;
   githubToken?: string;
@@ -18,82 +21,62 @@ interface ApiCredentials {
   };
 }
 
+// Credentials of the session the request's cookie refers to. The cookie only
+// carries a signed session id, the tokens themselves stay on the server.
 export function extractCredentialsFromCookie(
   cookieHeader: string | null
 ): ApiCredentials {
-  if (!cookieHeader) {
+  try {
+    const session = getSession(cookieHeader);
+    return session ? { ...session.credentials } : {};
+  } catch (error) {
+    console.error("Failed to read session:", error);
     return {};
   }
+}
 
-  try {
-    // Parse cookies
-    const cookies = parseCookies(cookieHeader);
-
-    // Get the encoded cookie name
-    const encodedCookieName = encodeURIComponent(serverConfig.COOKIE_NAME);
-    const authCookie = cookies[encodedCookieName];
-
-    if (!authCookie) {
-      return {};
-    }
-
-    // console.log("Auth cookie found. Attempting to decode...");
-
-    // Decode the URL encoded cookie value first
-    const decodedCookie = decodeURIComponent(authCookie);
+// Credentials of an API request: those of the personal API token in the
+// Authorization header if there is one, otherwise the session cookie's.
+// Throws a 401 response for an unknown, expired or revoked token and a 403
+// response when the token lacks the scope the route needs.
+export function getRequestCredentials(
+  request: Request,
+  scope: ApiTokenScope
+): ApiCredentials {
+  const bearer = request.headers
+    .get("Authorization")
+    ?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!bearer) {
+    return extractCredentialsFromCookie(request.headers.get("Cookie"));
+  }
 
-    // Then decode the base64 and parse the JSON
-    const cookieData = JSON.parse(
-      Buffer.from(decodedCookie, "base64").toString()
+  const apiToken = isApiToken(bearer) ? verifyApiToken(bearer) : null;
+  if (!apiToken) {
+    throw json(
+      {
+        error: {
+          code: "INVALID_TOKEN",
+          message:
+            "API token is invalid, expired or revoked - create one under API Tokens in the UI",
+        },
+      },
+      { status: 401 }
     );
+  }
 
-    const credentials: ApiCredentials = {};
-
-    if (cookieData.enc) {
-      // Decode the credentials inside the cookie
-      const creds = JSON.parse(
-        Buffer.from(cookieData.enc, "base64").toString()
-      );
-
-      credentials.huggingfaceToken = creds.hf;
-      credentials.githubToken = creds.gh;
-      // OpenAI is no longer stored in cookies
-    }
-
-    // Extract user info if available
-    if (cookieData.hfUserInfo) {
-      try {
-        const userInfo = JSON.parse(
-          Buffer.from(cookieData.hfUserInfo, "base64").toString()
-        );
-        credentials.hfUserInfo = userInfo;
-        // console.log(
-        //   "Successfully extracted HF user info from cookie:",
-        //   userInfo.username
-        // );
-      } catch (err) {
-        console.error("Error parsing HF user info:", err);
-      }
-    }
-
-    // Extract GitHub user info if available
-    if (cookieData.githubUserInfo) {
-      try {
-        const githubUserInfo = JSON.parse(
-          Buffer.from(cookieData.githubUserInfo, "base64").toString()
-        );
-        credentials.githubUserInfo = githubUserInfo;
-      } catch (err) {
-        console.error("Error parsing GitHub user info:", err);
-      }
-    }
-
-    // console.log("Successfully extracted API credentials from cookie");
-    return credentials;
-  } catch (error) {
-    console.error("Failed to parse auth cookie:", error);
-    return {};
+  if (!apiToken.scopes.includes(scope)) {
+    throw json(
+      {
+        error: {
+          code: "INSUFFICIENT_SCOPE",
+          message: `This API token lacks the ${scope} scope`,
+        },
+      },
+      { status: 403 }
+    );
   }
+
+  return { ...apiToken.credentials };
 }
 
 export function requireAuthentication(request: Request): ApiCredentials {
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { ApiCredentials } from "./auth";
+import {
+  canAccessJob,
+  getIdentities,
+  isAdmin,
+  isJobOwner,
+} from "./authorization";
+import { getSessionStore } from "./sessionStore";
+import { getWorkspaceStore } from "./workspaceStore";
+import type { Job } from "~/types/job";
+import type { WorkspaceRole } from "~/types/workspace";
+
+// Stores are in memory and shared by the tests, each test uses its own names
+
+function signedIn(huggingface?: string, github?: string): ApiCredentials {
+  return {
+    hfUserInfo: huggingface ? { username: huggingface } : undefined,
+    githubUserInfo: github ? { username: github } : undefined,
+  };
+}
+
+function makeJob(fields: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    title: "Job",
+    description: "",
+    status: "completed",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  };
+}
+
+function addMember(workspaceId: string, identity: string, role: WorkspaceRole) {
+  const store = getWorkspaceStore();
+  if (!store.getWorkspace(workspaceId)) {
+    store.createWorkspace({
+      id: workspaceId,
+      name: workspaceId,
+      createdAt: new Date(),
+      createdBy: identity,
+    });
+  }
+  store.setMember({ workspaceId, identity, role, addedAt: new Date() });
+}
+
+describe("getIdentities", () => {
+  it("has the identities of both accounts of the credentials", () => {
+    expect(getIdentities(signedIn("ada", "ada-gh"))).toEqual([
+      "hf:ada",
+      "github:ada-gh",
+    ]);
+  });
+
+  it("is empty without any account", () => {
+    expect(getIdentities({})).toEqual([]);
+  });
+
+  it("adds the GitHub accounts linked to the Hugging Face account", () => {
+    getSessionStore().linkAccounts("grace", "grace-gh");
+
+    expect(getIdentities(signedIn("grace"))).toEqual([
+      "hf:grace",
+      "github:grace-gh",
+    ]);
+  });
+
+  it("doesn't follow links through a shared GitHub account", () => {
+    getSessionStore().linkAccounts("linus", "shared-gh");
+    getSessionStore().linkAccounts("mallory", "shared-gh");
+
+    expect(getIdentities(signedIn("linus"))).not.toContain("hf:mallory");
+    expect(getIdentities(signedIn("mallory"))).not.toContain("hf:linus");
+  });
+
+  it("adds the Hugging Face accounts linked to a GitHub account alone", () => {
+    getSessionStore().linkAccounts("barbara", "barbara-gh");
+
+    expect(getIdentities(signedIn(undefined, "barbara-gh"))).toEqual([
+      "github:barbara-gh",
+      "hf:barbara",
+    ]);
+  });
+});
+
+describe("isAdmin", () => {
+  it("is true for identities in ADMIN_USERS only", () => {
+    expect(isAdmin(signedIn("admin"))).toBe(true);
+    expect(isAdmin(signedIn(undefined, "admin"))).toBe(false);
+  });
+});
+
+describe("isJobOwner", () => {
+  it("matches the job's owners by identity, not by name", () => {
+    const job = makeJob({ owners: ["hf:alan"] });
+
+    expect(isJobOwner(signedIn("alan"), job)).toBe(true);
+    expect(isJobOwner(signedIn(undefined, "alan"), job)).toBe(false);
+  });
+
+  it("matches jobs without owners by their author", () => {
+    const job = makeJob({ author: "edsger" });
+
+    expect(isJobOwner(signedIn("edsger"), job)).toBe(true);
+    expect(isJobOwner(signedIn("tony"), job)).toBe(false);
+  });
+
+  it("leaves jobs without owners nor author to admins", () => {
+    const job = makeJob();
+
+    expect(isJobOwner(signedIn("admin"), job)).toBe(true);
+    expect(isJobOwner(signedIn("donald"), job)).toBe(false);
+  });
+});
+
+describe("canAccessJob", () => {
+  it("lets admins read and manage every job, but not run it", () => {
+    const job = makeJob({ owners: ["hf:john"] });
+
+    expect(canAccessJob(signedIn("admin"), job, "read")).toBe(true);
+    expect(canAccessJob(signedIn("admin"), job, "manage")).toBe(true);
+    expect(canAccessJob(signedIn("admin"), job, "run")).toBe(false);
+  });
+
+  it("gives workspace members the access of their role", () => {
+    const job = makeJob({ owners: ["hf:ken"], workspaceId: "ws-access" });
+    addMember("ws-access", "hf:ken", "owner");
+    addMember("ws-access", "hf:viewer", "viewer");
+    addMember("ws-access", "github:member", "member");
+
+    const viewer = signedIn("viewer");
+    expect(canAccessJob(viewer, job, "read")).toBe(true);
+    expect(canAccessJob(viewer, job, "run")).toBe(false);
+
+    const member = signedIn(undefined, "member");
+    expect(canAccessJob(member, job, "run")).toBe(true);
+    expect(canAccessJob(member, job, "manage")).toBe(false);
+  });
+
+  it("refuses users outside the job's workspace", () => {
+    const job = makeJob({ owners: ["hf:dennis"], workspaceId: "ws-closed" });
+    addMember("ws-closed", "hf:dennis", "owner");
+
+    expect(canAccessJob(signedIn("bjarne"), job, "read")).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { json } from "@remix-run/node";
+import serverConfig from "./config";
+import { getEffectiveUsername, type ApiCredentials } from "./auth";
+import { getSessionStore } from "./sessionStore";
+import { getWorkspaceStore } from "./workspaceStore";
+import type { JobOwnerFilter } from "./jobStore";
+import type { Job } from "~/types/job";
+import type { EnvironmentProfile } from "~/types/environmentProfile";
+import type { SecretInfo } from "~/types/secret";
+import { isRoleAtLeast, type WorkspaceRole } from "~/types/workspace";
+
+// Who may see and act on which job. Users are known by identities qualified
+// with their provider, "hf:<username>" and "github:<login>", so a Hugging Face
+// and a GitHub user of the same name are never mistaken for each other. Jobs
+// record the identities of the user who created them in `owners`.
+//
+// A user has the identities of the accounts in their credentials, plus the
+// GitHub accounts they linked to their Hugging Face account from a session
+// holding both. Links are followed one step from the user's own account: a
+// user signed in with Hugging Face gets only the GitHub accounts they linked
+// themselves, never the Hugging Face accounts others linked to the same
+// GitHub account. A user signed in with GitHub alone gets the Hugging Face
+// accounts linked to it. Admins (ADMIN_USERS) may access every
+// job, but only owners may reuse a job's environment or open its PR.
+//
+// Jobs in a workspace are also open to its members, according to their role:
+// viewers may read them, members may also run follow-ups and open PRs, and
+// workspace admins may manage (cancel) them.
+
+function getUsername(identity: string): string {
+  return identity.substring(identity.indexOf(":") + 1);
+}
+
+// Identities of the accounts in the credentials themselves
+export function getOwnIdentities(credentials: ApiCredentials): string[] {
+  return [
+    credentials.hfUserInfo?.username && `hf:${credentials.hfUserInfo.username}`,
+    credentials.githubUserInfo?.username &&
+      `github:${credentials.githubUserInfo.username}`,
+  ].filter((identity): identity is string => !!identity);
+}
+
+export function getIdentities(credentials: ApiCredentials): string[] {
+  const huggingface = credentials.hfUserInfo?.username;
+  const github = credentials.githubUserInfo?.username;
+  if (!huggingface && !github) return [];
+
+  const linked = getSessionStore().getLinkedAccounts(
+    huggingface ? { huggingface } : { github }
+  );
+  return Array.from(
+    new Set([
+      ...getOwnIdentities(credentials),
+      ...linked.huggingface.map((username) => `hf:${username}`),
+      ...linked.github.map((username) => `github:${username}`),
+    ])
+  );
+}
+
+export function isAdmin(credentials: ApiCredentials): boolean {
+  return getOwnIdentities(credentials).some((identity) =>
+    serverConfig.ADMIN_USERS.includes(identity)
+  );
+}
+
+// Author and owners for a job the credentials' user creates
+export function getJobOwnership(
+  credentials: ApiCredentials
+): Pick<Job, "author" | "owners"> {
+  return {
+    author: getEffectiveUsername(credentials),
+    owners: getOwnIdentities(credentials),
+  };
+}
+
+export function isJobOwner(credentials: ApiCredentials, job: Job): boolean {
+  const identities = getIdentities(credentials);
+
+  if (job.owners?.length) {
+    return job.owners.some((owner) => identities.includes(owner));
+  }
+
+  // Jobs created before owners were recorded only have an author. Jobs
+  // without any were never tied to a user, only admins may act on them.
+  if (!job.author) return isAdmin(credentials);
+  return identities.map(getUsername).includes(job.author);
+}
+
+// The user's highest role in a workspace, or null if they aren't a member
+export function getWorkspaceRole(
+  credentials: ApiCredentials,
+  workspaceId: string
+): WorkspaceRole | null {
+  const identities = getIdentities(credentials);
+  let role: WorkspaceRole | null = null;
+
+  for (const member of getWorkspaceStore().listMembers(workspaceId)) {
+    if (
+      identities.includes(member.identity) &&
+      (!role || isRoleAtLeast(member.role, role))
+    ) {
+      role = member.role;
+    }
+  }
+  return role;
+}
+
+// The user's role in a workspace, which must be at least `required`.
+// Throws a JSON 404 for non-members, so they can't probe which workspaces
+// exist, and a 403 for members with a lower role.
+export function requireWorkspaceRole(
+  credentials: ApiCredentials,
+  workspaceId: string,
+  required: WorkspaceRole = "viewer"
+): WorkspaceRole {
+  const role = getWorkspaceRole(credentials, workspaceId);
+
+  if (!role || !getWorkspaceStore().getWorkspace(workspaceId)) {
+    throw json(
+      {
+        error: {
+          code: "WORKSPACE_NOT_FOUND",
+          message: "Workspace not found",
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  if (!isRoleAtLeast(role, required)) {
+    throw json(
+      {
+        error: {
+          code: "FORBIDDEN",
+          message: `This requires the ${required} role in the workspace`,
+        },
+      },
+      { status: 403 }
+    );
+  }
+
+  return role;
+}
+
+// Whether the user may start jobs in a workspace
+export function canRunInWorkspace(
+  credentials: ApiCredentials,
+  workspaceId: string
+): boolean {
+  const role = getWorkspaceRole(credentials, workspaceId);
+  return !!role && isRoleAtLeast(role, "member");
+}
+
+// read: see the job, its logs and diff. run: start work from it (follow-ups,
+// duplicates, pull requests). manage: cancel it.
+export type JobAccess = "read" | "run" | "manage";
+
+const WORKSPACE_ROLE_FOR_ACCESS: Record<JobAccess, WorkspaceRole> = {
+  read: "viewer",
+  run: "member",
+  manage: "admin",
+};
+
+export function canAccessJob(
+  credentials: ApiCredentials,
+  job: Job,
+  access: JobAccess = "read"
+): boolean {
+  if (isJobOwner(credentials, job)) return true;
+  if (access !== "run" && isAdmin(credentials)) return true;
+  if (!job.workspaceId) return false;
+
+  const role = getWorkspaceRole(credentials, job.workspaceId);
+  return !!role && isRoleAtLeast(role, WORKSPACE_ROLE_FOR_ACCESS[access]);
+}
+
+// Store filter for the jobs listed as the user's own
+export function getJobOwnerFilter(credentials: ApiCredentials): JobOwnerFilter {
+  const identities = getIdentities(credentials);
+  return { identities, authors: identities.map(getUsername) };
+}
+
+// Profiles and vault secrets belong to an identity or a workspace. Personal
+// ones are only open to their owner. Workspace ones may be read by every
+// member and changed by workspace admins.
+function canAccessOwnedBy(
+  credentials: ApiCredentials,
+  owner: string,
+  access: "read" | "write"
+): boolean {
+  if (!owner.startsWith("workspace:")) {
+    return getIdentities(credentials).includes(owner);
+  }
+
+  const workspaceId = owner.substring("workspace:".length);
+  const role = getWorkspaceRole(credentials, workspaceId);
+  return !!role && isRoleAtLeast(role, access === "read" ? "viewer" : "admin");
+}
+
+export function canAccessProfile(
+  credentials: ApiCredentials,
+  profile: EnvironmentProfile,
+  access: "read" | "write" = "read"
+): boolean {
+  return canAccessOwnedBy(credentials, profile.owner, access);
+}
+
+// Reading a secret only ever means seeing its name, never its value
+export function canAccessSecret(
+  credentials: ApiCredentials,
+  secret: SecretInfo,
+  access: "read" | "write" = "read"
+): boolean {
+  return canAccessOwnedBy(credentials, secret.owner, access);
+}
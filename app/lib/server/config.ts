@@ -15,14 +15,75 @@ export const serverConfig = {
     TIMEOUT: process.env.DOCKER_TIMEOUT
       ? parseInt(process.env.DOCKER_TIMEOUT)
       : 2 * 60 * 60 * 1000, // 2 hours
+    // Jobs with an allowlist network policy reach the network through a
+    // proxy container of this image, which always lets these hosts through
+    // on top of the profile's ones and the repository's host
+    EGRESS_PROXY_IMAGE:
+      process.env.DOCKER_EGRESS_PROXY_IMAGE || "ubuntu/squid:latest",
+    EGRESS_ALLOWED_HOSTS: (
+      process.env.DOCKER_EGRESS_ALLOWED_HOSTS || "api.openai.com"
+    )
+      .split(",")
+      .map((host) => host.trim())
+      .filter(Boolean),
+    // Containers of profiles with the strict hardening preset run as this
+    // user, with a /workspace tmpfs of this size
+    SANDBOX_USER: process.env.DOCKER_SANDBOX_USER || "1000:1000",
+    WORKSPACE_SIZE_MB: process.env.DOCKER_WORKSPACE_SIZE_MB
+      ? parseInt(process.env.DOCKER_WORKSPACE_SIZE_MB)
+      : 4096,
+  },
+
+  // Jobs may ask for more memory, CPU and time than the defaults, and other
+  // Hugging Face hardware, up to these maxima
+  JOB_LIMITS: {
+    MAX_MEMORY_MB: process.env.JOB_MAX_MEMORY_MB
+      ? parseInt(process.env.JOB_MAX_MEMORY_MB)
+      : 8192,
+    MAX_CPU_SHARES: process.env.JOB_MAX_CPU_SHARES
+      ? parseInt(process.env.JOB_MAX_CPU_SHARES)
+      : 4096,
+    MAX_TIMEOUT_MINUTES: process.env.JOB_MAX_TIMEOUT_MINUTES
+      ? parseInt(process.env.JOB_MAX_TIMEOUT_MINUTES)
+      : 6 * 60,
+    FLAVORS: (process.env.JOB_FLAVORS || "cpu-basic,cpu-upgrade")
+      .split(",")
+      .map((flavor) => flavor.trim())
+      .filter(Boolean),
+  },
+
+  // Job queue limits
+  QUEUE: {
+    MAX_CONCURRENT_JOBS: process.env.JOB_QUEUE_MAX_CONCURRENT
+      ? parseInt(process.env.JOB_QUEUE_MAX_CONCURRENT)
+      : 4,
+    MAX_CONCURRENT_JOBS_PER_USER: process.env.JOB_QUEUE_MAX_CONCURRENT_PER_USER
+      ? parseInt(process.env.JOB_QUEUE_MAX_CONCURRENT_PER_USER)
+      : 2,
+    MAX_QUEUED_JOBS: process.env.JOB_QUEUE_MAX_QUEUED
+      ? parseInt(process.env.JOB_QUEUE_MAX_QUEUED)
+      : 100,
+    MAX_PRIORITY: 10,
+  },
+
+  // Job persistence: 'sqlite' keeps history across restarts, 'memory' is
+  // ephemeral (always the default under NODE_ENV=test)
+  JOB_STORE: {
+    DRIVER:
+      process.env.JOB_STORE_DRIVER ||
+      (process.env.NODE_ENV === "test" ? "memory" : "sqlite"),
+    SQLITE_PATH: process.env.JOB_STORE_SQLITE_PATH || "./data/hugex.db",
   },
 
   // Hugging Face API settings
   HUGGINGFACE_API: {
     BASE_URL: "https://huggingface.co/api/jobs/",
     TIMEOUT_SECONDS: 10 * 60, // 10 minutes
+    FLAVOR: "cpu-basic", // Hardware of jobs that don't pick any
     POLL_INTERVAL: 10000, // 10 seconds
-    MAX_POLL_ATTEMPTS: 3 * 60, // 3*10 minutes total
+    // Polling gives up this long after the job's timeout, for the time the
+    // job waits for hardware
+    POLL_GRACE_MINUTES: 20,
   },
 
   // Repository settings
@@ -34,6 +95,76 @@ export const serverConfig = {
   // Cookie name for authentication
   COOKIE_NAME: "hugex_auth",
 
+  // Sessions live on the server, the cookie holds an HMAC-signed session id.
+  // SESSION_SECRET may list several comma separated secrets: the first signs
+  // new cookies, the others are still accepted so secrets can be rotated.
+  SESSION: {
+    SECRETS: (process.env.SESSION_SECRET || "")
+      .split(",")
+      .map((secret) => secret.trim())
+      .filter(Boolean),
+    MAX_AGE: process.env.SESSION_MAX_AGE
+      ? parseInt(process.env.SESSION_MAX_AGE)
+      : 7 * 24 * 60 * 60, // 7 days, in seconds
+    ROTATE_AFTER: process.env.SESSION_ROTATE_AFTER
+      ? parseInt(process.env.SESSION_ROTATE_AFTER)
+      : 24 * 60 * 60, // 1 day, in seconds
+    DRIVER:
+      process.env.SESSION_STORE_DRIVER ||
+      (process.env.NODE_ENV === "test" ? "memory" : "sqlite"),
+    SQLITE_PATH: process.env.SESSION_STORE_SQLITE_PATH || "./data/sessions.db",
+  },
+
+  // Admins may open and cancel every user's jobs. Entries name an identity,
+  // e.g. ADMIN_USERS=hf:alice,github:bob
+  ADMIN_USERS: (process.env.ADMIN_USERS || "")
+    .split(",")
+    .map((identity) => identity.trim())
+    .filter(Boolean),
+
+  // Workspaces group members who share jobs and environment profiles
+  WORKSPACE_STORE: {
+    DRIVER:
+      process.env.WORKSPACE_STORE_DRIVER ||
+      (process.env.NODE_ENV === "test" ? "memory" : "sqlite"),
+    SQLITE_PATH:
+      process.env.WORKSPACE_STORE_SQLITE_PATH || "./data/workspaces.db",
+  },
+
+  // Environment profiles: the image, variables, secrets and resources jobs
+  // run with
+  PROFILE_STORE: {
+    DRIVER:
+      process.env.PROFILE_STORE_DRIVER ||
+      (process.env.NODE_ENV === "test" ? "memory" : "sqlite"),
+    SQLITE_PATH: process.env.PROFILE_STORE_SQLITE_PATH || "./data/profiles.db",
+  },
+
+  // Secrets are encrypted with the first of the comma separated
+  // SECRET_VAULT_KEY values. The others can still decrypt, so keys can be
+  // rotated: secrets move to the new key when they are saved again.
+  SECRET_VAULT: {
+    KEYS: (process.env.SECRET_VAULT_KEY || "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean),
+  },
+
+  SECRET_STORE: {
+    DRIVER:
+      process.env.SECRET_STORE_DRIVER ||
+      (process.env.NODE_ENV === "test" ? "memory" : "sqlite"),
+    SQLITE_PATH: process.env.SECRET_STORE_SQLITE_PATH || "./data/secrets.db",
+  },
+
+  // Personal API tokens are kept in the session store. They always expire,
+  // at most this long after they were created.
+  API_TOKENS: {
+    MAX_AGE: process.env.API_TOKEN_MAX_AGE
+      ? parseInt(process.env.API_TOKEN_MAX_AGE)
+      : 365 * 24 * 60 * 60, // 1 year, in seconds
+  },
+
   // OAuth2 settings (HuggingFace)
   OAUTH2: {
     PROVIDER_URL: process.env.OPENID_PROVIDER_URL || "https://huggingface.co",
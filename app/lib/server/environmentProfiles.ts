@@ -0,0 +1,383 @@
+import serverConfig from "./config";
+import type { ApiCredentials } from "./auth";
+import { getIdentities, getOwnIdentities } from "./authorization";
+import { getProfileStore } from "./profileStore";
+import { v4 as uuidv4 } from "uuid";
+import type { Job } from "~/types/job";
+import type {
+  EnvironmentProfile,
+  EnvironmentProfileInput,
+  HardeningPreset,
+  NetworkPolicy,
+} from "~/types/environmentProfile";
+import type { SecretDelivery } from "~/types/agentImage";
+import { isSecretReference } from "~/types/secret";
+
+// Environment profiles are picked when a job is created: the one the request
+// names, else the owner's profile listing the job's repository, else the
+// owner's default profile. Workspace jobs only use the workspace's profiles,
+// personal jobs the user's own. The job records the profile, and executors
+// look it up again when the job starts.
+
+// Used when the owner has no profile that applies
+export const BUILTIN_PROFILE_ID = "builtin";
+
+export function getBuiltinProfile(): EnvironmentProfile {
+  return {
+    id: BUILTIN_PROFILE_ID,
+    name: "Default",
+    owner: "",
+    image: "",
+    environment: {},
+    secrets: {},
+    resources: {},
+    setup: [],
+    verify: [],
+    failOnVerify: false,
+    network: { mode: "open", allowedHosts: [] },
+    hardening: "permissive",
+    secretDelivery: "env",
+    repositories: [],
+    isDefault: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+export function getWorkspaceOwner(workspaceId: string): string {
+  return `workspace:${workspaceId}`;
+}
+
+// Owners whose profiles and vault secrets apply to a job, see above
+export function getEnvironmentOwners(
+  credentials: ApiCredentials,
+  workspaceId?: string
+): string[] {
+  return workspaceId
+    ? [getWorkspaceOwner(workspaceId)]
+    : getIdentities(credentials);
+}
+
+// "owner/name" of a GitHub repository URL, or of an "owner/name" string
+export function getRepositoryName(repository: string): string {
+  return repository
+    .replace(/^https:\/\/github\.com\//, "")
+    .replace(/\.git$/, "")
+    .replace(/\/$/, "")
+    .toLowerCase();
+}
+
+export function listProfiles(
+  credentials: ApiCredentials,
+  workspaceId?: string
+): EnvironmentProfile[] {
+  return getProfileStore().listProfiles(
+    getEnvironmentOwners(credentials, workspaceId)
+  );
+}
+
+// The profile a new job runs with. Returns null if profileId names a profile
+// that doesn't apply to the job.
+export function selectProfile(
+  credentials: ApiCredentials,
+  options: { workspaceId?: string; repositoryUrl?: string; profileId?: string }
+): EnvironmentProfile | null {
+  const profiles = listProfiles(credentials, options.workspaceId);
+
+  if (options.profileId) {
+    if (options.profileId === BUILTIN_PROFILE_ID) return getBuiltinProfile();
+    return profiles.find((p) => p.id === options.profileId) || null;
+  }
+
+  const repository =
+    options.repositoryUrl && getRepositoryName(options.repositoryUrl);
+  return (
+    (repository && profiles.find((p) => p.repositories.includes(repository))) ||
+    profiles.find((p) => p.isDefault) ||
+    getBuiltinProfile()
+  );
+}
+
+// The profile a job was created with, over the settings of its repository's
+// .hugex.yml. Jobs from before profiles, and jobs whose profile was deleted
+// since, run with the built-in one.
+export function getJobProfile(
+  job: Pick<Job, "profile" | "repositoryConfig"> | null | undefined
+): EnvironmentProfile {
+  const profileId = job?.profile?.id;
+  const profile =
+    (profileId && getProfileStore().getProfile(profileId)) ||
+    getBuiltinProfile();
+  const config = job?.repositoryConfig;
+
+  return {
+    ...profile,
+    image: profile.image || config?.image || serverConfig.DOCKER.IMAGE,
+    environment: { ...config?.environment, ...profile.environment },
+    setup: profile.setup.length ? profile.setup : config?.setup || [],
+    verify: profile.verify.length ? profile.verify : config?.verify || [],
+  };
+}
+
+export function createProfile(
+  credentials: ApiCredentials,
+  input: EnvironmentProfileInput,
+  workspaceId?: string
+): EnvironmentProfile {
+  const owner = workspaceId
+    ? getWorkspaceOwner(workspaceId)
+    : getOwnIdentities(credentials)[0];
+  const now = new Date();
+
+  const profile = getProfileStore().createProfile({
+    ...input,
+    id: uuidv4(),
+    owner,
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (profile.isDefault) clearOtherDefaults(profile);
+  return profile;
+}
+
+export function updateProfile(
+  profile: EnvironmentProfile,
+  input: EnvironmentProfileInput
+): EnvironmentProfile {
+  const updated = getProfileStore().updateProfile(profile.id, {
+    ...input,
+    updatedAt: new Date(),
+  })!;
+  if (updated.isDefault) clearOtherDefaults(updated);
+  return updated;
+}
+
+// An owner has at most one default profile
+function clearOtherDefaults(profile: EnvironmentProfile) {
+  const store = getProfileStore();
+  for (const other of store.listProfiles([profile.owner])) {
+    if (other.id !== profile.id && other.isDefault) {
+      store.updateProfile(other.id, { isDefault: false });
+    }
+  }
+}
+
+export const DOCKER_IMAGE_PATTERN =
+  /^[a-zA-Z0-9][a-zA-Z0-9_.-]*(?:\/[a-zA-Z0-9][a-zA-Z0-9_.-]*)*(?::[a-zA-Z0-9][a-zA-Z0-9_.-]*)?$/;
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+const MAX_COMMANDS = 20;
+const NETWORK_MODES = ["none", "allowlist", "open"];
+const MAX_ALLOWED_HOSTS = 50;
+const HARDENING_PRESETS = ["permissive", "standard", "strict"];
+const SECRET_DELIVERIES = ["env", "files"];
+export const HOST_PATTERN =
+  /^(?:\*\.)?[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)+$/;
+
+function isVariableMap(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(
+      ([key, v]) => VARIABLE_NAME_PATTERN.test(key) && typeof v === "string"
+    )
+  );
+}
+
+function isCommandList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_COMMANDS &&
+    value.every((command) => typeof command === "string" && command.trim())
+  );
+}
+
+function isNetworkPolicy(value: unknown): value is NetworkPolicy {
+  if (!value || typeof value !== "object") return false;
+  const { mode, allowedHosts } = value as Record<string, unknown>;
+  return (
+    NETWORK_MODES.includes(mode as string) &&
+    Array.isArray(allowedHosts) &&
+    allowedHosts.length <= MAX_ALLOWED_HOSTS &&
+    allowedHosts.every(
+      (host) => typeof host === "string" && HOST_PATTERN.test(host.trim())
+    )
+  );
+}
+
+function isLimit(value: unknown, max: number): boolean {
+  return (
+    value === undefined ||
+    (Number.isInteger(value) &&
+      (value as number) > 0 &&
+      (value as number) <= max)
+  );
+}
+
+// Check a profile sent by the browser, returning the field at fault
+export function validateProfileInput(
+  body: Record<string, unknown>
+):
+  | { input: EnvironmentProfileInput }
+  | { error: { field: string; message: string } } {
+  const {
+    name,
+    image,
+    environment,
+    secrets,
+    setup,
+    verify,
+    failOnVerify,
+    network,
+    hardening,
+    secretDelivery,
+    repositories,
+    isDefault,
+  } = body;
+  const resources = (body.resources ?? {}) as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim() || name.length > 100) {
+    return {
+      error: {
+        field: "name",
+        message: "Name is required and must be between 1-100 characters",
+      },
+    };
+  }
+  // No image leaves it to the repository's .hugex.yml, or DOCKER_IMAGE
+  if (
+    typeof image !== "string" ||
+    (image !== "" && !DOCKER_IMAGE_PATTERN.test(image))
+  ) {
+    return {
+      error: {
+        field: "image",
+        message:
+          "Docker image must be empty or in valid format (e.g., registry/image:tag)",
+      },
+    };
+  }
+  if (environment !== undefined && !isVariableMap(environment)) {
+    return {
+      error: {
+        field: "environment",
+        message: "Environment must map variable names to strings",
+      },
+    };
+  }
+  if (
+    secrets !== undefined &&
+    (!isVariableMap(secrets) ||
+      !Object.values(secrets).every(isSecretReference))
+  ) {
+    return {
+      error: {
+        field: "secrets",
+        message:
+          "Secrets must map variable names to vault references, e.g. ${secrets.NAME}",
+      },
+    };
+  }
+  if (
+    typeof resources !== "object" ||
+    !isLimit(resources.memoryMb, 64 * 1024) ||
+    !isLimit(resources.cpuShares, 1024 * 1024)
+  ) {
+    return {
+      error: {
+        field: "resources",
+        message: "Resource limits must be positive integers",
+      },
+    };
+  }
+  for (const [field, commands] of Object.entries({ setup, verify })) {
+    if (commands !== undefined && !isCommandList(commands)) {
+      return {
+        error: {
+          field,
+          message: `${field} must be a list of at most ${MAX_COMMANDS} commands`,
+        },
+      };
+    }
+  }
+  if (network !== undefined && !isNetworkPolicy(network)) {
+    return {
+      error: {
+        field: "network",
+        message: `Network mode must be one of ${NETWORK_MODES.join(", ")}, with at most ${MAX_ALLOWED_HOSTS} allowed hosts such as registry.npmjs.org or *.example.com`,
+      },
+    };
+  }
+  if (
+    hardening !== undefined &&
+    !HARDENING_PRESETS.includes(hardening as string)
+  ) {
+    return {
+      error: {
+        field: "hardening",
+        message: `Hardening must be one of ${HARDENING_PRESETS.join(", ")}`,
+      },
+    };
+  }
+  if (
+    secretDelivery !== undefined &&
+    !SECRET_DELIVERIES.includes(secretDelivery as string)
+  ) {
+    return {
+      error: {
+        field: "secretDelivery",
+        message: `Secret delivery must be one of ${SECRET_DELIVERIES.join(", ")}`,
+      },
+    };
+  }
+  if (
+    repositories !== undefined &&
+    (!Array.isArray(repositories) ||
+      !repositories.every(
+        (r) =>
+          typeof r === "string" && REPOSITORY_PATTERN.test(getRepositoryName(r))
+      ))
+  ) {
+    return {
+      error: {
+        field: "repositories",
+        message: "Repositories must be a list of owner/name or GitHub URLs",
+      },
+    };
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      image,
+      environment: (environment as Record<string, string>) || {},
+      secrets: (secrets as Record<string, string>) || {},
+      resources: {
+        memoryMb: resources.memoryMb as number | undefined,
+        cpuShares: resources.cpuShares as number | undefined,
+      },
+      setup: ((setup as string[]) || []).map((command) => command.trim()),
+      verify: ((verify as string[]) || []).map((command) => command.trim()),
+      failOnVerify: failOnVerify === true,
+      network: network
+        ? {
+            mode: (network as NetworkPolicy).mode,
+            allowedHosts: Array.from(
+              new Set(
+                (network as NetworkPolicy).allowedHosts.map((host) =>
+                  host.trim().toLowerCase()
+                )
+              )
+            ),
+          }
+        : { mode: "open", allowedHosts: [] },
+      hardening: (hardening as HardeningPreset) || "permissive",
+      secretDelivery: (secretDelivery as SecretDelivery) || "env",
+      repositories: Array.from(
+        new Set(((repositories as string[]) || []).map(getRepositoryName))
+      ),
+      isDefault: isDefault === true,
+    },
+  };
+}
@@ -0,0 +1,429 @@
+import { promises as fs } from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as path from "path";
+import * as os from "os";
+import type { FileDiff, PatchConflict } from "~/types/job";
+import { GitHubTokenService } from "./githubTokenService";
+import type { ApiCredentials } from "./auth";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_ENV = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+
+// Git runs without a shell, so names and paths are never parsed as commands
+function git(args: string[], options: { cwd: string; env: NodeJS.ProcessEnv }) {
+  return execFileAsync("git", args, options);
+}
+
+const MAX_BRANCH_NAME_LENGTH = 255;
+
+// Whether git accepts the name as a branch name. Names starting with a dash
+// would be read as options, "@{-1}" would name another branch.
+export async function isValidBranchName(name: string): Promise<boolean> {
+  if (
+    !name ||
+    name.length > MAX_BRANCH_NAME_LENGTH ||
+    name.startsWith("-") ||
+    name.includes("@{")
+  ) {
+    return false;
+  }
+  try {
+    await execFileAsync("git", ["check-ref-format", "--branch", name], {
+      env: GIT_ENV,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Used when no GitHub identity is connected
+const BOT_IDENTITY = {
+  name: "HugeX Bot",
+  email: "hugex@users.noreply.github.com",
+};
+
+// Thrown when a job's diff doesn't apply cleanly to the base branch. Nothing
+// is committed or pushed in that case.
+export class PatchConflictError extends Error {
+  constructor(public conflicts: PatchConflict[]) {
+    super(
+      `Changes do not apply cleanly to the base branch (${conflicts.length} file${
+        conflicts.length === 1 ? "" : "s"
+      } in conflict)`
+    );
+    this.name = "PatchConflictError";
+  }
+}
+
+export interface BranchPushResult {
+  branch: string;
+  commitHash: string;
+  // "owner/repo" of the fork the branch was pushed to, when the user can't
+  // push to the repository itself
+  forkRepository?: string;
+}
+
+// Git operations on job results. They run on the server, not in the job
+// container, so both executors share them.
+export class GitService {
+  static async createBranchAndPush(options: {
+    repositoryUrl: string;
+    branch: string;
+    baseBranch: string;
+    title: string;
+    description: string;
+    files: FileDiff[];
+    credentials?: ApiCredentials;
+  }): Promise<BranchPushResult> {
+    let tempDir: string | null = null;
+
+    for (const name of [options.branch, options.baseBranch]) {
+      if (!(await isValidBranchName(name))) {
+        throw new Error(`Invalid branch name: ${JSON.stringify(name)}`);
+      }
+    }
+
+    try {
+      console.log(
+        `🌿 Creating branch '${options.branch}' and pushing changes...`
+      );
+
+      // Create temporary directory
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hugex-git-"));
+      console.log(`📁 Created temp directory: ${tempDir}`);
+
+      // Credentials and commit identity are passed through the environment,
+      // so the token never shows up in command lines, remotes or logs
+      const env = {
+        ...(await this.getAuthEnvironment(
+          options.repositoryUrl,
+          options.credentials
+        )),
+        ...this.getIdentityEnvironment(options.credentials),
+      };
+
+      // 1. Shallow, blobless clone of the base branch. Blobs the three-way
+      // merge needs are fetched on demand, even if the base has moved on.
+      console.log(`📌 Cloning repository: ${options.repositoryUrl}`);
+      await git(
+        [
+          "clone",
+          "--depth=1",
+          "--filter=blob:none",
+          "--branch",
+          options.baseBranch,
+          "--",
+          options.repositoryUrl,
+          "repo",
+        ],
+        { cwd: tempDir, env }
+      );
+
+      const repoPath = path.join(tempDir, "repo");
+
+      // 2. Create and checkout new branch
+      console.log(`🌱 Creating branch: ${options.branch}`);
+      await git(["checkout", "-b", options.branch], { cwd: repoPath, env });
+
+      // 3. Apply the diff, refusing to continue on any conflict
+      console.log(`🗏 Applying ${options.files.length} file changes...`);
+      await this.applyPatch(repoPath, tempDir, options.files, env);
+
+      // 4. Stage all changes
+      console.log(`📚 Staging changes...`);
+      await git(["add", "."], { cwd: repoPath, env });
+
+      // Check if there are any changes to commit
+      const { stdout: statusOutput } = await git(["status", "--porcelain"], {
+        cwd: repoPath,
+        env,
+      });
+
+      console.log(`Git status output:`, statusOutput);
+
+      if (!statusOutput.trim()) {
+        // No changes detected - let's create a minimal change to ensure we have something to commit
+        console.log("No changes detected, creating minimal change...");
+
+        // Create a simple marker file to indicate this branch was created by HugeX
+        const markerPath = path.join(repoPath, ".hugex-branch-marker");
+        const markerContent = `Branch created by Hugex\nTimestamp: ${new Date().toISOString()}\nBranch: ${
+          options.branch
+        }\nRepository: ${options.repositoryUrl}\n`;
+        await fs.writeFile(markerPath, markerContent, "utf8");
+
+        // Stage the marker file
+        await git(["add", ".hugex-branch-marker"], { cwd: repoPath, env });
+
+        console.log("Created marker file to ensure non-empty commit");
+      }
+
+      // 5. Commit changes, as the user when their GitHub account is connected.
+      // The message is read from a file to keep it out of the command line.
+      const messagePath = path.join(tempDir, "COMMIT_MSG");
+      await fs.writeFile(
+        messagePath,
+        `${options.title}\n\n${options.description}\n`,
+        "utf8"
+      );
+      console.log(`📝 Committing changes as ${env.GIT_AUTHOR_NAME}...`);
+      await git(["commit", "-F", messagePath], { cwd: repoPath, env });
+
+      // 6. Get commit hash
+      const { stdout: commitHash } = await git(["rev-parse", "HEAD"], {
+        cwd: repoPath,
+        env,
+      });
+
+      // 7. Push branch to origin, or to the user's fork if they can't push
+      const fork = await this.getPushFork(options);
+      let remote = "origin";
+      if (fork) {
+        remote = "fork";
+        await git(["remote", "add", "fork", fork.clone_url], {
+          cwd: repoPath,
+          env,
+        });
+      }
+
+      console.log(`🚀 Pushing branch to ${fork ? fork.full_name : remote}...`);
+      await git(["push", remote, `refs/heads/${options.branch}`], {
+        cwd: repoPath,
+        env,
+      });
+
+      const finalCommitHash = commitHash.trim();
+      console.log(
+        `✅ Successfully created branch '${options.branch}' with commit: ${finalCommitHash}`
+      );
+
+      return {
+        branch: options.branch,
+        commitHash: finalCommitHash,
+        forkRepository: fork?.full_name,
+      };
+    } catch (error) {
+      if (error instanceof PatchConflictError) {
+        console.warn(`⚠️ ${error.message}:`, error.conflicts);
+        throw error;
+      }
+
+      console.error("❌ Failed to create branch and push:", error);
+      throw new Error(`Git operation failed: ${(error as Error).message}`);
+    } finally {
+      // Clean up temporary directory
+      if (tempDir) {
+        try {
+          await fs.rm(tempDir, { recursive: true, force: true });
+          console.log(`🧽 Cleaned up temp directory: ${tempDir}`);
+        } catch (cleanupError) {
+          console.warn(`⚠️ Failed to clean up temp directory: ${cleanupError}`);
+        }
+      }
+    }
+  }
+
+  // Join per-file patches back into one git patch
+  static toPatch(files: FileDiff[]): string {
+    return files.map((file) => file.patch || file.diff).join("\n") + "\n";
+  }
+
+  // Apply the diff with `git apply --3way`: hunks are matched on context and
+  // fall back to a three-way merge with the blobs recorded in the diff.
+  // Throws PatchConflictError listing every file that didn't apply.
+  private static async applyPatch(
+    repoPath: string,
+    tempDir: string,
+    files: FileDiff[],
+    env: NodeJS.ProcessEnv
+  ): Promise<void> {
+    const patchPath = path.join(tempDir, "job.patch");
+    await fs.writeFile(patchPath, this.toPatch(files), "utf8");
+
+    try {
+      await git(
+        ["apply", "--3way", "--index", "--whitespace=nowarn", patchPath],
+        {
+          cwd: repoPath,
+          env,
+        }
+      );
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr || "";
+      throw new PatchConflictError(
+        await this.collectConflicts(repoPath, stderr, env)
+      );
+    }
+  }
+
+  private static async collectConflicts(
+    repoPath: string,
+    stderr: string,
+    env: NodeJS.ProcessEnv
+  ): Promise<PatchConflict[]> {
+    const conflicts = new Map<string, PatchConflict>();
+    const addConflict = (filename: string, reason: string) => {
+      const conflict = conflicts.get(filename);
+      if (conflict) {
+        conflict.reasons.push(reason);
+      } else {
+        conflicts.set(filename, { filename, reasons: [reason] });
+      }
+    };
+
+    // Files where the three-way merge left conflict markers
+    try {
+      const { stdout } = await git(["diff", "--name-only", "--diff-filter=U"], {
+        cwd: repoPath,
+        env,
+      });
+      for (const filename of stdout.split("\n").filter(Boolean)) {
+        addConflict(filename, "Conflicts with changes on the base branch");
+      }
+    } catch (error) {
+      console.warn("⚠️ Could not list conflicted files:", error);
+    }
+
+    // Hunks that failed outright. git also reports hunks here that the
+    // three-way fallback then merged cleanly, those are dropped below.
+    const mergedCleanly = new Set<string>();
+    const otherErrors: string[] = [];
+    for (const line of stderr.split("\n")) {
+      let match = line.match(/^error: patch failed: (.+):(\d+)$/);
+      if (match) {
+        addConflict(match[1], `Hunk at line ${match[2]} does not apply`);
+        continue;
+      }
+
+      match = line.match(
+        /^error: (.+?): (does not exist in index|already exists in .+|does not match index)$/
+      );
+      if (match) {
+        addConflict(match[1], `File ${match[2]}`);
+        continue;
+      }
+
+      match = line.match(/^Applied patch to '(.+)' cleanly\.$/);
+      if (match) {
+        mergedCleanly.add(match[1]);
+        continue;
+      }
+
+      if (line.startsWith("error: ")) {
+        otherErrors.push(line.substring("error: ".length));
+      }
+    }
+
+    for (const filename of mergedCleanly) {
+      const conflict = conflicts.get(filename);
+      if (conflict?.reasons.every((reason) => reason.startsWith("Hunk"))) {
+        conflicts.delete(filename);
+      }
+    }
+
+    // Malformed patch or similar - nothing file-specific to report
+    if (conflicts.size === 0) {
+      addConflict(
+        "(patch)",
+        otherErrors.join("; ") || stderr.trim() || "git apply failed"
+      );
+    }
+
+    return Array.from(conflicts.values());
+  }
+
+  // The user's fork of the repository when their token can read it but not
+  // push to it. Null when pushing to the repository directly.
+  private static async getPushFork(options: {
+    repositoryUrl: string;
+    baseBranch: string;
+    credentials?: ApiCredentials;
+  }): Promise<{ full_name: string; clone_url: string } | null> {
+    const token = options.credentials?.githubToken;
+    if (!token || !options.repositoryUrl.includes("github.com")) {
+      return null;
+    }
+
+    const access = await GitHubTokenService.validateRepositoryAccess(
+      token,
+      options.repositoryUrl
+    );
+    if (!access.canAccess || access.canPush) {
+      return null;
+    }
+
+    console.log("🔒 No push access to repository, pushing to a fork instead");
+    return GitHubTokenService.getOrCreateFork(
+      token,
+      options.repositoryUrl,
+      options.baseBranch
+    );
+  }
+
+  // Git environment that authenticates HTTPS requests to GitHub with the
+  // user's token. The token is sent as an extra HTTP header configured via
+  // GIT_CONFIG_* variables, which git doesn't echo or write to .git/config.
+  private static async getAuthEnvironment(
+    repositoryUrl: string,
+    credentials?: ApiCredentials
+  ): Promise<NodeJS.ProcessEnv> {
+    if (!repositoryUrl.includes("github.com")) {
+      return GIT_ENV;
+    }
+
+    if (!credentials?.githubToken) {
+      console.log(
+        "⚠️ No GitHub token in session - private repositories will fail"
+      );
+      return GIT_ENV;
+    }
+
+    const ephemeral = await GitHubTokenService.createEphemeralToken(
+      credentials.githubToken,
+      repositoryUrl
+    );
+    if (!ephemeral) {
+      throw new Error("Could not obtain a GitHub token for this repository");
+    }
+
+    const basicAuth = Buffer.from(`x-access-token:${ephemeral.token}`).toString(
+      "base64"
+    );
+
+    return {
+      ...GIT_ENV,
+      GIT_CONFIG_COUNT: "1",
+      GIT_CONFIG_KEY_0: "http.https://github.com/.extraheader",
+      GIT_CONFIG_VALUE_0: `Authorization: Basic ${basicAuth}`,
+    };
+  }
+
+  // Commits are authored and committed by the user's GitHub identity. Without
+  // a public email, GitHub's noreply address still links them to the account.
+  private static getIdentityEnvironment(credentials?: ApiCredentials): {
+    GIT_AUTHOR_NAME: string;
+    GIT_AUTHOR_EMAIL: string;
+    GIT_COMMITTER_NAME: string;
+    GIT_COMMITTER_EMAIL: string;
+  } {
+    const githubUser = credentials?.githubUserInfo;
+    const identity = githubUser?.username
+      ? {
+          name: githubUser.name || githubUser.username,
+          email:
+            githubUser.email ||
+            `${githubUser.username}@users.noreply.github.com`,
+        }
+      : BOT_IDENTITY;
+
+    return {
+      GIT_AUTHOR_NAME: identity.name,
+      GIT_AUTHOR_EMAIL: identity.email,
+      GIT_COMMITTER_NAME: identity.name,
+      GIT_COMMITTER_EMAIL: identity.email,
+    };
+  }
+}
@@ -0,0 +1,237 @@
+// Opens pull requests for pushed job branches through the GitHub REST API
+export class GitHubPullRequestService {
+  private static readonly GITHUB_API_BASE = "https://api.github.com";
+
+  // Where GitHub looks for CODEOWNERS, in order of precedence
+  private static readonly CODEOWNERS_PATHS = [
+    ".github/CODEOWNERS",
+    "CODEOWNERS",
+    "docs/CODEOWNERS",
+  ];
+
+  /**
+   * Create a pull request, then apply labels and request reviewers.
+   * Labels and reviewers are best effort: failures are returned as warnings
+   * since the pull request itself already exists at that point.
+   */
+  static async createPullRequest(options: {
+    token: string;
+    repositoryUrl: string;
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+    draft?: boolean;
+    labels?: string[];
+    reviewers?: string[];
+    teamReviewers?: string[];
+  }): Promise<{ number: number; url: string; warnings: string[] }> {
+    const { owner, repo } = this.parseRepositoryUrl(options.repositoryUrl);
+    const warnings: string[] = [];
+
+    const response = await this.request(
+      options.token,
+      `/repos/${owner}/${repo}/pulls`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          title: options.title,
+          body: options.body,
+          head: options.head,
+          base: options.base,
+          draft: !!options.draft,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      const details = error.errors
+        ?.map((e: { message?: string }) => e.message)
+        .filter(Boolean)
+        .join(", ");
+      throw new Error(
+        `GitHub rejected the pull request: ${error.message || response.statusText}${
+          details ? ` (${details})` : ""
+        }`
+      );
+    }
+
+    const pullRequest = await response.json();
+    console.log(
+      `🔀 Opened pull request #${pullRequest.number} on ${owner}/${repo}`
+    );
+
+    if (options.labels?.length) {
+      const labelsResponse = await this.request(
+        options.token,
+        `/repos/${owner}/${repo}/issues/${pullRequest.number}/labels`,
+        { method: "POST", body: JSON.stringify({ labels: options.labels }) }
+      );
+      if (!labelsResponse.ok) {
+        warnings.push(`Could not add labels (${labelsResponse.status})`);
+      }
+    }
+
+    if (options.reviewers?.length || options.teamReviewers?.length) {
+      const reviewersResponse = await this.request(
+        options.token,
+        `/repos/${owner}/${repo}/pulls/${pullRequest.number}/requested_reviewers`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            reviewers: options.reviewers || [],
+            team_reviewers: options.teamReviewers || [],
+          }),
+        }
+      );
+      if (!reviewersResponse.ok) {
+        const error = await reviewersResponse.json().catch(() => ({}));
+        warnings.push(
+          `Could not request reviewers: ${error.message || reviewersResponse.status}`
+        );
+      }
+    }
+
+    return {
+      number: pullRequest.number,
+      url: pullRequest.html_url,
+      warnings,
+    };
+  }
+
+  /**
+   * Owners of the changed files according to the base branch's CODEOWNERS.
+   * Users and teams are returned separately, as GitHub requests them apart.
+   */
+  static async getCodeownersReviewers(
+    token: string,
+    repositoryUrl: string,
+    base: string,
+    filenames: string[]
+  ): Promise<{ users: string[]; teams: string[] }> {
+    const { owner, repo } = this.parseRepositoryUrl(repositoryUrl);
+    const users = new Set<string>();
+    const teams = new Set<string>();
+
+    const codeowners = await this.getCodeownersFile(token, owner, repo, base);
+    if (!codeowners) {
+      return { users: [], teams: [] };
+    }
+
+    const rules = this.parseCodeowners(codeowners);
+
+    for (const filename of filenames) {
+      // The last matching rule takes precedence
+      const rule = [...rules].reverse().find((r) => r.pattern.test(filename));
+      for (const ownerRef of rule?.owners || []) {
+        const teamMatch = ownerRef.match(/^@([^/]+)\/(.+)$/);
+        if (teamMatch) {
+          // Teams can only be requested on repositories of their own org
+          if (teamMatch[1].toLowerCase() === owner.toLowerCase()) {
+            teams.add(teamMatch[2]);
+          }
+        } else if (ownerRef.startsWith("@")) {
+          users.add(ownerRef.substring(1));
+        }
+        // Email owners can't be requested as reviewers through the API
+      }
+    }
+
+    return { users: Array.from(users), teams: Array.from(teams) };
+  }
+
+  private static async getCodeownersFile(
+    token: string,
+    owner: string,
+    repo: string,
+    base: string
+  ): Promise<string | null> {
+    for (const filePath of this.CODEOWNERS_PATHS) {
+      const response = await this.request(
+        token,
+        `/repos/${owner}/${repo}/contents/${filePath}?ref=${encodeURIComponent(base)}`,
+        { headers: { Accept: "application/vnd.github.raw+json" } }
+      );
+      if (response.ok) {
+        return response.text();
+      }
+    }
+    return null;
+  }
+
+  // CODEOWNERS uses gitignore-style patterns followed by owners
+  private static parseCodeowners(
+    content: string
+  ): { pattern: RegExp; owners: string[] }[] {
+    return content
+      .split("\n")
+      .map((line) => line.replace(/#.*$/, "").trim())
+      .filter(Boolean)
+      .map((line) => {
+        const [pattern, ...owners] = line.split(/\s+/);
+        return { pattern: this.pathPatternToRegExp(pattern), owners };
+      });
+  }
+
+  // A CODEOWNERS pattern as a regular expression on file paths. Also used for
+  // the protected paths of .hugex.yml.
+  static pathPatternToRegExp(pattern: string): RegExp {
+    const anchored =
+      pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+    const directory = pattern.endsWith("/");
+    const body = pattern
+      .replace(/^\//, "")
+      .replace(/\/$/, "")
+      .replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, (token) => {
+        switch (token) {
+          case "**/":
+            return "(?:.*/)?";
+          case "**":
+            return ".*";
+          case "*":
+            return "[^/]*";
+          case "?":
+            return "[^/]";
+          default:
+            return `\\${token}`;
+        }
+      });
+
+    const prefix = anchored ? "^" : "(?:^|/)";
+    // A match on a directory covers everything below it, `dir/*` only
+    // covers the files directly inside
+    const suffix = directory ? "/" : pattern.endsWith("*") ? "$" : "(?:$|/)";
+    return new RegExp(`${prefix}${body}${suffix}`);
+  }
+
+  private static parseRepositoryUrl(repositoryUrl: string): {
+    owner: string;
+    repo: string;
+  } {
+    const match = repositoryUrl.match(
+      /github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/
+    );
+    if (!match) {
+      throw new Error(`Not a GitHub repository URL: ${repositoryUrl}`);
+    }
+    return { owner: match[1], repo: match[2] };
+  }
+
+  private static request(
+    token: string,
+    apiPath: string,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    return fetch(`${this.GITHUB_API_BASE}${apiPath}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(init.body && { "Content-Type": "application/json" }),
+        ...init.headers,
+      },
+    });
+  }
+}
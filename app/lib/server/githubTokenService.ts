@@ -1,6 +1,8 @@
 // GitHub token service for creating ephemeral access tokens
 export class GitHubTokenService {
   private static readonly GITHUB_API_BASE = "https://api.github.com";
+  private static readonly FORK_READY_ATTEMPTS = 30;
+  private static readonly FORK_READY_INTERVAL_MS = 2000;
 
   /**
    * Create an ephemeral token for repository access
@@ -70,18 +72,19 @@ export class GitHubTokenService {
   }
 
   /**
-   * Validate that a repository is accessible with the given token
+   * Validate that a repository is accessible with the given token, and
+   * whether the token's user can push to it
    */
   static async validateRepositoryAccess(
     token: string,
     repositoryUrl: string
-  ): Promise<{ canAccess: boolean; isPrivate: boolean }> {
+  ): Promise<{ canAccess: boolean; isPrivate: boolean; canPush: boolean }> {
     try {
       const repoMatch = repositoryUrl.match(
         /github\.com[\/:]([^\/]+)\/([^\/\.]+)/
       );
       if (!repoMatch) {
-        return { canAccess: false, isPrivate: false };
+        return { canAccess: false, isPrivate: false, canPush: false };
       }
 
       const [, owner, repo] = repoMatch;
@@ -102,19 +105,107 @@ export class GitHubTokenService {
         return {
           canAccess: true,
           isPrivate: repoData.private || false,
+          canPush: repoData.permissions?.push || false,
         };
       } else if (response.status === 404) {
         // Could be private repo without access, or non-existent repo
-        return { canAccess: false, isPrivate: true }; // Assume private if not found
+        return { canAccess: false, isPrivate: true, canPush: false }; // Assume private if not found
       } else {
-        return { canAccess: false, isPrivate: false };
+        return { canAccess: false, isPrivate: false, canPush: false };
       }
     } catch (error) {
       console.error("Error validating repository access:", error);
-      return { canAccess: false, isPrivate: false };
+      return { canAccess: false, isPrivate: false, canPush: false };
     }
   }
 
+  /**
+   * Fork a repository into the token user's account, or return the existing
+   * fork. GitHub creates forks asynchronously, so this waits until the fork
+   * can be pushed to, then brings its base branch up to date with upstream.
+   */
+  static async getOrCreateFork(
+    token: string,
+    repositoryUrl: string,
+    baseBranch: string
+  ): Promise<{ full_name: string; owner: string; clone_url: string }> {
+    const repoMatch = repositoryUrl.match(
+      /github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/
+    );
+    if (!repoMatch) {
+      throw new Error(`Invalid GitHub repository URL: ${repositoryUrl}`);
+    }
+
+    const [, owner, repo] = repoMatch;
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+
+    // Returns the existing fork if the user already has one
+    const forkResponse = await fetch(
+      `${this.GITHUB_API_BASE}/repos/${owner}/${repo}/forks`,
+      { method: "POST", headers }
+    );
+    if (!forkResponse.ok) {
+      const error = await forkResponse.json().catch(() => ({}));
+      throw new Error(
+        `Could not fork ${owner}/${repo}: ${
+          error.message || forkResponse.statusText
+        }`
+      );
+    }
+
+    const fork = await forkResponse.json();
+    console.log(`🍴 Using fork ${fork.full_name} of ${owner}/${repo}`);
+
+    // GitHub creates forks asynchronously, wait for the base branch to appear
+    let ready = false;
+    for (let attempt = 0; attempt < this.FORK_READY_ATTEMPTS; attempt++) {
+      const response = await fetch(
+        `${this.GITHUB_API_BASE}/repos/${fork.full_name}/branches/${encodeURIComponent(baseBranch)}`,
+        { headers }
+      );
+      if (response.ok) {
+        ready = true;
+        break;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.FORK_READY_INTERVAL_MS)
+      );
+    }
+    if (!ready) {
+      throw new Error(
+        `Fork ${fork.full_name} is not ready yet: its '${baseBranch}' branch didn't appear within ${
+          (this.FORK_READY_ATTEMPTS * this.FORK_READY_INTERVAL_MS) / 1000
+        } seconds. Try again in a minute.`
+      );
+    }
+
+    // An older fork may be behind upstream. Syncing is best effort, pushing
+    // a branch based on a newer upstream commit works either way.
+    const syncResponse = await fetch(
+      `${this.GITHUB_API_BASE}/repos/${fork.full_name}/merge-upstream`,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ branch: baseBranch }),
+      }
+    );
+    if (!syncResponse.ok) {
+      console.warn(
+        `⚠️ Could not sync ${fork.full_name} with upstream (${syncResponse.status})`
+      );
+    }
+
+    return {
+      full_name: fork.full_name,
+      owner: fork.owner.login,
+      clone_url: fork.clone_url,
+    };
+  }
+
   /**
    * Get repository information including clone URLs
    */
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { JobProcessor } from "./jobProcessor";
+import { getSessionStore } from "./sessionStore";
+import { InMemoryJobStore } from "./stores/InMemoryJobStore";
+import type { Job, JobDiff } from "~/types/job";
+
+// The API executor, whose runs the test resolves itself
+const executor = vi.hoisted(() => ({
+  execute: async (): Promise<unknown> => undefined,
+  reattach: async (): Promise<unknown> => undefined,
+  cancel: async () => {},
+}));
+
+vi.mock("./processors/ApiJobExecutor", () => ({
+  ApiJobExecutor: class {
+    execute = () => executor.execute();
+    reattach = () => executor.reattach();
+    cancel = () => executor.cancel();
+  },
+}));
+
+const emptyDiff: JobDiff = {
+  jobId: "job-1",
+  files: [],
+  summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
+};
+
+describe("JobProcessor", () => {
+  let jobStore: InMemoryJobStore;
+  let processor: JobProcessor;
+
+  async function createJob(status: Job["status"], fields: Partial<Job> = {}) {
+    return jobStore.createJob({
+      id: "job-1",
+      title: "job-1",
+      description: "",
+      status,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      owners: ["hf:alice"],
+      ...fields,
+    });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    jobStore = new InMemoryJobStore();
+    processor = new JobProcessor("api");
+  });
+
+  it("cancels running jobs", async () => {
+    await createJob("running");
+
+    expect((await processor.cancelJob("job-1", jobStore, {}))?.status).toBe(
+      "cancelled"
+    );
+    expect((await jobStore.getJob("job-1"))?.status).toBe("cancelled");
+  });
+
+  it("doesn't cancel a job that finished while it was being cancelled", async () => {
+    const job = await createJob("completed");
+    // Read while the job was still running
+    vi.spyOn(jobStore, "getJob").mockResolvedValueOnce({
+      ...job,
+      status: "running",
+    });
+
+    await expect(processor.cancelJob("job-1", jobStore, {})).rejects.toThrow(
+      /already completed/
+    );
+    expect((await jobStore.getJob("job-1"))?.status).toBe("completed");
+  });
+
+  it("keeps a job cancelled while its result was being stored", async () => {
+    await createJob("pending");
+    executor.execute = async () => ({
+      success: true,
+      output: "done",
+      diff: emptyDiff,
+    });
+    // The cancel lands between the job's result and its final status
+    const setJobDiff = jobStore.setJobDiff.bind(jobStore);
+    vi.spyOn(jobStore, "setJobDiff").mockImplementation(
+      async (...args: Parameters<typeof setJobDiff>) => {
+        await processor.cancelJob("job-1", jobStore, {});
+        return setJobDiff(...args);
+      }
+    );
+
+    await processor.processJob("job-1", jobStore, {});
+    expect((await jobStore.getJob("job-1"))?.status).toBe("cancelled");
+  });
+
+  describe("after a restart", () => {
+    const apiJob = { executionMode: "api", apiJobId: "api-1" } as const;
+
+    it("re-attaches to API jobs with the owner's latest session", async () => {
+      getSessionStore().createSession({
+        id: "session-1",
+        credentials: {
+          hfUserInfo: { username: "alice" },
+          huggingfaceToken: "hf_alice",
+        },
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        rotatedAt: new Date(),
+      });
+      await createJob("running", apiJob);
+      const reattach = vi.spyOn(executor, "reattach").mockResolvedValue({
+        success: true,
+        output: "done",
+        diff: emptyDiff,
+      });
+
+      await processor.reconcileJobs(jobStore);
+      await vi.waitFor(async () =>
+        expect((await jobStore.getJob("job-1"))?.status).toBe("completed")
+      );
+      expect(reattach).toHaveBeenCalled();
+    });
+
+    it("fails API jobs whose owner has no session", async () => {
+      await createJob("running", { ...apiJob, owners: ["hf:bob"] });
+
+      await processor.reconcileJobs(jobStore);
+      const job = await jobStore.getJob("job-1");
+      expect(job?.status).toBe("failed");
+      expect(job?.error).toMatch(/no session/);
+    });
+  });
+});
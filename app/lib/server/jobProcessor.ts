@@ -1,9 +1,25 @@
 import { ApiJobExecutor } from "./processors/ApiJobExecutor";
 import { DockerJobExecutor } from "./processors/DockerJobExecutor";
-import { JobExecutor } from "./processors/JobExecutor";
-import { JobStore } from "./jobStore";
+import { JobExecutor, type JobExecutionResult } from "./processors/JobExecutor";
+import { getJobStore, JobStore } from "./jobStore";
+import { getSessionStore } from "./sessionStore";
 import serverConfig from "./config";
-import type { Job } from "~/types/job";
+import { getJobProfile } from "./environmentProfiles";
+import { getJobNetworkPolicy } from "./processors/sandboxNetwork";
+import { getContainerHardening } from "./processors/containerHardening";
+import { BASE_PATCH_LABEL } from "./processors/jobCommands";
+import { JobTimeoutError } from "./jobResources";
+import type { FileDiff, Job, JobCheck, JobResult } from "~/types/job";
+import type { ApiCredentials } from "./auth";
+import type { BranchPushResult } from "./gitService";
+import {
+  collectSecretValues,
+  isDiffRedacted,
+  maskSecrets,
+  redactDiff,
+  redactEnvironment,
+  redactSecrets,
+} from "./redaction";
 
 // JobProcessor supports both API and Docker execution modes
 export class JobProcessor {
@@ -25,73 +41,395 @@ export class JobProcessor {
     }
   }
 
-  async processJob(jobId: string, jobStore: JobStore, credentials: any) {
+  async processJob(
+    jobId: string,
+    jobStore: JobStore,
+    credentials: ApiCredentials
+  ) {
     try {
-      // Update status to running
-      await jobStore.updateJobStatus(jobId, "running");
+      // Update status to running, remembering which executor, image and
+      // sandbox ran the job so it can be reconciled and re-run later
+      const pendingJob = await jobStore.getJob(jobId);
+      const profile = getJobProfile(pendingJob);
+      const job = await jobStore.updateJobIfStatus(
+        jobId,
+        ["pending", "queued"],
+        {
+          status: "running",
+          executionMode: this.currentMode as Job["executionMode"],
+          image: pendingJob?.image || profile.image,
+          network: getJobNetworkPolicy(pendingJob),
+          // Only Docker containers are hardened
+          ...(this.currentMode === "docker" && {
+            hardening: getContainerHardening(profile.hardening),
+          }),
+        }
+      );
 
-      // Get job data for context
-      const job = await jobStore.getJob(jobId);
+      // Cancelled (or otherwise no longer waiting) before we got to it
+      if (!job) {
+        console.log(`🛑 Job ${jobId} was cancelled before it started`);
+        return null;
+      }
 
       // Execute the job using the API executor with credentials
-      const result = await this.executor.execute(jobId, job, credentials);
-
-      // Store the environment and secrets used for this job
-      if (result.environment || result.secrets || result.apiJobId) {
-        await jobStore.updateJobEnvironment(
-          jobId,
-          result.environment || {},
-          result.secrets
-            ? Object.keys(result.secrets).reduce(
-                (acc, key) => {
-                  acc[key] = "***"; // Mask secret values for security
-                  return acc;
-                },
-                {} as Record<string, string>
-              )
-            : {},
-          result.apiJobId
-        );
-      }
+      const result = await this.executor.execute(
+        jobId,
+        { ...job, basePatch: await this.getBasePatch(job, jobStore) },
+        credentials
+      );
 
-      // Store the full output logs (before extracting diff)
-      if (result.output) {
-        await jobStore.setJobLogs(jobId, result.output);
+      // A cancel may have raced with completion - keep the job cancelled
+      if (await this.isCancelled(jobId, jobStore)) {
+        console.log(`🛑 Job ${jobId} was cancelled, discarding its result`);
+        return result;
       }
 
-      // Store the diff
-      await jobStore.setJobDiff(jobId, result.diff);
-
-      // Update status to completed with changes
-      await jobStore.updateJobStatus(jobId, "completed", {
-        additions: result.diff.summary.totalAdditions,
-        deletions: result.diff.summary.totalDeletions,
-        files: result.diff.summary.totalFiles,
-      });
-
-      console.log(
-        `✅ Job ${jobId} completed successfully via ${this.currentMode}`
-      );
+      if (await this.completeJob(jobId, jobStore, result, credentials)) {
+        console.log(`✅ Job ${jobId} finished via ${this.currentMode}`);
+      }
       return result;
     } catch (error) {
+      if (await this.isCancelled(jobId, jobStore)) {
+        console.log(`🛑 Job ${jobId} stopped after cancellation`);
+        return null;
+      }
+
       console.error(
         `❌ Job ${jobId} failed in ${this.currentMode} mode:`,
         error
       );
-      await jobStore.updateJobStatus(jobId, "failed");
+      await this.failJob(
+        jobId,
+        jobStore,
+        (error as Error).message,
+        error instanceof JobTimeoutError ? "timed_out" : "failed"
+      );
       throw error;
     }
   }
 
+  // The base job's diff as a single git patch, for follow-up jobs
+  private async getBasePatch(job: Job | null, jobStore: JobStore) {
+    if (!job?.baseJobId) return undefined;
+
+    const baseDiff = await jobStore.getOriginalJobDiff(job.baseJobId);
+    if (!baseDiff) {
+      throw new Error(
+        `Changes of job ${job.baseJobId} are no longer available to continue from`
+      );
+    }
+    if (baseDiff.files.length === 0) return undefined;
+
+    return baseDiff.files.map((file) => file.patch).join("\n") + "\n";
+  }
+
+  // Store what the job produced and finish it. Returns false when the job
+  // was cancelled meanwhile, which it then stays.
+  private async completeJob(
+    jobId: string,
+    jobStore: JobStore,
+    result: JobExecutionResult,
+    credentials: ApiCredentials
+  ): Promise<boolean> {
+    // Nothing the job produced is stored before credentials are scrubbed
+    const knownSecrets = [
+      ...collectSecretValues(credentials, result.secrets),
+      ...(result.secretValues || []),
+    ];
+
+    // Store the environment and secrets used for this job
+    if (result.environment || result.secrets || result.apiJobId) {
+      await jobStore.updateJobEnvironment(
+        jobId,
+        redactEnvironment(result.environment, knownSecrets),
+        maskSecrets(result.secrets),
+        result.apiJobId
+      );
+    }
+
+    // Store the full output logs (before extracting diff)
+    if (result.output) {
+      await jobStore.setJobLogs(
+        jobId,
+        redactSecrets(result.output, knownSecrets)
+      );
+    }
+
+    // Store the diff, and the original for follow-ups if it held credentials
+    const diff = redactDiff(result.diff, knownSecrets);
+    const diffRedacted = isDiffRedacted(result.diff, knownSecrets);
+    await jobStore.setJobDiff(
+      jobId,
+      diff,
+      diffRedacted ? result.diff : undefined
+    );
+
+    const changes = {
+      additions: result.diff.summary.totalAdditions,
+      deletions: result.diff.summary.totalDeletions,
+      files: result.diff.summary.totalFiles,
+    };
+
+    // The agent said it failed - keep whatever it produced for inspection
+    const agentResult: JobResult | undefined = result.agentResult && {
+      ...result.agentResult,
+      summary:
+        result.agentResult.summary &&
+        redactSecrets(result.agentResult.summary, knownSecrets),
+    };
+    const checks: JobCheck[] | undefined = result.checks?.map(
+      (check: JobCheck) => ({
+        ...check,
+        output: check.output && redactSecrets(check.output, knownSecrets),
+      })
+    );
+
+    const error = await this.getFailure(jobId, jobStore, agentResult, checks);
+    const finishedJob = await jobStore.updateJobIfStatus(jobId, ["running"], {
+      status: error ? "failed" : "completed",
+      changes,
+      result: agentResult,
+      diffRedacted: diffRedacted || undefined,
+      checks,
+      error,
+    });
+
+    if (!finishedJob) {
+      console.log(`🛑 Job ${jobId} was cancelled, discarding its result`);
+      return false;
+    }
+    return true;
+  }
+
+  // Why a job that ran to the end failed, if it did: a setup command failed,
+  // the agent reported a failure, or a verify command failed and the job's
+  // profile says that fails the job
+  private async getFailure(
+    jobId: string,
+    jobStore: JobStore,
+    agentResult: JobResult | undefined,
+    checks: JobCheck[] | undefined
+  ): Promise<string | undefined> {
+    const failedSetup = checks?.find(
+      (check) => check.phase === "setup" && check.exitCode
+    );
+    if (failedSetup?.command === BASE_PATCH_LABEL) {
+      return `The previous job's changes don't apply to the checkout (git apply exited with code ${failedSetup.exitCode})`;
+    }
+    if (failedSetup) {
+      return `Setup command exited with code ${failedSetup.exitCode}: ${failedSetup.command}`;
+    }
+
+    if (agentResult?.exitCode) {
+      return `Agent exited with code ${agentResult.exitCode}${
+        agentResult.summary ? `: ${agentResult.summary}` : ""
+      }`;
+    }
+
+    const failedVerify = (checks || []).filter(
+      (check) => check.phase === "verify" && check.exitCode !== 0
+    );
+    if (
+      failedVerify.length &&
+      getJobProfile(await jobStore.getJob(jobId)).failOnVerify
+    ) {
+      return `Verification failed: ${failedVerify
+        .map((check) => check.command)
+        .join(", ")}`;
+    }
+
+    return undefined;
+  }
+
+  private async failJob(
+    jobId: string,
+    jobStore: JobStore,
+    reason: string,
+    status: "failed" | "timed_out" = "failed"
+  ) {
+    await jobStore.updateJob(jobId, {
+      status,
+      error: redactSecrets(reason),
+    });
+  }
+
+  // Bring jobs left behind by a previous server process back in line. Docker
+  // jobs are re-attached to their container straight away. API jobs need the
+  // owner's Hugging Face token to poll, they are re-attached with the owner's
+  // latest session, or failed when the owner has none.
+  async reconcileJobs(jobStore: JobStore) {
+    const jobs = await jobStore.getAllJobs();
+    const runningDockerJobIds = new Set<string>();
+
+    for (const job of jobs) {
+      if (job.status === "pending" || job.status === "queued") {
+        // The queue and the credentials it held died with the old process
+        console.log(`🧹 Job ${job.id} was ${job.status} at shutdown`);
+        await this.failJob(
+          job.id,
+          jobStore,
+          "The server restarted before this job started. Re-run it to try again."
+        );
+        continue;
+      }
+
+      if (job.status !== "running") continue;
+
+      if (this.getJobMode(job) === "api") {
+        if (!job.apiJobId) {
+          await this.failJob(
+            job.id,
+            jobStore,
+            "The server restarted before this job was submitted to the Hugging Face API."
+          );
+          continue;
+        }
+
+        const credentials = this.getOwnerCredentials(job);
+        if (!credentials?.huggingfaceToken) {
+          await this.failJob(
+            job.id,
+            jobStore,
+            "The server restarted while this job ran, and its owner has no session to follow it with. Re-run it to try again."
+          );
+          continue;
+        }
+
+        this.resumeJob(job, jobStore, credentials);
+        continue;
+      }
+
+      // No credentials: the executor reads the secrets to redact back from
+      // the job's container
+      runningDockerJobIds.add(job.id);
+      this.resumeJob(job, jobStore, {});
+    }
+
+    if (this.currentMode === "docker" || runningDockerJobIds.size) {
+      const executor = this.executorFor("docker") as DockerJobExecutor;
+      try {
+        await executor.removeStaleContainers(runningDockerJobIds);
+      } catch (error) {
+        console.warn("⚠️ Could not clean up stale job containers:", error);
+      }
+    }
+  }
+
+  // Credentials of the latest session of the job's Hugging Face owner
+  private getOwnerCredentials(job: Job): ApiCredentials | null {
+    const owner = job.owners?.find((identity) => identity.startsWith("hf:"));
+    if (!owner) return null;
+
+    const session = getSessionStore().getLatestUserSession(
+      owner.substring("hf:".length),
+      new Date()
+    );
+    return session?.credentials || null;
+  }
+
+  private async resumeJob(
+    job: Job,
+    jobStore: JobStore,
+    credentials: ApiCredentials
+  ) {
+    const mode = this.getJobMode(job);
+
+    try {
+      const result = await this.executorFor(mode).reattach(
+        job.id,
+        job,
+        credentials
+      );
+
+      if (await this.isCancelled(job.id, jobStore)) {
+        console.log(`🛑 Job ${job.id} was cancelled, discarding its result`);
+        return;
+      }
+
+      if (await this.completeJob(job.id, jobStore, result, credentials)) {
+        console.log(`✅ Job ${job.id} finished after re-attaching via ${mode}`);
+      }
+    } catch (error) {
+      if (await this.isCancelled(job.id, jobStore)) return;
+
+      if (error instanceof JobTimeoutError) {
+        await this.failJob(job.id, jobStore, error.message, "timed_out");
+        return;
+      }
+
+      console.error(`❌ Could not re-attach to job ${job.id}:`, error);
+      await this.failJob(
+        job.id,
+        jobStore,
+        `Lost track of this job after a server restart: ${(error as Error).message}`
+      );
+    }
+  }
+
+  // Jobs from before executionMode was recorded: only API jobs have an apiJobId
+  private getJobMode(job: Job): string {
+    return job.executionMode || (job.apiJobId ? "api" : "docker");
+  }
+
+  // Jobs started before a mode switch still need an executor of their own kind
+  private executorFor(mode: string): JobExecutor {
+    return mode === this.currentMode
+      ? this.executor
+      : this.createExecutor(mode);
+  }
+
+  // Cancel a pending, queued or running job and tell the executor to abort it
+  async cancelJob(
+    jobId: string,
+    jobStore: JobStore,
+    credentials: ApiCredentials
+  ): Promise<Job | null> {
+    const job = await jobStore.getJob(jobId);
+    if (!job) return null;
+
+    // Mark it first so processJob treats the executor's error as a cancel. In
+    // one step, so a job finishing meanwhile isn't turned cancelled.
+    const cancelledJob = await jobStore.updateJobIfStatus(
+      jobId,
+      ["pending", "queued", "running"],
+      { status: "cancelled" }
+    );
+    if (!cancelledJob) {
+      const current = await jobStore.getJob(jobId);
+      if (!current) return null;
+      throw new Error(`Job ${jobId} is already ${current.status}`);
+    }
+
+    try {
+      await this.executorFor(job.executionMode || this.currentMode).cancel(
+        jobId,
+        job,
+        credentials
+      );
+      console.log(`🛑 Job ${jobId} cancelled via ${this.currentMode}`);
+    } catch (error) {
+      // The job stays cancelled locally even if remote cleanup failed
+      console.error(`⚠️ Failed to abort job ${jobId} in executor:`, error);
+    }
+
+    return cancelledJob;
+  }
+
+  private async isCancelled(jobId: string, jobStore: JobStore) {
+    const job = await jobStore.getJob(jobId);
+    return job?.status === "cancelled";
+  }
+
   async createBranchAndPush(options: {
     repositoryUrl: string;
     branch: string;
     baseBranch: string;
     title: string;
     description: string;
-    files: any[];
-    credentials?: any;
-  }): Promise<{ branch: string; commitHash: string }> {
+    files: FileDiff[];
+    credentials?: ApiCredentials;
+  }): Promise<BranchPushResult> {
     try {
       // Use the API executor to create branch and push changes
       const result = await this.executor.createBranchAndPush(options);
@@ -127,6 +465,11 @@ let jobProcessorInstance: JobProcessor | null = null;
 export function getJobProcessor(): JobProcessor {
   if (!jobProcessorInstance) {
     jobProcessorInstance = new JobProcessor();
+
+    // Pick up whatever the previous server process left running
+    jobProcessorInstance.reconcileJobs(getJobStore()).catch((error) => {
+      console.error("Failed to reconcile jobs after startup:", error);
+    });
   }
   return jobProcessorInstance;
 }
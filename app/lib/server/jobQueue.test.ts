@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { JobQueue } from "./jobQueue";
+import { InMemoryJobStore } from "./stores/InMemoryJobStore";
+import type { ApiCredentials } from "./auth";
+import type { Job } from "~/types/job";
+
+// Jobs "run" until the test finishes them
+const processor = vi.hoisted(() => {
+  const running = new Map<string, () => void>();
+  return {
+    running,
+    processJob: async (jobId: string) =>
+      new Promise<void>((resolve) => running.set(jobId, resolve)),
+    cancelJob: async () => null,
+  };
+});
+
+vi.mock("./jobProcessor", () => ({ getJobProcessor: () => processor }));
+
+async function finish(jobId: string) {
+  processor.running.get(jobId)?.();
+  processor.running.delete(jobId);
+  // Let the queue start the next jobs
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function runningJobs(): string[] {
+  return Array.from(processor.running.keys());
+}
+
+describe("JobQueue", () => {
+  let jobStore: InMemoryJobStore;
+  let queue: JobQueue;
+
+  async function submit(
+    id: string,
+    owners: string[],
+    priority = 0,
+    credentials: ApiCredentials = {}
+  ) {
+    const job: Job = {
+      id,
+      title: id,
+      description: "",
+      status: "pending",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      owners,
+    };
+    await jobStore.createJob(job);
+    return queue.enqueue(job, credentials, priority);
+  }
+
+  beforeEach(() => {
+    processor.running.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    jobStore = new InMemoryJobStore();
+    queue = new JobQueue(jobStore, {
+      maxConcurrent: 2,
+      maxConcurrentPerUser: 1,
+      maxQueued: 2,
+    });
+  });
+
+  it("applies the per-user limit to the user's identities", async () => {
+    await submit("alice-1", ["hf:alice", "github:alice"]);
+    await submit("alice-2", ["github:alice"]);
+
+    expect(runningJobs()).toEqual(["alice-1"]);
+    expect(queue.getPosition("alice-2")).toBe(1);
+
+    await finish("alice-1");
+    expect(runningJobs()).toEqual(["alice-2"]);
+  });
+
+  it("doesn't count users sharing a display name as one", async () => {
+    await submit("hf-alice", ["hf:alice"]);
+    await submit("github-alice", ["github:alice"]);
+
+    expect(runningJobs()).toEqual(["hf-alice", "github-alice"]);
+  });
+
+  it("starts jobs of other users past one at their limit", async () => {
+    await submit("alice-1", ["hf:alice"]);
+    await submit("alice-2", ["hf:alice"]);
+    await submit("bob-1", ["hf:bob"]);
+
+    expect(runningJobs()).toEqual(["alice-1", "bob-1"]);
+  });
+
+  it("counts jobs without owners against their author", async () => {
+    await submit("alice-1", [], 0, { hfUserInfo: { username: "alice" } });
+    await submit("alice-2", ["hf:alice"]);
+
+    expect(runningJobs()).toEqual(["alice-1"]);
+  });
+
+  it("refuses jobs without owners or author", async () => {
+    await expect(submit("nobody-1", [])).rejects.toThrow(/no owner/);
+  });
+
+  it("runs higher priority jobs first, in order within a priority", async () => {
+    await submit("alice-1", ["hf:alice"]);
+    await submit("bob-1", ["hf:bob"]);
+    await submit("carol-1", ["hf:carol"]);
+    await submit("dave-1", ["hf:dave"], 5);
+
+    expect(queue.getPosition("dave-1")).toBe(1);
+    expect(queue.getPosition("carol-1")).toBe(2);
+  });
+
+  it("refuses jobs once the queue is full", async () => {
+    await submit("alice-1", ["hf:alice"]);
+    await submit("alice-2", ["hf:alice"]);
+    await submit("alice-3", ["hf:alice"]);
+
+    expect(queue.isFull()).toBe(true);
+    await expect(submit("alice-4", ["hf:alice"])).rejects.toThrow(
+      /queue is full/
+    );
+  });
+
+  it("cancels waiting jobs without running them", async () => {
+    await submit("alice-1", ["hf:alice"]);
+    await submit("alice-2", ["hf:alice"]);
+
+    expect((await queue.cancel("alice-2", {}))?.status).toBe("cancelled");
+    expect(queue.getPosition("alice-2")).toBeNull();
+
+    await finish("alice-1");
+    expect(runningJobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import serverConfig from "./config";
+import { getJobProcessor } from "./jobProcessor";
+import { getJobStore, JobStore } from "./jobStore";
+import type { ApiCredentials } from "./auth";
+import { getOwnIdentities } from "./authorization";
+import type { Job } from "~/types/job";
+
+const { QUEUE } = serverConfig;
+
+interface QueueEntry {
+  jobId: string;
+  // Qualified identities of the job's user, "hf:<username>" and
+  // "github:<login>". Display names can be shared, these can't.
+  owners: string[];
+  priority: number;
+  sequence: number;
+  credentials: ApiCredentials;
+}
+
+// Bounded in-process queue in front of JobProcessor. Jobs run in priority
+// order (higher first), FIFO within the same priority, subject to a global
+// and a per-user concurrency limit.
+export class JobQueue {
+  private entries: QueueEntry[] = [];
+  private running = new Map<string, string[]>(); // jobId -> owners
+  private sequence = 0;
+
+  constructor(
+    private jobStore: JobStore,
+    private limits: {
+      maxConcurrent: number;
+      maxConcurrentPerUser: number;
+      maxQueued: number;
+    } = {
+      maxConcurrent: QUEUE.MAX_CONCURRENT_JOBS,
+      maxConcurrentPerUser: QUEUE.MAX_CONCURRENT_JOBS_PER_USER,
+      maxQueued: QUEUE.MAX_QUEUED_JOBS,
+    }
+  ) {}
+
+  isFull(): boolean {
+    return this.entries.length >= this.limits.maxQueued;
+  }
+
+  async enqueue(
+    job: Job,
+    credentials: ApiCredentials,
+    priority = 0
+  ): Promise<number> {
+    if (this.isFull()) {
+      throw new Error(
+        `Job queue is full (${this.limits.maxQueued} jobs waiting)`
+      );
+    }
+
+    // Without owners the job would escape the per-user limit. They are the
+    // identities of the author, whose credentials the job runs with.
+    const owners = job.owners?.length
+      ? job.owners
+      : getOwnIdentities(credentials);
+    if (!owners.length) {
+      throw new Error(`Job ${job.id} has no owner to queue it for`);
+    }
+
+    const entry: QueueEntry = {
+      jobId: job.id,
+      owners,
+      priority,
+      sequence: this.sequence++,
+      credentials,
+    };
+
+    // Keep entries sorted: priority desc, then insertion order
+    const index = this.entries.findIndex(
+      (other) => other.priority < entry.priority
+    );
+    if (index === -1) {
+      this.entries.push(entry);
+    } else {
+      this.entries.splice(index, 0, entry);
+    }
+
+    await this.jobStore.updateJobStatus(job.id, "queued");
+    console.log(
+      `📥 Job ${job.id} queued (priority ${priority}, position ${this.getPosition(job.id)})`
+    );
+
+    this.drain();
+    return this.getPosition(job.id) ?? 0;
+  }
+
+  // Remove a job that has not started yet. Returns false if it wasn't queued.
+  remove(jobId: string): boolean {
+    const index = this.entries.findIndex((entry) => entry.jobId === jobId);
+    if (index === -1) return false;
+
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  // Cancel a job wherever it is - dequeue it if waiting, abort it if running
+  async cancel(
+    jobId: string,
+    credentials: ApiCredentials
+  ): Promise<Job | null> {
+    if (this.remove(jobId)) {
+      console.log(`🛑 Job ${jobId} removed from queue`);
+      return this.jobStore.updateJobStatus(jobId, "cancelled");
+    }
+
+    return getJobProcessor().cancelJob(jobId, this.jobStore, credentials);
+  }
+
+  // 1-based position among waiting jobs, or null if the job isn't waiting
+  getPosition(jobId: string): number | null {
+    const index = this.entries.findIndex((entry) => entry.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  withQueuePositions(jobs: Job[]): Job[] {
+    return jobs.map((job) => {
+      const position = this.getPosition(job.id);
+      return position ? { ...job, queuePosition: position } : job;
+    });
+  }
+
+  getStats() {
+    return {
+      queued: this.entries.length,
+      running: this.running.size,
+      ...this.limits,
+    };
+  }
+
+  // Running jobs of the user with these identities
+  private countRunning(owners: string[]): number {
+    let count = 0;
+    for (const runningOwners of this.running.values()) {
+      if (runningOwners.some((owner) => owners.includes(owner))) count++;
+    }
+    return count;
+  }
+
+  private drain() {
+    let index = 0;
+    while (
+      index < this.entries.length &&
+      this.running.size < this.limits.maxConcurrent
+    ) {
+      const entry = this.entries[index];
+
+      // Skip users at their limit, later jobs from others may still start
+      if (this.countRunning(entry.owners) >= this.limits.maxConcurrentPerUser) {
+        index++;
+        continue;
+      }
+
+      this.entries.splice(index, 1);
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry) {
+    this.running.set(entry.jobId, entry.owners);
+    console.log(
+      `🚦 Starting job ${entry.jobId} (${this.running.size}/${this.limits.maxConcurrent} running)`
+    );
+
+    getJobProcessor()
+      .processJob(entry.jobId, this.jobStore, entry.credentials)
+      .catch((error) => {
+        console.error(`Failed to process job ${entry.jobId}:`, error);
+      })
+      .finally(() => {
+        this.running.delete(entry.jobId);
+        this.drain();
+      });
+  }
+}
+
+// Singleton instance
+let jobQueueInstance: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+  if (!jobQueueInstance) {
+    jobQueueInstance = new JobQueue(getJobStore());
+  }
+  return jobQueueInstance;
+}
@@ -0,0 +1,125 @@
+import serverConfig from "./config";
+import { getJobProfile } from "./environmentProfiles";
+import type { Job, JobResourceLimits, JobResources } from "~/types/job";
+
+// A job may ask for its own memory, CPU shares, timeout and Hugging Face
+// hardware flavor when it is submitted. Asking for more than the JOB_LIMITS
+// maxima gets the maxima, an unknown flavor is refused. Unset values fall back
+// to the job's environment profile, then to the server's defaults. The maxima
+// are applied again when the job runs, in case they were lowered since.
+
+const { DOCKER, HUGGINGFACE_API, JOB_LIMITS } = serverConfig;
+
+const MB = 1024 * 1024;
+
+// Thrown by executors when a job runs past its timeout, the job then ends
+// timed_out rather than failed
+export class JobTimeoutError extends Error {
+  constructor(public timeoutMinutes: number) {
+    super(`Job timed out after ${timeoutMinutes} minutes`);
+    this.name = "JobTimeoutError";
+  }
+}
+
+export function getJobResourceLimits(): JobResourceLimits {
+  return {
+    maxMemoryMb: JOB_LIMITS.MAX_MEMORY_MB,
+    maxCpuShares: JOB_LIMITS.MAX_CPU_SHARES,
+    maxTimeoutMinutes: JOB_LIMITS.MAX_TIMEOUT_MINUTES,
+    flavors: JOB_LIMITS.FLAVORS,
+  };
+}
+
+function clampResources(resources: JobResources): JobResources {
+  const clamp = (value: number | undefined, max: number) =>
+    value === undefined ? undefined : Math.min(value, max);
+
+  return {
+    memoryMb: clamp(resources.memoryMb, JOB_LIMITS.MAX_MEMORY_MB),
+    cpuShares: clamp(resources.cpuShares, JOB_LIMITS.MAX_CPU_SHARES),
+    timeoutMinutes: clamp(
+      resources.timeoutMinutes,
+      JOB_LIMITS.MAX_TIMEOUT_MINUTES
+    ),
+    flavor: resources.flavor,
+  };
+}
+
+// Check the resources of a job submission, clamped to the maxima. Empty or
+// null values leave the default.
+export function validateJobResources(
+  value: unknown
+):
+  | { resources?: JobResources }
+  | { errors: { field: string; message: string }[] } {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return {
+      errors: [
+        {
+          field: "resources",
+          message:
+            "resources must be an object of memoryMb, cpuShares, timeoutMinutes and flavor",
+        },
+      ],
+    };
+  }
+
+  const body = value as Record<string, unknown>;
+  const errors: { field: string; message: string }[] = [];
+  const resources: JobResources = {};
+
+  for (const key of ["memoryMb", "cpuShares", "timeoutMinutes"] as const) {
+    const limit = body[key];
+    if (limit === undefined || limit === null || limit === "") continue;
+    if (!Number.isInteger(limit) || (limit as number) <= 0) {
+      errors.push({
+        field: `resources.${key}`,
+        message: `resources.${key} must be a positive integer`,
+      });
+    } else {
+      resources[key] = limit as number;
+    }
+  }
+
+  const { flavor } = body;
+  if (flavor !== undefined && flavor !== null && flavor !== "") {
+    if (typeof flavor !== "string" || !JOB_LIMITS.FLAVORS.includes(flavor)) {
+      errors.push({
+        field: "resources.flavor",
+        message: `resources.flavor must be one of ${JOB_LIMITS.FLAVORS.join(", ")}`,
+      });
+    } else {
+      resources.flavor = flavor;
+    }
+  }
+
+  if (errors.length) return { errors };
+  if (!Object.keys(resources).length) return {};
+  return { resources: clampResources(resources) };
+}
+
+// What a job runs with: its own resources, else its profile's, else the
+// defaults of the execution mode
+export function getJobResources(
+  job: Pick<Job, "profile" | "repositoryConfig" | "resources"> | null,
+  mode: Job["executionMode"]
+): Required<JobResources> {
+  const profile = getJobProfile(job);
+  const resources = clampResources(job?.resources || {});
+
+  return {
+    memoryMb:
+      resources.memoryMb ||
+      profile.resources.memoryMb ||
+      DOCKER.MEMORY_LIMIT / MB,
+    cpuShares:
+      resources.cpuShares || profile.resources.cpuShares || DOCKER.CPU_SHARES,
+    timeoutMinutes:
+      resources.timeoutMinutes ||
+      (mode === "docker"
+        ? DOCKER.TIMEOUT / 60000
+        : HUGGINGFACE_API.TIMEOUT_SECONDS / 60),
+    flavor: resources.flavor || HUGGINGFACE_API.FLAVOR,
+  };
+}
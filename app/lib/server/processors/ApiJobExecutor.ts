@@ -1,140 +1,220 @@
-import { JobExecutor } from "./JobExecutor";
+import { JobExecutor, type JobData } from "./JobExecutor";
 import serverConfig from "../config";
-import { dockerConfig } from "../../../routes/api.config.docker";
+import { getJobProfile } from "../environmentProfiles";
+import { decryptJobSecrets, resolveJobEnvironment } from "../secretVault";
 import { GitHubTokenService } from "../githubTokenService";
-import { getEffectiveUsername } from "../auth";
-import { promises as fs } from "fs";
-import { exec } from "child_process";
-import { promisify } from "util";
-import * as path from "path";
-import * as os from "os";
-
-const execAsync = promisify(exec);
+import { getEffectiveUsername, type ApiCredentials } from "../auth";
+import { getJobStore } from "../jobStore";
+import { JobTimeoutError, getJobResources } from "../jobResources";
+import {
+  collectSecretValues,
+  redactEnvironment,
+  redactSecrets,
+} from "../redaction";
+import type { Job } from "~/types/job";
 
 const { HUGGINGFACE_API, REPO } = serverConfig;
 
 export class ApiJobExecutor extends JobExecutor {
+  // In-flight jobs, keyed by hugex job id, so they can be cancelled
+  private activeJobs = new Map<
+    string,
+    { controller: AbortController; apiJobId?: string }
+  >();
+
   constructor() {
     super();
   }
 
-  async execute(jobId: string, jobData: any, credentials: any) {
+  async execute(jobId: string, jobData: JobData, credentials: ApiCredentials) {
+    const controller = new AbortController();
+    const activeJob: { controller: AbortController; apiJobId?: string } = {
+      controller,
+    };
+    this.activeJobs.set(jobId, activeJob);
+
     try {
+      // Hugging Face jobs always have open network access
+      if (jobData.network && jobData.network.mode !== "open") {
+        throw new Error(
+          `The "${jobData.network.mode}" network policy of this job's environment profile needs EXECUTION_MODE=docker`
+        );
+      }
+
+      // Hugging Face passes secrets as environment variables
+      if (getJobProfile(jobData).secretDelivery === "files") {
+        throw new Error(
+          "Delivering secrets as files, as this job's environment profile does, needs EXECUTION_MODE=docker"
+        );
+      }
+
       // Prepare environment and secrets for job execution
-      const { environment, secrets, apiJobId } = await this.submitJobToApi(
-        jobId,
-        jobData,
-        credentials
-      );
+      const { environment, secrets, secretValues, apiJobId } =
+        await this.submitJobToApi(jobId, jobData, credentials);
+      activeJob.apiJobId = apiJobId;
+
+      // Record the remote id now so the job can be re-attached after a restart
+      await getJobStore().updateJob(jobId, { apiJobId });
+
+      // Cancelled while the submission was in flight
+      if (controller.signal.aborted) {
+        await this.cancelApiJob(apiJobId, credentials);
+        throw new Error(`Job ${jobId} was cancelled`);
+      }
 
       // Poll for completion with credentials
-      const result = await this.pollJobCompletion(apiJobId, credentials);
+      const result = await this.pollJobCompletion(
+        apiJobId,
+        credentials,
+        getJobResources(jobData, "api").timeoutMinutes,
+        controller.signal
+      );
       console.log(`✅ Job result length: ${result.length} characters`);
-      console.log(`📄 Job result preview:`, result.substring(0, 500));
+      console.log(
+        `📄 Job result preview:`,
+        redactSecrets(result.substring(0, 500), [
+          ...collectSecretValues(credentials, secrets),
+          ...secretValues,
+        ])
+      );
 
       // Extract diff from output
-      const diff = this.extractDiffFromOutput(result, jobId);
+      const { diff, result: agentResult } = this.extractResult(result, jobId);
 
       return {
         success: true,
         output: result,
         diff: diff,
+        agentResult: agentResult,
+        checks: this.extractChecks(result, jobData),
         apiJobId: apiJobId,
         environment: environment,
         secrets: secrets,
+        secretValues: secretValues,
       };
     } catch (error) {
       console.error(`❌ API job execution failed for ${jobId}:`, error);
       throw error;
+    } finally {
+      this.activeJobs.delete(jobId);
     }
   }
 
-  private extractDiffFromOutput(output: string, jobId: string) {
-    const delimiter =
-      "================================================================================";
+  async reattach(jobId: string, jobData: Job, credentials: ApiCredentials) {
+    const apiJobId = jobData?.apiJobId;
+    if (!apiJobId) {
+      throw new Error(
+        "Job was never submitted to the Hugging Face API before the server restarted"
+      );
+    }
 
-    console.log(
-      `🔍 Extracting diff from output (${output.length} chars) for job ${jobId}`
-    );
+    console.log(`🔌 Re-attaching to API job ${apiJobId} for job ${jobId}`);
+    const secretValues = this.resolveSecretValues(jobData, credentials);
+    const controller = new AbortController();
+    this.activeJobs.set(jobId, { controller, apiJobId });
 
-    // Count total occurrences for debugging
-    const delimiterCount = (
-      output.match(new RegExp(delimiter.replace(/=/g, "\\="), "g")) || []
-    ).length;
-    console.log(`📊 Found ${delimiterCount} delimiter occurrences`);
-
-    // Find the last occurrence of the delimiter (end marker)
-    const endIndex = output.lastIndexOf(delimiter);
-    if (endIndex === -1) {
-      console.warn(
-        "❌ No end delimiter found in output, generating empty diff"
-      );
-      // Log a sample of the output for debugging
-      console.log(
-        "📄 Output sample (first 500 chars):",
-        output.substring(0, 500)
+    try {
+      const result = await this.pollJobCompletion(
+        apiJobId,
+        credentials,
+        getJobResources(jobData, "api").timeoutMinutes,
+        controller.signal
       );
+      const { diff, result: agentResult } = this.extractResult(result, jobId);
+
       return {
-        jobId,
-        files: [],
-        summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
+        success: true,
+        output: result,
+        diff: diff,
+        agentResult: agentResult,
+        checks: this.extractChecks(result, jobData),
+        apiJobId: apiJobId,
+        secretValues: secretValues,
       };
+    } finally {
+      this.activeJobs.delete(jobId);
     }
+  }
 
-    console.log(`📍 End delimiter found at position: ${endIndex}`);
+  async cancel(jobId: string, jobData: Job, credentials: ApiCredentials) {
+    console.log(`🛑 Cancelling API job ${jobId}`);
+    const activeJob = this.activeJobs.get(jobId);
 
-    // Find the second-to-last occurrence of the delimiter (start marker)
-    // by searching backwards from the position before the end delimiter
-    const searchUpTo = endIndex - 1;
-    const startIndex = output.lastIndexOf(delimiter, searchUpTo);
+    // Stop the polling loop first so execute() settles promptly
+    activeJob?.controller.abort();
 
-    console.log(
-      `📍 Start delimiter search up to position ${searchUpTo}, found at: ${startIndex}`
-    );
+    const apiJobId = activeJob?.apiJobId || jobData?.apiJobId;
+    if (!apiJobId) {
+      // Not submitted yet - execute() cancels remotely once it has an id
+      console.log(`⏳ Job ${jobId} not submitted yet, cancelling before start`);
+      return;
+    }
 
-    if (startIndex !== -1 && startIndex !== endIndex) {
-      const diffContent = output
-        .substring(startIndex + delimiter.length, endIndex)
-        .trim();
-      console.log(`📝 Extracted diff content (${diffContent.length} chars)`);
-      console.log(`📄 Diff preview:`, diffContent.substring(0, 200));
+    await this.cancelApiJob(apiJobId, credentials);
+  }
 
-      if (diffContent) {
-        return this.parseDiff(diffContent, jobId);
-      } else {
-        console.warn("⚠️ Diff content is empty after trimming");
-      }
-    } else if (startIndex === -1) {
-      console.warn(
-        "⚠️ No start delimiter found - only one delimiter in output"
+  private async cancelApiJob(apiJobId: string, credentials: ApiCredentials) {
+    const hfToken = credentials?.huggingfaceToken;
+    if (!hfToken) {
+      throw new Error("Hugging Face token is required for cancelling a job");
+    }
+    const username = getEffectiveUsername(credentials);
+
+    const cancelUrl = `${HUGGINGFACE_API.BASE_URL.replace(
+      "/api/jobs/",
+      `/api/jobs/${username}`
+    )}/${apiJobId}/cancel`;
+    console.log(`🔗 Using cancel URL with username: ${cancelUrl}`);
+
+    const response = await fetch(cancelUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${hfToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `API cancel request failed: ${response.status} ${response.statusText} - ${errorText}`
       );
-      // If there's only one delimiter, maybe the diff is after it?
-      const contentAfterDelimiter = output
-        .substring(endIndex + delimiter.length)
-        .trim();
-      if (contentAfterDelimiter) {
-        console.log(
-          `🔄 Trying content after single delimiter (${contentAfterDelimiter.length} chars)`
-        );
-        console.log(
-          `📄 Content preview:`,
-          contentAfterDelimiter.substring(0, 200)
-        );
-        return this.parseDiff(contentAfterDelimiter, jobId);
-      }
-    } else {
-      console.warn("⚠️ Start and end delimiters are the same position");
     }
 
-    console.warn("❌ No valid diff found in output, generating empty diff");
-    return {
-      jobId,
-      files: [],
-      summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
-    };
+    console.log(`✅ API job ${apiJobId} cancelled`);
+  }
+
+  // The secret values of a job submitted before the server restarted,
+  // resolved again from the stored job and its profile, so its output is
+  // still redacted. Throws if a referenced secret has left the vault since.
+  // The ephemeral GitHub token can't be recovered, its format is redacted.
+  private resolveSecretValues(
+    jobData: Pick<
+      Job,
+      | "workspaceId"
+      | "repository"
+      | "profile"
+      | "repositoryConfig"
+      | "environment"
+      | "secrets"
+    >,
+    credentials: ApiCredentials
+  ): string[] {
+    const profile = getJobProfile(jobData);
+    const resolved = resolveJobEnvironment(jobData, credentials, {
+      environment: { ...profile.environment, ...(jobData.environment || {}) },
+      secrets: { ...profile.secrets, ...decryptJobSecrets(jobData.secrets) },
+    });
+    return [
+      ...collectSecretValues(credentials, resolved.secrets),
+      ...resolved.secretValues,
+    ];
   }
 
-  private async submitJobToApi(jobId: string, jobData: any, credentials: any) {
+  private async submitJobToApi(
+    jobId: string,
+    jobData: JobData,
+    credentials: ApiCredentials
+  ) {
     // Use credentials from request (required - no fallback)
     const hfToken = credentials?.huggingfaceToken;
     const openaiKey = credentials?.openaiApiKey;
@@ -147,6 +227,8 @@ export class ApiJobExecutor extends JobExecutor {
     }
 
     const username = getEffectiveUsername(credentials);
+    const profile = getJobProfile(jobData);
+    const resources = getJobResources(jobData, "api");
 
     // Get repository URL from job data or fall back to server config
     const repositoryUrl = jobData.repository?.url || REPO.URL;
@@ -201,33 +283,46 @@ export class ApiJobExecutor extends JobExecutor {
       REPO_URL: authenticatedRepoUrl, // Use authenticated URL if available
       REPO_BRANCH: repositoryBranch,
       // PROMPT: `Clone the repository, then change to the repository directory (${repositoryUrl.split("/").pop()?.replace(".git", "") || "repo"}) and execute the following task: ${jobData.description}. Make sure to stay within the repository directory for all operations and use file editing tools to make any necessary changes.`,
-      PROMPT: jobData.description,
-      ...dockerConfig.environment, // Global defaults
+      PROMPT: this.getPrompt(jobData),
+      ...profile.environment, // The job's environment profile and .hugex.yml
       ...(jobData.environment || {}), // Job-specific environment variables override global ones
     };
 
     // Merge required secrets with user's custom secrets from job data
     const secrets = {
-      OPENAI_API_KEY: openaiKey,
+      OPENAI_API_KEY: openaiKey || "",
       ...(githubEphemeralToken && { GITHUB_TOKEN: githubEphemeralToken }), // Add GitHub token if available
-      ...dockerConfig.secrets, // Global secrets
-      ...(jobData.secrets || {}), // Job-specific secrets override global ones
+      ...profile.secrets, // Vault references of the job's environment profile
+      ...decryptJobSecrets(jobData.secrets), // Job-specific secrets override global ones
     };
 
+    // ${secrets.NAME} references are only resolved now, for the remote job.
+    // The job keeps the references.
+    const resolved = resolveJobEnvironment(jobData, credentials, {
+      environment,
+      secrets,
+    });
+
     // Create job payload for Hugging Face API
     const payload = {
-      command: ["/opt/agents/codex"],
+      command: this.getCommand(jobData),
       arguments: [],
-      environment,
-      flavor: "cpu-basic",
-      dockerImage: dockerConfig.image,
-      secrets,
-      timeoutSeconds: HUGGINGFACE_API.TIMEOUT_SECONDS,
+      environment: {
+        ...resolved.environment,
+        ...this.getBasePatchEnvironment(jobData),
+      },
+      flavor: resources.flavor,
+      dockerImage: jobData.image || profile.image,
+      secrets: resolved.secrets,
+      timeoutSeconds: resources.timeoutMinutes * 60,
     };
 
     console.log("🔍 API Payload (environment and secrets debug):", {
       ...payload,
-      environment: payload.environment, // Show actual environment variables
+      environment: redactEnvironment(payload.environment, [
+        ...collectSecretValues(credentials, resolved.secrets),
+        ...resolved.secretValues,
+      ]),
       secrets: Object.keys(payload.secrets).reduce(
         (acc, key) => {
           acc[key] = payload.secrets[key] ? "***" : "(not set)";
@@ -270,13 +365,22 @@ export class ApiJobExecutor extends JobExecutor {
     return {
       apiJobId: submittedApiJobId,
       environment,
-      secrets,
+      secrets: resolved.secrets,
+      secretValues: resolved.secretValues,
     };
   }
 
-  private async pollJobCompletion(apiJobId: string, credentials: any) {
-    const maxAttempts = HUGGINGFACE_API.MAX_POLL_ATTEMPTS;
+  private async pollJobCompletion(
+    apiJobId: string,
+    credentials: ApiCredentials,
+    timeoutMinutes: number,
+    signal?: AbortSignal
+  ) {
     const pollInterval = HUGGINGFACE_API.POLL_INTERVAL;
+    const maxAttempts = Math.ceil(
+      ((timeoutMinutes + HUGGINGFACE_API.POLL_GRACE_MINUTES) * 60 * 1000) /
+        pollInterval
+    );
     const hfToken = credentials?.huggingfaceToken;
 
     if (!hfToken) {
@@ -288,6 +392,10 @@ export class ApiJobExecutor extends JobExecutor {
     const username = getEffectiveUsername(credentials);
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (signal?.aborted) {
+        throw new Error(`Polling stopped - API job ${apiJobId} was cancelled`);
+      }
+
       try {
         console.log(`Polling attempt ${attempt}/${maxAttempts}`);
 
@@ -306,7 +414,7 @@ export class ApiJobExecutor extends JobExecutor {
 
         if (!statusResponse.ok) {
           console.warn(`⚠️ Status check failed: ${statusResponse.status}`);
-          await this.sleep(pollInterval);
+          await this.sleep(pollInterval, signal);
           continue;
         }
 
@@ -322,6 +430,10 @@ export class ApiJobExecutor extends JobExecutor {
           return await this.getJobOutput(apiJobId, credentials);
         }
 
+        if (this.isJobTimedOut(status)) {
+          throw new JobTimeoutError(timeoutMinutes);
+        }
+
         // Check if job failed
         if (this.isJobFailed(status)) {
           throw new Error(
@@ -330,22 +442,21 @@ export class ApiJobExecutor extends JobExecutor {
         }
 
         // Continue polling
-        await this.sleep(pollInterval);
+        await this.sleep(pollInterval, signal);
       } catch (error) {
         console.error(
           `❌ Error during polling attempt ${attempt}:`,
           (error as Error).message
         );
-        if (attempt === maxAttempts) {
+        if (error instanceof JobTimeoutError || attempt === maxAttempts) {
           throw error;
         }
-        await this.sleep(pollInterval);
+        await this.sleep(pollInterval, signal);
       }
     }
 
-    throw new Error(
-      "Job polling timeout - job did not complete within expected time"
-    );
+    // Still not done long after its timeout
+    throw new JobTimeoutError(timeoutMinutes);
   }
 
   private isJobCompleted(status: any): boolean {
@@ -360,15 +471,20 @@ export class ApiJobExecutor extends JobExecutor {
     return completedStates.includes(currentState);
   }
 
+  private isJobTimedOut(status: { status?: { stage?: string } }): boolean {
+    const currentState = (status.status?.stage || "").toLowerCase();
+    return currentState === "timeout";
+  }
+
   private isJobFailed(status: any): boolean {
-    const failedStates = ["failed", "error", "cancelled", "timeout", "aborted"];
+    const failedStates = ["failed", "error", "cancelled", "aborted"];
     const currentState = (status.status?.stage || "").toLowerCase();
     return failedStates.includes(currentState);
   }
 
   private async getJobOutput(
     apiJobId: string,
-    credentials: any
+    credentials: ApiCredentials
   ): Promise<string> {
     try {
       console.log(`📥 Fetching job output for ${apiJobId}`);
@@ -460,437 +576,18 @@ export class ApiJobExecutor extends JobExecutor {
     }
   }
 
-  async createBranchAndPush(options: {
-    repositoryUrl: string;
-    branch: string;
-    baseBranch: string;
-    title: string;
-    description: string;
-    files: any[];
-    credentials?: any;
-  }): Promise<{ branch: string; commitHash: string }> {
-    let tempDir: string | null = null;
-
-    try {
-      console.log(
-        `🌿 Creating branch '${options.branch}' and pushing changes...`
-      );
-
-      // Create temporary directory
-      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hugex-git-"));
-      console.log(`📁 Created temp directory: ${tempDir}`);
-
-      // Get authenticated repository URL (if needed)
-      const repoUrl = await this.getAuthenticatedRepoUrl(options.repositoryUrl);
-
-      // 1. Shallow clone the repository
-      console.log(`📌 Cloning repository: ${options.repositoryUrl}`);
-      await execAsync(
-        `git clone --depth=1 --branch ${options.baseBranch} "${repoUrl}" repo`,
-        {
-          cwd: tempDir,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      const repoPath = path.join(tempDir, "repo");
-
-      // 2. Create and checkout new branch
-      console.log(`🌱 Creating branch: ${options.branch}`);
-      await execAsync(`git checkout -b "${options.branch}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 3. Apply file changes from diff
-      console.log(`🗏 Applying ${options.files.length} file changes...`);
-      await this.applyFileChanges(repoPath, options.files);
-
-      // 4. Configure git user (required for commits)
-      await execAsync('git config user.name "HugeX Bot"', {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-      await execAsync(
-        'git config user.email "hugex@users.noreply.github.com"',
-        {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      // 5. Stage all changes
-      console.log(`📚 Staging changes...`);
-      await execAsync("git add .", {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // Check if there are any changes to commit
-      const { stdout: statusOutput } = await execAsync(
-        "git status --porcelain",
-        {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      console.log(`Git status output:`, statusOutput);
-
-      if (!statusOutput.trim()) {
-        // No changes detected - let's create a minimal change to ensure we have something to commit
-        console.log("No changes detected, creating minimal change...");
-
-        // Create a simple marker file to indicate this branch was created by HugeX
-        const markerPath = path.join(repoPath, ".hugex-branch-marker");
-        const markerContent = `Branch created by Hugex\nTimestamp: ${new Date().toISOString()}\nBranch: ${
-          options.branch
-        }\nRepository: ${options.repositoryUrl}\n`;
-        await fs.writeFile(markerPath, markerContent, "utf8");
-
-        // Stage the marker file
-        await execAsync("git add .hugex-branch-marker", {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        });
-
-        console.log("Created marker file to ensure non-empty commit");
-      }
-
-      // 6. Commit changes
-      const commitMessage = `${options.title}\n\n${options.description}`;
-      console.log(`📝 Committing changes...`);
-      await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 7. Get commit hash
-      const { stdout: commitHash } = await execAsync("git rev-parse HEAD", {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 8. Push branch to origin
-      console.log(`🚀 Pushing branch to origin...`);
-      await execAsync(`git push origin "${options.branch}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      const finalCommitHash = commitHash.trim();
-      console.log(
-        `✅ Successfully created branch '${options.branch}' with commit: ${finalCommitHash}`
-      );
-
-      return {
-        branch: options.branch,
-        commitHash: finalCommitHash,
-      };
-    } catch (error) {
-      console.error("❌ Failed to create branch and push:", error);
-      throw new Error(`Git operation failed: ${error.message}`);
-    } finally {
-      // Clean up temporary directory
-      if (tempDir) {
-        try {
-          await fs.rm(tempDir, { recursive: true, force: true });
-          console.log(`🧽 Cleaned up temp directory: ${tempDir}`);
-        } catch (cleanupError) {
-          console.warn(`⚠️ Failed to clean up temp directory: ${cleanupError}`);
-        }
-      }
-    }
-  }
-
-  private async getAuthenticatedRepoUrl(
-    repositoryUrl: string
-  ): Promise<string> {
-    // For GitHub repositories, check if we have a token available
-    if (repositoryUrl.includes("github.com")) {
-      // In a production system, you would:
-      // 1. Get the GitHub token from the current user's session/credentials
-      // 2. Create an ephemeral token for this operation
-      // 3. Return authenticated URL with token
-
-      // For now, return the original URL
-      // TODO: Integrate with GitHubTokenService for authenticated access
-      console.log(
-        "⚠️ Using unauthenticated repository URL - private repositories may fail"
-      );
-    }
-
-    return repositoryUrl;
-  }
-
-  private async applyFileChanges(
-    repoPath: string,
-    files: any[]
-  ): Promise<void> {
-    console.log(`Applying changes to ${files.length} files:`);
-
-    for (const file of files) {
-      console.log(`Processing file: ${file.filename} (status: ${file.status})`);
-
-      // Use diff field if available, otherwise fall back to patch
-      const diffContent = file.diff || file.patch;
-      console.log(
-        `File diff preview:`,
-        diffContent ? diffContent.substring(0, 150) + "..." : "NO DIFF/PATCH"
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(resolve, ms);
+      // Wake up early on abort, the caller checks the signal next
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        { once: true }
       );
-      console.log(`Available fields:`, Object.keys(file));
-
-      const filePath = path.join(repoPath, file.filename);
-
-      try {
-        switch (file.status) {
-          case "added":
-            // Create new file
-            console.log(`Creating new file: ${filePath}`);
-            await fs.mkdir(path.dirname(filePath), { recursive: true });
-            await this.applyDiffToFile(filePath, diffContent, true);
-            break;
-
-          case "modified":
-            // Modify existing file
-            console.log(`Modifying existing file: ${filePath}`);
-            await this.applyDiffToFile(filePath, diffContent, false);
-            break;
-
-          case "deleted":
-            // Delete file
-            console.log(`Deleting file: ${filePath}`);
-            try {
-              await fs.unlink(filePath);
-            } catch (err) {
-              console.warn(`File already deleted or not found: ${filePath}`);
-            }
-            break;
-
-          case "renamed":
-            // Handle renamed files
-            console.log(
-              `Renaming file: ${file.oldFilename} -> ${file.filename}`
-            );
-            if (file.oldFilename) {
-              const oldPath = path.join(repoPath, file.oldFilename);
-              try {
-                await fs.rename(oldPath, filePath);
-                // Apply any changes to the renamed file
-                if (diffContent) {
-                  await this.applyDiffToFile(filePath, diffContent, false);
-                }
-              } catch (err) {
-                console.warn(
-                  `Rename failed, treating as new file: ${err.message}`
-                );
-                await this.applyDiffToFile(filePath, diffContent, true);
-              }
-            }
-            break;
-
-          default:
-            console.warn(
-              `Unknown file status: ${file.status} for ${file.filename}`
-            );
-        }
-      } catch (error) {
-        console.error(`Failed to apply changes to ${file.filename}:`, error);
-        throw error;
-      }
-    }
-  }
-
-  private async applyDiffToFile(
-    filePath: string,
-    diff: string,
-    isNewFile: boolean
-  ): Promise<void> {
-    if (!diff) {
-      console.warn(`No diff content for ${filePath}`);
-      return;
-    }
-
-    console.log(`Applying diff to ${filePath}:`, {
-      isNewFile,
-      diffLength: diff.length,
-      diffPreview: diff.substring(0, 200) + (diff.length > 200 ? "..." : ""),
     });
-
-    if (isNewFile) {
-      // For new files, extract content from diff
-      const content = this.extractContentFromDiff(diff);
-      console.log(
-        `Extracted content for new file (${content.length} chars):`,
-        content.substring(0, 100)
-      );
-      await fs.writeFile(filePath, content, "utf8");
-    } else {
-      // For existing files, apply patch
-      try {
-        const currentContent = await fs.readFile(filePath, "utf8");
-        console.log(
-          `Current file content (${currentContent.length} chars):`,
-          currentContent.substring(0, 100)
-        );
-        const patchedContent = this.applySimplePatch(currentContent, diff);
-        console.log(
-          `Patched content (${patchedContent.length} chars):`,
-          patchedContent.substring(0, 100)
-        );
-        await fs.writeFile(filePath, patchedContent, "utf8");
-      } catch (error) {
-        console.error(`Failed to apply patch to ${filePath}:`, error);
-        // Fallback: try to extract content from diff
-        const content = this.extractContentFromDiff(diff);
-        console.log(
-          `Fallback: extracted content (${content.length} chars):`,
-          content.substring(0, 100)
-        );
-        await fs.writeFile(filePath, content, "utf8");
-      }
-    }
-  }
-
-  private extractContentFromDiff(diff: string): string {
-    // Extract content from diff format
-    // This handles unified diff format and extracts added lines
-    if (!diff || diff.trim() === "") {
-      console.warn("Empty diff provided, returning empty content");
-      return "";
-    }
-
-    const lines = diff.split("\n");
-    const content: string[] = [];
-    let foundContent = false;
-
-    console.log(`Extracting content from diff with ${lines.length} lines`);
-
-    for (const line of lines) {
-      if (line.startsWith("+") && !line.startsWith("+++")) {
-        // Add line (remove the + prefix)
-        content.push(line.substring(1));
-        foundContent = true;
-      } else if (
-        !line.startsWith("-") &&
-        !line.startsWith("@@") &&
-        !line.startsWith("index") &&
-        !line.startsWith("diff") &&
-        !line.startsWith("+++") &&
-        !line.startsWith("---")
-      ) {
-        // Context line (unchanged)
-        if (line.trim() !== "") {
-          content.push(line);
-          foundContent = true;
-        }
-      }
-    }
-
-    const result = content.join("\n");
-    console.log(
-      `Extracted ${content.length} lines, found content: ${foundContent}, result length: ${result.length}`
-    );
-
-    // If no content was found in the diff, it might be a simple text replacement
-    // Try to extract everything after the diff headers
-    if (!foundContent && diff.includes("@@")) {
-      const hunkStart = diff.indexOf("@@");
-      const secondHunkStart = diff.indexOf("@@", hunkStart + 2);
-      if (secondHunkStart !== -1) {
-        const hunkContent = diff.substring(
-          secondHunkStart + diff.substring(secondHunkStart).indexOf("\n") + 1
-        );
-        const hunkLines = hunkContent.split("\n");
-        const extractedContent: string[] = [];
-
-        for (const line of hunkLines) {
-          if (line.startsWith("+")) {
-            extractedContent.push(line.substring(1));
-          } else if (line.startsWith(" ")) {
-            extractedContent.push(line.substring(1));
-          }
-        }
-
-        if (extractedContent.length > 0) {
-          console.log(
-            `Fallback extraction found ${extractedContent.length} lines`
-          );
-          return extractedContent.join("\n");
-        }
-      }
-    }
-
-    return result;
-  }
-
-  private applySimplePatch(originalContent: string, diff: string): string {
-    // Simple patch application - this is a basic implementation
-    // For production, consider using a proper diff/patch library like 'diff' or 'node-patch'
-    const originalLines = originalContent.split("\n");
-    const diffLines = diff.split("\n");
-    const result: string[] = [];
-
-    let originalIndex = 0;
-    let inHunk = false;
-    let hunkOriginalStart = 0;
-    let hunkOriginalLength = 0;
-    let hunkNewStart = 0;
-    let hunkNewLength = 0;
-    let processedInHunk = 0;
-
-    for (const line of diffLines) {
-      if (line.startsWith("@@")) {
-        // Parse hunk header
-        const match = line.match(/@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/);
-        if (match) {
-          hunkOriginalStart = parseInt(match[1]) - 1; // Convert to 0-based
-          hunkOriginalLength = match[2] ? parseInt(match[2]) : 1;
-          hunkNewStart = parseInt(match[3]) - 1;
-          hunkNewLength = match[4] ? parseInt(match[4]) : 1;
-
-          // Copy lines before this hunk
-          while (originalIndex < hunkOriginalStart) {
-            result.push(originalLines[originalIndex]);
-            originalIndex++;
-          }
-
-          inHunk = true;
-          processedInHunk = 0;
-        }
-      } else if (inHunk) {
-        if (line.startsWith("-")) {
-          // Remove line - skip it in original
-          originalIndex++;
-          processedInHunk++;
-        } else if (line.startsWith("+")) {
-          // Add line
-          result.push(line.substring(1));
-          processedInHunk++;
-        } else if (line.startsWith(" ")) {
-          // Context line - keep it
-          result.push(line.substring(1));
-          originalIndex++;
-          processedInHunk++;
-        }
-
-        // Check if hunk is complete
-        if (processedInHunk >= Math.max(hunkOriginalLength, hunkNewLength)) {
-          inHunk = false;
-        }
-      }
-    }
-
-    // Copy remaining lines
-    while (originalIndex < originalLines.length) {
-      result.push(originalLines[originalIndex]);
-      originalIndex++;
-    }
-
-    return result.join("\n");
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
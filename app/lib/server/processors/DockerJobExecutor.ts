@@ -1,178 +1,387 @@
-import { JobExecutor } from "./JobExecutor";
+import { JobExecutor, type JobData } from "./JobExecutor";
 import serverConfig from "../config";
-import { dockerConfig } from "../../../routes/api.config.docker";
+import { getJobProfile } from "../environmentProfiles";
+import {
+  decryptJobSecrets,
+  decryptSecret,
+  encryptSecret,
+  resolveJobEnvironment,
+} from "../secretVault";
 import { getJobStore } from "../jobStore";
+import { collectSecretValues, redactSecrets } from "../redaction";
+import {
+  PROXY_ALIAS,
+  PROXY_COMMAND,
+  buildProxyConfig,
+  getProxyEnvironment,
+  getSandboxNetworkName,
+  parseProxyLog,
+} from "./sandboxNetwork";
+import {
+  getContainerHardening,
+  getHardeningOptions,
+} from "./containerHardening";
+import {
+  checkSecretDelivery,
+  getAgentImageManifest,
+} from "./agentImageManifest";
+import {
+  encodeSecretFiles,
+  getSecretFilesTmpfs,
+  wrapCommandWithSecretFiles,
+} from "./secretFiles";
+import { JobTimeoutError, getJobResources } from "../jobResources";
+import type { Job } from "~/types/job";
+import type { ApiCredentials } from "../auth";
+import type { NetworkPolicy } from "~/types/environmentProfile";
 
 const { DOCKER, REPO } = serverConfig;
 
+const JOB_ID_LABEL = "hugex.job-id";
+// On the proxy container and network of a job
+const SANDBOX_LABEL = "hugex.sandbox-job-id";
+
 export class DockerJobExecutor extends JobExecutor {
   private docker: any;
+  // Containers of in-flight jobs, so they can be killed on cancel
+  private containers = new Map<string, any>();
+  private cancelledJobs = new Set<string>();
 
   constructor() {
     super();
     this.docker = null; // Will be initialized when needed
   }
 
-  async execute(jobId: string, jobData: any, credentials: any) {
+  async execute(jobId: string, jobData: JobData, credentials: ApiCredentials) {
     console.log(`🐳 Executing job ${jobId} via Docker`);
-    console.log(`📦 Job data:`, jobData);
 
     try {
-      // Initialize Docker if not already done
-      if (!this.docker) {
-        try {
-          // Dynamic import to avoid issues in client-side code
-          const Docker = await import("dockerode");
-          this.docker = new Docker.default();
-
-          // Test Docker connection
-          await this.docker.ping();
-          console.log("🐳 Docker daemon connected successfully");
-        } catch (error) {
-          throw new Error(`Docker daemon not available: ${error.message}`);
-        }
-      }
+      await this.connect();
 
       // Execute job in Docker container using the same setup as API
-      const { output, environment, secrets } = await this.runJobInContainer(
-        jobId,
-        jobData,
-        credentials
-      );
+      const { output, environment, secrets, secretValues } =
+        await this.runJobInContainer(jobId, jobData, credentials);
 
       // Extract diff from output
-      const diff = this.extractDiffFromOutput(output, jobId);
+      const { diff, result } = this.extractResult(output, jobId);
 
       return {
         success: true,
         output: output,
         diff: diff,
+        agentResult: result,
+        checks: this.extractChecks(output, jobData),
         environment: environment,
         secrets: secrets,
+        secretValues: secretValues,
       };
     } catch (error) {
       console.error(`❌ Docker job execution failed for ${jobId}:`, error);
       throw error;
+    } finally {
+      this.containers.delete(jobId);
+      this.cancelledJobs.delete(jobId);
     }
   }
 
-  private extractDiffFromOutput(output: string, jobId: string) {
-    const delimiter =
-      "================================================================================";
+  // Re-attach to the container of a job that was running when the server
+  // restarted. Live containers are followed to the end, exited ones have their
+  // logs collected straight away. The owner's credentials are gone, the
+  // secret values to redact were saved, encrypted, on the job.
+  async reattach(
+    jobId: string,
+    jobData: Pick<
+      Job,
+      | "profile"
+      | "repositoryConfig"
+      | "resources"
+      | "baseJobId"
+      | "redactionSecrets"
+    >
+  ) {
+    await this.connect();
+
+    const container = await this.findJobContainer(jobId);
+    if (!container) {
+      throw new Error(
+        "Container for this job no longer exists - it was removed while the server was down"
+      );
+    }
 
-    console.log(
-      `🔍 Extracting diff from output (${output.length} chars) for job ${jobId}`
-    );
+    console.log(`🔌 Re-attaching to container for job ${jobId}`);
+    this.containers.set(jobId, container);
 
-    // Count total occurrences for debugging
-    const delimiterCount = (
-      output.match(new RegExp(delimiter.replace(/=/g, "\\="), "g")) || []
-    ).length;
-    console.log(`📊 Found ${delimiterCount} delimiter occurrences`);
+    try {
+      let logs: string;
+      let secretValues: string[];
+      try {
+        secretValues = this.getRedactionSecrets(jobData);
+        // The timeout starts over, the container's run so far isn't counted
+        logs = await this.getContainerLogs(
+          container,
+          jobId,
+          getJobResources(jobData, "docker").timeoutMinutes,
+          secretValues
+        );
+      } finally {
+        await this.removeContainer(container, jobId);
+        await this.removeSandboxNetwork(jobId);
+        await this.clearRedactionSecrets(jobId);
+      }
+      this.throwIfCancelled(jobId);
+
+      const { diff, result } = this.extractResult(logs, jobId);
 
-    // Find the last occurrence of the delimiter (end marker)
-    const endIndex = output.lastIndexOf(delimiter);
-    if (endIndex === -1) {
-      console.warn(
-        "❌ No end delimiter found in output, generating empty diff"
-      );
-      // Log a sample of the output for debugging
-      console.log(
-        "📄 Output sample (first 500 chars):",
-        output.substring(0, 500)
-      );
       return {
-        jobId,
-        files: [],
-        summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
+        success: true,
+        output: logs,
+        diff: diff,
+        agentResult: result,
+        checks: this.extractChecks(logs, jobData),
+        secretValues: secretValues,
       };
+    } finally {
+      this.containers.delete(jobId);
+      this.cancelledJobs.delete(jobId);
     }
+  }
 
-    console.log(`📍 End delimiter found at position: ${endIndex}`);
+  // The secret values saved with the job. A job without them, or whose secret
+  // vault key changed, fails rather than store its output unredacted.
+  private getRedactionSecrets(
+    jobData: Pick<Job, "redactionSecrets">
+  ): string[] {
+    if (!jobData.redactionSecrets) {
+      throw new Error(
+        "The job's secrets weren't saved, its output can't be redacted"
+      );
+    }
+    try {
+      return JSON.parse(decryptSecret(jobData.redactionSecrets));
+    } catch {
+      throw new Error(
+        "The job's secrets can't be decrypted, its output can't be redacted"
+      );
+    }
+  }
 
-    // Find the second-to-last occurrence of the delimiter (start marker)
-    // by searching backwards from the position before the end delimiter
-    const searchUpTo = endIndex - 1;
-    const startIndex = output.lastIndexOf(delimiter, searchUpTo);
+  private async clearRedactionSecrets(jobId: string) {
+    try {
+      await getJobStore().updateJob(jobId, { redactionSecrets: undefined });
+    } catch (error) {
+      console.error(`Failed to clear the secrets of job ${jobId}:`, error);
+    }
+  }
 
-    console.log(
-      `📍 Start delimiter search up to position ${searchUpTo}, found at: ${startIndex}`
-    );
+  // Remove hugex containers whose job is no longer running, e.g. left behind
+  // by a crash after the job was already marked failed or cancelled
+  async removeStaleContainers(activeJobIds: Set<string>) {
+    await this.connect();
 
-    if (startIndex !== -1 && startIndex !== endIndex) {
-      const diffContent = output
-        .substring(startIndex + delimiter.length, endIndex)
-        .trim();
-      console.log(`📝 Extracted diff content (${diffContent.length} chars)`);
-      console.log(`📄 Diff preview:`, diffContent.substring(0, 200));
-
-      if (diffContent) {
-        return this.parseDiff(diffContent, jobId);
-      } else {
-        console.warn("⚠️ Diff content is empty after trimming");
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: [JOB_ID_LABEL] },
+    });
+
+    for (const info of containers) {
+      const jobId = info.Labels?.[JOB_ID_LABEL];
+      if (!jobId || activeJobIds.has(jobId)) continue;
+
+      console.log(`🧹 Removing stale container ${info.Id} for job ${jobId}`);
+      await this.removeContainer(this.docker.getContainer(info.Id), jobId);
+    }
+
+    const proxies = await this.docker.listContainers({
+      all: true,
+      filters: { label: [SANDBOX_LABEL] },
+    });
+    for (const info of proxies) {
+      const jobId = info.Labels?.[SANDBOX_LABEL];
+      if (!jobId || activeJobIds.has(jobId)) continue;
+
+      console.log(`🧹 Removing stale network sandbox for job ${jobId}`);
+      await this.removeSandboxNetwork(jobId);
+    }
+  }
+
+  private async connect() {
+    // Initialize Docker if not already done
+    if (this.docker) return;
+
+    try {
+      // Dynamic import to avoid issues in client-side code
+      const Docker = await import("dockerode");
+      const docker = new Docker.default();
+
+      // Test Docker connection
+      await docker.ping();
+      this.docker = docker;
+      console.log("🐳 Docker daemon connected successfully");
+    } catch (error) {
+      throw new Error(`Docker daemon not available: ${error.message}`);
+    }
+  }
+
+  private async findJobContainer(jobId: string) {
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: [`${JOB_ID_LABEL}=${jobId}`] },
+    });
+
+    return containers.length
+      ? this.docker.getContainer(containers[0].Id)
+      : null;
+  }
+
+  private async removeContainer(container: any, jobId: string) {
+    try {
+      await container.remove({ force: true });
+    } catch (error) {
+      // Already gone, or removal already in progress
+      const { statusCode } = error as { statusCode?: number };
+      if (statusCode !== 404 && statusCode !== 409) {
+        console.warn(`⚠️ Failed to remove container for job ${jobId}:`, error);
       }
-    } else if (startIndex === -1) {
-      console.warn(
-        "⚠️ No start delimiter found - only one delimiter in output"
+    }
+  }
+
+  async cancel(jobId: string) {
+    console.log(`🛑 Cancelling Docker job ${jobId}`);
+    this.cancelledJobs.add(jobId);
+
+    // Fall back to the label for containers started by a previous process
+    const container =
+      this.containers.get(jobId) ||
+      (this.docker && (await this.findJobContainer(jobId)));
+    if (!container) {
+      // Container not created yet - runJobInContainer checks the flag
+      console.log(
+        `⏳ No container yet for job ${jobId}, cancelling before start`
       );
-      // If there's only one delimiter, maybe the diff is after it?
-      const contentAfterDelimiter = output
-        .substring(endIndex + delimiter.length)
-        .trim();
-      if (contentAfterDelimiter) {
-        console.log(
-          `🔄 Trying content after single delimiter (${contentAfterDelimiter.length} chars)`
-        );
-        console.log(
-          `📄 Content preview:`,
-          contentAfterDelimiter.substring(0, 200)
-        );
-        return this.parseDiff(contentAfterDelimiter, jobId);
-      }
-    } else {
-      console.warn("⚠️ Start and end delimiters are the same position");
+      return;
     }
 
-    console.warn("❌ No valid diff found in output, generating empty diff");
-    return {
-      jobId,
-      files: [],
-      summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
-    };
+    try {
+      await container.kill();
+    } catch (error) {
+      console.warn(`⚠️ Failed to kill container for job ${jobId}:`, error);
+    }
+
+    await this.removeContainer(container, jobId);
+    await this.removeSandboxNetwork(jobId);
+
+    this.containers.delete(jobId);
+    console.log(`✅ Container for job ${jobId} killed and removed`);
   }
 
-  private async runJobInContainer(
+  // Set up the job's network policy before its container is created. Returns
+  // the network the container joins and the variables it needs.
+  private async createSandboxNetwork(
     jobId: string,
-    jobData: any,
-    credentials: any
-  ): Promise<{
-    output: string;
-    environment: Record<string, string>;
-    secrets: Record<string, string>;
-  }> {
-    console.log(`🐳 Creating Docker container for job ${jobId}`);
+    policy: NetworkPolicy | undefined
+  ): Promise<{ networkMode?: string; environment: Record<string, string> }> {
+    if (!policy) return { environment: {} };
+    if (policy.mode === "none") {
+      console.log(`🔒 Job ${jobId} runs without network access`);
+      return { networkMode: "none", environment: {} };
+    }
 
-    // Use credentials from request (required - no fallback)
-    const openaiKey = credentials?.openaiApiKey;
+    if (policy.mode === "allowlist") {
+      console.log(
+        `🔒 Job ${jobId} may reach ${policy.allowedHosts.join(", ")} through the proxy`
+      );
+    }
+    await this.ensureImage(DOCKER.EGRESS_PROXY_IMAGE);
+
+    // Internal networks have no route out, the proxy's is its second network
+    const name = getSandboxNetworkName(jobId);
+    const network = await this.docker.createNetwork({
+      Name: name,
+      Internal: policy.mode === "allowlist",
+      Labels: { [SANDBOX_LABEL]: jobId },
+    });
+    const proxy = await this.docker.createContainer({
+      Image: DOCKER.EGRESS_PROXY_IMAGE,
+      name: `hugex-proxy-${jobId}`,
+      Entrypoint: PROXY_COMMAND.slice(0, 2),
+      Cmd: PROXY_COMMAND.slice(2),
+      Env: [`SQUID_CONFIG=${buildProxyConfig(policy)}`],
+      Labels: { [SANDBOX_LABEL]: jobId },
+      HostConfig: { NetworkMode: "bridge", AutoRemove: false },
+    });
+    await network.connect({
+      Container: proxy.id,
+      EndpointConfig: { Aliases: [PROXY_ALIAS] },
+    });
+    await proxy.start();
 
-    // (Optional) enforce openaiKey presence if needed:
-    // if (!openaiKey) {
-    //   throw new Error(
-    //     "OpenAI API key is required but not provided in credentials"
-    //   );
-    // }
+    return { networkMode: name, environment: getProxyEnvironment() };
+  }
 
-    // Use user's Docker configuration
-    let imageRef = dockerConfig.image;
-    console.log(`🐳 Using Docker image: ${imageRef}`);
+  // Remove the proxy and network of a job, if it has any, saving the
+  // proxy's log as the job's egress audit log first
+  private async removeSandboxNetwork(jobId: string) {
+    if (!this.docker) return;
+    const filters = { label: [`${SANDBOX_LABEL}=${jobId}`] };
 
-    // REMOVE to handle private registry or custom namespace
-    // If the default image is "codex-universal-explore:dev"
-    if (imageRef === "codex-universal-explore:dev") {
-      imageRef = "docker.io/drbh/codex-universal-explore:dev";
+    try {
+      const proxies = await this.docker.listContainers({ all: true, filters });
+      for (const info of proxies) {
+        const proxy = this.docker.getContainer(info.Id);
+        await this.recordEgress(jobId, proxy);
+        await this.removeContainer(proxy, jobId);
+      }
+
+      const networks = await this.docker.listNetworks({ filters });
+      for (const info of networks) {
+        await this.docker.getNetwork(info.Id).remove();
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️ Failed to remove network sandbox for job ${jobId}:`,
+        error
+      );
+    }
+  }
+
+  private async recordEgress(
+    jobId: string,
+    proxy: { logs(options: object): Promise<Buffer> }
+  ) {
+    try {
+      const jobStore = getJobStore();
+      const job = await jobStore.getJob(jobId);
+      if (!job?.network) return;
+
+      const log: Buffer = await proxy.logs({ stdout: true, follow: false });
+      const egress = parseProxyLog(
+        this.cleanDockerStreamChunk(log),
+        job.network
+      );
+      await jobStore.updateJob(jobId, { egress });
+
+      const unexpected = egress.filter((record) => record.unexpected);
+      console.log(
+        `🌐 Job ${jobId} made ${egress.reduce(
+          (total, record) => total + record.requests,
+          0
+        )} outbound requests${
+          unexpected.length ? `, ${unexpected.length} to unexpected hosts` : ""
+        }`
+      );
+    } catch (error) {
+      console.warn(`⚠️ Failed to record egress of job ${jobId}:`, error);
     }
+  }
 
-    // Check if image exists locally
+  private throwIfCancelled(jobId: string) {
+    if (this.cancelledJobs.has(jobId)) {
+      throw new Error(`Job ${jobId} was cancelled`);
+    }
+  }
+
+  // Pull the image unless it exists locally
+  private async ensureImage(imageRef: string) {
     try {
       await this.docker.getImage(imageRef).inspect();
       console.log(`✅ Docker image found: ${imageRef}`);
@@ -206,6 +415,48 @@ export class DockerJobExecutor extends JobExecutor {
         );
       }
     }
+  }
+
+  private async runJobInContainer(
+    jobId: string,
+    jobData: JobData,
+    credentials: ApiCredentials
+  ): Promise<{
+    output: string;
+    environment: Record<string, string>;
+    secrets: Record<string, string>;
+    secretValues: string[];
+  }> {
+    console.log(`🐳 Creating Docker container for job ${jobId}`);
+    const profile = getJobProfile(jobData);
+
+    // Use credentials from request (required - no fallback)
+    const openaiKey = credentials?.openaiApiKey;
+
+    // (Optional) enforce openaiKey presence if needed:
+    // if (!openaiKey) {
+    //   throw new Error(
+    //     "OpenAI API key is required but not provided in credentials"
+    //   );
+    // }
+
+    // Use the image of the job's environment profile
+    let imageRef = jobData.image || profile.image;
+    console.log(`🐳 Using Docker image: ${imageRef}`);
+
+    // REMOVE to handle private registry or custom namespace
+    // If the default image is "codex-universal-explore:dev"
+    if (imageRef === "codex-universal-explore:dev") {
+      imageRef = "docker.io/drbh/codex-universal-explore:dev";
+    }
+
+    await this.ensureImage(imageRef);
+
+    // The image must take secrets the way the profile delivers them
+    const image = await this.docker.getImage(imageRef).inspect();
+    const manifest = getAgentImageManifest(image.Config?.Labels);
+    checkSecretDelivery(manifest, profile.secretDelivery, imageRef);
+    const secretFiles = profile.secretDelivery === "files";
 
     // Get repository URL from job data or fall back to server config
     const repositoryUrl = jobData.repository?.url || REPO.URL;
@@ -215,11 +466,11 @@ export class DockerJobExecutor extends JobExecutor {
     );
     console.log(
       `📋 Environment variables: ${
-        Object.keys(dockerConfig.environment).length
-      } custom variables`
+        Object.keys(profile.environment).length
+      } custom variables (profile: ${profile.name})`
     );
     console.log(
-      `🔐 Secrets: ${Object.keys(dockerConfig.secrets).length} custom secrets`
+      `🔐 Secrets: ${Object.keys(profile.secrets).length} custom secrets`
     );
 
     // Merge base environment with user's custom environment variables
@@ -227,61 +478,164 @@ export class DockerJobExecutor extends JobExecutor {
       JOB_ID: jobId,
       REPO_URL: repositoryUrl,
       REPO_BRANCH: repositoryBranch,
-      PROMPT: jobData.description,
-      ...dockerConfig.environment, // User's custom env vars
+      PROMPT: this.getPrompt(jobData),
+      ...profile.environment, // The profile's and .hugex.yml's env vars
+      ...(jobData.environment || {}), // Job-specific environment variables override global ones
     };
 
-    const secrets = {
-      OPENAI_API_KEY: openaiKey,
-      ...dockerConfig.secrets, // User's custom secrets
+    const unresolvedSecrets = {
+      OPENAI_API_KEY: openaiKey || "",
+      ...profile.secrets, // Vault references of the profile
+      ...decryptJobSecrets(jobData.secrets), // Job-specific secrets
     };
 
+    // ${secrets.NAME} references are only resolved now, for the container.
+    // The job keeps the references.
+    const resolved = resolveJobEnvironment(jobData, credentials, {
+      environment: baseEnvironment,
+      secrets: unresolvedSecrets,
+    });
+    const secrets = resolved.secrets;
+    const knownSecrets = [
+      ...collectSecretValues(credentials, secrets),
+      ...resolved.secretValues,
+    ];
+
     // Convert to array format for Docker
     const environment = [
-      ...Object.entries(baseEnvironment).map(
+      ...Object.entries(resolved.environment).map(
+        ([key, value]) => `${key}=${value}`
+      ),
+      // Secret files are written from stdin once the container starts
+      ...(secretFiles
+        ? [`HUGEX_SECRETS_DIR=${manifest.secretsDir}`]
+        : Object.entries(secrets).map(([key, value]) => `${key}=${value}`)),
+      ...Object.entries(this.getBasePatchEnvironment(jobData)).map(
         ([key, value]) => `${key}=${value}`
       ),
-      ...Object.entries(secrets).map(([key, value]) => `${key}=${value}`),
     ];
 
-    // Use the user's configured Docker image
-    const container = await this.docker.createContainer({
-      Image: imageRef,
-      Cmd: ["/opt/agents/codex"],
-      Env: environment,
-      WorkingDir: "/workspace",
-      Tty: false,
-      AttachStdout: true,
-      AttachStderr: true,
-      HostConfig: {
-        AutoRemove: true,
-        Memory: DOCKER.MEMORY_LIMIT,
-        CpuShares: DOCKER.CPU_SHARES,
-      },
+    const secretFilesInput = secretFiles ? encodeSecretFiles(secrets) : null;
+
+    this.throwIfCancelled(jobId);
+
+    // Kept until the container is removed, see reattach()
+    await getJobStore().updateJob(jobId, {
+      redactionSecrets: encryptSecret(JSON.stringify(knownSecrets)),
     });
 
-    console.log(`🚀 Starting container for job ${jobId}`);
+    let logs: string;
+    try {
+      const sandbox = await this.createSandboxNetwork(jobId, jobData.network);
+      const resources = getJobResources(jobData, "docker");
+      const hardening = getHardeningOptions(
+        jobData.hardening || getContainerHardening(profile.hardening)
+      );
+
+      // Use the user's configured Docker image
+      const container = await this.docker.createContainer({
+        Image: imageRef,
+        Cmd: secretFiles
+          ? wrapCommandWithSecretFiles(this.getCommand(jobData))
+          : this.getCommand(jobData),
+        Env: [
+          ...environment,
+          ...Object.entries({
+            ...sandbox.environment,
+            ...hardening.environment,
+          }).map(([key, value]) => `${key}=${value}`),
+        ],
+        ...(hardening.user && { User: hardening.user }),
+        WorkingDir: "/workspace",
+        Tty: false,
+        AttachStdout: true,
+        AttachStderr: true,
+        // Stdin only carries the secret files, and closes after them
+        ...(secretFiles && {
+          AttachStdin: true,
+          OpenStdin: true,
+          StdinOnce: true,
+        }),
+        // Lets reconcileJobs() find the container again after a restart
+        Labels: { [JOB_ID_LABEL]: jobId },
+        HostConfig: {
+          // Removed explicitly once the logs are collected, so an exited
+          // container can still be read if the server was down at the time
+          AutoRemove: false,
+          // The job's limits, else the profile's, else the server defaults
+          Memory: resources.memoryMb * 1024 * 1024,
+          CpuShares: resources.cpuShares,
+          // The default bridge for jobs from before network policies
+          ...(sandbox.networkMode && { NetworkMode: sandbox.networkMode }),
+          // Capabilities, read-only root, tmpfs and limits of the preset
+          ...hardening.hostConfig,
+          ...(secretFiles && {
+            Tmpfs: {
+              ...(hardening.hostConfig.Tmpfs as Record<string, string>),
+              ...getSecretFilesTmpfs(
+                manifest.secretsDir,
+                hardening.user || image.Config?.User
+              ),
+            },
+          }),
+        },
+      });
 
-    // Start container
-    await container.start();
+      this.containers.set(jobId, container);
+      if (this.cancelledJobs.has(jobId)) {
+        await this.cancel(jobId);
+        this.throwIfCancelled(jobId);
+      }
 
-    // Get container logs
-    const logs = await this.getContainerLogs(container, jobId);
+      console.log(`🚀 Starting container for job ${jobId}`);
+
+      const stdin = secretFilesInput
+        ? await container.attach({ stream: true, stdin: true, hijack: true })
+        : null;
+
+      // Start container
+      await container.start();
+      stdin?.end(secretFilesInput);
+
+      // Get container logs
+      try {
+        logs = await this.getContainerLogs(
+          container,
+          jobId,
+          resources.timeoutMinutes,
+          knownSecrets
+        );
+      } finally {
+        await this.removeContainer(container, jobId);
+      }
+    } finally {
+      await this.removeSandboxNetwork(jobId);
+      await this.clearRedactionSecrets(jobId);
+    }
+    this.throwIfCancelled(jobId);
     console.log(
       `📜 Container logs for job ${jobId} (${logs.length} characters)`
     );
-    console.log(`📄 Container logs preview:`, logs.substring(0, 500));
+    console.log(
+      `📄 Container logs preview:`,
+      redactSecrets(logs.substring(0, 500), knownSecrets)
+    );
 
     return {
       output: logs,
       environment: baseEnvironment,
       secrets: secrets,
+      secretValues: resolved.secretValues,
     };
   }
 
+  // Streams logs into the job store as they arrive, scrubbed of the job's
+  // secrets. The unredacted output is returned for result extraction.
   private async getContainerLogs(
     container: any,
-    jobId: string
+    jobId: string,
+    timeoutMinutes: number,
+    knownSecrets: string[] = []
   ): Promise<string> {
     // Get logs stream
     const stream = await container.logs({
@@ -294,6 +648,15 @@ export class DockerJobExecutor extends JobExecutor {
       let output = "";
       const jobStore = getJobStore();
 
+      // Kill the container once the job's time is up
+      const timeout = setTimeout(
+        () => {
+          container.kill().catch(console.error);
+          reject(new JobTimeoutError(timeoutMinutes));
+        },
+        timeoutMinutes * 60 * 1000
+      );
+
       stream.on("data", async (chunk: Buffer) => {
         // Docker multiplexes stdout/stderr, need to handle the stream format
         const cleanChunk = this.cleanDockerStreamChunk(chunk);
@@ -301,7 +664,7 @@ export class DockerJobExecutor extends JobExecutor {
 
         // Store incremental logs in real-time
         try {
-          await jobStore.setJobLogs(jobId, output);
+          await jobStore.setJobLogs(jobId, redactSecrets(output, knownSecrets));
         } catch (error) {
           console.error(
             `Failed to store incremental logs for job ${jobId}:`,
@@ -311,6 +674,7 @@ export class DockerJobExecutor extends JobExecutor {
       });
 
       stream.on("end", () => {
+        clearTimeout(timeout);
         console.log(`✅ Container execution completed for job ${jobId}`);
         console.log(`📋 Total output length: ${output.length} characters`);
         resolve(output);
@@ -318,14 +682,9 @@ export class DockerJobExecutor extends JobExecutor {
 
       stream.on("error", (error: Error) => {
         console.error(`🚨 Container error for job ${jobId}:`, error);
+        clearTimeout(timeout);
         reject(error);
       });
-
-      // Timeout after configured time
-      setTimeout(() => {
-        container.kill().catch(console.error); // Attempt to kill the container
-        reject(new Error("Container execution timeout"));
-      }, DOCKER.TIMEOUT);
     });
   }
 
@@ -371,451 +730,6 @@ export class DockerJobExecutor extends JobExecutor {
     return result;
   }
 
-  async createBranchAndPush(options: {
-    repositoryUrl: string;
-    branch: string;
-    baseBranch: string;
-    title: string;
-    description: string;
-    files: any[];
-    credentials?: any;
-  }): Promise<{ branch: string; commitHash: string }> {
-    // For Docker executor, we'll use the same Git operations as ApiJobExecutor
-    // since Git operations don't need to run inside the container
-
-    const { promises: fs } = await import("fs");
-    const { exec } = await import("child_process");
-    const { promisify } = await import("util");
-    const path = await import("path");
-    const os = await import("os");
-
-    const execAsync = promisify(exec);
-    let tempDir: string | null = null;
-
-    try {
-      console.log(
-        `🌿 Creating branch '${options.branch}' and pushing changes...`
-      );
-
-      // Create temporary directory
-      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hugex-git-"));
-      console.log(`📁 Created temp directory: ${tempDir}`);
-
-      // Get authenticated repository URL (if needed)
-      const repoUrl = await this.getAuthenticatedRepoUrl(options.repositoryUrl);
-
-      // 1. Shallow clone the repository
-      console.log(`📌 Cloning repository: ${options.repositoryUrl}`);
-      await execAsync(
-        `git clone --depth=1 --branch ${options.baseBranch} "${repoUrl}" repo`,
-        {
-          cwd: tempDir,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      const repoPath = path.join(tempDir, "repo");
-
-      // 2. Create and checkout new branch
-      console.log(`🌱 Creating branch: ${options.branch}`);
-      await execAsync(`git checkout -b "${options.branch}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 3. Apply file changes from diff
-      console.log(`🗏 Applying ${options.files.length} file changes...`);
-      await this.applyFileChanges(repoPath, options.files);
-
-      // 4. Configure git user (required for commits)
-      await execAsync('git config user.name "HugeX Bot"', {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-      await execAsync(
-        'git config user.email "hugex@users.noreply.github.com"',
-        {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      // 5. Stage all changes
-      console.log(`📚 Staging changes...`);
-      await execAsync("git add .", {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // Check if there are any changes to commit
-      const { stdout: statusOutput } = await execAsync(
-        "git status --porcelain",
-        {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        }
-      );
-
-      console.log(`Git status output:`, statusOutput);
-
-      if (!statusOutput.trim()) {
-        // No changes detected - let's create a minimal change to ensure we have something to commit
-        console.log("No changes detected, creating minimal change...");
-
-        // Create a simple marker file to indicate this branch was created by HugeX
-        const markerPath = path.join(repoPath, ".hugex-branch-marker");
-        const markerContent = `Branch created by Hugex\nTimestamp: ${new Date().toISOString()}\nBranch: ${
-          options.branch
-        }\nRepository: ${options.repositoryUrl}\n`;
-        await fs.writeFile(markerPath, markerContent, "utf8");
-
-        // Stage the marker file
-        await execAsync("git add .hugex-branch-marker", {
-          cwd: repoPath,
-          env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-        });
-
-        console.log("Created marker file to ensure non-empty commit");
-      }
-
-      // 6. Commit changes
-      const commitMessage = `${options.title}\n\n${options.description}`;
-      console.log(`📝 Committing changes...`);
-      await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 7. Get commit hash
-      const { stdout: commitHash } = await execAsync("git rev-parse HEAD", {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      // 8. Push branch to origin
-      console.log(`🚀 Pushing branch to origin...`);
-      await execAsync(`git push origin "${options.branch}"`, {
-        cwd: repoPath,
-        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
-      });
-
-      const finalCommitHash = commitHash.trim();
-      console.log(
-        `✅ Successfully created branch '${options.branch}' with commit: ${finalCommitHash}`
-      );
-
-      return {
-        branch: options.branch,
-        commitHash: finalCommitHash,
-      };
-    } catch (error) {
-      console.error("❌ Failed to create branch and push:", error);
-      throw new Error(`Git operation failed: ${error.message}`);
-    } finally {
-      // Clean up temporary directory
-      if (tempDir) {
-        try {
-          await fs.rm(tempDir, { recursive: true, force: true });
-          console.log(`🧽 Cleaned up temp directory: ${tempDir}`);
-        } catch (cleanupError) {
-          console.warn(`⚠️ Failed to clean up temp directory: ${cleanupError}`);
-        }
-      }
-    }
-  }
-
-  private async getAuthenticatedRepoUrl(
-    repositoryUrl: string
-  ): Promise<string> {
-    // For GitHub repositories, check if we have a token available
-    if (repositoryUrl.includes("github.com")) {
-      // In a production system, you would:
-      // 1. Get the GitHub token from the current user's session/credentials
-      // 2. Create an ephemeral token for this operation
-      // 3. Return authenticated URL with token
-
-      // For now, return the original URL
-      // TODO: Integrate with GitHubTokenService for authenticated access
-      console.log(
-        "⚠️ Using unauthenticated repository URL - private repositories may fail"
-      );
-    }
-
-    return repositoryUrl;
-  }
-
-  private async applyFileChanges(
-    repoPath: string,
-    files: any[]
-  ): Promise<void> {
-    const { promises: fs } = await import("fs");
-    const path = await import("path");
-
-    console.log(`Applying changes to ${files.length} files:`);
-
-    for (const file of files) {
-      console.log(`Processing file: ${file.filename} (status: ${file.status})`);
-
-      // Use diff field if available, otherwise fall back to patch
-      const diffContent = file.diff || file.patch;
-      console.log(
-        `File diff preview:`,
-        diffContent ? diffContent.substring(0, 150) + "..." : "NO DIFF/PATCH"
-      );
-      console.log(`Available fields:`, Object.keys(file));
-
-      const filePath = path.join(repoPath, file.filename);
-
-      try {
-        switch (file.status) {
-          case "added":
-            // Create new file
-            console.log(`Creating new file: ${filePath}`);
-            await fs.mkdir(path.dirname(filePath), { recursive: true });
-            await this.applyDiffToFile(filePath, diffContent, true);
-            break;
-
-          case "modified":
-            // Modify existing file
-            console.log(`Modifying existing file: ${filePath}`);
-            await this.applyDiffToFile(filePath, diffContent, false);
-            break;
-
-          case "deleted":
-            // Delete file
-            console.log(`Deleting file: ${filePath}`);
-            try {
-              await fs.unlink(filePath);
-            } catch (err) {
-              console.warn(`File already deleted or not found: ${filePath}`);
-            }
-            break;
-
-          case "renamed":
-            // Handle renamed files
-            console.log(
-              `Renaming file: ${file.oldFilename} -> ${file.filename}`
-            );
-            if (file.oldFilename) {
-              const oldPath = path.join(repoPath, file.oldFilename);
-              try {
-                await fs.rename(oldPath, filePath);
-                // Apply any changes to the renamed file
-                if (diffContent) {
-                  await this.applyDiffToFile(filePath, diffContent, false);
-                }
-              } catch (err) {
-                console.warn(
-                  `Rename failed, treating as new file: ${err.message}`
-                );
-                await this.applyDiffToFile(filePath, diffContent, true);
-              }
-            }
-            break;
-
-          default:
-            console.warn(
-              `Unknown file status: ${file.status} for ${file.filename}`
-            );
-        }
-      } catch (error) {
-        console.error(`Failed to apply changes to ${file.filename}:`, error);
-        throw error;
-      }
-    }
-  }
-
-  private async applyDiffToFile(
-    filePath: string,
-    diff: string,
-    isNewFile: boolean
-  ): Promise<void> {
-    const { promises: fs } = await import("fs");
-
-    if (!diff) {
-      console.warn(`No diff content for ${filePath}`);
-      return;
-    }
-
-    console.log(`Applying diff to ${filePath}:`, {
-      isNewFile,
-      diffLength: diff.length,
-      diffPreview: diff.substring(0, 200) + (diff.length > 200 ? "..." : ""),
-    });
-
-    if (isNewFile) {
-      // For new files, extract content from diff
-      const content = this.extractContentFromDiff(diff);
-      console.log(
-        `Extracted content for new file (${content.length} chars):`,
-        content.substring(0, 100)
-      );
-      await fs.writeFile(filePath, content, "utf8");
-    } else {
-      // For existing files, apply patch
-      try {
-        const currentContent = await fs.readFile(filePath, "utf8");
-        console.log(
-          `Current file content (${currentContent.length} chars):`,
-          currentContent.substring(0, 100)
-        );
-        const patchedContent = this.applySimplePatch(currentContent, diff);
-        console.log(
-          `Patched content (${patchedContent.length} chars):`,
-          patchedContent.substring(0, 100)
-        );
-        await fs.writeFile(filePath, patchedContent, "utf8");
-      } catch (error) {
-        console.error(`Failed to apply patch to ${filePath}:`, error);
-        // Fallback: try to extract content from diff
-        const content = this.extractContentFromDiff(diff);
-        console.log(
-          `Fallback: extracted content (${content.length} chars):`,
-          content.substring(0, 100)
-        );
-        await fs.writeFile(filePath, content, "utf8");
-      }
-    }
-  }
-
-  private extractContentFromDiff(diff: string): string {
-    // Extract content from diff format
-    // This handles unified diff format and extracts added lines
-    if (!diff || diff.trim() === "") {
-      console.warn("Empty diff provided, returning empty content");
-      return "";
-    }
-
-    const lines = diff.split("\n");
-    const content: string[] = [];
-    let foundContent = false;
-
-    console.log(`Extracting content from diff with ${lines.length} lines`);
-
-    for (const line of lines) {
-      if (line.startsWith("+") && !line.startsWith("+++")) {
-        // Add line (remove the + prefix)
-        content.push(line.substring(1));
-        foundContent = true;
-      } else if (
-        !line.startsWith("-") &&
-        !line.startsWith("@@") &&
-        !line.startsWith("index") &&
-        !line.startsWith("diff") &&
-        !line.startsWith("+++") &&
-        !line.startsWith("---")
-      ) {
-        // Context line (unchanged)
-        if (line.trim() !== "") {
-          content.push(line);
-          foundContent = true;
-        }
-      }
-    }
-
-    const result = content.join("\n");
-    console.log(
-      `Extracted ${content.length} lines, found content: ${foundContent}, result length: ${result.length}`
-    );
-
-    // If no content was found in the diff, it might be a simple text replacement
-    // Try to extract everything after the diff headers
-    if (!foundContent && diff.includes("@@")) {
-      const hunkStart = diff.indexOf("@@");
-      const secondHunkStart = diff.indexOf("@@", hunkStart + 2);
-      if (secondHunkStart !== -1) {
-        const hunkContent = diff.substring(
-          secondHunkStart + diff.substring(secondHunkStart).indexOf("\n") + 1
-        );
-        const hunkLines = hunkContent.split("\n");
-        const extractedContent: string[] = [];
-
-        for (const line of hunkLines) {
-          if (line.startsWith("+")) {
-            extractedContent.push(line.substring(1));
-          } else if (line.startsWith(" ")) {
-            extractedContent.push(line.substring(1));
-          }
-        }
-
-        if (extractedContent.length > 0) {
-          console.log(
-            `Fallback extraction found ${extractedContent.length} lines`
-          );
-          return extractedContent.join("\n");
-        }
-      }
-    }
-
-    return result;
-  }
-
-  private applySimplePatch(originalContent: string, diff: string): string {
-    // Simple patch application - this is a basic implementation
-    // For production, consider using a proper diff/patch library like 'diff' or 'node-patch'
-    const originalLines = originalContent.split("\n");
-    const diffLines = diff.split("\n");
-    const result: string[] = [];
-
-    let originalIndex = 0;
-    let inHunk = false;
-    let hunkOriginalStart = 0;
-    let hunkOriginalLength = 0;
-    let hunkNewStart = 0;
-    let hunkNewLength = 0;
-    let processedInHunk = 0;
-
-    for (const line of diffLines) {
-      if (line.startsWith("@@")) {
-        // Parse hunk header
-        const match = line.match(/@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/);
-        if (match) {
-          hunkOriginalStart = parseInt(match[1]) - 1; // Convert to 0-based
-          hunkOriginalLength = match[2] ? parseInt(match[2]) : 1;
-          hunkNewStart = parseInt(match[3]) - 1;
-          hunkNewLength = match[4] ? parseInt(match[4]) : 1;
-
-          // Copy lines before this hunk
-          while (originalIndex < hunkOriginalStart) {
-            result.push(originalLines[originalIndex]);
-            originalIndex++;
-          }
-
-          inHunk = true;
-          processedInHunk = 0;
-        }
-      } else if (inHunk) {
-        if (line.startsWith("-")) {
-          // Remove line - skip it in original
-          originalIndex++;
-          processedInHunk++;
-        } else if (line.startsWith("+")) {
-          // Add line
-          result.push(line.substring(1));
-          processedInHunk++;
-        } else if (line.startsWith(" ")) {
-          // Context line - keep it
-          result.push(line.substring(1));
-          originalIndex++;
-          processedInHunk++;
-        }
-
-        // Check if hunk is complete
-        if (processedInHunk >= Math.max(hunkOriginalLength, hunkNewLength)) {
-          inHunk = false;
-        }
-      }
-    }
-
-    // Copy remaining lines
-    while (originalIndex < originalLines.length) {
-      result.push(originalLines[originalIndex]);
-      originalIndex++;
-    }
-
-    return result.join("\n");
-  }
-
   // Health check for Docker availability
   async healthCheck(): Promise<{ available: boolean; error?: string }> {
     try {
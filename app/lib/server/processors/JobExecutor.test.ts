@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { JobExecutor, type JobExecutionResult } from "./JobExecutor";
+
+class TestExecutor extends JobExecutor {
+  execute(): Promise<JobExecutionResult> {
+    throw new Error("Not used");
+  }
+
+  cancel(): Promise<void> {
+    throw new Error("Not used");
+  }
+
+  reattach(): Promise<JobExecutionResult> {
+    throw new Error("Not used");
+  }
+
+  parse(diffOutput: string) {
+    return this.parseDiff(diffOutput, "job-1");
+  }
+}
+
+const executor = new TestExecutor();
+
+describe("parseDiff", () => {
+  it("counts the lines of modified files", () => {
+    const patch = [
+      "diff --git a/src/app.ts b/src/app.ts",
+      "index 83db48f..bf269f4 100644",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -1,2 +1,2 @@",
+      "-const a = 1;",
+      "+const a = 2;",
+      " export { a };",
+    ].join("\n");
+
+    const diff = executor.parse(patch);
+    expect(diff.files).toEqual([
+      expect.objectContaining({
+        filename: "src/app.ts",
+        status: "modified",
+        additions: 1,
+        deletions: 1,
+        patch,
+      }),
+    ]);
+  });
+
+  it("keeps the headers of renames and mode changes", () => {
+    const patch = [
+      "diff --git a/old.sh b/new.sh",
+      "old mode 100644",
+      "new mode 100755",
+      "similarity index 100%",
+      "rename from old.sh",
+      "rename to new.sh",
+    ].join("\n");
+
+    const [file] = executor.parse(patch).files;
+    expect(file).toMatchObject({
+      filename: "new.sh",
+      oldFilename: "old.sh",
+      status: "renamed",
+    });
+    expect(file.patch).toBe(patch);
+  });
+
+  it("keeps binary changes", () => {
+    const binary = [
+      "diff --git a/logo.png b/logo.png",
+      "new file mode 100644",
+      "index 0000000..3b18e51",
+      "GIT binary patch",
+      "literal 12",
+      "TcmZ?wbhEHbWMp7u_{;zT1D^tf",
+      "",
+      "literal 0",
+      "HcmV?d00001",
+      "",
+    ].join("\n");
+    const text = [
+      "diff --git a/notes.txt b/notes.txt",
+      "index 83db48f..bf269f4 100644",
+      "Binary files a/notes.txt and b/notes.txt differ",
+    ].join("\n");
+
+    const files = executor.parse(`${binary}\n${text}`).files;
+    expect(files.map((file) => file.patch)).toEqual([binary, text]);
+    expect(files[0].status).toBe("added");
+  });
+});
@@ -1,19 +1,279 @@
-import type { JobDiff } from "~/types/job";
+import type { FileDiff, Job, JobCheck, JobDiff, JobResult } from "~/types/job";
+import type { ApiCredentials } from "../auth";
+import { GitService, type BranchPushResult } from "../gitService";
+import { extractResultManifest } from "./resultManifest";
+import {
+  buildJobCommand,
+  extractCheckResults,
+  removeStepOutput,
+  type JobCommands,
+} from "./jobCommands";
+import { getJobProfile } from "../environmentProfiles";
+import { redactSecrets } from "../redaction";
+
+// Variables every executor sets per job. They are rebuilt on each run, so
+// they must not be copied when a job's environment is reused.
+export const BASE_ENVIRONMENT_KEYS = [
+  "JOB_ID",
+  "REPO_URL",
+  "REPO_BRANCH",
+  "PROMPT",
+  "HUGEX_BASE_PATCH",
+];
+
+const LEGACY_DIFF_DELIMITER = "=".repeat(80);
+
+// git's extended header lines, between "diff --git" and the first hunk
+const EXTENDED_HEADER_PATTERN =
+  /^(old mode |new mode |similarity index |dissimilarity index |rename from |rename to |copy from |copy to |Binary files |GIT binary patch$)/;
+
+// Environment variables are capped at 128KB each by the kernel
+const MAX_BASE_PATCH_SIZE = 96 * 1024;
+
+// A job's environment minus the variables executors set for every run,
+// suitable for copying into a new job
+export function reusableEnvironment(
+  environment?: Record<string, string>
+): Record<string, string> | undefined {
+  if (!environment) return undefined;
+
+  const copy = Object.fromEntries(
+    Object.entries(environment).filter(
+      ([key]) => !BASE_ENVIRONMENT_KEYS.includes(key)
+    )
+  );
+  return Object.keys(copy).length ? copy : undefined;
+}
+
+// The job as executors run it. Follow-ups carry their base job's changes.
+export type JobData = Job & { basePatch?: string };
+
+// What a run produced, for JobProcessor to store
+export interface JobExecutionResult {
+  success: boolean;
+  output: string;
+  diff: JobDiff;
+  agentResult?: JobResult;
+  checks?: JobCheck[];
+  apiJobId?: string;
+  // Variables and secrets the job ran with, references unresolved
+  environment?: Record<string, string>;
+  secrets?: Record<string, string>;
+  // Values resolved from the vault, to redact
+  secretValues?: string[];
+}
 
 // Base interface for job execution strategies
 export abstract class JobExecutor {
-  abstract execute(jobId: string, jobData: any, credentials: any): Promise<any>;
+  abstract execute(
+    jobId: string,
+    jobData: JobData,
+    credentials: ApiCredentials
+  ): Promise<JobExecutionResult>;
+
+  // Abort an in-flight job. Implementations must release any remote or local
+  // resources for the job and make a pending execute() call settle promptly.
+  abstract cancel(
+    jobId: string,
+    jobData: Job,
+    credentials: ApiCredentials
+  ): Promise<void>;
 
-  // Method for creating branch and pushing changes
-  abstract createBranchAndPush(options: {
+  // Pick up a job that was in flight when the server restarted and wait for
+  // its result. Resolves like execute(), or throws if the job can't be found.
+  abstract reattach(
+    jobId: string,
+    jobData: Job,
+    credentials: ApiCredentials
+  ): Promise<JobExecutionResult>;
+
+  // Git operations run on the server whatever the execution mode
+  createBranchAndPush(options: {
     repositoryUrl: string;
     branch: string;
     baseBranch: string;
     title: string;
     description: string;
-    files: any[];
-    credentials?: any;
-  }): Promise<{ branch: string; commitHash: string }>;
+    files: FileDiff[];
+    credentials?: ApiCredentials;
+  }): Promise<BranchPushResult> {
+    return GitService.createBranchAndPush(options);
+  }
+
+  // Follow-up jobs start from their base job's changes. The job's script
+  // applies HUGEX_BASE_PATCH (base64 git patch) to the fresh checkout before
+  // running the agent, so the diff it reports includes the base changes too.
+  // A patch too large to pass fails the job rather than being left out.
+  protected getBasePatchEnvironment(
+    jobData: Pick<JobData, "basePatch">
+  ): Record<string, string> {
+    if (!jobData.basePatch) return {};
+
+    const encoded = Buffer.from(jobData.basePatch).toString("base64");
+    if (encoded.length > MAX_BASE_PATCH_SIZE) {
+      throw new Error(
+        `The previous job's changes are too large to continue from (${encoded.length} bytes encoded, limit ${MAX_BASE_PATCH_SIZE})`
+      );
+    }
+
+    return { HUGEX_BASE_PATCH: encoded };
+  }
+
+  // The agent's prompt: the preamble and protected paths of the repository's
+  // .hugex.yml, then the task
+  protected getPrompt(
+    jobData: Pick<Job, "description" | "repositoryConfig">
+  ): string {
+    const config = jobData.repositoryConfig;
+    const protectedPaths = config?.protectedPaths.length
+      ? `Do not change files matching these paths: ${config.protectedPaths.join(", ")}.`
+      : undefined;
+
+    return [config?.promptPreamble, protectedPaths, jobData.description]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  // What the job's container runs: the agent, with the setup and verify
+  // commands of its profile or .hugex.yml around it, and the base job's
+  // changes applied first for follow-ups
+  protected getCommand(
+    jobData: Pick<Job, "profile" | "repositoryConfig" | "baseJobId">
+  ): string[] {
+    return buildJobCommand(this.getJobCommands(jobData));
+  }
+
+  // Results of the setup and verify commands, if the job has any
+  protected extractChecks(
+    output: string,
+    jobData: Pick<Job, "profile" | "repositoryConfig" | "baseJobId">
+  ): JobCheck[] | undefined {
+    return extractCheckResults(output, this.getJobCommands(jobData));
+  }
+
+  private getJobCommands(
+    jobData: Pick<Job, "profile" | "repositoryConfig" | "baseJobId">
+  ): JobCommands {
+    const { setup, verify } = getJobProfile(jobData);
+    return { setup, verify, followUp: !!jobData.baseJobId };
+  }
+
+  // Read the agent's result from its output: the framed result manifest if
+  // there is one, otherwise the legacy '=' delimiters. The setup and verify
+  // commands' output is left out.
+  protected extractResult(
+    containerOutput: string,
+    jobId: string
+  ): { diff: JobDiff; result?: JobResult } {
+    const output = removeStepOutput(containerOutput);
+    const manifest = extractResultManifest(output);
+    if (manifest) {
+      console.log(`📦 Found result manifest for job ${jobId}`);
+      return {
+        diff: this.parseDiff(manifest.diff, jobId),
+        result: {
+          source: "manifest",
+          exitCode: manifest.exitCode,
+          summary: manifest.summary,
+          artifacts: manifest.artifacts,
+        },
+      };
+    }
+
+    const diff = this.extractDiffFromDelimiters(output, jobId);
+    return {
+      diff,
+      result: output.includes(LEGACY_DIFF_DELIMITER)
+        ? { source: "delimiters" }
+        : undefined,
+    };
+  }
+
+  // Legacy protocol: the diff sits between the last two 80-char '=' lines.
+  // Breaks if the agent prints such a line itself, hence the manifest.
+  private extractDiffFromDelimiters(output: string, jobId: string): JobDiff {
+    const delimiter = LEGACY_DIFF_DELIMITER;
+
+    console.log(
+      `🔍 Extracting diff from output (${output.length} chars) for job ${jobId}`
+    );
+
+    // Count total occurrences for debugging
+    const delimiterCount = (
+      output.match(new RegExp(delimiter.replace(/=/g, "\\="), "g")) || []
+    ).length;
+    console.log(`📊 Found ${delimiterCount} delimiter occurrences`);
+
+    // Find the last occurrence of the delimiter (end marker)
+    const endIndex = output.lastIndexOf(delimiter);
+    if (endIndex === -1) {
+      console.warn(
+        "❌ No end delimiter found in output, generating empty diff"
+      );
+      // Log a sample of the output for debugging
+      console.log(
+        "📄 Output sample (first 500 chars):",
+        redactSecrets(output.substring(0, 500))
+      );
+      return {
+        jobId,
+        files: [],
+        summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
+      };
+    }
+
+    console.log(`📍 End delimiter found at position: ${endIndex}`);
+
+    // Find the second-to-last occurrence of the delimiter (start marker)
+    // by searching backwards from the position before the end delimiter
+    const searchUpTo = endIndex - 1;
+    const startIndex = output.lastIndexOf(delimiter, searchUpTo);
+
+    console.log(
+      `📍 Start delimiter search up to position ${searchUpTo}, found at: ${startIndex}`
+    );
+
+    if (startIndex !== -1 && startIndex !== endIndex) {
+      const diffContent = output
+        .substring(startIndex + delimiter.length, endIndex)
+        .trim();
+      console.log(`📝 Extracted diff content (${diffContent.length} chars)`);
+      console.log(`📄 Diff preview:`, diffContent.substring(0, 200));
+
+      if (diffContent) {
+        return this.parseDiff(diffContent, jobId);
+      } else {
+        console.warn("⚠️ Diff content is empty after trimming");
+      }
+    } else if (startIndex === -1) {
+      console.warn(
+        "⚠️ No start delimiter found - only one delimiter in output"
+      );
+      // If there's only one delimiter, maybe the diff is after it?
+      const contentAfterDelimiter = output
+        .substring(endIndex + delimiter.length)
+        .trim();
+      if (contentAfterDelimiter) {
+        console.log(
+          `🔄 Trying content after single delimiter (${contentAfterDelimiter.length} chars)`
+        );
+        console.log(
+          `📄 Content preview:`,
+          contentAfterDelimiter.substring(0, 200)
+        );
+        return this.parseDiff(contentAfterDelimiter, jobId);
+      }
+    } else {
+      console.warn("⚠️ Start and end delimiters are the same position");
+    }
+
+    console.warn("❌ No valid diff found in output, generating empty diff");
+    return {
+      jobId,
+      files: [],
+      summary: { totalAdditions: 0, totalDeletions: 0, totalFiles: 0 },
+    };
+  }
 
   protected parseDiff(diffOutput: string, jobId: string): JobDiff {
     const files: any[] = [];
@@ -21,10 +281,17 @@ export abstract class JobExecutor {
     let currentFile: any = null;
     let currentPatch: string[] = [];
     let inFileHeader = false;
+    let inBinaryPatch = false;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
+      // Binary patch data runs up to the next file
+      if (inBinaryPatch && !line.startsWith("diff --git ")) {
+        currentPatch.push(line);
+        continue;
+      }
+
       // Start of a new file diff
       if (line.startsWith("diff --git ")) {
         // Save previous file if it exists
@@ -49,7 +316,19 @@ export abstract class JobExecutor {
           };
           currentPatch = [line];
           inFileHeader = true;
+          inBinaryPatch = false;
+        }
+      }
+      // Mode changes, renames and binary changes. Without these headers the
+      // patch wouldn't reproduce the change.
+      else if (inFileHeader && EXTENDED_HEADER_PATTERN.test(line)) {
+        currentPatch.push(line);
+
+        if (line.startsWith("rename from ") && currentFile) {
+          currentFile.status = "renamed";
+          currentFile.oldFilename = line.substring("rename from ".length);
         }
+        if (line === "GIT binary patch") inBinaryPatch = true;
       }
       // File mode/index information
       else if (
@@ -0,0 +1,87 @@
+import type { AgentImageManifest, SecretDelivery } from "~/types/agentImage";
+
+// Agent images describe the contract they implement in a label, e.g.
+//
+//   LABEL hugex.agent-manifest='{"version":1,"secretDelivery":["env","files"]}'
+//
+// hugex reads it from the image before creating a job's container, and
+// refuses to run a profile's secret delivery mode the image doesn't support.
+// An invalid manifest fails the job rather than guessing.
+
+export const AGENT_MANIFEST_LABEL = "hugex.agent-manifest";
+
+export const DEFAULT_SECRETS_DIR = "/run/hugex/secrets";
+
+const SECRET_DELIVERIES: SecretDelivery[] = ["env", "files"];
+
+// What images without a manifest are assumed to support
+const DEFAULT_MANIFEST: AgentImageManifest = {
+  version: 1,
+  secretDelivery: ["env"],
+  secretsDir: DEFAULT_SECRETS_DIR,
+};
+
+// The manifest of an image, from its labels
+export function getAgentImageManifest(
+  labels: Record<string, string> | null | undefined
+): AgentImageManifest {
+  const label = labels?.[AGENT_MANIFEST_LABEL];
+  if (!label) return DEFAULT_MANIFEST;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(label);
+  } catch {
+    throw new Error(`The image's ${AGENT_MANIFEST_LABEL} label is not JSON`);
+  }
+
+  const { version, secretDelivery, secretsDir } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (version !== 1) {
+    throw new Error(
+      `The image's ${AGENT_MANIFEST_LABEL} label has version ${String(version)}, this server supports version 1`
+    );
+  }
+  if (
+    secretDelivery !== undefined &&
+    (!Array.isArray(secretDelivery) ||
+      !secretDelivery.length ||
+      !secretDelivery.every((mode) => SECRET_DELIVERIES.includes(mode)))
+  ) {
+    throw new Error(
+      `secretDelivery of the image's ${AGENT_MANIFEST_LABEL} label must list some of ${SECRET_DELIVERIES.join(", ")}`
+    );
+  }
+  if (
+    secretsDir !== undefined &&
+    (typeof secretsDir !== "string" ||
+      !/^\/[\w./-]+$/.test(secretsDir) ||
+      secretsDir.split("/").includes(".."))
+  ) {
+    throw new Error(
+      `secretsDir of the image's ${AGENT_MANIFEST_LABEL} label must be an absolute path`
+    );
+  }
+
+  return {
+    version,
+    secretDelivery: (secretDelivery as SecretDelivery[]) ?? ["env"],
+    secretsDir: (secretsDir as string) ?? DEFAULT_SECRETS_DIR,
+  };
+}
+
+// Throws if the image can't take secrets the way the profile delivers them
+export function checkSecretDelivery(
+  manifest: AgentImageManifest,
+  delivery: SecretDelivery,
+  imageRef: string
+) {
+  if (manifest.secretDelivery.includes(delivery)) return;
+
+  throw new Error(
+    `Image ${imageRef} takes secrets as ${manifest.secretDelivery.join(" or ")}, not as ${delivery}. ` +
+      `Change the secret delivery of the job's environment profile, or declare "${delivery}" in the image's ${AGENT_MANIFEST_LABEL} label.`
+  );
+}
@@ -0,0 +1,99 @@
+import serverConfig from "../config";
+import type {
+  ContainerHardening,
+  HardeningPreset,
+} from "~/types/environmentProfile";
+
+// Docker jobs run with the hardening preset of their profile. "permissive"
+// keeps Docker's defaults, as before presets. "standard" keeps root but
+// drops the capabilities package managers don't need, forbids gaining
+// privileges and caps processes and open files. "strict" drops every
+// capability and runs a non-root user on a read-only root filesystem: only
+// /workspace and /tmp are writable, both tmpfs counting against the
+// container's memory limit. Images must work as DOCKER_SANDBOX_USER with
+// HOME on /tmp for it.
+
+const { DOCKER } = serverConfig;
+
+export function getContainerHardening(
+  preset: HardeningPreset
+): ContainerHardening {
+  switch (preset) {
+    case "strict":
+      return {
+        preset,
+        capabilities: [],
+        noNewPrivileges: true,
+        user: DOCKER.SANDBOX_USER,
+        readOnlyRootfs: true,
+        tmpfs: { "/workspace": DOCKER.WORKSPACE_SIZE_MB, "/tmp": 512 },
+        pidsLimit: 256,
+        ulimits: [
+          { name: "nofile", soft: 1024, hard: 1024 },
+          { name: "nproc", soft: 256, hard: 256 },
+          { name: "core", soft: 0, hard: 0 },
+        ],
+      };
+    case "standard":
+      return {
+        preset,
+        capabilities: ["CHOWN", "DAC_OVERRIDE", "FOWNER", "SETGID", "SETUID"],
+        noNewPrivileges: true,
+        readOnlyRootfs: false,
+        tmpfs: {},
+        pidsLimit: 1024,
+        ulimits: [{ name: "nofile", soft: 8192, hard: 8192 }],
+      };
+    default:
+      return {
+        preset: "permissive",
+        noNewPrivileges: false,
+        readOnlyRootfs: false,
+        tmpfs: {},
+        ulimits: [],
+      };
+  }
+}
+
+// The container options applying the settings. Tmpfs mounts are
+// executable, for installed tools, and owned by the container's user.
+export function getHardeningOptions(hardening: ContainerHardening): {
+  user?: string;
+  environment: Record<string, string>;
+  hostConfig: Record<string, unknown>;
+} {
+  const [uid, gid] = hardening.user?.split(":") ?? [];
+  const owner = uid ? `,uid=${uid},gid=${gid || uid}` : "";
+
+  return {
+    user: hardening.user,
+    // Nothing else is writable for dotfiles
+    environment: hardening.readOnlyRootfs ? { HOME: "/tmp" } : {},
+    hostConfig: {
+      ...(hardening.capabilities && {
+        CapDrop: ["ALL"],
+        CapAdd: hardening.capabilities,
+      }),
+      ...(hardening.noNewPrivileges && {
+        SecurityOpt: ["no-new-privileges:true"],
+      }),
+      ReadonlyRootfs: hardening.readOnlyRootfs,
+      ...(Object.keys(hardening.tmpfs).length && {
+        Tmpfs: Object.fromEntries(
+          Object.entries(hardening.tmpfs).map(([path, sizeMb]) => [
+            path,
+            `rw,exec,size=${sizeMb}m${owner}`,
+          ])
+        ),
+      }),
+      ...(hardening.pidsLimit && { PidsLimit: hardening.pidsLimit }),
+      ...(hardening.ulimits.length && {
+        Ulimits: hardening.ulimits.map(({ name, soft, hard }) => ({
+          Name: name,
+          Soft: soft,
+          Hard: hard,
+        })),
+      }),
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import type { JobCheck } from "~/types/job";
+
+// Jobs with setup or verify commands, and follow-up jobs, don't run the agent
+// alone: a script checks the repository out into HUGEX_REPO_DIR, applies the
+// base job's changes for follow-ups, runs the setup commands there, then the
+// agent, then the verify commands on the agent's changes. A failing setup
+// step stops the job before the agent runs. Each command's output is framed
+// on stdout so its result can be told apart from the agent's output.
+
+// What the script runs before the agent and after it
+export interface JobCommands {
+  setup: string[];
+  verify: string[];
+  // Follow-ups start from their base job's changes, in HUGEX_BASE_PATCH
+  followUp?: boolean;
+}
+
+export const AGENT_COMMAND = "/opt/agents/codex";
+
+export const REPO_DIR = "/workspace/repo";
+
+export const STEP_BEGIN_MARKER = "::hugex-step-begin::";
+export const STEP_END_MARKER = "::hugex-step-end::";
+
+// The first setup step
+const CHECKOUT_COMMAND =
+  'git clone --quiet --branch "$REPO_BRANCH" "$REPO_URL" "$HUGEX_REPO_DIR"';
+
+// The second one for follow-ups, so agents find the checkout as they would
+// have left it. A base job without changes leaves the patch empty.
+const BASE_PATCH_COMMAND =
+  'if [ -n "${HUGEX_BASE_PATCH:-}" ]; then echo "$HUGEX_BASE_PATCH" | base64 -d | git apply; fi';
+
+// How they are shown on the job
+const CHECKOUT_LABEL = "git clone (checkout)";
+export const BASE_PATCH_LABEL = "git apply (previous job's changes)";
+
+const STEP_LABELS: Record<string, string> = {
+  [CHECKOUT_COMMAND]: CHECKOUT_LABEL,
+  [BASE_PATCH_COMMAND]: BASE_PATCH_LABEL,
+};
+
+// Only the end of a command's output is kept on the job, the logs have it all
+const MAX_STEP_OUTPUT = 16 * 1024;
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function runsAgentAlone(commands: JobCommands): boolean {
+  return (
+    !commands.setup.length && !commands.verify.length && !commands.followUp
+  );
+}
+
+// Commands of each phase in the order they run, the checkout included
+function getSteps(commands: JobCommands): Record<JobCheck["phase"], string[]> {
+  return {
+    setup: [
+      CHECKOUT_COMMAND,
+      ...(commands.followUp ? [BASE_PATCH_COMMAND] : []),
+      ...commands.setup,
+    ],
+    verify: commands.verify,
+  };
+}
+
+// The container command for a job
+export function buildJobCommand(commands: JobCommands): string[] {
+  if (runsAgentAlone(commands)) {
+    return [AGENT_COMMAND];
+  }
+
+  const steps = getSteps(commands);
+  const runStep = (phase: JobCheck["phase"], index: number) =>
+    [
+      `echo ${shellQuote(`${STEP_BEGIN_MARKER}${phase}:${index}`)}`,
+      `(cd "$HUGEX_REPO_DIR" 2>/dev/null; sh -c ${shellQuote(steps[phase][index])}) 2>&1`,
+      "code=$?",
+      `echo "${STEP_END_MARKER}${phase}:${index}:$code"`,
+    ].join("\n");
+
+  const script = [
+    `export HUGEX_REPO_DIR=${REPO_DIR}`,
+    // The checkout and setup stop at the first failure
+    ...steps.setup.map(
+      (_, index) =>
+        `${runStep("setup", index)}\n[ "$code" -eq 0 ] || exit "$code"`
+    ),
+    // The patch is applied, agents must not apply it again
+    "unset HUGEX_BASE_PATCH",
+    `cd "$HUGEX_REPO_DIR" && ${AGENT_COMMAND}`,
+    "agent=$?",
+    // Every verify command runs, to report all failures at once
+    ...steps.verify.map((_, index) => runStep("verify", index)),
+    'exit "$agent"',
+  ].join("\n");
+
+  return ["/bin/sh", "-c", script];
+}
+
+function getStepFramePattern(): RegExp {
+  return new RegExp(
+    `${STEP_BEGIN_MARKER}(setup|verify):(\\d+)\\r?\\n([\\s\\S]*?)${STEP_END_MARKER}\\1:\\2:(\\d+)\\r?\\n?`,
+    "g"
+  );
+}
+
+// The result of each step, from the framed output. Steps the output has no
+// result for never ran. The last frame of a step wins, the agent runs before
+// the verify commands and can't fake their results.
+export function extractCheckResults(
+  output: string,
+  commands: JobCommands
+): JobCheck[] | undefined {
+  if (runsAgentAlone(commands)) return undefined;
+
+  const steps = getSteps(commands);
+  const results = new Map<string, { exitCode: number; output: string }>();
+  for (const match of output.matchAll(getStepFramePattern())) {
+    results.set(`${match[1]}:${match[2]}`, {
+      exitCode: parseInt(match[4], 10),
+      output: match[3].slice(-MAX_STEP_OUTPUT).trimEnd(),
+    });
+  }
+
+  return (["setup", "verify"] as const).flatMap((phase) =>
+    steps[phase].map((command, index) => ({
+      phase,
+      command: STEP_LABELS[command] ?? command,
+      ...results.get(`${phase}:${index}`),
+    }))
+  );
+}
+
+// The output without the steps' own, so what a verify command prints can't be
+// read as the agent's result
+export function removeStepOutput(output: string): string {
+  return output.replace(getStepFramePattern(), "");
+}
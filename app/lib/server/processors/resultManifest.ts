@@ -0,0 +1,54 @@
+import type { JobResultManifest } from "~/types/job";
+
+// Agents report their result between these two lines on stdout. The payload
+// is the manifest JSON, base64-encoded so nothing the agent prints elsewhere
+// can be mistaken for it.
+export const RESULT_BEGIN_MARKER = "::hugex-result-begin::";
+export const RESULT_END_MARKER = "::hugex-result-end::";
+
+export const RESULT_MANIFEST_VERSION = 1;
+
+// Find the last complete result frame in the output. Returns null if there
+// is none, or if it doesn't hold a valid manifest.
+export function extractResultManifest(
+  output: string
+): JobResultManifest | null {
+  const endIndex = output.lastIndexOf(RESULT_END_MARKER);
+  if (endIndex === -1) return null;
+
+  const beginIndex = output.lastIndexOf(RESULT_BEGIN_MARKER, endIndex);
+  if (beginIndex === -1) return null;
+
+  const payload = output
+    .substring(beginIndex + RESULT_BEGIN_MARKER.length, endIndex)
+    .replace(/\s+/g, "");
+
+  try {
+    const manifest = JSON.parse(Buffer.from(payload, "base64").toString());
+    return isResultManifest(manifest) ? manifest : null;
+  } catch (error) {
+    console.warn("⚠️ Result manifest is not valid base64 JSON:", error);
+    return null;
+  }
+}
+
+function isResultManifest(value: unknown): value is JobResultManifest {
+  if (!value || typeof value !== "object") return false;
+  const manifest = value as Record<string, unknown>;
+
+  if (manifest.version !== RESULT_MANIFEST_VERSION) {
+    console.warn(`⚠️ Unsupported result manifest version: ${manifest.version}`);
+    return false;
+  }
+
+  return (
+    typeof manifest.diff === "string" &&
+    (manifest.exitCode === undefined || Number.isInteger(manifest.exitCode)) &&
+    (manifest.summary === undefined || typeof manifest.summary === "string") &&
+    (manifest.artifacts === undefined ||
+      (Array.isArray(manifest.artifacts) &&
+        manifest.artifacts.every(
+          (artifact) => typeof artifact?.name === "string"
+        )))
+  );
+}
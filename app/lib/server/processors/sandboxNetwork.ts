@@ -0,0 +1,174 @@
+import serverConfig from "../config";
+import { getJobProfile } from "../environmentProfiles";
+import type { EgressRecord, Job } from "~/types/job";
+import type { NetworkPolicy } from "~/types/environmentProfile";
+
+// Docker jobs get the network policy of their profile. "none" containers
+// have no network at all, so their image must bring everything the agent
+// needs. Other containers sit on a network of their own next to a proxy
+// container, HTTP_PROXY and friends pointing their tools at it. The proxy logs
+// every request, for the job's egress audit log. "allowlist" networks are
+// internal, the proxy is their only way out and only lets the allowed hosts
+// through. "open" networks are not: the proxy lets everything through, and
+// tools ignoring HTTP_PROXY get out without it, unlogged.
+
+const { DOCKER, REPO } = serverConfig;
+
+// The proxy's name on the job's network
+export const PROXY_ALIAS = "hugex-proxy";
+export const PROXY_PORT = 3128;
+
+// Writes the configuration from SQUID_CONFIG and runs squid in the foreground
+export const PROXY_COMMAND = [
+  "/bin/sh",
+  "-c",
+  'printf "%s\\n" "$SQUID_CONFIG" > /etc/squid/squid.conf && exec squid -N -f /etc/squid/squid.conf',
+];
+
+export function getSandboxNetworkName(jobId: string): string {
+  return `hugex-job-${jobId}`;
+}
+
+// The policy a job runs with: its profile's, where the allowed hosts also
+// include the repository's host, for the checkout, and
+// DOCKER_EGRESS_ALLOWED_HOSTS
+export function getJobNetworkPolicy(
+  job: Pick<Job, "profile" | "repositoryConfig" | "repository"> | null
+): NetworkPolicy {
+  const { network } = getJobProfile(job);
+  if (network.mode === "none") return { mode: "none", allowedHosts: [] };
+
+  const repositoryHost = getHost(job?.repository?.url || REPO.URL);
+  return {
+    mode: network.mode,
+    allowedHosts: Array.from(
+      new Set([
+        ...(repositoryHost ? [repositoryHost] : []),
+        ...DOCKER.EGRESS_ALLOWED_HOSTS,
+        ...network.allowedHosts,
+      ])
+    ),
+  };
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+// Variables pointing the job container's tools at the proxy
+export function getProxyEnvironment(): Record<string, string> {
+  const url = `http://${PROXY_ALIAS}:${PROXY_PORT}`;
+  return {
+    HTTP_PROXY: url,
+    HTTPS_PROXY: url,
+    NO_PROXY: "localhost,127.0.0.1",
+    http_proxy: url,
+    https_proxy: url,
+    no_proxy: "localhost,127.0.0.1",
+  };
+}
+
+// Squid configuration for the policy, logging each request as
+// "<time> <method> <host> <bytes sent> <bytes received> <squid status>"
+export function buildProxyConfig(policy: NetworkPolicy): string {
+  const access =
+    policy.mode === "allowlist"
+      ? getAllowlistAccess(policy.allowedHosts)
+      : ["http_access allow all"];
+
+  return [
+    `http_port ${PROXY_PORT}`,
+    ...access,
+    "cache deny all",
+    "logformat hugex %ts %rm %>rd %>st %<st %Ss",
+    "access_log stdio:/dev/stdout hugex",
+    "cache_log stdio:/dev/stderr",
+    "pid_filename none",
+  ].join("\n");
+}
+
+// Only the allowed hosts, on the HTTP and HTTPS ports
+function getAllowlistAccess(allowedHosts: string[]): string[] {
+  // Squid writes "*.example.com" as ".example.com", and refuses hosts a
+  // wildcard already covers
+  const domains = Array.from(
+    new Set(
+      allowedHosts.map((host) => (host.startsWith("*.") ? host.slice(1) : host))
+    )
+  );
+  const wildcards = domains.filter((domain) => domain.startsWith("."));
+  const acl = domains.filter(
+    (domain) =>
+      !wildcards.some(
+        (wildcard) =>
+          wildcard !== domain &&
+          (domain.endsWith(wildcard) || `.${domain}` === wildcard)
+      )
+  );
+
+  return [
+    "acl SSL_ports port 443",
+    "acl Safe_ports port 80 443",
+    "acl CONNECT method CONNECT",
+    "http_access deny !Safe_ports",
+    "http_access deny CONNECT !SSL_ports",
+    ...(acl.length
+      ? [
+          `acl allowed_hosts dstdomain ${acl.join(" ")}`,
+          "http_access allow allowed_hosts",
+        ]
+      : []),
+    "http_access deny all",
+  ];
+}
+
+// Whether a host is one of the patterns, "*.example.com" covering
+// example.com and its subdomains
+export function matchesHost(host: string, patterns: string[]): boolean {
+  const name = host.toLowerCase();
+  return patterns.some((pattern) =>
+    pattern.startsWith("*.")
+      ? name === pattern.slice(2) || name.endsWith(pattern.slice(1))
+      : name === pattern
+  );
+}
+
+// The job's egress audit log from the proxy's access log, one record per
+// host and method. Hosts outside the policy's hosts are flagged.
+export function parseProxyLog(
+  log: string,
+  policy: NetworkPolicy
+): EgressRecord[] {
+  const records = new Map<string, EgressRecord>();
+
+  for (const line of log.split("\n")) {
+    const match = line.trim().match(/^\d+ ([A-Z]+) (\S+) (\d+) (\d+) (\S+)$/);
+    if (!match || match[2] === "-") continue;
+
+    const [, method, host, sent, received, status] = match;
+    const key = `${method} ${host}`;
+    const record = records.get(key) || {
+      host,
+      method,
+      requests: 0,
+      blocked: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
+      unexpected: !matchesHost(host, policy.allowedHosts),
+    };
+    record.requests++;
+    if (status.includes("DENIED")) record.blocked++;
+    record.bytesSent += parseInt(sent, 10);
+    record.bytesReceived += parseInt(received, 10);
+    records.set(key, record);
+  }
+
+  return Array.from(records.values()).sort(
+    (a, b) =>
+      Number(b.unexpected) - Number(a.unexpected) || b.requests - a.requests
+  );
+}
@@ -0,0 +1,67 @@
+import { VARIABLE_NAME_PATTERN } from "../environmentProfiles";
+
+// Profiles delivering secrets as files keep them out of the container's
+// environment, where `docker inspect` and every process the agent spawns
+// would see them. The container's command is wrapped: it reads the secrets
+// from stdin, which hugex writes once and closes, and serves each one as a
+// named pipe on a tmpfs, readable by the container's user only. A pipe gives
+// its secret to the first reader and is deleted right after, so nothing
+// started later reads it again. The wrapper deletes the pipes left unread
+// when the agent exits. Nothing is written to disk.
+
+const MAX_SECRETS_SIZE_MB = 1;
+
+// Serves the "NAME=<base64 value>" lines before an empty line as pipes in
+// HUGEX_SECRETS_DIR, then runs the command it is given
+const WRAPPER_SCRIPT = [
+  "umask 077",
+  'while IFS= read -r line && [ -n "$line" ]; do',
+  '  file="$HUGEX_SECRETS_DIR/${line%%=*}"',
+  '  mkfifo "$file" || exit 1',
+  '  (printf "%s" "${line#*=}" | base64 -d > "$file"; rm -f "$file") &',
+  "done",
+  '"$@"',
+  "code=$?",
+  'rm -f "$HUGEX_SECRETS_DIR"/*',
+  'exit "$code"',
+].join("\n");
+
+export function wrapCommandWithSecretFiles(command: string[]): string[] {
+  return ["/bin/sh", "-c", WRAPPER_SCRIPT, "hugex-secrets", ...command];
+}
+
+// What the wrapper reads from stdin. Secrets without a value are left out.
+export function encodeSecretFiles(secrets: Record<string, string>): string {
+  const lines = Object.entries(secrets)
+    .filter(([, value]) => value)
+    .map(([name, value]) => {
+      // Names become file names
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Secret "${name}" can't be delivered as a file, secret names must be variable names`
+        );
+      }
+      return `${name}=${Buffer.from(value).toString("base64")}`;
+    });
+  return `${lines.join("\n")}\n\n`;
+}
+
+// The tmpfs holding the files. Owned by the container's user when it runs as
+// a known uid, else writable by all but with the sticky bit, the files
+// themselves being readable by their owner only.
+export function getSecretFilesTmpfs(
+  secretsDir: string,
+  user: string | undefined
+): Record<string, string> {
+  const [uid, gid] = (user || "").split(":");
+  const owner =
+    !uid || uid === "root" || uid === "0"
+      ? "mode=0700"
+      : /^\d+$/.test(uid)
+        ? `mode=0700,uid=${uid},gid=${gid && /^\d+$/.test(gid) ? gid : uid}`
+        : "mode=1777";
+
+  return {
+    [secretsDir]: `rw,noexec,nosuid,nodev,size=${MAX_SECRETS_SIZE_MB}m,${owner}`,
+  };
+}
@@ -0,0 +1,28 @@
+import serverConfig from "./config";
+import { ProfileStore } from "./stores/ProfileStore";
+import { InMemoryProfileStore } from "./stores/InMemoryProfileStore";
+import { SqliteProfileStore } from "./stores/SqliteProfileStore";
+
+export { ProfileStore, InMemoryProfileStore, SqliteProfileStore };
+
+function createProfileStore(driver: string): ProfileStore {
+  switch (driver) {
+    case "sqlite":
+      return new SqliteProfileStore(serverConfig.PROFILE_STORE.SQLITE_PATH);
+    case "memory":
+    default:
+      return new InMemoryProfileStore();
+  }
+}
+
+// Singleton instance
+let profileStoreInstance: ProfileStore | null = null;
+
+export function getProfileStore(): ProfileStore {
+  if (!profileStoreInstance) {
+    profileStoreInstance = createProfileStore(
+      serverConfig.PROFILE_STORE.DRIVER
+    );
+  }
+  return profileStoreInstance;
+}
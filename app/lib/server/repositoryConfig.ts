@@ -0,0 +1,316 @@
+import { parseDocument } from "yaml";
+import type { ApiCredentials } from "./auth";
+import {
+  DOCKER_IMAGE_PATTERN,
+  VARIABLE_NAME_PATTERN,
+  getRepositoryName,
+} from "./environmentProfiles";
+import { GitHubPullRequestService } from "./githubPullRequestService";
+import type { Job } from "~/types/job";
+import type {
+  RepositoryConfig,
+  RepositoryConfigError,
+} from "~/types/repositoryConfig";
+import { SECRET_REFERENCE_PATTERN } from "~/types/secret";
+
+// A repository may configure its jobs with a .hugex.yml on its base branch:
+//
+//   image: ghcr.io/acme/builder:2
+//   env:
+//     NODE_ENV: test
+//   setup:
+//     - npm ci
+//   verify:
+//     - npm test
+//   prompt_preamble: Use pnpm, never npm.
+//   protected_paths:
+//     - .github/workflows/
+//   reviewers:
+//     - alice
+//     - acme/platform
+//
+// The file is read when a job is created and the parsed settings are kept on
+// the job, so re-runs and follow-ups use the same ones. An invalid file stops
+// the job from being created. The job's environment profile wins over the
+// file: its image, if it has one, and its variables of the same name.
+
+export const REPOSITORY_CONFIG_PATH = ".hugex.yml";
+
+const GITHUB_API_BASE = "https://api.github.com";
+const MAX_FILE_SIZE = 64 * 1024;
+const MAX_COMMANDS = 20;
+const MAX_PREAMBLE_LENGTH = 4000;
+
+const KNOWN_KEYS = [
+  "image",
+  "env",
+  "setup",
+  "verify",
+  "prompt_preamble",
+  "protected_paths",
+  "reviewers",
+];
+
+const REVIEWER_PATTERN = /^@?[A-Za-z0-9-]+(?:\/[A-Za-z0-9_.-]+)?$/;
+
+// Thrown when pushing a job's changes would touch a protected path
+export class ProtectedPathError extends Error {
+  constructor(public paths: string[]) {
+    super(
+      `Changes touch paths protected by ${REPOSITORY_CONFIG_PATH}: ${paths.join(", ")}`
+    );
+    this.name = "ProtectedPathError";
+  }
+}
+
+// The repository's settings for a new job. Returns no config if the
+// repository has no .hugex.yml, and the errors if it is invalid. A file that
+// can't be fetched is skipped, like a missing one.
+export async function loadRepositoryConfig(
+  repository: Job["repository"],
+  credentials: ApiCredentials
+): Promise<{ config?: RepositoryConfig; errors?: RepositoryConfigError[] }> {
+  if (!repository?.url) return {};
+
+  let content: string | null;
+  try {
+    content = await fetchRepositoryConfigFile(
+      repository.url,
+      repository.branch,
+      credentials.githubToken
+    );
+  } catch (error) {
+    console.warn(
+      `⚠️ Could not read ${REPOSITORY_CONFIG_PATH} of ${repository.url}:`,
+      error
+    );
+    return {};
+  }
+  if (content === null) return {};
+
+  const result = parseRepositoryConfig(content);
+  if ("errors" in result) return result;
+
+  console.log(
+    `📄 Read ${REPOSITORY_CONFIG_PATH} of ${getRepositoryName(repository.url)}`
+  );
+  return result;
+}
+
+async function fetchRepositoryConfigFile(
+  repositoryUrl: string,
+  branch: string | undefined,
+  token: string | undefined
+): Promise<string | null> {
+  const ref = branch ? `?ref=${encodeURIComponent(branch)}` : "";
+  const response = await fetch(
+    `${GITHUB_API_BASE}/repos/${getRepositoryName(repositoryUrl)}/contents/${REPOSITORY_CONFIG_PATH}${ref}`,
+    {
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        Accept: "application/vnd.github.raw+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    }
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`GitHub returned ${response.status}`);
+  }
+  return response.text();
+}
+
+// Parse and check a .hugex.yml, returning every error found
+export function parseRepositoryConfig(
+  content: string
+): { config: RepositoryConfig } | { errors: RepositoryConfigError[] } {
+  if (content.length > MAX_FILE_SIZE) {
+    return {
+      errors: [
+        {
+          field: REPOSITORY_CONFIG_PATH,
+          message: `${REPOSITORY_CONFIG_PATH} must be at most ${MAX_FILE_SIZE / 1024}KB`,
+        },
+      ],
+    };
+  }
+
+  const document = parseDocument(content);
+  if (document.errors.length) {
+    return {
+      errors: document.errors.map((error) => ({
+        field: REPOSITORY_CONFIG_PATH,
+        message: error.message,
+      })),
+    };
+  }
+
+  // An empty file configures nothing
+  const body = document.toJS() ?? {};
+  if (typeof body !== "object" || Array.isArray(body)) {
+    return {
+      errors: [
+        {
+          field: REPOSITORY_CONFIG_PATH,
+          message: `${REPOSITORY_CONFIG_PATH} must be a mapping of settings`,
+        },
+      ],
+    };
+  }
+
+  const errors: RepositoryConfigError[] = Object.keys(body)
+    .filter((key) => !KNOWN_KEYS.includes(key))
+    .map((key) => ({
+      field: key,
+      message: `Unknown setting "${key}", expected one of ${KNOWN_KEYS.join(", ")}`,
+    }));
+
+  const {
+    image,
+    env,
+    setup,
+    verify,
+    prompt_preamble,
+    protected_paths,
+    reviewers,
+  } = body;
+
+  if (
+    image !== undefined &&
+    (typeof image !== "string" || !DOCKER_IMAGE_PATTERN.test(image))
+  ) {
+    errors.push({
+      field: "image",
+      message: "image must be a Docker image (e.g., registry/image:tag)",
+    });
+  }
+
+  const environment = parseEnvironment(env, errors);
+  const setupCommands = parseCommands("setup", setup, errors);
+  const verifyCommands = parseCommands("verify", verify, errors);
+
+  if (
+    prompt_preamble !== undefined &&
+    (typeof prompt_preamble !== "string" ||
+      prompt_preamble.length > MAX_PREAMBLE_LENGTH)
+  ) {
+    errors.push({
+      field: "prompt_preamble",
+      message: `prompt_preamble must be text of at most ${MAX_PREAMBLE_LENGTH} characters`,
+    });
+  }
+
+  const protectedPaths = parseList("protected_paths", protected_paths, errors);
+  const reviewerList = parseList("reviewers", reviewers, errors);
+  if (!reviewerList.every((reviewer) => REVIEWER_PATTERN.test(reviewer))) {
+    errors.push({
+      field: "reviewers",
+      message: "reviewers must be GitHub usernames or org/team names",
+    });
+  }
+
+  if (errors.length) return { errors };
+
+  return {
+    config: {
+      image,
+      environment,
+      setup: setupCommands,
+      verify: verifyCommands,
+      promptPreamble: prompt_preamble?.trim() || undefined,
+      protectedPaths,
+      reviewers: reviewerList.map((reviewer) => reviewer.replace(/^@/, "")),
+    },
+  };
+}
+
+// Scalars are accepted as values, YAML reads `PORT: 8080` as a number
+function parseEnvironment(
+  env: unknown,
+  errors: RepositoryConfigError[]
+): Record<string, string> {
+  if (env === undefined || env === null) return {};
+
+  if (typeof env !== "object" || Array.isArray(env)) {
+    errors.push({
+      field: "env",
+      message: "env must map variable names to values",
+    });
+    return {};
+  }
+
+  const environment: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (
+      !VARIABLE_NAME_PATTERN.test(key) ||
+      !["string", "number", "boolean"].includes(typeof value)
+    ) {
+      errors.push({
+        field: `env.${key}`,
+        message: `env.${key} must be a variable name with a text, number or boolean value`,
+      });
+    } else if (new RegExp(SECRET_REFERENCE_PATTERN).test(String(value))) {
+      // The repository doesn't get to pick which vault secrets a job sees
+      errors.push({
+        field: `env.${key}`,
+        message: `env.${key} can't reference secrets, map them in an environment profile instead`,
+      });
+    } else {
+      environment[key] = String(value);
+    }
+  }
+  return environment;
+}
+
+// A command or a list of commands
+function parseCommands(
+  field: string,
+  value: unknown,
+  errors: RepositoryConfigError[]
+): string[] {
+  const commands = typeof value === "string" ? [value] : value;
+  const list = parseList(field, commands, errors);
+  if (list.length > MAX_COMMANDS) {
+    errors.push({
+      field,
+      message: `${field} must have at most ${MAX_COMMANDS} commands`,
+    });
+  }
+  return list;
+}
+
+function parseList(
+  field: string,
+  value: unknown,
+  errors: RepositoryConfigError[]
+): string[] {
+  if (value === undefined || value === null) return [];
+
+  if (
+    !Array.isArray(value) ||
+    !value.every((item) => typeof item === "string" && item.trim())
+  ) {
+    errors.push({
+      field,
+      message: `${field} must be a list of non-empty strings`,
+    });
+    return [];
+  }
+  return value.map((item: string) => item.trim());
+}
+
+// Files of a diff matching the job's protected paths
+export function findProtectedPaths(
+  config: RepositoryConfig | undefined,
+  filenames: string[]
+): string[] {
+  if (!config?.protectedPaths.length) return [];
+
+  const patterns = config.protectedPaths.map((pattern) =>
+    GitHubPullRequestService.pathPatternToRegExp(pattern)
+  );
+  return filenames.filter((filename) =>
+    patterns.some((pattern) => pattern.test(filename))
+  );
+}
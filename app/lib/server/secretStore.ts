@@ -0,0 +1,27 @@
+import serverConfig from "./config";
+import { SecretStore, type VaultSecret } from "./stores/SecretStore";
+import { InMemorySecretStore } from "./stores/InMemorySecretStore";
+import { SqliteSecretStore } from "./stores/SqliteSecretStore";
+
+export { SecretStore, InMemorySecretStore, SqliteSecretStore };
+export type { VaultSecret };
+
+function createSecretStore(driver: string): SecretStore {
+  switch (driver) {
+    case "sqlite":
+      return new SqliteSecretStore(serverConfig.SECRET_STORE.SQLITE_PATH);
+    case "memory":
+    default:
+      return new InMemorySecretStore();
+  }
+}
+
+// Singleton instance
+let secretStoreInstance: SecretStore | null = null;
+
+export function getSecretStore(): SecretStore {
+  if (!secretStoreInstance) {
+    secretStoreInstance = createSecretStore(serverConfig.SECRET_STORE.DRIVER);
+  }
+  return secretStoreInstance;
+}
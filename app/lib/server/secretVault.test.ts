@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { serverConfig } from "./config";
+import type { ApiCredentials } from "./auth";
+import {
+  decryptSecret,
+  encryptSecret,
+  getSecretReferences,
+  resolveSecretReferences,
+  setSecret,
+  validateSecretInput,
+} from "./secretVault";
+
+const { SECRET_VAULT } = serverConfig;
+const KEYS = [...SECRET_VAULT.KEYS];
+
+function useKeys(...keys: string[]) {
+  SECRET_VAULT.KEYS.splice(0, SECRET_VAULT.KEYS.length, ...keys);
+}
+
+afterEach(() => useKeys(...KEYS));
+
+describe("encryptSecret", () => {
+  it("round-trips through decryptSecret", () => {
+    const encrypted = encryptSecret("correct horse battery staple");
+
+    expect(encrypted).not.toContain("correct horse");
+    expect(decryptSecret(encrypted)).toBe("correct horse battery staple");
+  });
+
+  it("encrypts the same value differently every time", () => {
+    expect(encryptSecret("value")).not.toBe(encryptSecret("value"));
+  });
+
+  it("decrypts with older keys once the key is rotated", () => {
+    useKeys("old-key");
+    const encrypted = encryptSecret("value");
+
+    useKeys("new-key", "old-key");
+    expect(decryptSecret(encrypted)).toBe("value");
+
+    useKeys("new-key");
+    expect(() => decryptSecret(encrypted)).toThrow(/can't be decrypted/);
+  });
+
+  it("refuses values not encrypted by the vault", () => {
+    expect(() => decryptSecret("plain text")).toThrow(/not in a known/);
+  });
+});
+
+describe("validateSecretInput", () => {
+  it("keeps the repository name of GitHub URLs", () => {
+    expect(
+      validateSecretInput({
+        name: "API_KEY",
+        value: "value",
+        repository: "https://github.com/huggingface/hugex.git",
+      })
+    ).toEqual({
+      input: {
+        name: "API_KEY",
+        value: "value",
+        repository: "huggingface/hugex",
+      },
+    });
+  });
+
+  it("returns the field at fault", () => {
+    expect(validateSecretInput({ name: "1KEY", value: "value" })).toMatchObject(
+      { error: { field: "name" } }
+    );
+    expect(validateSecretInput({ name: "KEY", value: "" })).toMatchObject({
+      error: { field: "value" },
+    });
+  });
+});
+
+describe("resolveSecretReferences", () => {
+  const credentials: ApiCredentials = { hfUserInfo: { username: "vault" } };
+  const job = { repository: { url: "https://github.com/huggingface/hugex" } };
+
+  setSecret(credentials, { name: "TOKEN", value: "any", repository: null });
+  setSecret(credentials, {
+    name: "TOKEN",
+    value: "hugex-only",
+    repository: "huggingface/hugex",
+  });
+  setSecret(credentials, { name: "USER", value: "bot", repository: null });
+
+  it("lists the names referenced once", () => {
+    expect(
+      getSecretReferences({
+        A: "${secrets.TOKEN}",
+        B: "${secrets.USER}:${secrets.TOKEN}",
+      })
+    ).toEqual(["TOKEN", "USER"]);
+  });
+
+  it("replaces references, preferring secrets of the job's repository", () => {
+    expect(
+      resolveSecretReferences(job, credentials, {
+        AUTH: "${secrets.USER}:${secrets.TOKEN}",
+        MODE: "test",
+      })
+    ).toEqual({
+      resolved: { AUTH: "bot:hugex-only", MODE: "test" },
+      values: ["bot", "hugex-only"],
+    });
+  });
+
+  it("uses unscoped secrets for other repositories", () => {
+    const other = { repository: { url: "https://github.com/other/repo" } };
+
+    expect(
+      resolveSecretReferences(other, credentials, { T: "${secrets.TOKEN}" })
+        .resolved
+    ).toEqual({ T: "any" });
+  });
+
+  it("only resolves secrets of the job's owner", () => {
+    const stranger: ApiCredentials = { hfUserInfo: { username: "stranger" } };
+
+    expect(() =>
+      resolveSecretReferences(job, stranger, { T: "${secrets.TOKEN}" })
+    ).toThrow(/not in the user's secret vault/);
+    expect(() =>
+      resolveSecretReferences({ ...job, workspaceId: "ws" }, credentials, {
+        T: "${secrets.TOKEN}",
+      })
+    ).toThrow(/not in the workspace's secret vault/);
+  });
+});
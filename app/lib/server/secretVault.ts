@@ -0,0 +1,293 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import serverConfig from "./config";
+import type { ApiCredentials } from "./auth";
+import { getOwnIdentities } from "./authorization";
+import {
+  getEnvironmentOwners,
+  getRepositoryName,
+  getWorkspaceOwner,
+} from "./environmentProfiles";
+import { getSecretStore, type VaultSecret } from "./secretStore";
+import type { Job } from "~/types/job";
+import {
+  SECRET_NAME_PATTERN,
+  SECRET_REFERENCE_PATTERN,
+  type SecretInfo,
+} from "~/types/secret";
+
+// Secrets are stored encrypted (AES-256-GCM) and referenced from profiles and
+// job environments as ${secrets.NAME}. References are resolved only when a
+// job's container is created, from the secrets of the job's owner: the
+// workspace for workspace jobs, the user otherwise. A secret scoped to the
+// job's repository wins over one of the same name that isn't. Secret values
+// are never sent back to the browser.
+
+const { SECRET_VAULT } = serverConfig;
+
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+// Prefix of encrypted values, in case the format ever has to change
+const ENCRYPTION_VERSION = "v1";
+
+let generatedKey: string | null = null;
+
+function getKeys(): Buffer[] {
+  let keys = SECRET_VAULT.KEYS;
+
+  if (keys.length === 0) {
+    if (!generatedKey) {
+      console.warn(
+        "⚠️ SECRET_VAULT_KEY is not set - using a random key, stored secrets can't be decrypted after the server restarts"
+      );
+      generatedKey = randomBytes(32).toString("hex");
+    }
+    keys = [generatedKey];
+  }
+
+  // Keys may be any string, hashed to the 32 bytes AES-256 needs
+  return keys.map((key) => createHash("sha256").update(key).digest());
+}
+
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKeys()[0], iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map((part) =>
+      typeof part === "string" ? part : part.toString("base64url")
+    )
+    .join(".");
+}
+
+// Throws if none of the keys encrypted the value
+export function decryptSecret(encryptedValue: string): string {
+  const [version, iv, authTag, encrypted] = encryptedValue.split(".");
+  if (version !== ENCRYPTION_VERSION || !iv || !authTag || !encrypted) {
+    throw new Error("Secret is not in a known encrypted format");
+  }
+
+  for (const key of getKeys()) {
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        key,
+        Buffer.from(iv, "base64url")
+      );
+      decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+      return Buffer.concat([
+        decipher.update(Buffer.from(encrypted, "base64url")),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      // Encrypted with another key, try the next one
+    }
+  }
+
+  throw new Error("Secret can't be decrypted with any SECRET_VAULT_KEY");
+}
+
+function toSecretInfo(secret: VaultSecret): SecretInfo {
+  return {
+    id: secret.id,
+    name: secret.name,
+    owner: secret.owner,
+    repository: secret.repository,
+    createdAt: secret.createdAt,
+    updatedAt: secret.updatedAt,
+  };
+}
+
+export function listSecrets(
+  credentials: ApiCredentials,
+  workspaceId?: string
+): SecretInfo[] {
+  return getSecretStore()
+    .listSecrets(getEnvironmentOwners(credentials, workspaceId))
+    .map(toSecretInfo);
+}
+
+// Store a secret, replacing the value of one with the same name and
+// repository
+export function setSecret(
+  credentials: ApiCredentials,
+  input: { name: string; value: string; repository: string | null },
+  workspaceId?: string
+): SecretInfo {
+  const now = new Date();
+  const secret = getSecretStore().setSecret({
+    id: uuidv4(),
+    name: input.name,
+    owner: workspaceId
+      ? getWorkspaceOwner(workspaceId)
+      : getOwnIdentities(credentials)[0],
+    repository: input.repository,
+    encryptedValue: encryptSecret(input.value),
+    createdAt: now,
+    updatedAt: now,
+  });
+  return toSecretInfo(secret);
+}
+
+// Check a secret sent by the browser, returning the field at fault
+export function validateSecretInput(
+  body: Record<string, unknown>
+):
+  | { input: { name: string; value: string; repository: string | null } }
+  | { error: { field: string; message: string } } {
+  const { name, value, repository } = body;
+
+  if (typeof name !== "string" || !SECRET_NAME_PATTERN.test(name)) {
+    return {
+      error: {
+        field: "name",
+        message:
+          "Name must start with a letter or underscore and contain only letters, digits and underscores",
+      },
+    };
+  }
+  if (typeof value !== "string" || !value || value.length > 10000) {
+    return {
+      error: {
+        field: "value",
+        message: "Value is required and must be at most 10000 characters",
+      },
+    };
+  }
+  if (
+    repository !== undefined &&
+    repository !== null &&
+    repository !== "" &&
+    (typeof repository !== "string" ||
+      !REPOSITORY_PATTERN.test(getRepositoryName(repository)))
+  ) {
+    return {
+      error: {
+        field: "repository",
+        message: "Repository must be owner/name or a GitHub URL",
+      },
+    };
+  }
+
+  return {
+    input: {
+      name,
+      value,
+      repository: repository ? getRepositoryName(repository as string) : null,
+    },
+  };
+}
+
+// Names of the secrets referenced in the values
+export function getSecretReferences(values: Record<string, string>): string[] {
+  return Array.from(
+    new Set(
+      Object.values(values)
+        .filter((value) => typeof value === "string")
+        .flatMap((value) =>
+          Array.from(value.matchAll(SECRET_REFERENCE_PATTERN), (m) => m[1])
+        )
+    )
+  );
+}
+
+// Resolve the ${secrets.NAME} references in a job's variables, when its
+// container is created. Also returns the values used, so they can be
+// redacted from the job's output. Throws if a secret is not in the vault.
+export function resolveSecretReferences(
+  job: Pick<Job, "workspaceId" | "repository">,
+  credentials: ApiCredentials,
+  variables: Record<string, string>
+): { resolved: Record<string, string>; values: string[] } {
+  const names = getSecretReferences(variables);
+  if (names.length === 0) return { resolved: { ...variables }, values: [] };
+
+  const repository =
+    job.repository?.url && getRepositoryName(job.repository.url);
+  const secrets = getSecretStore().listSecrets(
+    getEnvironmentOwners(credentials, job.workspaceId)
+  );
+
+  const values: Record<string, string> = {};
+  for (const name of names) {
+    const secret =
+      secrets.find((s) => s.name === name && s.repository === repository) ||
+      secrets.find((s) => s.name === name && !s.repository);
+    if (!secret) {
+      throw new Error(
+        `Secret ${name} is referenced by the job's environment but is not in the ${
+          job.workspaceId ? "workspace's" : "user's"
+        } secret vault`
+      );
+    }
+    values[name] = decryptSecret(secret.encryptedValue);
+  }
+
+  const resolved = Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [
+      key,
+      typeof value === "string"
+        ? value.replace(SECRET_REFERENCE_PATTERN, (_, name) => values[name])
+        : value,
+    ])
+  );
+  return { resolved, values: Object.values(values) };
+}
+
+// The environment and secrets of a job's container with their references
+// resolved, plus every vault value used
+export function resolveJobEnvironment(
+  job: Pick<Job, "workspaceId" | "repository">,
+  credentials: ApiCredentials,
+  variables: {
+    environment: Record<string, string>;
+    secrets: Record<string, string>;
+  }
+): {
+  environment: Record<string, string>;
+  secrets: Record<string, string>;
+  secretValues: string[];
+} {
+  const environment = resolveSecretReferences(
+    job,
+    credentials,
+    variables.environment
+  );
+  const secrets = resolveSecretReferences(job, credentials, variables.secrets);
+
+  return {
+    environment: environment.resolved,
+    secrets: secrets.resolved,
+    secretValues: [...environment.values, ...secrets.values],
+  };
+}
+
+// Secrets passed directly with a job are kept encrypted on the job until its
+// container is created
+export function encryptJobSecrets(
+  secrets: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(secrets).map(([key, value]) => [key, encryptSecret(value)])
+  );
+}
+
+export function decryptJobSecrets(
+  secrets: Record<string, string> | undefined
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(secrets || {}).map(([key, value]) => [
+      key,
+      decryptSecret(value),
+    ])
+  );
+}
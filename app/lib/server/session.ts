@@ -0,0 +1,210 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import serverConfig from "./config";
+import { parseCookies, type ApiCredentials } from "./auth";
+import { getSessionStore, type Session } from "./sessionStore";
+import { getSessionSecrets } from "./sessionSecrets";
+
+const { SESSION } = serverConfig;
+
+// Requests that raced a rotation may still carry the old id for a moment
+const ROTATION_GRACE_MS = 60 * 1000;
+
+function sign(sessionId: string, secret: string): string {
+  return createHmac("sha256", secret).update(sessionId).digest("base64url");
+}
+
+// The session id from a signed cookie value, if any of the secrets signed it
+function verifyCookieValue(value: string): string | null {
+  const [sessionId, signature] = decodeURIComponent(value).split(".");
+  if (!sessionId || !signature) return null;
+
+  const given = Buffer.from(signature);
+  for (const secret of getSessionSecrets()) {
+    const expected = Buffer.from(sign(sessionId, secret));
+    if (expected.length === given.length && timingSafeEqual(expected, given)) {
+      return sessionId;
+    }
+  }
+  return null;
+}
+
+function serializeSessionCookie(session: Session): string {
+  const maxAge = Math.max(
+    0,
+    Math.floor((session.expiresAt.getTime() - Date.now()) / 1000)
+  );
+  return [
+    `${serverConfig.COOKIE_NAME}=${session.id}.${sign(session.id, getSessionSecrets()[0])}`,
+    `Max-Age=${maxAge}`,
+    "Path=/",
+    "SameSite=None", // The app may be embedded, e.g. in a Space
+    "Secure",
+    "HttpOnly",
+  ].join("; ");
+}
+
+function clearSessionCookie(): string {
+  return [
+    `${serverConfig.COOKIE_NAME}=`,
+    "Max-Age=0",
+    "Path=/",
+    "SameSite=None",
+    "Secure",
+    "HttpOnly",
+  ].join("; ");
+}
+
+// Give a session a new id. Expiry is kept, sessions don't live forever by
+// being rotated.
+function rotate(session: Session): Session {
+  const store = getSessionStore();
+  const now = new Date();
+
+  const rotated = store.createSession({
+    ...session,
+    id: randomBytes(32).toString("base64url"),
+    rotatedAt: now,
+  });
+  store.updateSession(session.id, {
+    expiresAt: new Date(
+      Math.min(session.expiresAt.getTime(), now.getTime() + ROTATION_GRACE_MS)
+    ),
+  });
+
+  return rotated;
+}
+
+export function getSession(cookieHeader: string | null): Session | null {
+  if (!cookieHeader) return null;
+
+  const cookies = parseCookies(cookieHeader);
+  const value =
+    cookies[serverConfig.COOKIE_NAME] ||
+    cookies[encodeURIComponent(serverConfig.COOKIE_NAME)];
+  if (!value) return null;
+
+  const sessionId = verifyCookieValue(value);
+  if (!sessionId) return null;
+
+  const store = getSessionStore();
+  const session = store.getSession(sessionId);
+  if (!session) return null;
+
+  if (session.expiresAt <= new Date()) {
+    store.deleteSession(sessionId);
+    return null;
+  }
+
+  return session;
+}
+
+// Sign in: start a new session, ending the one the request came with
+export function createSession(
+  request: Request,
+  credentials: ApiCredentials
+): { session: Session; cookie: string } {
+  const store = getSessionStore();
+  const now = new Date();
+
+  const previous = getSession(request.headers.get("Cookie"));
+  if (previous) {
+    store.deleteSession(previous.id);
+  }
+  store.deleteExpiredSessions(now);
+
+  const session = store.createSession({
+    id: randomBytes(32).toString("base64url"),
+    credentials,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + SESSION.MAX_AGE * 1000),
+    rotatedAt: now,
+  });
+
+  return { session, cookie: serializeSessionCookie(session) };
+}
+
+// Add credentials to the request's session, e.g. when connecting GitHub.
+// The session gets a new id since what it grants access to changed.
+export function updateSessionCredentials(
+  request: Request,
+  credentials: Partial<ApiCredentials>
+): { session: Session; cookie: string } {
+  const current = getSession(request.headers.get("Cookie"));
+  if (!current) {
+    return createSession(request, credentials);
+  }
+
+  const session = rotate({
+    ...current,
+    credentials: { ...current.credentials, ...credentials },
+  });
+  return { session, cookie: serializeSessionCookie(session) };
+}
+
+// Replace the session id once it is older than SESSION_ROTATE_AFTER. Returns
+// the cookie to set, or null if the session is missing or still fresh.
+export function rotateSessionIfDue(
+  request: Request
+): { session: Session; cookie: string } | null {
+  const current = getSession(request.headers.get("Cookie"));
+  if (
+    !current ||
+    Date.now() - current.rotatedAt.getTime() < SESSION.ROTATE_AFTER * 1000
+  ) {
+    return null;
+  }
+
+  const session = rotate(current);
+  return { session, cookie: serializeSessionCookie(session) };
+}
+
+// Link the Hugging Face and GitHub accounts of the request's session, at the
+// user's request. Returns false unless the session holds both.
+export function linkSessionAccounts(request: Request): boolean {
+  const session = getSession(request.headers.get("Cookie"));
+  const huggingface = session?.credentials.hfUserInfo?.username;
+  const github = session?.credentials.githubUserInfo?.username;
+  if (!huggingface || !github) return false;
+
+  getSessionStore().linkAccounts(huggingface, github);
+  return true;
+}
+
+// Remove the links of the session's Hugging Face account. Returns how many
+// there were.
+export function unlinkSessionAccounts(request: Request): number {
+  const session = getSession(request.headers.get("Cookie"));
+  const huggingface = session?.credentials.hfUserInfo?.username;
+  if (!huggingface) return 0;
+
+  return getSessionStore().unlinkAccounts(huggingface);
+}
+
+// Sign out this browser
+export function destroySession(request: Request): string {
+  const session = getSession(request.headers.get("Cookie"));
+  if (session) {
+    getSessionStore().deleteSession(session.id);
+  }
+  return clearSessionCookie();
+}
+
+// Sign out everywhere: end every session of the request's user, by both
+// their Hugging Face and GitHub identity
+export function destroyUserSessions(request: Request): {
+  count: number;
+  cookie: string;
+} {
+  const session = getSession(request.headers.get("Cookie"));
+  if (!session) {
+    return { count: 0, cookie: clearSessionCookie() };
+  }
+
+  const count = getSessionStore().deleteUserSessions({
+    huggingface: session.credentials.hfUserInfo?.username,
+    github: session.credentials.githubUserInfo?.username,
+  });
+  getSessionStore().deleteSession(session.id);
+
+  return { count: Math.max(count, 1), cookie: clearSessionCookie() };
+}
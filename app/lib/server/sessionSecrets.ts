@@ -0,0 +1,81 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from "crypto";
+import { serverConfig } from "./config";
+import type { ApiCredentials } from "./auth";
+
+// SESSION_SECRET signs session cookies and encrypts the credentials stored
+// with sessions (AES-256-GCM), so a copy of the session store gives away no
+// tokens. The first secret signs and encrypts, every secret still verifies
+// and decrypts, so secrets can be rotated.
+
+const { SESSION } = serverConfig;
+
+let generatedSecret: string | null = null;
+
+export function getSessionSecrets(): string[] {
+  if (SESSION.SECRETS.length > 0) return SESSION.SECRETS;
+
+  if (!generatedSecret) {
+    console.warn(
+      "⚠️ SESSION_SECRET is not set - using a random secret, everyone is signed out when the server restarts"
+    );
+    generatedSecret = randomBytes(32).toString("hex");
+  }
+  return [generatedSecret];
+}
+
+// Derived from the secret, so the encryption key never is the signing key
+function getEncryptionKey(secret: string): Buffer {
+  return createHmac("sha256", secret).update("hugex-credentials").digest();
+}
+
+export function encryptCredentials(credentials: ApiCredentials): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    getEncryptionKey(getSessionSecrets()[0]),
+    iv
+  );
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(credentials), "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+// Credentials none of the secrets encrypted, after the secrets changed, are
+// read as none: the session no longer signs anyone in
+export function decryptCredentials(value: string): ApiCredentials {
+  const [iv, authTag, encrypted] = value.split(".");
+
+  if (iv && authTag && encrypted) {
+    for (const secret of getSessionSecrets()) {
+      try {
+        const decipher = createDecipheriv(
+          "aes-256-gcm",
+          getEncryptionKey(secret),
+          Buffer.from(iv, "base64url")
+        );
+        decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+        return JSON.parse(
+          Buffer.concat([
+            decipher.update(Buffer.from(encrypted, "base64url")),
+            decipher.final(),
+          ]).toString("utf8")
+        );
+      } catch {
+        // Encrypted with another secret, try the next one
+      }
+    }
+  }
+
+  console.warn("⚠️ Can't decrypt stored credentials with any SESSION_SECRET");
+  return {};
+}
@@ -0,0 +1,31 @@
+import serverConfig from "./config";
+import {
+  SessionStore,
+  type ApiToken,
+  type Session,
+} from "./stores/SessionStore";
+import { InMemorySessionStore } from "./stores/InMemorySessionStore";
+import { SqliteSessionStore } from "./stores/SqliteSessionStore";
+
+export { SessionStore, InMemorySessionStore, SqliteSessionStore };
+export type { ApiToken, Session };
+
+function createSessionStore(driver: string): SessionStore {
+  switch (driver) {
+    case "sqlite":
+      return new SqliteSessionStore(serverConfig.SESSION.SQLITE_PATH);
+    case "memory":
+    default:
+      return new InMemorySessionStore();
+  }
+}
+
+// Singleton instance
+let sessionStoreInstance: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!sessionStoreInstance) {
+    sessionStoreInstance = createSessionStore(serverConfig.SESSION.DRIVER);
+  }
+  return sessionStoreInstance;
+}
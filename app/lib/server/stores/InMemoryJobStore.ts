@@ -0,0 +1,204 @@
+// In-memory job store, used for tests and ephemeral development setups
+import type { Job, JobDiff } from "~/types/job";
+import {
+  JobStore,
+  type ListJobsOptions,
+  type ListJobsResult,
+} from "./JobStore";
+
+export class InMemoryJobStore extends JobStore {
+  private jobs = new Map<string, Job>();
+  private diffs = new Map<string, JobDiff>();
+  private originalDiffs = new Map<string, JobDiff>();
+  private logs = new Map<string, string>();
+
+  async listJobs({
+    page = 1,
+    limit = 20,
+    status,
+    search,
+    author,
+    ownedBy,
+    workspaceId,
+  }: ListJobsOptions = {}): Promise<ListJobsResult> {
+    let jobs = Array.from(this.jobs.values());
+
+    // Filter by status
+    if (status) {
+      jobs = jobs.filter((job) => job.status === status);
+    }
+
+    // Filter by search
+    if (search) {
+      const searchLower = search.toLowerCase();
+      jobs = jobs.filter(
+        (job) =>
+          job.title.toLowerCase().includes(searchLower) ||
+          job.description.toLowerCase().includes(searchLower)
+      );
+    }
+
+    // Filter by author
+    if (author) {
+      jobs = jobs.filter((job) => job.author === author);
+    }
+
+    // Filter by owner
+    if (ownedBy) {
+      jobs = jobs.filter((job) =>
+        job.owners
+          ? job.owners.some((owner) => ownedBy.identities.includes(owner))
+          : !!job.author && ownedBy.authors.includes(job.author)
+      );
+    }
+
+    // Filter by workspace
+    if (workspaceId !== undefined) {
+      jobs = jobs.filter((job) => (job.workspaceId ?? null) === workspaceId);
+    }
+
+    // Sort by creation date (newest first)
+    jobs.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+    // Pagination
+    const offset = (page - 1) * limit;
+    const paginatedJobs = jobs.slice(offset, offset + limit);
+
+    return this.paginate(paginatedJobs, jobs.length, page, limit);
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.jobs.get(jobId) || null;
+  }
+
+  async createJob(job: Job): Promise<Job> {
+    this.jobs.set(job.id, { ...job });
+    return job;
+  }
+
+  async updateJobStatus(
+    jobId: string,
+    status: Job["status"],
+    changes?: Job["changes"]
+  ): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      status,
+      updatedAt: new Date(),
+      ...(changes && { changes }),
+    };
+
+    this.jobs.set(jobId, updatedJob);
+    return updatedJob;
+  }
+
+  async updateJob(jobId: string, updates: Partial<Job>): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      ...updates,
+      id: job.id,
+      createdAt: job.createdAt,
+      updatedAt: new Date(),
+    };
+
+    this.jobs.set(jobId, updatedJob);
+    return updatedJob;
+  }
+
+  async updateJobIfStatus(
+    jobId: string,
+    statuses: Job["status"][],
+    updates: Partial<Job>
+  ): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || !statuses.includes(job.status)) return null;
+
+    return this.updateJob(jobId, updates);
+  }
+
+  async updateJobEnvironment(
+    jobId: string,
+    environment: Record<string, string>,
+    secrets?: Record<string, string>,
+    apiJobId?: string
+  ): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      environment,
+      secrets,
+      apiJobId,
+      updatedAt: new Date(),
+    };
+
+    this.jobs.set(jobId, updatedJob);
+    return updatedJob;
+  }
+
+  async deleteJob(jobId: string): Promise<boolean> {
+    const deleted = this.jobs.delete(jobId);
+    this.diffs.delete(jobId);
+    this.originalDiffs.delete(jobId);
+    this.logs.delete(jobId);
+    return deleted;
+  }
+
+  async setJobDiff(
+    jobId: string,
+    diff: JobDiff,
+    original?: JobDiff
+  ): Promise<void> {
+    this.diffs.set(jobId, diff);
+    if (original) {
+      this.originalDiffs.set(jobId, original);
+    } else {
+      this.originalDiffs.delete(jobId);
+    }
+  }
+
+  async getJobDiff(jobId: string): Promise<JobDiff | null> {
+    return this.diffs.get(jobId) || null;
+  }
+
+  async getOriginalJobDiff(jobId: string): Promise<JobDiff | null> {
+    return this.originalDiffs.get(jobId) || this.diffs.get(jobId) || null;
+  }
+
+  async setJobLogs(jobId: string, logs: string): Promise<void> {
+    this.logs.set(jobId, logs);
+    // Also update the job record to include logs
+    const job = this.jobs.get(jobId);
+    if (job) {
+      const updatedJob = { ...job, logs };
+      this.jobs.set(jobId, updatedJob);
+    }
+  }
+
+  async getJobLogs(jobId: string): Promise<string | null> {
+    return this.logs.get(jobId) || null;
+  }
+
+  async getAllJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async getChildJobs(parentJobId: string): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.parentJobId === parentJobId)
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+  }
+}
@@ -0,0 +1,54 @@
+// In-memory profile store, used for tests and ephemeral development setups
+import type { EnvironmentProfile } from "~/types/environmentProfile";
+import { ProfileStore } from "./ProfileStore";
+
+export class InMemoryProfileStore extends ProfileStore {
+  private profiles = new Map<string, EnvironmentProfile>();
+
+  createProfile(profile: EnvironmentProfile): EnvironmentProfile {
+    this.profiles.set(profile.id, profile);
+    return profile;
+  }
+
+  getProfile(profileId: string): EnvironmentProfile | null {
+    return this.profiles.get(profileId) || null;
+  }
+
+  updateProfile(
+    profileId: string,
+    updates: Partial<Omit<EnvironmentProfile, "id" | "owner">>
+  ): EnvironmentProfile | null {
+    const profile = this.profiles.get(profileId);
+    if (!profile) return null;
+
+    const updated = {
+      ...profile,
+      ...updates,
+      id: profile.id,
+      owner: profile.owner,
+    };
+    this.profiles.set(profileId, updated);
+    return updated;
+  }
+
+  deleteProfile(profileId: string): boolean {
+    return this.profiles.delete(profileId);
+  }
+
+  deleteOwnerProfiles(owner: string): number {
+    let deleted = 0;
+    for (const profile of this.profiles.values()) {
+      if (profile.owner === owner) {
+        this.profiles.delete(profile.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  listProfiles(owners: string[]): EnvironmentProfile[] {
+    return Array.from(this.profiles.values())
+      .filter((profile) => owners.includes(profile.owner))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,54 @@
+// In-memory secret store, used for tests and ephemeral development setups
+import { SecretStore, type VaultSecret } from "./SecretStore";
+
+export class InMemorySecretStore extends SecretStore {
+  private secrets = new Map<string, VaultSecret>();
+
+  setSecret(secret: VaultSecret): VaultSecret {
+    const existing = Array.from(this.secrets.values()).find(
+      (s) =>
+        s.owner === secret.owner &&
+        s.repository === secret.repository &&
+        s.name === secret.name
+    );
+
+    const stored = existing
+      ? {
+          ...existing,
+          encryptedValue: secret.encryptedValue,
+          updatedAt: secret.updatedAt,
+        }
+      : secret;
+    this.secrets.set(stored.id, stored);
+    return stored;
+  }
+
+  getSecret(secretId: string): VaultSecret | null {
+    return this.secrets.get(secretId) || null;
+  }
+
+  deleteSecret(secretId: string): boolean {
+    return this.secrets.delete(secretId);
+  }
+
+  deleteOwnerSecrets(owner: string): number {
+    let deleted = 0;
+    for (const secret of this.secrets.values()) {
+      if (secret.owner === owner) {
+        this.secrets.delete(secret.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  listSecrets(owners: string[]): VaultSecret[] {
+    return Array.from(this.secrets.values())
+      .filter((secret) => owners.includes(secret.owner))
+      .sort(
+        (a, b) =>
+          a.name.localeCompare(b.name) ||
+          (a.repository || "").localeCompare(b.repository || "")
+      );
+  }
+}
@@ -0,0 +1,159 @@
+// In-memory session store, used for tests and ephemeral development setups
+import { SessionStore, type ApiToken, type Session } from "./SessionStore";
+
+export class InMemorySessionStore extends SessionStore {
+  private sessions = new Map<string, Session>();
+  private apiTokens = new Map<string, ApiToken>();
+  private accountLinks: { huggingface: string; github: string }[] = [];
+
+  createSession(session: Session): Session {
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  getSession(sessionId: string): Session | null {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  updateSession(
+    sessionId: string,
+    updates: Partial<Omit<Session, "id">>
+  ): Session | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    const updated = { ...session, ...updates, id: session.id };
+    this.sessions.set(sessionId, updated);
+    return updated;
+  }
+
+  deleteSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  deleteUserSessions(usernames: {
+    huggingface?: string;
+    github?: string;
+  }): number {
+    let deleted = 0;
+    for (const [id, session] of this.sessions) {
+      const { hfUserInfo, githubUserInfo } = session.credentials;
+      if (
+        (usernames.huggingface &&
+          hfUserInfo?.username === usernames.huggingface) ||
+        (usernames.github && githubUserInfo?.username === usernames.github)
+      ) {
+        this.sessions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  getLatestUserSession(huggingface: string, now: Date): Session | null {
+    let latest: Session | null = null;
+    for (const session of this.sessions.values()) {
+      if (
+        session.credentials.hfUserInfo?.username === huggingface &&
+        session.expiresAt > now &&
+        (!latest || session.createdAt > latest.createdAt)
+      ) {
+        latest = session;
+      }
+    }
+    return latest;
+  }
+
+  deleteExpiredSessions(now: Date): number {
+    let deleted = 0;
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  createApiToken(token: ApiToken): ApiToken {
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  getApiTokenByHash(tokenHash: string): ApiToken | null {
+    for (const token of this.apiTokens.values()) {
+      if (token.tokenHash === tokenHash) return token;
+    }
+    return null;
+  }
+
+  listApiTokens(owner: string): ApiToken[] {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.owner === owner)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  updateApiToken(
+    tokenId: string,
+    updates: Partial<Omit<ApiToken, "id" | "tokenHash">>
+  ): ApiToken | null {
+    const token = this.apiTokens.get(tokenId);
+    if (!token) return null;
+
+    const updated = {
+      ...token,
+      ...updates,
+      id: token.id,
+      tokenHash: token.tokenHash,
+    };
+    this.apiTokens.set(tokenId, updated);
+    return updated;
+  }
+
+  deleteApiToken(tokenId: string, owner: string): boolean {
+    if (this.apiTokens.get(tokenId)?.owner !== owner) return false;
+    return this.apiTokens.delete(tokenId);
+  }
+
+  deleteExpiredApiTokens(now: Date): number {
+    let deleted = 0;
+    for (const [id, token] of this.apiTokens) {
+      if (token.expiresAt <= now) {
+        this.apiTokens.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  linkAccounts(huggingface: string, github: string): void {
+    const exists = this.accountLinks.some(
+      (link) => link.huggingface === huggingface && link.github === github
+    );
+    if (!exists) {
+      this.accountLinks.push({ huggingface, github });
+    }
+  }
+
+  unlinkAccounts(huggingface: string): number {
+    const count = this.accountLinks.length;
+    this.accountLinks = this.accountLinks.filter(
+      (link) => link.huggingface !== huggingface
+    );
+    return count - this.accountLinks.length;
+  }
+
+  getLinkedAccounts(usernames: { huggingface?: string; github?: string }): {
+    huggingface: string[];
+    github: string[];
+  } {
+    return {
+      huggingface: this.accountLinks
+        .filter((link) => link.github === usernames.github)
+        .map((link) => link.huggingface),
+      github: this.accountLinks
+        .filter((link) => link.huggingface === usernames.huggingface)
+        .map((link) => link.github),
+    };
+  }
+}
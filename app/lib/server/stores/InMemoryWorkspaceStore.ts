@@ -0,0 +1,85 @@
+// In-memory workspace store, used for tests and ephemeral development setups
+import {
+  isRoleAtLeast,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceMembership,
+} from "~/types/workspace";
+import { WorkspaceStore } from "./WorkspaceStore";
+
+export class InMemoryWorkspaceStore extends WorkspaceStore {
+  private workspaces = new Map<string, Workspace>();
+  private members = new Map<string, WorkspaceMember[]>();
+
+  createWorkspace(workspace: Workspace): Workspace {
+    this.workspaces.set(workspace.id, workspace);
+    this.members.set(workspace.id, []);
+    return workspace;
+  }
+
+  getWorkspace(workspaceId: string): Workspace | null {
+    return this.workspaces.get(workspaceId) || null;
+  }
+
+  updateWorkspace(
+    workspaceId: string,
+    updates: Partial<Omit<Workspace, "id">>
+  ): Workspace | null {
+    const workspace = this.workspaces.get(workspaceId);
+    if (!workspace) return null;
+
+    const updated = { ...workspace, ...updates, id: workspace.id };
+    this.workspaces.set(workspaceId, updated);
+    return updated;
+  }
+
+  deleteWorkspace(workspaceId: string): boolean {
+    this.members.delete(workspaceId);
+    return this.workspaces.delete(workspaceId);
+  }
+
+  listWorkspaces(identities: string[]): WorkspaceMembership[] {
+    const memberships: WorkspaceMembership[] = [];
+
+    for (const [workspaceId, members] of this.members) {
+      const workspace = this.workspaces.get(workspaceId);
+      let role: WorkspaceMember["role"] | null = null;
+      for (const member of members) {
+        if (
+          identities.includes(member.identity) &&
+          (!role || isRoleAtLeast(member.role, role))
+        ) {
+          role = member.role;
+        }
+      }
+      if (workspace && role) {
+        memberships.push({ ...workspace, role });
+      }
+    }
+
+    return memberships.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  listMembers(workspaceId: string): WorkspaceMember[] {
+    return [...(this.members.get(workspaceId) || [])];
+  }
+
+  setMember(member: WorkspaceMember): WorkspaceMember {
+    const members = this.members.get(member.workspaceId) || [];
+    const index = members.findIndex((m) => m.identity === member.identity);
+    if (index === -1) {
+      this.members.set(member.workspaceId, [...members, member]);
+    } else {
+      // Changing a role keeps the member where they were
+      members[index] = { ...member, addedAt: members[index].addedAt };
+    }
+    return member;
+  }
+
+  removeMember(workspaceId: string, identity: string): boolean {
+    const members = this.members.get(workspaceId) || [];
+    const remaining = members.filter((m) => m.identity !== identity);
+    this.members.set(workspaceId, remaining);
+    return remaining.length < members.length;
+  }
+}
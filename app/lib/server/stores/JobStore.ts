@@ -0,0 +1,110 @@
+import type { Job, JobDiff } from "~/types/job";
+
+export interface ListJobsOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  search?: string;
+  author?: string;
+  ownedBy?: JobOwnerFilter;
+  // Only jobs in this workspace, or only personal jobs when null
+  workspaceId?: string | null;
+}
+
+// Jobs whose owners include one of the identities. Jobs created before owners
+// were recorded match by author instead.
+export interface JobOwnerFilter {
+  identities: string[];
+  authors: string[];
+}
+
+export interface ListJobsResult {
+  jobs: Job[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Base interface for job storage backends
+export abstract class JobStore {
+  abstract listJobs(options?: ListJobsOptions): Promise<ListJobsResult>;
+
+  abstract getJob(jobId: string): Promise<Job | null>;
+
+  abstract createJob(job: Job): Promise<Job>;
+
+  abstract updateJobStatus(
+    jobId: string,
+    status: Job["status"],
+    changes?: Job["changes"]
+  ): Promise<Job | null>;
+
+  // Merge arbitrary fields into a job (id and createdAt are never changed)
+  abstract updateJob(jobId: string, updates: Partial<Job>): Promise<Job | null>;
+
+  // Like updateJob, but only while the job's status is one of `statuses`, in
+  // one step so a concurrent change can't slip in between. Returns null and
+  // changes nothing otherwise.
+  abstract updateJobIfStatus(
+    jobId: string,
+    statuses: Job["status"][],
+    updates: Partial<Job>
+  ): Promise<Job | null>;
+
+  abstract updateJobEnvironment(
+    jobId: string,
+    environment: Record<string, string>,
+    secrets?: Record<string, string>,
+    apiJobId?: string
+  ): Promise<Job | null>;
+
+  abstract deleteJob(jobId: string): Promise<boolean>;
+
+  // Store the diff shown for a job, and the agent's original when credentials
+  // were redacted from it
+  abstract setJobDiff(
+    jobId: string,
+    diff: JobDiff,
+    original?: JobDiff
+  ): Promise<void>;
+
+  abstract getJobDiff(jobId: string): Promise<JobDiff | null>;
+
+  // The diff as the agent made it, for follow-ups to apply. Never serve it.
+  abstract getOriginalJobDiff(jobId: string): Promise<JobDiff | null>;
+
+  abstract setJobLogs(jobId: string, logs: string): Promise<void>;
+
+  abstract getJobLogs(jobId: string): Promise<string | null>;
+
+  abstract getAllJobs(): Promise<Job[]>;
+
+  // Jobs re-run or duplicated from the given job, oldest first
+  abstract getChildJobs(parentJobId: string): Promise<Job[]>;
+
+  protected paginate(
+    jobs: Job[],
+    total: number,
+    page: number,
+    limit: number
+  ): ListJobsResult {
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
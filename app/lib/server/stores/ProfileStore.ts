@@ -0,0 +1,22 @@
+import type { EnvironmentProfile } from "~/types/environmentProfile";
+
+// Base interface for environment profile storage backends. Synchronous like
+// SessionStore and WorkspaceStore.
+export abstract class ProfileStore {
+  abstract createProfile(profile: EnvironmentProfile): EnvironmentProfile;
+
+  abstract getProfile(profileId: string): EnvironmentProfile | null;
+
+  abstract updateProfile(
+    profileId: string,
+    updates: Partial<Omit<EnvironmentProfile, "id" | "owner">>
+  ): EnvironmentProfile | null;
+
+  abstract deleteProfile(profileId: string): boolean;
+
+  // Remove all profiles of an owner, e.g. when a workspace is deleted
+  abstract deleteOwnerProfiles(owner: string): number;
+
+  // Profiles of any of the owners, sorted by name
+  abstract listProfiles(owners: string[]): EnvironmentProfile[];
+}
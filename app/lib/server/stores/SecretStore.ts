@@ -0,0 +1,24 @@
+import type { SecretInfo } from "~/types/secret";
+
+// A vault secret as stored: the value only ever encrypted, see secretVault.ts
+export interface VaultSecret extends SecretInfo {
+  encryptedValue: string;
+}
+
+// Base interface for secret vault storage backends. Synchronous like
+// SessionStore and ProfileStore.
+export abstract class SecretStore {
+  // Create a secret, or replace the value of the owner's secret with the same
+  // name and repository. Returns the stored secret.
+  abstract setSecret(secret: VaultSecret): VaultSecret;
+
+  abstract getSecret(secretId: string): VaultSecret | null;
+
+  abstract deleteSecret(secretId: string): boolean;
+
+  // Remove all secrets of an owner, e.g. when a workspace is deleted
+  abstract deleteOwnerSecrets(owner: string): number;
+
+  // Secrets of any of the owners, sorted by name, then repository
+  abstract listSecrets(owners: string[]): VaultSecret[];
+}
@@ -0,0 +1,80 @@
+import type { ApiCredentials } from "../auth";
+import type { ApiTokenInfo } from "~/types/apiToken";
+
+// A signed-in browser. The tokens stay on the server, the cookie only
+// carries the signed session id.
+export interface Session {
+  id: string;
+  credentials: ApiCredentials;
+  createdAt: Date;
+  expiresAt: Date;
+  // When the session id was last replaced
+  rotatedAt: Date;
+}
+
+// A personal API token. Only a hash of the token is stored. Like a session it
+// holds the credentials of the user who created it, jobs started with the
+// token run as that user.
+export interface ApiToken extends ApiTokenInfo {
+  tokenHash: string;
+  owner: string;
+  credentials: ApiCredentials;
+}
+
+// Base interface for session and API token storage backends. Unlike JobStore it is
+// synchronous, so credentials can be read wherever a cookie header is.
+export abstract class SessionStore {
+  abstract createSession(session: Session): Session;
+
+  abstract getSession(sessionId: string): Session | null;
+
+  // Merge fields into a session (the id is never changed)
+  abstract updateSession(
+    sessionId: string,
+    updates: Partial<Omit<Session, "id">>
+  ): Session | null;
+
+  abstract deleteSession(sessionId: string): void;
+
+  // Sessions signed in as the given Hugging Face or GitHub user
+  abstract deleteUserSessions(usernames: {
+    huggingface?: string;
+    github?: string;
+  }): number;
+
+  abstract deleteExpiredSessions(now: Date): number;
+
+  // The Hugging Face user's most recently created session that hasn't
+  // expired, to act for them outside of a request
+  abstract getLatestUserSession(huggingface: string, now: Date): Session | null;
+
+  abstract createApiToken(token: ApiToken): ApiToken;
+
+  abstract getApiTokenByHash(tokenHash: string): ApiToken | null;
+
+  // Tokens of a user, newest first
+  abstract listApiTokens(owner: string): ApiToken[];
+
+  abstract updateApiToken(
+    tokenId: string,
+    updates: Partial<Omit<ApiToken, "id" | "tokenHash">>
+  ): ApiToken | null;
+
+  // Revoke one of a user's tokens. Returns false if they have no such token.
+  abstract deleteApiToken(tokenId: string, owner: string): boolean;
+
+  abstract deleteExpiredApiTokens(now: Date): number;
+
+  // Remember that the user of a Hugging Face account asked to link the GitHub
+  // account connected in the same session
+  abstract linkAccounts(huggingface: string, github: string): void;
+
+  // Remove the links of a Hugging Face account. Returns how many there were.
+  abstract unlinkAccounts(huggingface: string): number;
+
+  // Accounts linked to the given ones
+  abstract getLinkedAccounts(usernames: {
+    huggingface?: string;
+    github?: string;
+  }): { huggingface: string[]; github: string[] };
+}
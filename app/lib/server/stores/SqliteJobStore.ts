@@ -0,0 +1,417 @@
+// File-backed SQLite job store so job history survives restarts
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import type { Job, JobDiff } from "~/types/job";
+import {
+  JobStore,
+  type ListJobsOptions,
+  type ListJobsResult,
+} from "./JobStore";
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit a migration that has shipped - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create jobs, job_diffs and job_logs tables",
+    up: `
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status TEXT NOT NULL,
+        author TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_jobs_author_created_at ON jobs (author, created_at);
+      CREATE INDEX idx_jobs_status ON jobs (status);
+
+      CREATE TABLE job_diffs (
+        job_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE job_logs (
+        job_id TEXT PRIMARY KEY,
+        logs TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: "Add original_data column to job_diffs",
+    up: `
+      ALTER TABLE job_diffs ADD COLUMN original_data TEXT;
+    `,
+  },
+  {
+    version: 3,
+    description: "Add workspace_id column to jobs",
+    up: `
+      ALTER TABLE jobs ADD COLUMN workspace_id TEXT;
+      UPDATE jobs SET workspace_id = json_extract(data, '$.workspaceId');
+      CREATE INDEX idx_jobs_workspace_id_created_at ON jobs (workspace_id, created_at);
+    `,
+  },
+];
+
+interface JobRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  data: string;
+}
+
+export class SqliteJobStore extends JobStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    console.log(`🗄️ SQLite job store ready at ${filePath}`);
+  }
+
+  private migrate() {
+    const currentVersion = this.db.pragma("user_version", {
+      simple: true,
+    }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+
+      console.log(
+        `🗄️ Applied job store migration ${migration.version}: ${migration.description}`
+      );
+    }
+  }
+
+  private rowToJob(row: JobRow): Job {
+    return {
+      ...JSON.parse(row.data),
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private saveJob(job: Job) {
+    this.db
+      .prepare(
+        `INSERT INTO jobs (id, title, description, status, author, workspace_id, created_at, updated_at, data)
+         VALUES (@id, @title, @description, @status, @author, @workspaceId, @createdAt, @updatedAt, @data)
+         ON CONFLICT(id) DO UPDATE SET
+           title = excluded.title,
+           description = excluded.description,
+           status = excluded.status,
+           author = excluded.author,
+           workspace_id = excluded.workspace_id,
+           updated_at = excluded.updated_at,
+           data = excluded.data`
+      )
+      .run({
+        id: job.id,
+        title: job.title,
+        description: job.description,
+        status: job.status,
+        author: job.author ?? null,
+        workspaceId: job.workspaceId ?? null,
+        createdAt: new Date(job.createdAt).toISOString(),
+        updatedAt: new Date(job.updatedAt).toISOString(),
+        // Logs live in their own table, don't duplicate them on every write
+        data: JSON.stringify({ ...job, logs: undefined }),
+      });
+  }
+
+  async listJobs({
+    page = 1,
+    limit = 20,
+    status,
+    search,
+    author,
+    ownedBy,
+    workspaceId,
+  }: ListJobsOptions = {}): Promise<ListJobsResult> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number | null> = {};
+
+    if (status) {
+      conditions.push("status = @status");
+      params.status = status;
+    }
+
+    if (search) {
+      conditions.push(
+        "(instr(lower(title), @search) > 0 OR instr(lower(description), @search) > 0)"
+      );
+      params.search = search.toLowerCase();
+    }
+
+    if (author) {
+      conditions.push("author = @author");
+      params.author = author;
+    }
+
+    if (ownedBy) {
+      const identities = this.bindList(params, "identity", ownedBy.identities);
+      const authors = this.bindList(params, "owner", ownedBy.authors);
+      conditions.push(
+        `(EXISTS (SELECT 1 FROM json_each(data, '$.owners') WHERE value IN (${identities}))
+          OR (json_type(data, '$.owners') IS NULL AND author IN (${authors})))`
+      );
+    }
+
+    if (workspaceId === null) {
+      conditions.push("workspace_id IS NULL");
+    } else if (workspaceId !== undefined) {
+      conditions.push("workspace_id = @workspaceId");
+      params.workspaceId = workspaceId;
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM jobs ${where}`)
+      .get(params) as { total: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT id, created_at, updated_at, data FROM jobs ${where}
+         ORDER BY created_at DESC
+         LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit, offset: (page - 1) * limit }) as JobRow[];
+
+    return this.paginate(
+      rows.map((row) => this.rowToJob(row)),
+      total,
+      page,
+      limit
+    );
+  }
+
+  // Bind values as @name0, @name1, ... for an IN list. An empty list binds
+  // NULL, which matches nothing.
+  private bindList(
+    params: Record<string, string | number | null>,
+    name: string,
+    values: string[]
+  ): string {
+    if (values.length === 0) {
+      params[name] = null;
+      return `@${name}`;
+    }
+    return values
+      .map((value, index) => {
+        params[`${name}${index}`] = value;
+        return `@${name}${index}`;
+      })
+      .join(", ");
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    const row = this.db
+      .prepare("SELECT id, created_at, updated_at, data FROM jobs WHERE id = ?")
+      .get(jobId) as JobRow | undefined;
+
+    return row ? this.rowToJob(row) : null;
+  }
+
+  async createJob(job: Job): Promise<Job> {
+    this.saveJob(job);
+    return job;
+  }
+
+  async updateJobStatus(
+    jobId: string,
+    status: Job["status"],
+    changes?: Job["changes"]
+  ): Promise<Job | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      status,
+      updatedAt: new Date(),
+      ...(changes && { changes }),
+    };
+
+    this.saveJob(updatedJob);
+    return updatedJob;
+  }
+
+  async updateJob(jobId: string, updates: Partial<Job>): Promise<Job | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      ...updates,
+      id: job.id,
+      createdAt: job.createdAt,
+      updatedAt: new Date(),
+    };
+
+    this.saveJob(updatedJob);
+    return updatedJob;
+  }
+
+  async updateJobIfStatus(
+    jobId: string,
+    statuses: Job["status"][],
+    updates: Partial<Job>
+  ): Promise<Job | null> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare(
+          "SELECT id, created_at, updated_at, data FROM jobs WHERE id = ?"
+        )
+        .get(jobId) as JobRow | undefined;
+      if (!row) return null;
+
+      const job = this.rowToJob(row);
+      if (!statuses.includes(job.status)) return null;
+
+      const updatedJob: Job = {
+        ...job,
+        ...updates,
+        id: job.id,
+        createdAt: job.createdAt,
+        updatedAt: new Date(),
+      };
+
+      this.saveJob(updatedJob);
+      return updatedJob;
+    })();
+  }
+
+  async updateJobEnvironment(
+    jobId: string,
+    environment: Record<string, string>,
+    secrets?: Record<string, string>,
+    apiJobId?: string
+  ): Promise<Job | null> {
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const updatedJob: Job = {
+      ...job,
+      environment,
+      secrets,
+      apiJobId,
+      updatedAt: new Date(),
+    };
+
+    this.saveJob(updatedJob);
+    return updatedJob;
+  }
+
+  async deleteJob(jobId: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const result = this.db
+        .prepare("DELETE FROM jobs WHERE id = ?")
+        .run(jobId);
+      this.db.prepare("DELETE FROM job_diffs WHERE job_id = ?").run(jobId);
+      this.db.prepare("DELETE FROM job_logs WHERE job_id = ?").run(jobId);
+      return result.changes > 0;
+    })();
+  }
+
+  async setJobDiff(
+    jobId: string,
+    diff: JobDiff,
+    original?: JobDiff
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO job_diffs (job_id, data, original_data) VALUES (?, ?, ?)
+         ON CONFLICT(job_id) DO UPDATE SET
+           data = excluded.data,
+           original_data = excluded.original_data`
+      )
+      .run(
+        jobId,
+        JSON.stringify(diff),
+        original ? JSON.stringify(original) : null
+      );
+  }
+
+  async getJobDiff(jobId: string): Promise<JobDiff | null> {
+    const row = this.db
+      .prepare("SELECT data FROM job_diffs WHERE job_id = ?")
+      .get(jobId) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async getOriginalJobDiff(jobId: string): Promise<JobDiff | null> {
+    const row = this.db
+      .prepare(
+        "SELECT COALESCE(original_data, data) AS data FROM job_diffs WHERE job_id = ?"
+      )
+      .get(jobId) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async setJobLogs(jobId: string, logs: string): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO job_logs (job_id, logs) VALUES (?, ?)
+         ON CONFLICT(job_id) DO UPDATE SET logs = excluded.logs`
+      )
+      .run(jobId, logs);
+  }
+
+  async getJobLogs(jobId: string): Promise<string | null> {
+    const row = this.db
+      .prepare("SELECT logs FROM job_logs WHERE job_id = ?")
+      .get(jobId) as { logs: string } | undefined;
+
+    return row ? row.logs : null;
+  }
+
+  async getAllJobs(): Promise<Job[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT id, created_at, updated_at, data FROM jobs ORDER BY created_at DESC"
+      )
+      .all() as JobRow[];
+
+    return rows.map((row) => this.rowToJob(row));
+  }
+
+  async getChildJobs(parentJobId: string): Promise<Job[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, created_at, updated_at, data FROM jobs
+         WHERE json_extract(data, '$.parentJobId') = ?
+         ORDER BY created_at ASC`
+      )
+      .all(parentJobId) as JobRow[];
+
+    return rows.map((row) => this.rowToJob(row));
+  }
+}
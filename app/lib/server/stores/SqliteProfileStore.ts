@@ -0,0 +1,217 @@
+// File-backed SQLite profile store
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import type { EnvironmentProfile } from "~/types/environmentProfile";
+import { ProfileStore } from "./ProfileStore";
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit a migration that has shipped - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create profiles table",
+    up: `
+      CREATE TABLE profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_profiles_owner ON profiles (owner);
+    `,
+  },
+  {
+    version: 2,
+    description:
+      "Replace plaintext profile secrets with references to the secret vault",
+    up: `
+      UPDATE profiles SET data = json_set(
+        data,
+        '$.secrets',
+        json((
+          SELECT json_group_object(key, '\${secrets.' || key || '}')
+          FROM json_each(profiles.data, '$.secrets')
+        ))
+      );
+    `,
+  },
+  {
+    version: 3,
+    description: "Add setup and verify commands to profiles",
+    up: `
+      UPDATE profiles SET data = json_set(
+        data,
+        '$.setup',
+        json('[]'),
+        '$.verify',
+        json('[]'),
+        '$.failOnVerify',
+        json('false')
+      );
+    `,
+  },
+  {
+    version: 4,
+    description: "Add network policies to profiles, open as before",
+    up: `
+      UPDATE profiles SET data = json_set(
+        data,
+        '$.network',
+        json('{"mode":"open","allowedHosts":[]}')
+      );
+    `,
+  },
+  {
+    version: 5,
+    description: "Add hardening presets to profiles, permissive as before",
+    up: `
+      UPDATE profiles SET data = json_set(data, '$.hardening', 'permissive');
+    `,
+  },
+  {
+    version: 6,
+    description: "Add secret delivery to profiles, env as before",
+    up: `
+      UPDATE profiles SET data = json_set(data, '$.secretDelivery', 'env');
+    `,
+  },
+];
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  owner: string;
+  created_at: string;
+  updated_at: string;
+  data: string;
+}
+
+export class SqliteProfileStore extends ProfileStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    console.log(`🗄️ SQLite profile store ready at ${filePath}`);
+  }
+
+  private migrate() {
+    const currentVersion = this.db.pragma("user_version", {
+      simple: true,
+    }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+
+      console.log(
+        `🗄️ Applied profile store migration ${migration.version}: ${migration.description}`
+      );
+    }
+  }
+
+  private rowToProfile(row: ProfileRow): EnvironmentProfile {
+    return {
+      ...JSON.parse(row.data),
+      id: row.id,
+      name: row.name,
+      owner: row.owner,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private saveProfile(profile: EnvironmentProfile) {
+    const { id, name, owner, createdAt, updatedAt, ...data } = profile;
+    this.db
+      .prepare(
+        `INSERT INTO profiles (id, name, owner, created_at, updated_at, data)
+         VALUES (@id, @name, @owner, @createdAt, @updatedAt, @data)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           updated_at = excluded.updated_at,
+           data = excluded.data`
+      )
+      .run({
+        id,
+        name,
+        owner,
+        createdAt: createdAt.toISOString(),
+        updatedAt: updatedAt.toISOString(),
+        data: JSON.stringify(data),
+      });
+  }
+
+  createProfile(profile: EnvironmentProfile): EnvironmentProfile {
+    this.saveProfile(profile);
+    return profile;
+  }
+
+  getProfile(profileId: string): EnvironmentProfile | null {
+    const row = this.db
+      .prepare("SELECT * FROM profiles WHERE id = ?")
+      .get(profileId) as ProfileRow | undefined;
+    return row ? this.rowToProfile(row) : null;
+  }
+
+  updateProfile(
+    profileId: string,
+    updates: Partial<Omit<EnvironmentProfile, "id" | "owner">>
+  ): EnvironmentProfile | null {
+    const profile = this.getProfile(profileId);
+    if (!profile) return null;
+
+    const updated = {
+      ...profile,
+      ...updates,
+      id: profile.id,
+      owner: profile.owner,
+    };
+    this.saveProfile(updated);
+    return updated;
+  }
+
+  deleteProfile(profileId: string): boolean {
+    return (
+      this.db.prepare("DELETE FROM profiles WHERE id = ?").run(profileId)
+        .changes > 0
+    );
+  }
+
+  deleteOwnerProfiles(owner: string): number {
+    return this.db.prepare("DELETE FROM profiles WHERE owner = ?").run(owner)
+      .changes;
+  }
+
+  listProfiles(owners: string[]): EnvironmentProfile[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM profiles
+         WHERE owner IN (SELECT value FROM json_each(?))
+         ORDER BY name`
+      )
+      .all(JSON.stringify(owners)) as ProfileRow[];
+    return rows.map((row) => this.rowToProfile(row));
+  }
+}
@@ -0,0 +1,147 @@
+// File-backed SQLite secret store. Values arrive encrypted, this store never
+// sees them in the clear.
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import { SecretStore, type VaultSecret } from "./SecretStore";
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit a migration that has shipped - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create secrets table",
+    up: `
+      CREATE TABLE secrets (
+        id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        repository TEXT NOT NULL DEFAULT '',
+        name TEXT NOT NULL,
+        encrypted_value TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (owner, repository, name)
+      );
+    `,
+  },
+];
+
+interface SecretRow {
+  id: string;
+  owner: string;
+  // Empty for secrets that apply to every repository
+  repository: string;
+  name: string;
+  encrypted_value: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SqliteSecretStore extends SecretStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    console.log(`🗄️ SQLite secret store ready at ${filePath}`);
+  }
+
+  private migrate() {
+    const currentVersion = this.db.pragma("user_version", {
+      simple: true,
+    }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+
+      console.log(
+        `🗄️ Applied secret store migration ${migration.version}: ${migration.description}`
+      );
+    }
+  }
+
+  private rowToSecret(row: SecretRow): VaultSecret {
+    return {
+      id: row.id,
+      owner: row.owner,
+      repository: row.repository || null,
+      name: row.name,
+      encryptedValue: row.encrypted_value,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  setSecret(secret: VaultSecret): VaultSecret {
+    const row = this.db
+      .prepare(
+        `INSERT INTO secrets
+           (id, owner, repository, name, encrypted_value, created_at, updated_at)
+         VALUES
+           (@id, @owner, @repository, @name, @encryptedValue, @createdAt, @updatedAt)
+         ON CONFLICT(owner, repository, name) DO UPDATE SET
+           encrypted_value = excluded.encrypted_value,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get({
+        id: secret.id,
+        owner: secret.owner,
+        repository: secret.repository || "",
+        name: secret.name,
+        encryptedValue: secret.encryptedValue,
+        createdAt: secret.createdAt.toISOString(),
+        updatedAt: secret.updatedAt.toISOString(),
+      }) as SecretRow;
+    return this.rowToSecret(row);
+  }
+
+  getSecret(secretId: string): VaultSecret | null {
+    const row = this.db
+      .prepare("SELECT * FROM secrets WHERE id = ?")
+      .get(secretId) as SecretRow | undefined;
+    return row ? this.rowToSecret(row) : null;
+  }
+
+  deleteSecret(secretId: string): boolean {
+    return (
+      this.db.prepare("DELETE FROM secrets WHERE id = ?").run(secretId)
+        .changes > 0
+    );
+  }
+
+  deleteOwnerSecrets(owner: string): number {
+    return this.db.prepare("DELETE FROM secrets WHERE owner = ?").run(owner)
+      .changes;
+  }
+
+  listSecrets(owners: string[]): VaultSecret[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM secrets
+         WHERE owner IN (SELECT value FROM json_each(?))
+         ORDER BY name, repository`
+      )
+      .all(JSON.stringify(owners)) as SecretRow[];
+    return rows.map((row) => this.rowToSecret(row));
+  }
+}
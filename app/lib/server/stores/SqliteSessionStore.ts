@@ -0,0 +1,351 @@
+// File-backed SQLite session store so sign-ins survive restarts
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import { decryptCredentials, encryptCredentials } from "../sessionSecrets";
+import { SessionStore, type ApiToken, type Session } from "./SessionStore";
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit a migration that has shipped - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create sessions table",
+    up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        hf_username TEXT,
+        github_username TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        rotated_at TEXT NOT NULL,
+        credentials TEXT NOT NULL
+      );
+      CREATE INDEX idx_sessions_hf_username ON sessions (hf_username);
+      CREATE INDEX idx_sessions_github_username ON sessions (github_username);
+      CREATE INDEX idx_sessions_expires_at ON sessions (expires_at);
+    `,
+  },
+  {
+    version: 2,
+    description: "Create api_tokens table",
+    up: `
+      CREATE TABLE api_tokens (
+        id TEXT PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        last_used_at TEXT,
+        credentials TEXT NOT NULL
+      );
+      CREATE INDEX idx_api_tokens_owner ON api_tokens (owner);
+      CREATE INDEX idx_api_tokens_expires_at ON api_tokens (expires_at);
+    `,
+  },
+  {
+    version: 3,
+    description: "Create account_links table",
+    up: `
+      CREATE TABLE account_links (
+        hf_username TEXT NOT NULL,
+        github_username TEXT NOT NULL,
+        linked_at TEXT NOT NULL,
+        PRIMARY KEY (hf_username, github_username)
+      );
+      CREATE INDEX idx_account_links_github_username ON account_links (github_username);
+    `,
+  },
+];
+
+interface SessionRow {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  rotated_at: string;
+  credentials: string;
+}
+
+interface ApiTokenRow {
+  id: string;
+  token_hash: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  owner: string;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  credentials: string;
+}
+
+export class SqliteSessionStore extends SessionStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    console.log(`🗄️ SQLite session store ready at ${filePath}`);
+  }
+
+  private migrate() {
+    const currentVersion = this.db.pragma("user_version", {
+      simple: true,
+    }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+
+      console.log(
+        `🗄️ Applied session store migration ${migration.version}: ${migration.description}`
+      );
+    }
+  }
+
+  private rowToSession(row: SessionRow): Session {
+    return {
+      id: row.id,
+      credentials: decryptCredentials(row.credentials),
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      rotatedAt: new Date(row.rotated_at),
+    };
+  }
+
+  private saveSession(session: Session) {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (id, hf_username, github_username, created_at, expires_at, rotated_at, credentials)
+         VALUES (@id, @hfUsername, @githubUsername, @createdAt, @expiresAt, @rotatedAt, @credentials)
+         ON CONFLICT(id) DO UPDATE SET
+           hf_username = excluded.hf_username,
+           github_username = excluded.github_username,
+           expires_at = excluded.expires_at,
+           rotated_at = excluded.rotated_at,
+           credentials = excluded.credentials`
+      )
+      .run({
+        id: session.id,
+        hfUsername: session.credentials.hfUserInfo?.username ?? null,
+        githubUsername: session.credentials.githubUserInfo?.username ?? null,
+        createdAt: session.createdAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+        rotatedAt: session.rotatedAt.toISOString(),
+        credentials: encryptCredentials(session.credentials),
+      });
+  }
+
+  createSession(session: Session): Session {
+    this.saveSession(session);
+    return session;
+  }
+
+  getSession(sessionId: string): Session | null {
+    const row = this.db
+      .prepare("SELECT * FROM sessions WHERE id = ?")
+      .get(sessionId) as SessionRow | undefined;
+    return row ? this.rowToSession(row) : null;
+  }
+
+  updateSession(
+    sessionId: string,
+    updates: Partial<Omit<Session, "id">>
+  ): Session | null {
+    const session = this.getSession(sessionId);
+    if (!session) return null;
+
+    const updated = { ...session, ...updates, id: session.id };
+    this.saveSession(updated);
+    return updated;
+  }
+
+  deleteSession(sessionId: string): void {
+    this.db.prepare("DELETE FROM sessions WHERE id = ?").run(sessionId);
+  }
+
+  deleteUserSessions(usernames: {
+    huggingface?: string;
+    github?: string;
+  }): number {
+    return this.db
+      .prepare(
+        `DELETE FROM sessions
+         WHERE (@huggingface IS NOT NULL AND hf_username = @huggingface)
+            OR (@github IS NOT NULL AND github_username = @github)`
+      )
+      .run({
+        huggingface: usernames.huggingface ?? null,
+        github: usernames.github ?? null,
+      }).changes;
+  }
+
+  getLatestUserSession(huggingface: string, now: Date): Session | null {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM sessions
+         WHERE hf_username = ? AND expires_at > ?
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(huggingface, now.toISOString()) as SessionRow | undefined;
+    return row ? this.rowToSession(row) : null;
+  }
+
+  deleteExpiredSessions(now: Date): number {
+    return this.db
+      .prepare("DELETE FROM sessions WHERE expires_at <= ?")
+      .run(now.toISOString()).changes;
+  }
+
+  private rowToApiToken(row: ApiTokenRow): ApiToken {
+    return {
+      id: row.id,
+      tokenHash: row.token_hash,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes),
+      owner: row.owner,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      credentials: decryptCredentials(row.credentials),
+    };
+  }
+
+  private saveApiToken(token: ApiToken) {
+    this.db
+      .prepare(
+        `INSERT INTO api_tokens (id, token_hash, name, prefix, scopes, owner, created_at, expires_at, last_used_at, credentials)
+         VALUES (@id, @tokenHash, @name, @prefix, @scopes, @owner, @createdAt, @expiresAt, @lastUsedAt, @credentials)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           scopes = excluded.scopes,
+           owner = excluded.owner,
+           expires_at = excluded.expires_at,
+           last_used_at = excluded.last_used_at,
+           credentials = excluded.credentials`
+      )
+      .run({
+        id: token.id,
+        tokenHash: token.tokenHash,
+        name: token.name,
+        prefix: token.prefix,
+        scopes: JSON.stringify(token.scopes),
+        owner: token.owner,
+        createdAt: token.createdAt.toISOString(),
+        expiresAt: token.expiresAt.toISOString(),
+        lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+        credentials: encryptCredentials(token.credentials),
+      });
+  }
+
+  createApiToken(token: ApiToken): ApiToken {
+    this.saveApiToken(token);
+    return token;
+  }
+
+  getApiTokenByHash(tokenHash: string): ApiToken | null {
+    const row = this.db
+      .prepare("SELECT * FROM api_tokens WHERE token_hash = ?")
+      .get(tokenHash) as ApiTokenRow | undefined;
+    return row ? this.rowToApiToken(row) : null;
+  }
+
+  listApiTokens(owner: string): ApiToken[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM api_tokens WHERE owner = ? ORDER BY created_at DESC"
+      )
+      .all(owner) as ApiTokenRow[];
+    return rows.map((row) => this.rowToApiToken(row));
+  }
+
+  updateApiToken(
+    tokenId: string,
+    updates: Partial<Omit<ApiToken, "id" | "tokenHash">>
+  ): ApiToken | null {
+    const row = this.db
+      .prepare("SELECT * FROM api_tokens WHERE id = ?")
+      .get(tokenId) as ApiTokenRow | undefined;
+    if (!row) return null;
+
+    const token = this.rowToApiToken(row);
+    const updated = {
+      ...token,
+      ...updates,
+      id: token.id,
+      tokenHash: token.tokenHash,
+    };
+    this.saveApiToken(updated);
+    return updated;
+  }
+
+  deleteApiToken(tokenId: string, owner: string): boolean {
+    return (
+      this.db
+        .prepare("DELETE FROM api_tokens WHERE id = ? AND owner = ?")
+        .run(tokenId, owner).changes > 0
+    );
+  }
+
+  deleteExpiredApiTokens(now: Date): number {
+    return this.db
+      .prepare("DELETE FROM api_tokens WHERE expires_at <= ?")
+      .run(now.toISOString()).changes;
+  }
+
+  linkAccounts(huggingface: string, github: string): void {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO account_links (hf_username, github_username, linked_at)
+         VALUES (?, ?, ?)`
+      )
+      .run(huggingface, github, new Date().toISOString());
+  }
+
+  unlinkAccounts(huggingface: string): number {
+    return this.db
+      .prepare("DELETE FROM account_links WHERE hf_username = ?")
+      .run(huggingface).changes;
+  }
+
+  getLinkedAccounts(usernames: { huggingface?: string; github?: string }): {
+    huggingface: string[];
+    github: string[];
+  } {
+    const huggingface = this.db
+      .prepare(
+        "SELECT hf_username FROM account_links WHERE github_username = ?"
+      )
+      .pluck()
+      .all(usernames.github ?? null) as string[];
+    const github = this.db
+      .prepare(
+        "SELECT github_username FROM account_links WHERE hf_username = ?"
+      )
+      .pluck()
+      .all(usernames.huggingface ?? null) as string[];
+    return { huggingface, github };
+  }
+}
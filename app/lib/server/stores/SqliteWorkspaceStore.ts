@@ -0,0 +1,240 @@
+// File-backed SQLite workspace store
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import {
+  isRoleAtLeast,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from "~/types/workspace";
+import { WorkspaceStore } from "./WorkspaceStore";
+
+interface Migration {
+  version: number;
+  description: string;
+  up: string;
+}
+
+// Schema migrations, applied in order and tracked through PRAGMA user_version.
+// Never edit a migration that has shipped - append a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create workspace tables",
+    up: `
+      CREATE TABLE workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        created_by TEXT NOT NULL
+      );
+      CREATE TABLE workspace_members (
+        workspace_id TEXT NOT NULL,
+        identity TEXT NOT NULL,
+        role TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, identity)
+      );
+      CREATE INDEX idx_workspace_members_identity ON workspace_members (identity);
+      CREATE TABLE workspace_environments (
+        workspace_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    description:
+      "Drop workspace_environments, replaced by environment profiles",
+    up: `
+      DROP TABLE workspace_environments;
+    `,
+  },
+];
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  created_at: string;
+  created_by: string;
+}
+
+interface MemberRow {
+  workspace_id: string;
+  identity: string;
+  role: WorkspaceRole;
+  added_at: string;
+}
+
+export class SqliteWorkspaceStore extends WorkspaceStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    super();
+
+    if (filePath !== ":memory:") {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+
+    console.log(`🗄️ SQLite workspace store ready at ${filePath}`);
+  }
+
+  private migrate() {
+    const currentVersion = this.db.pragma("user_version", {
+      simple: true,
+    }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+
+      console.log(
+        `🗄️ Applied workspace store migration ${migration.version}: ${migration.description}`
+      );
+    }
+  }
+
+  private rowToWorkspace(row: WorkspaceRow): Workspace {
+    return {
+      id: row.id,
+      name: row.name,
+      createdAt: new Date(row.created_at),
+      createdBy: row.created_by,
+    };
+  }
+
+  private rowToMember(row: MemberRow): WorkspaceMember {
+    return {
+      workspaceId: row.workspace_id,
+      identity: row.identity,
+      role: row.role,
+      addedAt: new Date(row.added_at),
+    };
+  }
+
+  createWorkspace(workspace: Workspace): Workspace {
+    this.db
+      .prepare(
+        `INSERT INTO workspaces (id, name, created_at, created_by)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        workspace.id,
+        workspace.name,
+        workspace.createdAt.toISOString(),
+        workspace.createdBy
+      );
+    return workspace;
+  }
+
+  getWorkspace(workspaceId: string): Workspace | null {
+    const row = this.db
+      .prepare("SELECT * FROM workspaces WHERE id = ?")
+      .get(workspaceId) as WorkspaceRow | undefined;
+    return row ? this.rowToWorkspace(row) : null;
+  }
+
+  updateWorkspace(
+    workspaceId: string,
+    updates: Partial<Omit<Workspace, "id">>
+  ): Workspace | null {
+    const workspace = this.getWorkspace(workspaceId);
+    if (!workspace) return null;
+
+    const updated = { ...workspace, ...updates, id: workspace.id };
+    this.db
+      .prepare(
+        "UPDATE workspaces SET name = ?, created_at = ?, created_by = ? WHERE id = ?"
+      )
+      .run(
+        updated.name,
+        updated.createdAt.toISOString(),
+        updated.createdBy,
+        workspaceId
+      );
+    return updated;
+  }
+
+  deleteWorkspace(workspaceId: string): boolean {
+    return this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM workspace_members WHERE workspace_id = ?")
+        .run(workspaceId);
+      return (
+        this.db.prepare("DELETE FROM workspaces WHERE id = ?").run(workspaceId)
+          .changes > 0
+      );
+    })();
+  }
+
+  listWorkspaces(identities: string[]): WorkspaceMembership[] {
+    const rows = this.db
+      .prepare(
+        `SELECT w.*, m.role FROM workspaces w
+         JOIN workspace_members m ON m.workspace_id = w.id
+         WHERE m.identity IN (SELECT value FROM json_each(?))
+         ORDER BY w.name`
+      )
+      .all(JSON.stringify(identities)) as (WorkspaceRow & {
+      role: WorkspaceRole;
+    })[];
+
+    // A user with linked accounts may be a member under several identities
+    const memberships = new Map<string, WorkspaceMembership>();
+    for (const row of rows) {
+      const existing = memberships.get(row.id);
+      if (!existing || isRoleAtLeast(row.role, existing.role)) {
+        memberships.set(row.id, {
+          ...this.rowToWorkspace(row),
+          role: row.role,
+        });
+      }
+    }
+    return Array.from(memberships.values());
+  }
+
+  listMembers(workspaceId: string): WorkspaceMember[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM workspace_members WHERE workspace_id = ? ORDER BY added_at"
+      )
+      .all(workspaceId) as MemberRow[];
+    return rows.map((row) => this.rowToMember(row));
+  }
+
+  setMember(member: WorkspaceMember): WorkspaceMember {
+    this.db
+      .prepare(
+        `INSERT INTO workspace_members (workspace_id, identity, role, added_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(workspace_id, identity) DO UPDATE SET role = excluded.role`
+      )
+      .run(
+        member.workspaceId,
+        member.identity,
+        member.role,
+        member.addedAt.toISOString()
+      );
+    return member;
+  }
+
+  removeMember(workspaceId: string, identity: string): boolean {
+    return (
+      this.db
+        .prepare(
+          "DELETE FROM workspace_members WHERE workspace_id = ? AND identity = ?"
+        )
+        .run(workspaceId, identity).changes > 0
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import type {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceMembership,
+} from "~/types/workspace";
+
+// Base interface for workspace storage backends. Like SessionStore it is
+// synchronous, so authorization checks can look up memberships anywhere.
+export abstract class WorkspaceStore {
+  abstract createWorkspace(workspace: Workspace): Workspace;
+
+  abstract getWorkspace(workspaceId: string): Workspace | null;
+
+  abstract updateWorkspace(
+    workspaceId: string,
+    updates: Partial<Omit<Workspace, "id">>
+  ): Workspace | null;
+
+  // Deletes the workspace with its members
+  abstract deleteWorkspace(workspaceId: string): boolean;
+
+  // Workspaces any of the identities belongs to, with their highest role
+  abstract listWorkspaces(identities: string[]): WorkspaceMembership[];
+
+  abstract listMembers(workspaceId: string): WorkspaceMember[];
+
+  // Add a member, or change their role
+  abstract setMember(member: WorkspaceMember): WorkspaceMember;
+
+  abstract removeMember(workspaceId: string, identity: string): boolean;
+}
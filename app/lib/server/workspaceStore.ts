@@ -0,0 +1,28 @@
+import serverConfig from "./config";
+import { WorkspaceStore } from "./stores/WorkspaceStore";
+import { InMemoryWorkspaceStore } from "./stores/InMemoryWorkspaceStore";
+import { SqliteWorkspaceStore } from "./stores/SqliteWorkspaceStore";
+
+export { WorkspaceStore, InMemoryWorkspaceStore, SqliteWorkspaceStore };
+
+function createWorkspaceStore(driver: string): WorkspaceStore {
+  switch (driver) {
+    case "sqlite":
+      return new SqliteWorkspaceStore(serverConfig.WORKSPACE_STORE.SQLITE_PATH);
+    case "memory":
+    default:
+      return new InMemoryWorkspaceStore();
+  }
+}
+
+// Singleton instance
+let workspaceStoreInstance: WorkspaceStore | null = null;
+
+export function getWorkspaceStore(): WorkspaceStore {
+  if (!workspaceStoreInstance) {
+    workspaceStoreInstance = createWorkspaceStore(
+      serverConfig.WORKSPACE_STORE.DRIVER
+    );
+  }
+  return workspaceStoreInstance;
+}
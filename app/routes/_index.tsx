@@ -3,19 +3,39 @@ import { json } from "@remix-run/node";
 import { useLoaderData, useNavigate, useSearchParams } from "@remix-run/react";
 import { useState, useEffect } from "react";
 import { JobService } from "~/lib/jobService.remix";
-import { Job } from "~/types/job";
+import { Job, type JobResources } from "~/types/job";
 import { JobListItem } from "~/components/JobListItem";
-import { ConfigurationPanel } from "~/components/ConfigurationPanel";
+import {
+  ConfigurationPanel,
+  KNOWN_ENVIRONMENTS,
+} from "~/components/ConfigurationPanel";
 import { AuthWrapper } from "~/components/AuthWrapper";
-import { extractCredentialsFromCookie } from "~/lib/server/auth";
+import {
+  extractCredentialsFromCookie,
+  getEffectiveUsername,
+} from "~/lib/server/auth";
+import {
+  getIdentities,
+  getJobOwnerFilter,
+  getWorkspaceRole,
+} from "~/lib/server/authorization";
+import { getWorkspaceStore } from "~/lib/server/workspaceStore";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { getJobResourceLimits } from "~/lib/server/jobResources";
+import { redactJob } from "~/lib/server/redaction";
 import { ConfigService, DEFAULT_TEMPLATE } from "~/lib/configService";
 import { RecentDataService } from "~/lib/recentDataService";
 import { AuthService } from "~/lib/authService";
 import type { GitHubRepository } from "~/lib/githubAPIService";
 import { TaskEditor } from "~/components/TaskEditor";
 import { RepositoryBranchSelector } from "~/components/RepositoryBranchSelector";
+import { JobResourcesPicker } from "~/components/JobResourcesPicker";
 import { IssueEnhancer } from "~/lib/issueEnhancer";
 import { WelcomeModal } from "~/components/WelcomeModal";
+import { WorkspaceSwitcher } from "~/components/WorkspaceSwitcher";
+import { WorkspaceModal } from "~/components/WorkspaceModal";
+import { isRoleAtLeast } from "~/types/workspace";
+import { secretReference } from "~/types/secret";
 import {
   getFromLocalStorage,
   setToLocalStorage,
@@ -33,26 +53,52 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Get the authenticated user
   const cookieHeader = request.headers.get("Cookie");
   const credentials = extractCredentialsFromCookie(cookieHeader);
-  const username = credentials?.hfUserInfo?.username;
+  const username = getEffectiveUsername(credentials);
+  const workspaces = getWorkspaceStore().listWorkspaces(
+    getIdentities(credentials)
+  );
+
+  // Show all jobs of the selected workspace, if the user is a member, or
+  // else only the user's own personal jobs
+  const requestedWorkspaceId = new URL(request.url).searchParams.get(
+    "workspace"
+  );
+  const workspaceId =
+    requestedWorkspaceId && getWorkspaceRole(credentials, requestedWorkspaceId)
+      ? requestedWorkspaceId
+      : null;
+
+  // What the create-job form offers
+  const jobLimits = getJobResourceLimits();
 
-  // Only show jobs from the authenticated user
   try {
-    const result = await JobService.getAllJobs({ author: username });
-    const jobs = result.jobs;
+    const result = await JobService.getAllJobs(
+      workspaceId
+        ? { workspaceId }
+        : { ownedBy: getJobOwnerFilter(credentials), workspaceId: null }
+    );
+    const jobs = getJobQueue().withQueuePositions(result.jobs).map(redactJob);
     console.log(
       `Loaded ${jobs.length} jobs for user ${username || "anonymous"}`
     );
-    return json({ jobs, username });
+    return json({ jobs, username, workspaces, workspaceId, jobLimits });
   } catch (error) {
     console.error("Error loading jobs:", error);
-    return json({ jobs: [], username: null });
+    return json({
+      jobs: [],
+      username: null,
+      workspaces,
+      workspaceId,
+      jobLimits,
+    });
   }
 };
 
 export default function Index() {
-  const { jobs, username } = useLoaderData<typeof loader>();
+  const { jobs, username, workspaces, workspaceId, jobLimits } =
+    useLoaderData<typeof loader>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [taskInput, setTaskInput] = useState("");
   const [showRepoDropdown, setShowRepoDropdown] = useState(false);
@@ -68,6 +114,23 @@ export default function Index() {
   const [templateText, setTemplateText] = useState("");
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
+  const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
+  const [jobResources, setJobResources] = useState<JobResources>({});
+
+  const workspaceRole =
+    workspaces.find((workspace) => workspace.id === workspaceId)?.role ?? null;
+  // Viewers can follow a workspace's jobs but not start any
+  const canRunJobs = !workspaceRole || isRoleAtLeast(workspaceRole, "member");
+
+  const handleWorkspaceSelect = (id: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (id) {
+      params.set("workspace", id);
+    } else {
+      params.delete("workspace");
+    }
+    setSearchParams(params);
+  };
 
   // Initialize data from localStorage on client-side
   useEffect(() => {
@@ -152,22 +215,27 @@ export default function Index() {
     }
   }, [templateText]);
 
-  // Check if required secrets are configured for current Docker image
+  // Check if required secrets are configured in the profile the job would
+  // run with
   const checkRequiredSecrets = async () => {
     try {
-      const dockerConfig = await ConfigService.getDockerConfig();
+      const { selected } = await ConfigService.listProfiles(
+        workspaceId ?? undefined,
+        selectedRepo
+      );
+      if (!selected) {
+        return { missing: [], image: "unknown" };
+      }
 
       // Define required secrets for specific images
       const requiredSecrets: Record<string, string[]> = {
         "drbh/codex-universal-explore:8": ["OPENAI_API_KEY"],
       };
 
-      const required = requiredSecrets[dockerConfig.image] || [];
-      const missing = required.filter(
-        (secret) => !dockerConfig.secrets[secret]
-      );
+      const required = requiredSecrets[selected.image] || [];
+      const missing = required.filter((secret) => !selected.secrets[secret]);
 
-      return { missing, image: dockerConfig.image };
+      return { missing, image: selected.image };
     } catch (error) {
       console.error("Failed to check required secrets:", error);
       return { missing: [], image: "unknown" };
@@ -179,41 +247,64 @@ export default function Index() {
 
     fetch("/api/auth/dev-env")
       .then((res) => res.json())
-      .then((data) => {
+      .then(async (data) => {
         const { openaiKey, huggingfaceToken } = data;
         if (!openaiKey && !huggingfaceToken) return;
 
-        ConfigService.getDockerConfig().then((dockerConfig) => {
-          const newSecrets = { ...dockerConfig.secrets };
-
-          if (openaiKey) {
-            console.log("🔧 Pre‐populating OpenAI API key");
-            newSecrets.OPENAI_API_KEY = openaiKey;
-          }
-          if (huggingfaceToken) {
-            console.log("🔧 Pre‐populating HuggingFace token");
-            newSecrets.HUGGINGFACE_TOKEN = huggingfaceToken;
-          }
-
-          // Only update if there’s something new
-          const changed =
-            (openaiKey && dockerConfig.secrets.OPENAI_API_KEY !== openaiKey) ||
-            (huggingfaceToken &&
-              dockerConfig.secrets.HUGGINGFACE_TOKEN !== huggingfaceToken);
-
-          if (changed) {
-            // also update the LLM_MODEL environment variable to be "o3-mini"
-            ConfigService.updateDockerConfig({
-              ...dockerConfig,
-              environment: {
-                ...dockerConfig.environment,
-                LLM_MODEL: "o3-mini",
-              },
-              secrets: newSecrets,
-            });
-            console.log("Docker config updated with dev secrets.");
-          }
-        });
+        // The dev secrets go into the personal vault, and the personal
+        // default profile refers to them
+        const { profiles } = await ConfigService.listProfiles();
+        const profile = profiles.find((p) => p.isDefault);
+        const newSecrets = { ...profile?.secrets };
+
+        if (openaiKey) {
+          console.log("🔧 Pre‐populating OpenAI API key");
+          await ConfigService.saveSecret({
+            name: "OPENAI_API_KEY",
+            value: openaiKey,
+          });
+          newSecrets.OPENAI_API_KEY = secretReference("OPENAI_API_KEY");
+        }
+        if (huggingfaceToken) {
+          console.log("🔧 Pre‐populating HuggingFace token");
+          await ConfigService.saveSecret({
+            name: "HUGGINGFACE_TOKEN",
+            value: huggingfaceToken,
+          });
+          newSecrets.HUGGINGFACE_TOKEN = secretReference("HUGGINGFACE_TOKEN");
+        }
+
+        const changed =
+          !profile ||
+          Object.entries(newSecrets).some(
+            ([key, value]) => profile.secrets[key] !== value
+          );
+
+        if (changed) {
+          // also update the LLM_MODEL environment variable to be "o3-mini"
+          const input = {
+            name: profile?.name ?? "Default",
+            image: profile?.image ?? KNOWN_ENVIRONMENTS[0].image,
+            environment: {
+              ...profile?.environment,
+              LLM_MODEL: "o3-mini",
+            },
+            secrets: newSecrets,
+            resources: profile?.resources ?? {},
+            setup: profile?.setup ?? [],
+            verify: profile?.verify ?? [],
+            failOnVerify: profile?.failOnVerify ?? false,
+            network: profile?.network ?? { mode: "open", allowedHosts: [] },
+            hardening: profile?.hardening ?? "permissive",
+            secretDelivery: profile?.secretDelivery ?? "env",
+            repositories: profile?.repositories ?? [],
+            isDefault: true,
+          };
+          await (profile
+            ? ConfigService.updateProfile(profile.id, input)
+            : ConfigService.createProfile(input));
+          console.log("Default profile updated with dev secrets.");
+        }
       })
       .catch(() => {
         console.log("No dev‐env variables found.");
@@ -252,10 +343,26 @@ export default function Index() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(jobData),
+        body: JSON.stringify({
+          ...jobData,
+          workspaceId: workspaceId ?? undefined,
+          resources: jobResources,
+        }),
       });
       if (!response.ok) {
-        throw new Error("Failed to create job");
+        // Invalid input, or an invalid .hugex.yml in the repository
+        const { error } = await response.json().catch(() => ({}));
+        const details: { field: string; message: string }[] =
+          error?.details || [];
+        alert(
+          [
+            error?.message || "Failed to create job. Please try again.",
+            ...(details.length > 1
+              ? details.map((detail) => `- ${detail.message}`)
+              : []),
+          ].join("\n")
+        );
+        return;
       }
       const newJob = await response.json();
       console.log("New job created:", newJob);
@@ -292,6 +399,11 @@ export default function Index() {
   const { completed, running, pending, failed } = getJobCounts();
 
   const handleCodePress = async () => {
+    if (!canRunJobs) {
+      alert("Viewers can't start jobs in this workspace");
+      return;
+    }
+
     if (!taskInput.trim()) {
       alert("Please enter a task description");
       return;
@@ -363,6 +475,10 @@ export default function Index() {
             : `https://github.com/${selectedRepo}`,
           branch: selectedBranch,
         },
+        // Open issues get a "Closes #N" link on the pull request
+        referencedIssues: enhancedJob.referencedIssues
+          .filter((issue) => issue.state === "open")
+          .map((issue) => issue.number),
       });
     } catch (error) {
       setIsEnhancing(false);
@@ -537,24 +653,31 @@ export default function Index() {
 
                   {/* Footer with dropdowns and buttons */}
                   <div className="flex items-center justify-between rounded-lg bg-white px-4 pb-3 dark:bg-gray-800">
-                    <RepositoryBranchSelector
-                      selectedRepo={selectedRepo}
-                      selectedBranch={selectedBranch}
-                      showRepoDropdown={showRepoDropdown}
-                      showBranchDropdown={showBranchDropdown}
-                      recentBranches={recentBranches}
-                      branchSearchInput={branchSearchInput}
-                      onRepoDropdownToggle={() =>
-                        setShowRepoDropdown(!showRepoDropdown)
-                      }
-                      onBranchDropdownToggle={() =>
-                        setShowBranchDropdown(!showBranchDropdown)
-                      }
-                      onRepoSelect={handleRepoSelect}
-                      onBranchSelect={handleBranchSelect}
-                      onBranchSearchChange={setBranchSearchInput}
-                      onClose={handleCloseDropdowns}
-                    />
+                    <div className="flex items-center gap-3">
+                      <RepositoryBranchSelector
+                        selectedRepo={selectedRepo}
+                        selectedBranch={selectedBranch}
+                        showRepoDropdown={showRepoDropdown}
+                        showBranchDropdown={showBranchDropdown}
+                        recentBranches={recentBranches}
+                        branchSearchInput={branchSearchInput}
+                        onRepoDropdownToggle={() =>
+                          setShowRepoDropdown(!showRepoDropdown)
+                        }
+                        onBranchDropdownToggle={() =>
+                          setShowBranchDropdown(!showBranchDropdown)
+                        }
+                        onRepoSelect={handleRepoSelect}
+                        onBranchSelect={handleBranchSelect}
+                        onBranchSearchChange={setBranchSearchInput}
+                        onClose={handleCloseDropdowns}
+                      />
+                      <JobResourcesPicker
+                        resources={jobResources}
+                        limits={jobLimits}
+                        onChange={setJobResources}
+                      />
+                    </div>
 
                     <div className="flex items-center gap-3">
                       <button
@@ -569,7 +692,8 @@ export default function Index() {
                           !taskInput.trim() ||
                           !selectedRepo.trim() ||
                           !selectedBranch.trim() ||
-                          isEnhancing
+                          isEnhancing ||
+                          !canRunJobs
                         }
                         className="flex items-center gap-2 rounded-md bg-gray-800 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-900 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-gray-600 dark:hover:bg-gray-700"
                       >
@@ -583,12 +707,20 @@ export default function Index() {
                 </div>
 
                 {/* Status Tabs */}
-                <div className="flex gap-8 text-sm">
+                <div className="flex items-center justify-between gap-8 text-sm">
                   <div className="flex items-center gap-2">
                     <span className="font-medium text-gray-900 dark:text-gray-100">
                       Tasks ({jobs.length})
                     </span>
                   </div>
+                  {username && (
+                    <WorkspaceSwitcher
+                      workspaces={workspaces}
+                      selectedWorkspaceId={workspaceId}
+                      onSelect={handleWorkspaceSelect}
+                      onManage={() => setShowWorkspaceModal(true)}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -640,6 +772,10 @@ export default function Index() {
               {/* Configuration Panel */}
               <div className="rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
                 <ConfigurationPanel
+                  workspaceId={workspaceId ?? undefined}
+                  readOnly={
+                    !!workspaceRole && !isRoleAtLeast(workspaceRole, "admin")
+                  }
                   onConfigChange={() => {
                     console.log("Configuration updated");
                     // Refresh template text when config changes
@@ -661,6 +797,14 @@ export default function Index() {
           <div className="fixed inset-0 z-0" onClick={handleCloseDropdowns} />
         )}
 
+        {/* Workspace Modal */}
+        <WorkspaceModal
+          isOpen={showWorkspaceModal}
+          onClose={() => setShowWorkspaceModal(false)}
+          workspaceId={workspaceId}
+          onWorkspaceChange={handleWorkspaceSelect}
+        />
+
         {/* Welcome Modal */}
         <WelcomeModal
           isOpen={showWelcomeModal}
@@ -1,6 +1,7 @@
 import { LoaderFunction, redirect, json } from "@remix-run/node";
 import serverConfig from "~/lib/server/config";
 import { parseCookies } from "~/lib/server/auth";
+import { createSession } from "~/lib/server/session";
 
 interface HFUserInfo {
   username: string;
@@ -342,25 +343,11 @@ export const loader: LoaderFunction = async ({ request }) => {
       avatarUrl: userData.avatarUrl || "",
     };
 
-    // Create session cookie (similar to existing auth)
-    const expiresAt = new Date();
-    expiresAt.setTime(expiresAt.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    const cookieData = {
-      hasOpenAI: false,
-      hasHuggingFace: true,
-      expiresAt: expiresAt.toISOString(),
-      hfUserInfo: btoa(JSON.stringify(userInfo)),
-      isOAuth2: true, // Flag to indicate OAuth2 session
-      // Store the access token (encrypted)
-      enc: btoa(
-        JSON.stringify({
-          hf: accessToken,
-        })
-      ),
-    };
-
-    const cookieValue = btoa(JSON.stringify(cookieData));
+    // Start a server-side session, the cookie only holds its signed id
+    const { cookie } = createSession(request, {
+      huggingfaceToken: accessToken,
+      hfUserInfo: userInfo,
+    });
 
     // Create HTML response for popup with auth cookie
     const htmlResponse = `
@@ -416,23 +403,7 @@ export const loader: LoaderFunction = async ({ request }) => {
       `oauth_return_to=; ${clearCookieOptions}`
     );
 
-    // Set auth cookie with proper settings for popup/iframe scenarios
-    const isSecure = request.url.startsWith("https");
-    const cookieOptions = [
-      `${serverConfig.COOKIE_NAME}=${cookieValue}`,
-      "Max-Age=" + 7 * 24 * 60 * 60, // 7 days
-      "Path=/",
-      // isSecure ? "SameSite=None" : "SameSite=Lax", // None for HTTPS (required for iframes), Lax for HTTP
-      "SameSite=None",
-      "HttpOnly=false", // Allow client-side access for existing code
-      "Secure",
-    ];
-
-    if (isSecure) {
-      cookieOptions.push("Secure");
-    }
-
-    response.headers.append("Set-Cookie", cookieOptions.join("; "));
+    response.headers.append("Set-Cookie", cookie);
 
     return response;
   } catch (error) {
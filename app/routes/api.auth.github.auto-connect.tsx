@@ -1,7 +1,6 @@
 import { ActionFunction, json } from "@remix-run/node";
 import { getGitHubDevToken } from "~/lib/server/config";
-import serverConfig from "~/lib/server/config";
-import { parseCookies } from "~/lib/server/auth";
+import { updateSessionCredentials } from "~/lib/server/session";
 
 export const action: ActionFunction = async ({ request }) => {
   if (request.method !== "POST") {
@@ -69,33 +68,6 @@ export const action: ActionFunction = async ({ request }) => {
       }
     }
 
-    // Get existing session cookie
-    const cookieHeader = request.headers.get("Cookie");
-    const cookies = parseCookies(cookieHeader || "");
-
-    let existingCookieData: any = {};
-    const existingAuthCookie = cookies[serverConfig.COOKIE_NAME];
-
-    if (existingAuthCookie) {
-      try {
-        existingCookieData = JSON.parse(atob(existingAuthCookie));
-      } catch (error) {
-        console.warn("Could not parse existing auth cookie:", error);
-      }
-    }
-
-    // Merge existing credentials with GitHub token
-    let mergedCredentials: any = {};
-    if (existingCookieData.enc) {
-      try {
-        mergedCredentials = JSON.parse(atob(existingCookieData.enc));
-      } catch (error) {
-        console.warn("Could not parse existing credentials:", error);
-      }
-    }
-
-    mergedCredentials.gh = githubToken;
-
     // Create GitHub user info
     const githubUserInfo = {
       username: userData.login,
@@ -104,23 +76,11 @@ export const action: ActionFunction = async ({ request }) => {
       avatar_url: userData.avatar_url,
     };
 
-    // Update session cookie
-    const expiresAt = new Date();
-    expiresAt.setTime(expiresAt.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    const cookieData = {
-      hasOpenAI: existingCookieData.hasOpenAI || false,
-      hasHuggingFace: existingCookieData.hasHuggingFace || false,
-      hasGitHub: true,
-      expiresAt: existingCookieData.expiresAt || expiresAt.toISOString(),
-      hfUserInfo: existingCookieData.hfUserInfo,
-      githubUserInfo: btoa(JSON.stringify(githubUserInfo)),
-      isOAuth2: existingCookieData.isOAuth2,
-      isGitHubEnvVar: true, // Flag to indicate env var source
-      enc: btoa(JSON.stringify(mergedCredentials)),
-    };
-
-    const cookieValue = btoa(JSON.stringify(cookieData));
+    // Add the GitHub token to the user's existing session
+    const { cookie } = updateSessionCredentials(request, {
+      githubToken,
+      githubUserInfo,
+    });
 
     return json(
       {
@@ -130,7 +90,7 @@ export const action: ActionFunction = async ({ request }) => {
       },
       {
         headers: {
-          "Set-Cookie": `${serverConfig.COOKIE_NAME}=${cookieValue}; Max-Age=${7 * 24 * 60 * 60}; Path=/; HttpOnly=false; SameSite=Lax`,
+          "Set-Cookie": cookie,
         },
       }
     );
@@ -1,6 +1,7 @@
 import { LoaderFunction, redirect } from "@remix-run/node";
 import serverConfig from "~/lib/server/config";
 import { parseCookies } from "~/lib/server/auth";
+import { updateSessionCredentials } from "~/lib/server/session";
 
 interface GitHubUserInfo {
   username: string;
@@ -130,82 +131,15 @@ export const loader: LoaderFunction = async ({ request }) => {
       avatar_url: userData.avatar_url,
     };
 
-    // 🔧 FIX: Read existing auth cookie and merge with GitHub data
-    let existingCookieData: any = {};
-    const existingAuthCookie =
-      cookies[serverConfig.COOKIE_NAME] ||
-      cookies[encodeURIComponent(serverConfig.COOKIE_NAME)];
-
-    if (existingAuthCookie) {
-      try {
-        // Handle both encoded and non-encoded cookie values
-        let cookieValue = existingAuthCookie;
-        try {
-          // Try decoding first in case it's URL encoded
-          cookieValue = decodeURIComponent(existingAuthCookie);
-        } catch (decodeError) {
-          // If decoding fails, use original value
-          cookieValue = existingAuthCookie;
-        }
-
-        // Decode existing cookie to preserve HuggingFace session
-        existingCookieData = JSON.parse(atob(cookieValue));
-        console.log("📋 Existing auth cookie found, merging with GitHub data");
-        console.log("🔍 Existing cookie data:", {
-          hasHuggingFace: existingCookieData.hasHuggingFace,
-          hasOpenAI: existingCookieData.hasOpenAI,
-          hasHfUserInfo: !!existingCookieData.hfUserInfo,
-        });
-      } catch (error) {
-        console.warn("⚠️ Could not parse existing auth cookie:", error);
-        console.warn("⚠️ Cookie value length:", existingAuthCookie?.length);
-      }
-    } else {
-      console.warn(
-        "⚠️ No existing auth cookie found - user may not be logged in to HuggingFace"
-      );
-    }
-
-    // Merge existing credentials with new GitHub token
-    let mergedCredentials: any = {};
-    if (existingCookieData.enc) {
-      try {
-        mergedCredentials = JSON.parse(atob(existingCookieData.enc));
-      } catch (error) {
-        console.warn("⚠️ Could not parse existing credentials:", error);
-      }
-    }
-
-    // Add GitHub token to existing credentials
-    mergedCredentials.gh = accessToken;
-
-    // Create merged session cookie data
-    const expiresAt = new Date();
-    expiresAt.setTime(expiresAt.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    const cookieData = {
-      // Preserve existing HuggingFace data
-      hasOpenAI: existingCookieData.hasOpenAI || false,
-      hasHuggingFace: existingCookieData.hasHuggingFace || false,
-      hasGitHub: true, // Add GitHub authentication flag
-      expiresAt: existingCookieData.expiresAt || expiresAt.toISOString(),
-      hfUserInfo: existingCookieData.hfUserInfo, // Preserve HF user info
-      githubUserInfo: btoa(JSON.stringify(githubUserInfo)), // Add GitHub user info
-      isOAuth2: existingCookieData.isOAuth2, // Preserve OAuth2 flag if it exists
-      isGitHubOAuth2: true, // Flag to indicate GitHub OAuth2 session
-      // Store merged credentials (HF + GitHub tokens)
-      enc: btoa(JSON.stringify(mergedCredentials)),
-    };
-
-    const cookieValue = btoa(JSON.stringify(cookieData));
+    // Add the GitHub token to the user's existing (Hugging Face) session
+    const { session, cookie } = updateSessionCredentials(request, {
+      githubToken: accessToken,
+      githubUserInfo,
+    });
 
-    console.log("✅ GitHub OAuth successful - Final cookie data:", {
-      hasHuggingFace: cookieData.hasHuggingFace,
-      hasGitHub: cookieData.hasGitHub,
-      hasOpenAI: cookieData.hasOpenAI,
-      hasHfUserInfo: !!cookieData.hfUserInfo,
-      hasGithubUserInfo: !!cookieData.githubUserInfo,
-      credentialsKeys: Object.keys(mergedCredentials),
+    console.log("✅ GitHub OAuth successful - session updated:", {
+      hasHuggingFace: !!session.credentials.huggingfaceToken,
+      hasGitHub: !!session.credentials.githubToken,
     });
 
     // Create HTML response for popup
@@ -257,22 +191,7 @@ export const loader: LoaderFunction = async ({ request }) => {
       `github_oauth_return_to=; ${clearCookieOptions}`
     );
 
-    // Set auth cookie with proper settings for popup scenarios
-    const isSecure = request.url.startsWith("https");
-    const cookieOptions = [
-      `${serverConfig.COOKIE_NAME}=${cookieValue}`,
-      "Max-Age=" + 7 * 24 * 60 * 60, // 7 days
-      "Path=/",
-      "SameSite=None",
-      "HttpOnly=false", // Allow client-side access for existing code
-      "Secure",
-    ];
-
-    if (isSecure) {
-      cookieOptions.push("Secure");
-    }
-
-    response.headers.append("Set-Cookie", cookieOptions.join("; "));
+    response.headers.append("Set-Cookie", cookie);
 
     return response;
   } catch (error) {
@@ -1,6 +1,5 @@
 import { ActionFunction, json } from "@remix-run/node";
-import { parseCookies } from "~/lib/server/auth";
-import serverConfig from "~/lib/server/config";
+import { updateSessionCredentials } from "~/lib/server/session";
 
 export const action: ActionFunction = async ({ request }) => {
   if (request.method !== "POST") {
@@ -50,33 +49,6 @@ export const action: ActionFunction = async ({ request }) => {
       }
     }
 
-    // Get existing session cookie
-    const cookieHeader = request.headers.get("Cookie");
-    const cookies = parseCookies(cookieHeader || "");
-
-    let existingCookieData: any = {};
-    const existingAuthCookie = cookies[serverConfig.COOKIE_NAME];
-
-    if (existingAuthCookie) {
-      try {
-        existingCookieData = JSON.parse(atob(existingAuthCookie));
-      } catch (error) {
-        console.warn("Could not parse existing auth cookie:", error);
-      }
-    }
-
-    // Merge existing credentials with GitHub PAT
-    let mergedCredentials: any = {};
-    if (existingCookieData.enc) {
-      try {
-        mergedCredentials = JSON.parse(atob(existingCookieData.enc));
-      } catch (error) {
-        console.warn("Could not parse existing credentials:", error);
-      }
-    }
-
-    mergedCredentials.gh = token;
-
     // Create GitHub user info
     const githubUserInfo = {
       username: userData.login,
@@ -85,29 +57,17 @@ export const action: ActionFunction = async ({ request }) => {
       avatar_url: userData.avatar_url,
     };
 
-    // Update session cookie
-    const expiresAt = new Date();
-    expiresAt.setTime(expiresAt.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    const cookieData = {
-      hasOpenAI: existingCookieData.hasOpenAI || false,
-      hasHuggingFace: existingCookieData.hasHuggingFace || false,
-      hasGitHub: true,
-      expiresAt: existingCookieData.expiresAt || expiresAt.toISOString(),
-      hfUserInfo: existingCookieData.hfUserInfo,
-      githubUserInfo: btoa(JSON.stringify(githubUserInfo)),
-      isOAuth2: existingCookieData.isOAuth2,
-      isGitHubPAT: true, // Flag to indicate PAT-based authentication
-      enc: btoa(JSON.stringify(mergedCredentials)),
-    };
-
-    const cookieValue = btoa(JSON.stringify(cookieData));
+    // Add the GitHub token to the user's existing session
+    const { cookie } = updateSessionCredentials(request, {
+      githubToken: token,
+      githubUserInfo,
+    });
 
     return json(
       { success: true, user: githubUserInfo },
       {
         headers: {
-          "Set-Cookie": `${serverConfig.COOKIE_NAME}=${cookieValue}; Max-Age=${7 * 24 * 60 * 60}; Path=/; HttpOnly=false; SameSite=Lax`,
+          "Set-Cookie": cookie,
         },
       }
     );
@@ -1,10 +1,19 @@
 import { ActionFunction, json } from "@remix-run/node";
-import serverConfig from "~/lib/server/config";
 import {
   extractCredentialsFromCookie,
   hasValidCredentials,
   hasGitHubCredentials,
 } from "~/lib/server/auth";
+import {
+  createSession,
+  destroySession,
+  destroyUserSessions,
+  getSession,
+  linkSessionAccounts,
+  rotateSessionIfDue,
+  unlinkSessionAccounts,
+} from "~/lib/server/session";
+import { getSessionStore } from "~/lib/server/sessionStore";
 
 export interface ApiCredentials {
   openaiApiKey: string;
@@ -19,15 +28,19 @@ export interface HFUserInfo {
 }
 
 export interface AuthRequest {
-  action: "authenticate" | "logout" | "verify";
+  action:
+    | "authenticate"
+    | "logout"
+    | "logout-everywhere"
+    | "link-accounts"
+    | "unlink-accounts"
+    | "verify";
   credentials?: {
     openaiApiKey?: string;
     huggingfaceToken?: string;
   };
 }
 
-const COOKIE_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
-
 export const action: ActionFunction = async ({ request }) => {
   const body: AuthRequest = await request.json();
 
@@ -35,7 +48,13 @@ export const action: ActionFunction = async ({ request }) => {
     case "authenticate":
       return await handleAuthenticate(body.credentials, request);
     case "logout":
-      return handleLogout();
+      return handleLogout(request);
+    case "logout-everywhere":
+      return handleLogoutEverywhere(request);
+    case "link-accounts":
+      return handleLinkAccounts(request);
+    case "unlink-accounts":
+      return handleUnlinkAccounts(request);
     case "verify":
       return await handleVerify(request);
     default:
@@ -63,79 +82,15 @@ async function handleAuthenticate(
       return json({ error: "Invalid API credentials" }, { status: 401 });
     }
 
-    // Create cookie data
-    const expiresAt = new Date();
-    expiresAt.setTime(expiresAt.getTime() + COOKIE_MAX_AGE * 1000);
-
-    const cookieData = {
-      hasOpenAI: false, // OpenAI is now handled as a regular secret, not in auth
-      hasHuggingFace: true,
-      expiresAt: expiresAt.toISOString(),
-      hfUserInfo: testResult.hfUserInfo
-        ? btoa(JSON.stringify(testResult.hfUserInfo))
-        : null,
-      // Store encrypted HuggingFace token only
-      enc: btoa(
-        JSON.stringify({
-          hf: credentials.huggingfaceToken || "",
-        })
-      ),
-    };
-
-    // Create cookie value
-    const cookieValue = btoa(JSON.stringify(cookieData));
+    // Start a server-side session, the cookie only holds its signed id
+    const { session, cookie } = createSession(request, {
+      huggingfaceToken: credentials.huggingfaceToken,
+      hfUserInfo: testResult.hfUserInfo,
+    });
+    const expiresAt = session.expiresAt;
 
-    // Set cookie with proper headers
     const headers = new Headers();
-
-    // Determine if we should use Secure flag
-    const url = new URL(request.url);
-    const isSecure = url.protocol === "https:";
-
-    // const cookieOptions = [
-    //   `${config.COOKIE_NAME}=${cookieValue}`,
-    //   `Max-Age=${COOKIE_MAX_AGE}`,
-    //   "Path=/",
-    //   // "SameSite=None",
-    //   // "HttpOnly=false", // Need to access from client-side
-    // ];
-    // // const cookieOptions = [
-    // //   `${config.COOKIE_NAME}=${cookieValue}`,
-    // //   `Max-Age=${COOKIE_MAX_AGE}`,
-    // //   "Path=/",
-    // //   "SameSite=Lax",
-    // //   "HttpOnly=false", // Need to access from client-side
-    // // ];
-
-    // if (isSecure) {
-    //   cookieOptions.push("Secure");
-    // }
-
-    const cookieOptions = [
-      `${serverConfig.COOKIE_NAME}=${cookieValue}`,
-      `Max-Age=${COOKIE_MAX_AGE}`,
-      "Path=/",
-      // "SameSite=Lax", // Lax is more compatible than None
-      "SameSite=None", // Lax is more compatible than None
-      // Don't set HttpOnly to allow client-side access
-      "Secure", // Only set Secure in HTTPS environments
-      "HttpOnly=true", // Allow client-side access
-    ];
-
-    // Only add Secure in production HTTPS environments
-    if (isSecure) {
-      cookieOptions.push("Secure");
-    }
-
-    // // For HTTPS environments
-    // if (isSecure) {
-    //   cookieOptions.push("Secure");
-    //   cookieOptions.push("SameSite=None"); // When Secure is used, SameSite=None allows cross-origin requests
-    // } else {
-    //   cookieOptions.push("SameSite=Lax"); // For non-HTTPS environments
-    // }
-
-    headers.set("Set-Cookie", cookieOptions.join("; "));
+    headers.set("Set-Cookie", cookie);
 
     return json(
       {
@@ -156,27 +111,60 @@ async function handleAuthenticate(
   }
 }
 
-function handleLogout() {
+function handleLogout(request: Request) {
   const headers = new Headers();
+  headers.set("Set-Cookie", destroySession(request));
 
-  // Clear cookie by setting it to expire
-  const cookieOptions = [
-    `${serverConfig.COOKIE_NAME}=`,
-    "expires=Thu, 01 Jan 1970 00:00:00 UTC",
-    "Path=/",
-    "SameSite=None", // Allow cross-origin requests
-    "Secure", // Only set Secure in HTTPS environments
-    "HttpOnly=true", // Allow client-side access
-  ];
+  return json(
+    { success: true, message: "Logged out successfully" },
+    { headers }
+  );
+}
 
-  headers.set("Set-Cookie", cookieOptions.join("; "));
+// End every session of the signed-in user, on all browsers and devices
+function handleLogoutEverywhere(request: Request) {
+  const { count, cookie } = destroyUserSessions(request);
+  console.log(`🚪 Signed out of ${count} session(s) everywhere`);
+
+  const headers = new Headers();
+  headers.set("Set-Cookie", cookie);
 
   return json(
-    { success: true, message: "Logged out successfully" },
+    {
+      success: true,
+      message: `Signed out of ${count} session${count === 1 ? "" : "s"}`,
+    },
     { headers }
   );
 }
 
+// Link the session's Hugging Face and GitHub accounts, so either of them
+// reaches the other's jobs
+function handleLinkAccounts(request: Request) {
+  if (!linkSessionAccounts(request)) {
+    return json(
+      {
+        error: {
+          code: "ACCOUNTS_NOT_CONNECTED",
+          message:
+            "Sign in with Hugging Face and connect GitHub to link the accounts",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  return json({ success: true, message: "Accounts linked" });
+}
+
+function handleUnlinkAccounts(request: Request) {
+  const count = unlinkSessionAccounts(request);
+  return json({
+    success: true,
+    message: `Removed ${count} link${count === 1 ? "" : "s"}`,
+  });
+}
+
 async function handleVerify(request: Request) {
   const cookieHeader = request.headers.get("Cookie");
   if (!cookieHeader) {
@@ -190,6 +178,7 @@ async function handleVerify(request: Request) {
 
   // Use the improved credential extraction logic
   const credentials = extractCredentialsFromCookie(cookieHeader);
+  const session = getSession(cookieHeader);
 
   // Check if the user has valid credentials (HF or GitHub in Docker mode)
   const isAuthenticated = hasValidCredentials(credentials);
@@ -205,14 +194,26 @@ async function handleVerify(request: Request) {
     });
   }
 
-  return json({
-    isAuthenticated: true,
-    hasOpenAI: false, // OpenAI is handled as a regular secret now
-    hasHuggingFace,
-    hasGitHub,
-    hfUserInfo: credentials.hfUserInfo,
-    githubUserInfo: credentials.githubUserInfo,
-  });
+  // Clients verify on every page load, a good moment to rotate the id
+  const rotated = rotateSessionIfDue(request);
+
+  return json(
+    {
+      isAuthenticated: true,
+      hasOpenAI: false, // OpenAI is handled as a regular secret now
+      hasHuggingFace,
+      hasGitHub,
+      expiresAt: session?.expiresAt,
+      hfUserInfo: credentials.hfUserInfo,
+      githubUserInfo: credentials.githubUserInfo,
+      linkedGithubAccounts: credentials.hfUserInfo?.username
+        ? getSessionStore().getLinkedAccounts({
+            huggingface: credentials.hfUserInfo.username,
+          }).github
+        : [],
+    },
+    rotated ? { headers: { "Set-Cookie": rotated.cookie } } : undefined
+  );
 }
 
 function validateCredentials(credentials: any): boolean {
@@ -0,0 +1,103 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { getJobStore } from "~/lib/server/jobStore";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
+
+// POST /api/jobs/:jobId/cancel - Cancel a pending, queued or running job
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { jobId } = params;
+
+  if (!jobId) {
+    return json(
+      {
+        error: {
+          code: "MISSING_JOB_ID",
+          message: "Job ID is required",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // Check authentication
+  const credentials = getRequestCredentials(request, "jobs:write");
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message:
+            "Authentication required - please provide API credentials through the UI",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const jobStore = getJobStore();
+    const job = await jobStore.getJob(jobId);
+
+    if (!job) {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Owners, admins and workspace admins may cancel a job
+    if (!canAccessJob(credentials, job, "manage")) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You don't have permission to cancel this job",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (
+      job.status !== "pending" &&
+      job.status !== "queued" &&
+      job.status !== "running"
+    ) {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_CANCELLABLE",
+            message: `Job is already ${job.status}`,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const cancelledJob = await getJobQueue().cancel(jobId, credentials);
+
+    return json(cancelledJob);
+  } catch (error) {
+    console.error(`Error cancelling job ${jobId}:`, error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to cancel job",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,8 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { getJobStore } from "~/lib/server/jobStore";
-import {
-  extractCredentialsFromCookie,
-  hasValidCredentials,
-} from "~/lib/server/auth";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
+import { redactDiff } from "~/lib/server/redaction";
 
 // GET /api/jobs/:jobId/diff - Get job diff
 export async function loader({ request, params }: LoaderFunctionArgs) {
@@ -14,8 +13,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // Check authentication
-  const cookieHeader = request.headers.get("Cookie");
-  const credentials = extractCredentialsFromCookie(cookieHeader);
+  const credentials = getRequestCredentials(request, "jobs:read");
 
   if (!hasValidCredentials(credentials)) {
     return json(
@@ -47,8 +45,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     }
 
     // Check if the job belongs to the authenticated user
-    const username = credentials?.hfUserInfo?.username;
-    if (job.author && job.author !== username) {
+    if (!canAccessJob(credentials, job)) {
       return json(
         {
           error: {
@@ -85,7 +82,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       );
     }
 
-    return json(diff);
+    return json(redactDiff(diff));
   } catch (error) {
     console.error("Error getting job diff:", error);
     return json(
@@ -0,0 +1,372 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { getJobStore } from "~/lib/server/jobStore";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob, getJobOwnership } from "~/lib/server/authorization";
+import { reusableEnvironment } from "~/lib/server/processors/JobExecutor";
+import { validateJobResources } from "~/lib/server/jobResources";
+import {
+  REPOSITORY_CONFIG_PATH,
+  loadRepositoryConfig,
+} from "~/lib/server/repositoryConfig";
+import serverConfig from "~/lib/server/config";
+import { v4 as uuidv4 } from "uuid";
+import type { Job } from "~/types/job";
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
+
+// POST /api/jobs/:jobId/duplicate - Create a new job from an existing one.
+// An empty body re-runs the job as-is; any of title, description, repository,
+// branch, image, environment, priority or resources override the copied
+// values.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { jobId } = params;
+
+  if (!jobId) {
+    return json(
+      {
+        error: {
+          code: "MISSING_JOB_ID",
+          message: "Job ID is required",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // Check authentication
+  const credentials = getRequestCredentials(request, "jobs:write");
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message:
+            "Authentication required - please provide API credentials through the UI",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const jobStore = getJobStore();
+    const parentJob = await jobStore.getJob(jobId);
+
+    if (!parentJob) {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only the author or members of the job's workspace may reuse a job,
+    // its environment is theirs
+    if (!canAccessJob(credentials, parentJob, "run")) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You don't have permission to duplicate this job",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const overrides = await request.json().catch(() => ({}));
+    if (
+      !overrides ||
+      typeof overrides !== "object" ||
+      Array.isArray(overrides)
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "The request body must be a JSON object",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const title = overrides.title ?? parentJob.title;
+    const description = overrides.description ?? parentJob.description;
+    // An explicit null clears the copied repository or image
+    const repository =
+      "repository" in overrides ? overrides.repository : parentJob.repository;
+    const image = "image" in overrides ? overrides.image : parentJob.image;
+    const priority = overrides.priority ?? parentJob.priority ?? 0;
+    // The parent's were checked when it was created, and the maxima are
+    // applied again when the job runs
+    const jobResources =
+      "resources" in overrides
+        ? validateJobResources(overrides.resources)
+        : { resources: parentJob.resources };
+
+    // Validation
+    if (typeof title !== "string" || title.length === 0 || title.length > 200) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Title is required and must be between 1-200 characters",
+            details: [
+              {
+                field: "title",
+                message:
+                  "Title is required and must be between 1-200 characters",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      description &&
+      (typeof description !== "string" || description.length > 1000)
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Description must be less than 1000 characters",
+            details: [
+              {
+                field: "description",
+                message: "Description must be less than 1000 characters",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (image !== null && image !== undefined && typeof image !== "string") {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Image must be a string",
+            details: [{ field: "image", message: "Image must be a string" }],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      overrides.branch !== null &&
+      overrides.branch !== undefined &&
+      typeof overrides.branch !== "string"
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Branch must be a string",
+            details: [{ field: "branch", message: "Branch must be a string" }],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      overrides.environment !== null &&
+      overrides.environment !== undefined &&
+      !isStringRecord(overrides.environment)
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Environment must be an object",
+            details: [
+              {
+                field: "environment",
+                message: "Environment must be an object of string values",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Number.isInteger(priority) ||
+      priority < 0 ||
+      priority > serverConfig.QUEUE.MAX_PRIORITY
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Priority must be an integer between 0-${serverConfig.QUEUE.MAX_PRIORITY}`,
+            details: [
+              {
+                field: "priority",
+                message: `Priority must be an integer between 0-${serverConfig.QUEUE.MAX_PRIORITY}`,
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if ("errors" in jobResources) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: jobResources.errors
+              .map((error) => error.message)
+              .join("; "),
+            details: jobResources.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (repository?.url) {
+      const githubUrlPattern =
+        /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+(?:\.git)?(?:\/)?$/;
+      if (!githubUrlPattern.test(repository.url)) {
+        return json(
+          {
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Repository URL must be a valid GitHub repository URL",
+              details: [
+                {
+                  field: "repository.url",
+                  message:
+                    "Repository URL must be a valid GitHub repository URL (e.g., https://github.com/username/repo)",
+                },
+              ],
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const jobQueue = getJobQueue();
+    if (jobQueue.isFull()) {
+      return json(
+        {
+          error: {
+            code: "QUEUE_FULL",
+            message: "Too many jobs are waiting - please try again later",
+          },
+        },
+        { status: 429 }
+      );
+    }
+
+    // Another repository has its own .hugex.yml, checked before the job is
+    // queued
+    const repositoryConfig =
+      "repository" in overrides
+        ? await loadRepositoryConfig(repository || undefined, credentials)
+        : { config: parentJob.repositoryConfig };
+    if (repositoryConfig.errors) {
+      return json(
+        {
+          error: {
+            code: "REPOSITORY_CONFIG_INVALID",
+            message: `${REPOSITORY_CONFIG_PATH} is invalid: ${repositoryConfig.errors
+              .map((error) => error.message)
+              .join("; ")}`,
+            details: repositoryConfig.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only the variables given for the job itself: those it ran with include
+    // profile and .hugex.yml values, and are redacted
+    const environment = reusableEnvironment(
+      overrides.environment ?? parentJob.environmentOverrides
+    );
+
+    const job: Job = {
+      id: uuidv4(),
+      title,
+      description: description || "",
+      status: "pending",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      branch: overrides.branch ?? parentJob.branch,
+      ...getJobOwnership(credentials),
+      workspaceId: parentJob.workspaceId,
+      profile: parentJob.profile,
+      repositoryConfig: repositoryConfig.config,
+      tags: parentJob.tags,
+      repository: repository || undefined,
+      environment,
+      environmentOverrides: environment,
+      image: image || undefined,
+      resources: jobResources.resources,
+      priority,
+      parentJobId: parentJob.id,
+      // A re-run of a follow-up starts from the same changes
+      baseJobId: parentJob.baseJobId,
+      // Issues referenced by the copied prompt
+      referencedIssues:
+        "description" in overrides ? undefined : parentJob.referencedIssues,
+    };
+
+    await jobStore.createJob(job);
+    console.log(`🔁 Job ${job.id} created from job ${parentJob.id}`);
+
+    // Queue the job, it starts once a concurrency slot is free
+    const queuePosition = await jobQueue.enqueue(
+      job,
+      credentials,
+      job.priority
+    );
+    const queuedJob = await jobStore.getJob(job.id);
+
+    return json(
+      { ...(queuedJob || job), queuePosition: queuePosition || undefined },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`Error duplicating job ${jobId}:`, error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to duplicate job",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
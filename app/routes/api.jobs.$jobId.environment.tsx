@@ -1,9 +1,8 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { getJobStore } from "~/lib/server/jobStore";
-import {
-  extractCredentialsFromCookie,
-  hasValidCredentials,
-} from "~/lib/server/auth";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
+import { maskSecrets, redactEnvironment } from "~/lib/server/redaction";
 
 // GET /api/jobs/:jobId/environment - Get job environment variables
 export async function loader({ request, params }: LoaderFunctionArgs) {
@@ -22,8 +21,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // Check authentication
-  const cookieHeader = request.headers.get("Cookie");
-  const credentials = extractCredentialsFromCookie(cookieHeader);
+  const credentials = getRequestCredentials(request, "jobs:read");
 
   if (!hasValidCredentials(credentials)) {
     return json(
@@ -55,8 +53,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     }
 
     // Check if the user has access to this job
-    const username = credentials.hfUserInfo?.username;
-    if (job.author && job.author !== username) {
+    if (!canAccessJob(credentials, job)) {
       return json(
         {
           error: {
@@ -73,8 +70,8 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       jobId: job.id,
       title: job.title,
       status: job.status,
-      environment: job.environment || {},
-      secrets: job.secrets || {}, // Already masked in jobProcessor
+      environment: redactEnvironment(job.environment),
+      secrets: maskSecrets(job.secrets),
       apiJobId: job.apiJobId,
       repository: job.repository,
       createdAt: job.createdAt,
@@ -0,0 +1,184 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { getJobStore } from "~/lib/server/jobStore";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob, getJobOwnership } from "~/lib/server/authorization";
+import { reusableEnvironment } from "~/lib/server/processors/JobExecutor";
+import { v4 as uuidv4 } from "uuid";
+import type { Job } from "~/types/job";
+
+// POST /api/jobs/:jobId/follow-up - Continue a completed job with a new
+// prompt. The new job starts from the same base branch with this job's diff
+// already applied, so its own diff covers both.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { jobId } = params;
+
+  if (!jobId) {
+    return json(
+      {
+        error: {
+          code: "MISSING_JOB_ID",
+          message: "Job ID is required",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // Check authentication
+  const credentials = getRequestCredentials(request, "jobs:write");
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message:
+            "Authentication required - please provide API credentials through the UI",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const jobStore = getJobStore();
+    const parentJob = await jobStore.getJob(jobId);
+
+    if (!parentJob) {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only the author or members of the job's workspace may reuse a job,
+    // its environment is theirs
+    if (!canAccessJob(credentials, parentJob, "run")) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You don't have permission to follow up on this job",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (parentJob.status !== "completed") {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_COMPLETED",
+            message: "Only completed jobs can be followed up",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const prompt = body?.prompt;
+
+    // Validation
+    if (
+      typeof prompt !== "string" ||
+      prompt.trim().length === 0 ||
+      prompt.length > 1000
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Prompt is required and must be between 1-1000 characters",
+            details: [
+              {
+                field: "prompt",
+                message:
+                  "Prompt is required and must be between 1-1000 characters",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const jobQueue = getJobQueue();
+    if (jobQueue.isFull()) {
+      return json(
+        {
+          error: {
+            code: "QUEUE_FULL",
+            message: "Too many jobs are waiting - please try again later",
+          },
+        },
+        { status: 429 }
+      );
+    }
+
+    // Only the variables given for the parent itself: those it ran with
+    // include profile and .hugex.yml values, and are redacted
+    const environment = reusableEnvironment(parentJob.environmentOverrides);
+
+    const job: Job = {
+      id: uuidv4(),
+      title: parentJob.title,
+      description: prompt.trim(),
+      status: "pending",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      branch: parentJob.branch,
+      ...getJobOwnership(credentials),
+      workspaceId: parentJob.workspaceId,
+      profile: parentJob.profile,
+      repositoryConfig: parentJob.repositoryConfig,
+      tags: parentJob.tags,
+      repository: parentJob.repository,
+      environment,
+      environmentOverrides: environment,
+      image: parentJob.image,
+      resources: parentJob.resources,
+      priority: parentJob.priority || 0,
+      parentJobId: parentJob.id,
+      baseJobId: parentJob.id,
+    };
+
+    await jobStore.createJob(job);
+    console.log(`💬 Job ${job.id} follows up on job ${parentJob.id}`);
+
+    // Queue the job, it starts once a concurrency slot is free
+    const queuePosition = await jobQueue.enqueue(
+      job,
+      credentials,
+      job.priority
+    );
+    const queuedJob = await jobStore.getJob(job.id);
+
+    return json(
+      { ...(queuedJob || job), queuePosition: queuePosition || undefined },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(`Error creating follow-up for job ${jobId}:`, error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create follow-up job",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,8 @@
 import { type LoaderFunctionArgs } from "@remix-run/node";
 import { getJobStore } from "~/lib/server/jobStore";
-import {
-  extractCredentialsFromCookie,
-  hasValidCredentials,
-} from "~/lib/server/auth";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
+import { redactSecrets } from "~/lib/server/redaction";
 
 // GET /api/jobs/:jobId/logs - Stream job logs via Server-Sent Events
 export async function loader({ request, params }: LoaderFunctionArgs) {
@@ -13,13 +12,23 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // Check authentication
-  const cookieHeader = request.headers.get("Cookie");
-  const credentials = extractCredentialsFromCookie(cookieHeader);
+  const credentials = getRequestCredentials(request, "jobs:read");
 
   if (!hasValidCredentials(credentials)) {
     return new Response("Unauthorized", { status: 401 });
   }
 
+  const job = await getJobStore().getJob(jobId);
+  if (!job) {
+    return new Response("Job not found", { status: 404 });
+  }
+
+  if (!canAccessJob(credentials, job)) {
+    return new Response("Unauthorized - This job belongs to another user", {
+      status: 403,
+    });
+  }
+
   // Set up Server-Sent Events stream
   const stream = new ReadableStream({
     start(controller) {
@@ -33,6 +42,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       );
 
       let intervalId: NodeJS.Timeout;
+      // Offset in the stored log, not in what was sent after redaction
       let lastLogLength = 0;
 
       const sendLogs = async () => {
@@ -49,13 +59,23 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
             return;
           }
 
-          // Get current logs
-          const logs = await jobStore.getJobLogs(jobId);
+          const finished =
+            job.status === "completed" ||
+            job.status === "failed" ||
+            job.status === "timed_out" ||
+            job.status === "cancelled";
+
+          // Get current logs. Stored logs are already redacted, this also
+          // covers logs persisted before redaction existed. Only complete
+          // lines are sent until the job finishes, so a secret split across
+          // two polls is still redacted as a whole.
+          const logs = (await jobStore.getJobLogs(jobId)) || "";
+          const end = finished ? logs.length : logs.lastIndexOf("\n") + 1;
 
-          if (logs && logs.length > lastLogLength) {
+          if (end > lastLogLength) {
             // Send only new log content
-            const newLogs = logs.substring(lastLogLength);
-            lastLogLength = logs.length;
+            const newLogs = redactSecrets(logs.substring(lastLogLength, end));
+            lastLogLength = end;
 
             controller.enqueue(
               encoder.encode(
@@ -79,8 +99,8 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
             )
           );
 
-          // If job is completed or failed, stop streaming
-          if (job.status === "completed" || job.status === "failed") {
+          // If job is completed, failed, timed out or cancelled, stop streaming
+          if (finished) {
             controller.enqueue(
               encoder.encode(
                 `data: ${JSON.stringify({
@@ -0,0 +1,209 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { JobService } from "~/lib/jobService.remix";
+import { PatchConflictError, isValidBranchName } from "~/lib/server/gitService";
+import { RedactedDiffError } from "~/lib/server/redaction";
+import { ProtectedPathError } from "~/lib/server/repositoryConfig";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
+
+// POST /api/jobs/:jobId/pull-request - Push a job's changes and open a pull
+// request. Every field is optional: the branch defaults to the one the UI
+// suggests, title and description to the job's, the base to the job's branch.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const { jobId } = params;
+
+  if (!jobId) {
+    return json(
+      {
+        error: {
+          code: "MISSING_JOB_ID",
+          message: "Job ID is required",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  // Check authentication
+  const credentials = getRequestCredentials(request, "pr:create");
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message:
+            "Authentication required - please provide API credentials through the UI",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  let options: Record<string, unknown>;
+  try {
+    options = await request.json();
+  } catch {
+    options = {};
+  }
+
+  for (const field of ["branch", "title", "description", "baseBranch"]) {
+    const value = options[field];
+    if (value !== undefined && typeof value !== "string") {
+      return validationError(field, `${field} must be a string`);
+    }
+  }
+  for (const field of ["labels", "reviewers"]) {
+    const value = options[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item) => typeof item === "string"))
+    ) {
+      return validationError(field, `${field} must be a list of strings`);
+    }
+  }
+
+  try {
+    const job = await JobService.getJob(jobId);
+
+    if (!job) {
+      return json(
+        {
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only the owner or members of the job's workspace may push its changes
+    if (!canAccessJob(credentials, job, "run")) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message:
+              "You don't have permission to open a pull request for this job",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const jobDiff = await JobService.getJobDiff(jobId);
+    if (!job.repository?.url || !jobDiff?.files?.length) {
+      return json(
+        {
+          error: {
+            code: "NO_CHANGES",
+            message: "Job has no repository or no changes to commit",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const branch =
+      (options.branch as string | undefined) ||
+      `hugex-${job.id.substring(0, 8)}`;
+    const baseBranch =
+      (options.baseBranch as string | undefined) ||
+      job.repository.branch ||
+      job.branch ||
+      "main";
+    // Both end up in git commands, see GitService
+    for (const [field, value] of Object.entries({ branch, baseBranch })) {
+      if (!(await isValidBranchName(value))) {
+        return validationError(
+          field,
+          `${field} must be a valid git branch name of at most 255 characters`
+        );
+      }
+    }
+
+    const result = await JobService.createPullRequest(
+      jobId,
+      {
+        branch,
+        title: (options.title as string | undefined) || job.title,
+        description:
+          (options.description as string | undefined) ?? job.description,
+        baseBranch,
+        draft: options.draft === true,
+        labels: options.labels as string[] | undefined,
+        reviewers: options.reviewers as string[] | undefined,
+        useCodeowners: options.useCodeowners !== false,
+      },
+      credentials
+    );
+
+    return json(result, { status: 201 });
+  } catch (error) {
+    // Nothing was pushed - report which files clash with the base branch
+    if (error instanceof PatchConflictError) {
+      return json(
+        {
+          error: {
+            code: "PATCH_CONFLICT",
+            message: error.message,
+            details: error.conflicts,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof RedactedDiffError) {
+      return json(
+        { error: { code: "REDACTED_DIFF", message: error.message } },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof ProtectedPathError) {
+      return json(
+        {
+          error: {
+            code: "PROTECTED_PATHS",
+            message: error.message,
+            details: error.paths.map((path) => ({
+              field: path,
+              message: "Protected by the repository's .hugex.yml",
+            })),
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error(`Error opening pull request for job ${jobId}:`, error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: `Failed to create pull request: ${(error as Error).message}`,
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function validationError(field: string, message: string) {
+  return json(
+    {
+      error: {
+        code: "VALIDATION_ERROR",
+        message,
+        details: [{ field, message }],
+      },
+    },
+    { status: 400 }
+  );
+}
@@ -1,9 +1,7 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { JobService } from "~/lib/jobService.remix";
-import {
-  extractCredentialsFromCookie,
-  hasValidCredentials,
-} from "~/lib/server/auth";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canAccessJob } from "~/lib/server/authorization";
 
 // GET /api/jobs/:jobId/status - Get job status
 export async function loader({ request, params }: LoaderFunctionArgs) {
@@ -13,8 +11,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // Check authentication
-  const cookieHeader = request.headers.get("Cookie");
-  const credentials = extractCredentialsFromCookie(cookieHeader);
+  const credentials = getRequestCredentials(request, "jobs:read");
 
   if (!hasValidCredentials(credentials)) {
     return json({ error: "Unauthorized" }, { status: 401 });
@@ -28,8 +25,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     }
 
     // Check if the job belongs to the authenticated user
-    const username = credentials?.hfUserInfo?.username;
-    if (job.author && job.author !== username) {
+    if (!canAccessJob(credentials, job)) {
       return json(
         { error: "Unauthorized - This job belongs to another user" },
         { status: 403 }
@@ -39,6 +35,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     return json({
       id: job.id,
       status: job.status,
+      error: job.error || null,
       updatedAt: job.updatedAt,
       changes: job.changes || null,
     });
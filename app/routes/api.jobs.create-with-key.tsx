@@ -1,41 +1,36 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { getJobStore } from "~/lib/server/jobStore";
-import { getJobProcessor } from "~/lib/server/jobProcessor";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { getRequestCredentials, hasValidCredentials } from "~/lib/server/auth";
+import { canRunInWorkspace, getJobOwnership } from "~/lib/server/authorization";
+import { selectProfile } from "~/lib/server/environmentProfiles";
+import { validateJobResources } from "~/lib/server/jobResources";
+import {
+  REPOSITORY_CONFIG_PATH,
+  loadRepositoryConfig,
+} from "~/lib/server/repositoryConfig";
+import { redactJob } from "~/lib/server/redaction";
+import { encryptJobSecrets } from "~/lib/server/secretVault";
 import { v4 as uuidv4 } from "uuid";
 import type { Job } from "~/types/job";
 
-// POST /api/jobs/create-with-key - Create job with API key
+// POST /api/jobs/create-with-key - Create job with a personal API token
 export async function action({ request }: ActionFunctionArgs) {
   console.log("POST /api/jobs/create-with-key");
   if (request.method !== "POST") {
     return json({ error: "Method not allowed" }, { status: 405 });
   }
 
-  // Check for API key in Authorization header
-  const authHeader = request.headers.get("Authorization");
-  const apiKey = authHeader?.replace("Bearer ", "");
+  // A personal API token, created in the UI, stands in for the session
+  const credentials = getRequestCredentials(request, "jobs:write");
 
-  if (!apiKey) {
-    return json(
-      {
-        error: {
-          code: "UNAUTHORIZED",
-          message: "API key required in Authorization header (Bearer token)",
-        },
-      },
-      { status: 401 }
-    );
-  }
-
-  // For now, we'll validate that the API key is a Hugging Face token
-  // In a production environment, you might want to validate against your own API key system
-  if (!isValidHuggingFaceToken(apiKey)) {
+  if (!hasValidCredentials(credentials)) {
     return json(
       {
         error: {
           code: "UNAUTHORIZED",
           message:
-            "Invalid API key format. Expected a valid Hugging Face token.",
+            "API token required in Authorization header (Bearer hugex_...)",
         },
       },
       { status: 401 }
@@ -47,10 +42,12 @@ export async function action({ request }: ActionFunctionArgs) {
       title,
       description,
       branch,
-      author,
       repository,
       environment,
       secrets,
+      workspaceId,
+      profileId,
+      resources,
     } = await request.json();
 
     // Validation
@@ -111,7 +108,11 @@ export async function action({ request }: ActionFunctionArgs) {
     }
 
     // Validate secrets if provided
-    if (secrets && typeof secrets !== "object") {
+    if (
+      secrets &&
+      (typeof secrets !== "object" ||
+        !Object.values(secrets).every((value) => typeof value === "string"))
+    ) {
       return json(
         {
           error: {
@@ -128,6 +129,24 @@ export async function action({ request }: ActionFunctionArgs) {
         { status: 400 }
       );
     }
+
+    // Clamped to the server's maxima, see jobResources.ts
+    const jobResources = validateJobResources(resources);
+    if ("errors" in jobResources) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: jobResources.errors
+              .map((error) => error.message)
+              .join("; "),
+            details: jobResources.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     if (repository?.url) {
       const githubUrlPattern =
         /^https:\/\/github\.com\/[\w\-\.]+\/[\w\-\.]+(?:\.git)?(?:\/)?$/;
@@ -151,18 +170,80 @@ export async function action({ request }: ActionFunctionArgs) {
       }
     }
 
-    // Get user info from the API key to set as author
-    let apiKeyAuthor = author;
-    try {
-      const userInfo = await getUserInfoFromApiKey(apiKey);
-      console.log("User info from API key:", userInfo);
-      apiKeyAuthor = userInfo?.username || author || "api-user";
-    } catch (error) {
-      console.warn("Could not get user info from API key:", error);
-      apiKeyAuthor = author || "api-user";
+    if (
+      workspaceId !== undefined &&
+      (typeof workspaceId !== "string" ||
+        !canRunInWorkspace(credentials, workspaceId))
+    ) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You don't have permission to run jobs in this workspace",
+          },
+        },
+        { status: 403 }
+      );
     }
 
-    console.log("API Key Author:", apiKeyAuthor);
+    const profile =
+      profileId === undefined || typeof profileId === "string"
+        ? selectProfile(credentials, {
+            workspaceId: workspaceId || undefined,
+            repositoryUrl: repository?.url,
+            profileId,
+          })
+        : null;
+    if (!profile) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Environment profile not found",
+            details: [
+              {
+                field: "profileId",
+                message: "Environment profile not found",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const jobQueue = getJobQueue();
+    if (jobQueue.isFull()) {
+      return json(
+        {
+          error: {
+            code: "QUEUE_FULL",
+            message: "Too many jobs are waiting - please try again later",
+          },
+        },
+        { status: 429 }
+      );
+    }
+
+    // The repository's .hugex.yml, checked before the job is queued
+    const repositoryConfig = await loadRepositoryConfig(
+      repository,
+      credentials
+    );
+    if (repositoryConfig.errors) {
+      return json(
+        {
+          error: {
+            code: "REPOSITORY_CONFIG_INVALID",
+            message: `${REPOSITORY_CONFIG_PATH} is invalid: ${repositoryConfig.errors
+              .map((error) => error.message)
+              .join("; ")}`,
+            details: repositoryConfig.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
 
     const job: Job = {
       id: uuidv4(),
@@ -172,30 +253,33 @@ export async function action({ request }: ActionFunctionArgs) {
       createdAt: new Date(),
       updatedAt: new Date(),
       branch: branch || undefined,
-      author: apiKeyAuthor,
+      // Jobs belong to the token's owner
+      ...getJobOwnership(credentials),
+      workspaceId: workspaceId || undefined,
       repository: repository || undefined,
+      profile: { id: profile.id, name: profile.name },
+      repositoryConfig: repositoryConfig.config,
+      resources: jobResources.resources,
       environment: environment || undefined,
-      secrets: secrets || undefined,
+      environmentOverrides: environment || undefined,
+      // Encrypted until the job's container is created
+      secrets: secrets ? encryptJobSecrets(secrets) : undefined,
     };
 
     const jobStore = getJobStore();
     await jobStore.createJob(job);
 
-    // Create credentials object for job processor
-    const credentials = {
-      huggingfaceToken: apiKey,
-      hfUserInfo: {
-        username: apiKeyAuthor,
-      },
-    };
+    // Queue the job, it starts once a concurrency slot is free
+    const queuePosition = await jobQueue.enqueue(job, credentials);
+    const queuedJob = await jobStore.getJob(job.id);
 
-    // Start processing job asynchronously with credentials
-    const jobProcessor = getJobProcessor();
-    jobProcessor.processJob(job.id, jobStore, credentials).catch((error) => {
-      console.error(`Failed to process job ${job.id}:`, error);
-    });
-
-    return json(job, { status: 201 });
+    return json(
+      {
+        ...redactJob(queuedJob || job),
+        queuePosition: queuePosition || undefined,
+      },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating job:", error);
     return json(
@@ -209,34 +293,3 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 }
-
-// Helper function to validate Hugging Face token format
-function isValidHuggingFaceToken(token: string): boolean {
-  // Hugging Face tokens typically start with "hf_" and are 37 characters long
-  // But we'll be more flexible and just check for basic format
-  return (
-    typeof token === "string" && token.length >= 20 && token.trim() === token
-  );
-}
-
-// Helper function to get user info from API key
-async function getUserInfoFromApiKey(
-  apiKey: string
-): Promise<{ username: string } | null> {
-  try {
-    const response = await fetch("https://huggingface.co/api/whoami-v2", {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      return { username: data.name || data.username || "api-user" };
-    }
-  } catch (error) {
-    console.error("Error fetching user info:", error);
-  }
-
-  return null;
-}
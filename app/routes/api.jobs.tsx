@@ -4,13 +4,25 @@ import {
   type ActionFunctionArgs,
 } from "@remix-run/node";
 import { getJobStore } from "~/lib/server/jobStore";
-import { getJobProcessor } from "~/lib/server/jobProcessor";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { redactJob } from "~/lib/server/redaction";
 import {
-  extractCredentialsFromCookie,
+  getRequestCredentials,
   isPublicPath,
   hasValidCredentials,
-  getEffectiveUsername,
 } from "~/lib/server/auth";
+import {
+  canRunInWorkspace,
+  getJobOwnerFilter,
+  getJobOwnership,
+  getWorkspaceRole,
+} from "~/lib/server/authorization";
+import { selectProfile } from "~/lib/server/environmentProfiles";
+import { validateJobResources } from "~/lib/server/jobResources";
+import {
+  REPOSITORY_CONFIG_PATH,
+  loadRepositoryConfig,
+} from "~/lib/server/repositoryConfig";
 import serverConfig from "~/lib/server/config";
 import { v4 as uuidv4 } from "uuid";
 import type { Job } from "~/types/job";
@@ -23,11 +35,11 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
   const status = url.searchParams.get("status");
   const search = url.searchParams.get("search");
+  const workspaceId = url.searchParams.get("workspace");
 
   // Check authentication
   if (!isPublicPath(url.pathname)) {
-    const cookieHeader = request.headers.get("Cookie");
-    const credentials = extractCredentialsFromCookie(cookieHeader);
+    const credentials = getRequestCredentials(request, "jobs:read");
 
     if (!hasValidCredentials(credentials)) {
       return json(
@@ -42,23 +54,37 @@ export async function loader({ request }: LoaderFunctionArgs) {
       );
     }
 
+    if (workspaceId && !getWorkspaceRole(credentials, workspaceId)) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You are not a member of this workspace",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     try {
       const jobStore = getJobStore();
 
-      // Get the authenticated user's username
-      // Use effective username which can be from HF or GitHub
-      const username = getEffectiveUsername(credentials);
-
-      // Add the author filter to only show the user's own jobs
+      // List all of a workspace's jobs, or else the user's own personal jobs
+      // under any of their identities
       const result = await jobStore.listJobs({
         page,
         limit,
         status: status === "all" ? undefined : status || undefined,
         search: search || undefined,
-        author: username, // Filter by the authenticated user
+        ...(workspaceId
+          ? { workspaceId }
+          : { ownedBy: getJobOwnerFilter(credentials), workspaceId: null }),
       });
 
-      return json(result);
+      return json({
+        ...result,
+        jobs: getJobQueue().withQueuePositions(result.jobs).map(redactJob),
+      });
     } catch (error) {
       console.error("Error listing jobs:", error);
       return json(
@@ -95,8 +121,7 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 
   // Check authentication
-  const cookieHeader = request.headers.get("Cookie");
-  const credentials = extractCredentialsFromCookie(cookieHeader);
+  const credentials = getRequestCredentials(request, "jobs:write");
 
   if (!hasValidCredentials(credentials)) {
     return json(
@@ -112,8 +137,17 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 
   try {
-    const { title, description, branch, author, repository } =
-      await request.json();
+    const {
+      title,
+      description,
+      branch,
+      repository,
+      priority,
+      referencedIssues,
+      workspaceId,
+      profileId,
+      resources,
+    } = await request.json();
 
     // Validation
     if (!title || title.length === 0 || title.length > 200) {
@@ -153,6 +187,127 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
+    if (
+      priority !== undefined &&
+      (!Number.isInteger(priority) ||
+        priority < 0 ||
+        priority > serverConfig.QUEUE.MAX_PRIORITY)
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `Priority must be an integer between 0-${serverConfig.QUEUE.MAX_PRIORITY}`,
+            details: [
+              {
+                field: "priority",
+                message: `Priority must be an integer between 0-${serverConfig.QUEUE.MAX_PRIORITY}`,
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      referencedIssues !== undefined &&
+      (!Array.isArray(referencedIssues) ||
+        !referencedIssues.every(
+          (issue: unknown) => Number.isInteger(issue) && (issue as number) > 0
+        ))
+    ) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Referenced issues must be a list of issue numbers",
+            details: [
+              {
+                field: "referencedIssues",
+                message: "Referenced issues must be a list of issue numbers",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Clamped to the server's maxima, see jobResources.ts
+    const jobResources = validateJobResources(resources);
+    if ("errors" in jobResources) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: jobResources.errors
+              .map((error) => error.message)
+              .join("; "),
+            details: jobResources.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      workspaceId !== undefined &&
+      (typeof workspaceId !== "string" ||
+        !canRunInWorkspace(credentials, workspaceId))
+    ) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You don't have permission to run jobs in this workspace",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Chosen from the workspace's or the user's profiles, see
+    // environmentProfiles.ts
+    const profile =
+      profileId === undefined || typeof profileId === "string"
+        ? selectProfile(credentials, {
+            workspaceId: workspaceId || undefined,
+            repositoryUrl: repository?.url,
+            profileId,
+          })
+        : null;
+    if (!profile) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Environment profile not found",
+            details: [
+              {
+                field: "profileId",
+                message: "Environment profile not found",
+              },
+            ],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const jobQueue = getJobQueue();
+    if (jobQueue.isFull()) {
+      return json(
+        {
+          error: {
+            code: "QUEUE_FULL",
+            message: "Too many jobs are waiting - please try again later",
+          },
+        },
+        { status: 429 }
+      );
+    }
+
     // Validate repository URL if provided
     if (repository?.url) {
       const githubUrlPattern =
@@ -177,9 +332,25 @@ export async function action({ request }: ActionFunctionArgs) {
       }
     }
 
-    // Use the authenticated user as the author if not provided
-    // Support both HuggingFace and GitHub usernames
-    const authenticatedAuthor = getEffectiveUsername(credentials);
+    // The repository's .hugex.yml, checked before the job is queued
+    const repositoryConfig = await loadRepositoryConfig(
+      repository,
+      credentials
+    );
+    if (repositoryConfig.errors) {
+      return json(
+        {
+          error: {
+            code: "REPOSITORY_CONFIG_INVALID",
+            message: `${REPOSITORY_CONFIG_PATH} is invalid: ${repositoryConfig.errors
+              .map((error) => error.message)
+              .join("; ")}`,
+            details: repositoryConfig.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
 
     const job: Job = {
       id: uuidv4(),
@@ -189,20 +360,32 @@ export async function action({ request }: ActionFunctionArgs) {
       createdAt: new Date(),
       updatedAt: new Date(),
       branch: branch || undefined,
-      author: author || authenticatedAuthor, // Use authenticated user if author not provided
+      // Jobs always belong to the user creating them
+      ...getJobOwnership(credentials),
+      workspaceId: workspaceId || undefined,
       repository: repository || undefined,
+      profile: { id: profile.id, name: profile.name },
+      repositoryConfig: repositoryConfig.config,
+      resources: jobResources.resources,
+      priority: priority || 0,
+      referencedIssues: referencedIssues?.length ? referencedIssues : undefined,
     };
 
     const jobStore = getJobStore();
     await jobStore.createJob(job);
 
-    // Start processing job asynchronously with credentials
-    const jobProcessor = getJobProcessor();
-    jobProcessor.processJob(job.id, jobStore, credentials).catch((error) => {
-      console.error(`Failed to process job ${job.id}:`, error);
-    });
+    // Queue the job, it starts once a concurrency slot is free
+    const queuePosition = await jobQueue.enqueue(
+      job,
+      credentials,
+      job.priority
+    );
+    const queuedJob = await jobStore.getJob(job.id);
 
-    return json(job, { status: 201 });
+    return json(
+      { ...(queuedJob || job), queuePosition: queuePosition || undefined },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating job:", error);
     return json(
@@ -0,0 +1,140 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+  type ApiCredentials,
+} from "~/lib/server/auth";
+import { canAccessProfile } from "~/lib/server/authorization";
+import {
+  updateProfile,
+  validateProfileInput,
+} from "~/lib/server/environmentProfiles";
+import { getProfileStore } from "~/lib/server/profileStore";
+
+// The profile, if the user may read it (and change it, for "write"). Throws a
+// JSON 404 otherwise, without telling whether the profile exists.
+function requireProfile(
+  credentials: ApiCredentials,
+  profileId: string,
+  access: "read" | "write"
+) {
+  const profile = getProfileStore().getProfile(profileId);
+
+  if (!profile || !canAccessProfile(credentials, profile, "read")) {
+    throw json(
+      {
+        error: {
+          code: "PROFILE_NOT_FOUND",
+          message: "Environment profile not found",
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  if (!canAccessProfile(credentials, profile, access)) {
+    throw json(
+      {
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have permission to change this profile",
+        },
+      },
+      { status: 403 }
+    );
+  }
+
+  return profile;
+}
+
+// GET /api/profiles/:profileId - A profile
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage environment profiles",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  return json(requireProfile(credentials, params.profileId!, "read"));
+}
+
+// PUT /api/profiles/:profileId - Update a profile
+// DELETE /api/profiles/:profileId - Delete a profile. Jobs that used it run
+// with the built-in profile when re-run.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "PUT" && request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage environment profiles",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const profile = requireProfile(credentials, params.profileId!, "write");
+
+  if (request.method === "DELETE") {
+    getProfileStore().deleteProfile(profile.id);
+    console.log(`🗑️ Deleted environment profile ${profile.name}`);
+    return json({ success: true });
+  }
+
+  try {
+    const result = validateProfileInput(await request.json());
+    if ("error" in result) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: result.error.message,
+            details: [result.error],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = updateProfile(profile, result.input);
+    console.log(
+      `🧰 Updated environment profile ${updated.name} - Image: ${updated.image}`
+    );
+
+    return json(updated);
+  } catch (error) {
+    console.error("Error updating environment profile:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update environment profile",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import {
+  getOwnIdentities,
+  requireWorkspaceRole,
+} from "~/lib/server/authorization";
+import {
+  createProfile,
+  listProfiles,
+  selectProfile,
+  validateProfileInput,
+} from "~/lib/server/environmentProfiles";
+
+// Profiles are managed from a signed-in browser only. ?workspace=:id selects
+// a workspace's profiles instead of the user's own: members may read them,
+// workspace admins may change them.
+
+// GET /api/profiles - List profiles. With
+// ?repository=owner/name, also names the profile a job for that repository
+// would run with.
+export async function loader({ request }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage environment profiles",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const url = new URL(request.url);
+  const workspaceId = url.searchParams.get("workspace") || undefined;
+  const repository = url.searchParams.get("repository") || undefined;
+  if (workspaceId) {
+    requireWorkspaceRole(credentials, workspaceId);
+  }
+
+  const selected = repository
+    ? selectProfile(credentials, { workspaceId, repositoryUrl: repository })
+    : null;
+
+  return json({
+    profiles: listProfiles(credentials, workspaceId),
+    selected,
+  });
+}
+
+// POST /api/profiles - Create a profile
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const workspaceId =
+    new URL(request.url).searchParams.get("workspace") || undefined;
+
+  // Personal profiles belong to the user's own identity
+  if (
+    !hasValidCredentials(credentials) ||
+    (!workspaceId && !getOwnIdentities(credentials).length)
+  ) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage environment profiles",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  if (workspaceId) {
+    requireWorkspaceRole(credentials, workspaceId, "admin");
+  }
+
+  try {
+    const result = validateProfileInput(await request.json());
+    if ("error" in result) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: result.error.message,
+            details: [result.error],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const profile = createProfile(credentials, result.input, workspaceId);
+    console.log(`🧰 Created environment profile ${profile.name}`);
+
+    return json(profile, { status: 201 });
+  } catch (error) {
+    console.error("Error creating environment profile:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create environment profile",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
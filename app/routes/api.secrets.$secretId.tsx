@@ -0,0 +1,63 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import { canAccessSecret } from "~/lib/server/authorization";
+import { getSecretStore } from "~/lib/server/secretStore";
+
+// DELETE /api/secrets/:secretId - Delete a secret. Jobs referencing it fail
+// to start until it is stored again.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage secrets",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const store = getSecretStore();
+  const secret = store.getSecret(params.secretId!);
+
+  if (!secret || !canAccessSecret(credentials, secret, "read")) {
+    return json(
+      {
+        error: {
+          code: "SECRET_NOT_FOUND",
+          message: "Secret not found",
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  if (!canAccessSecret(credentials, secret, "write")) {
+    return json(
+      {
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have permission to delete this secret",
+        },
+      },
+      { status: 403 }
+    );
+  }
+
+  store.deleteSecret(secret.id);
+  console.log(`🗑️ Deleted secret ${secret.name}`);
+
+  return json({ success: true });
+}
@@ -0,0 +1,115 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import {
+  getOwnIdentities,
+  requireWorkspaceRole,
+} from "~/lib/server/authorization";
+import {
+  listSecrets,
+  setSecret,
+  validateSecretInput,
+} from "~/lib/server/secretVault";
+
+// The secret vault is managed from a signed-in browser only. ?workspace=:id
+// selects a workspace's secrets instead of the user's own: members may see
+// their names, workspace admins may change them. Values are write-only.
+
+// GET /api/secrets - List secrets, names only
+export async function loader({ request }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage secrets",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const workspaceId =
+    new URL(request.url).searchParams.get("workspace") || undefined;
+  if (workspaceId) {
+    requireWorkspaceRole(credentials, workspaceId);
+  }
+
+  return json({ secrets: listSecrets(credentials, workspaceId) });
+}
+
+// POST /api/secrets - Store a secret, replacing the value of an existing one
+// with the same name and repository
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const workspaceId =
+    new URL(request.url).searchParams.get("workspace") || undefined;
+
+  // Personal secrets belong to the user's own identity
+  if (
+    !hasValidCredentials(credentials) ||
+    (!workspaceId && !getOwnIdentities(credentials).length)
+  ) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage secrets",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  if (workspaceId) {
+    requireWorkspaceRole(credentials, workspaceId, "admin");
+  }
+
+  try {
+    const result = validateSecretInput(await request.json());
+    if ("error" in result) {
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message: result.error.message,
+            details: [result.error],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const secret = setSecret(credentials, result.input, workspaceId);
+    console.log(`🔐 Stored secret ${secret.name}`);
+
+    return json(secret, { status: 201 });
+  } catch (error) {
+    console.error("Error storing secret:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to store secret",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+  getEffectiveUsername,
+} from "~/lib/server/auth";
+import { revokeApiToken } from "~/lib/server/apiTokens";
+
+// DELETE /api/tokens/:tokenId - Revoke a personal API token
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const username = getEffectiveUsername(credentials);
+
+  if (!hasValidCredentials(credentials) || !username) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage API tokens",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  if (!params.tokenId || !revokeApiToken(username, params.tokenId)) {
+    return json(
+      {
+        error: {
+          code: "TOKEN_NOT_FOUND",
+          message: "API token not found",
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  return json({ success: true });
+}
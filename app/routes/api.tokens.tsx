@@ -0,0 +1,137 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+  getEffectiveUsername,
+} from "~/lib/server/auth";
+import { createApiToken, listApiTokens } from "~/lib/server/apiTokens";
+import serverConfig from "~/lib/server/config";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "~/types/apiToken";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Tokens are managed from a signed-in browser only, an API token can't be
+// used to create or list tokens
+
+// GET /api/tokens - List the user's personal API tokens
+export async function loader({ request }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const username = getEffectiveUsername(credentials);
+
+  if (!hasValidCredentials(credentials) || !username) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage API tokens",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  return json({
+    tokens: listApiTokens(username),
+    maxAgeDays: Math.floor(serverConfig.API_TOKENS.MAX_AGE / DAY_SECONDS),
+  });
+}
+
+// POST /api/tokens - Create a token. The response holds the token itself,
+// it can't be retrieved later.
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const username = getEffectiveUsername(credentials);
+
+  if (!hasValidCredentials(credentials) || !username) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage API tokens",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { name, scopes, expiresInDays } = await request.json();
+    const maxAgeDays = Math.floor(
+      serverConfig.API_TOKENS.MAX_AGE / DAY_SECONDS
+    );
+
+    if (typeof name !== "string" || !name.trim() || name.length > 100) {
+      return validationError(
+        "name",
+        "Name is required and must be between 1-100 characters"
+      );
+    }
+
+    const knownScopes = API_TOKEN_SCOPES.map(({ scope }) => scope);
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => knownScopes.includes(scope))
+    ) {
+      return validationError(
+        "scopes",
+        `Scopes must be a non-empty list of: ${knownScopes.join(", ")}`
+      );
+    }
+
+    if (
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > maxAgeDays
+    ) {
+      return validationError(
+        "expiresInDays",
+        `Expiry must be between 1-${maxAgeDays} days`
+      );
+    }
+
+    const { token, info } = createApiToken(username, credentials, {
+      name: name.trim(),
+      scopes: scopes as ApiTokenScope[],
+      expiresAt: new Date(Date.now() + expiresInDays * DAY_SECONDS * 1000),
+    });
+
+    return json({ token, ...info }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create API token",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function validationError(field: string, message: string) {
+  return json(
+    {
+      error: {
+        code: "VALIDATION_ERROR",
+        message,
+        details: [{ field, message }],
+      },
+    },
+    { status: 400 }
+  );
+}
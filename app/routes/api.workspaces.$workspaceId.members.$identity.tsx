@@ -0,0 +1,90 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import {
+  getIdentities,
+  requireWorkspaceRole,
+} from "~/lib/server/authorization";
+import { getWorkspaceStore } from "~/lib/server/workspaceStore";
+import { isRoleAtLeast } from "~/types/workspace";
+
+// DELETE /api/workspaces/:workspaceId/members/:identity - Remove a member.
+// Admins may remove members up to their own role, anyone may leave.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const workspaceId = params.workspaceId!;
+  const identity = params.identity!;
+  const myRole = requireWorkspaceRole(credentials, workspaceId);
+
+  const store = getWorkspaceStore();
+  const members = store.listMembers(workspaceId);
+  const member = members.find((m) => m.identity === identity);
+
+  if (!member) {
+    return json(
+      {
+        error: {
+          code: "MEMBER_NOT_FOUND",
+          message: "Workspace member not found",
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  const isSelf = getIdentities(credentials).includes(identity);
+  if (
+    !isSelf &&
+    !(isRoleAtLeast(myRole, "admin") && isRoleAtLeast(myRole, member.role))
+  ) {
+    return json(
+      {
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have permission to remove this member",
+        },
+      },
+      { status: 403 }
+    );
+  }
+
+  if (
+    member.role === "owner" &&
+    members.filter((m) => m.role === "owner").length === 1
+  ) {
+    return json(
+      {
+        error: {
+          code: "LAST_OWNER",
+          message:
+            "A workspace needs at least one owner - delete the workspace instead",
+        },
+      },
+      { status: 409 }
+    );
+  }
+
+  store.removeMember(workspaceId, identity);
+  return json({ success: true });
+}
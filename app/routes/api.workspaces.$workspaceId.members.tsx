@@ -0,0 +1,128 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import { requireWorkspaceRole } from "~/lib/server/authorization";
+import { getWorkspaceStore } from "~/lib/server/workspaceStore";
+import {
+  isRoleAtLeast,
+  WORKSPACE_ROLES,
+  type WorkspaceRole,
+} from "~/types/workspace";
+
+const IDENTITY_PATTERN = /^(hf|github):[A-Za-z0-9][\w.-]{0,98}$/;
+
+// POST /api/workspaces/:workspaceId/members - Add a member or change their
+// role. Admins may grant roles up to their own, and may not change the role
+// of members ranked above them.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const workspaceId = params.workspaceId!;
+  const myRole = requireWorkspaceRole(credentials, workspaceId, "admin");
+
+  try {
+    const { identity, role } = await request.json();
+
+    if (typeof identity !== "string" || !IDENTITY_PATTERN.test(identity)) {
+      return validationError(
+        "identity",
+        "Identity must be hf:<username> or github:<login>"
+      );
+    }
+
+    if (!WORKSPACE_ROLES.includes(role)) {
+      return validationError(
+        "role",
+        `Role must be one of: ${WORKSPACE_ROLES.join(", ")}`
+      );
+    }
+
+    const store = getWorkspaceStore();
+    const members = store.listMembers(workspaceId);
+    const existing = members.find((member) => member.identity === identity);
+
+    if (
+      !isRoleAtLeast(myRole, role) ||
+      (existing && !isRoleAtLeast(myRole, existing.role))
+    ) {
+      return json(
+        {
+          error: {
+            code: "FORBIDDEN",
+            message: "You can't grant or change a role above your own",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (
+      existing?.role === "owner" &&
+      role !== "owner" &&
+      members.filter((member) => member.role === "owner").length === 1
+    ) {
+      return json(
+        {
+          error: {
+            code: "LAST_OWNER",
+            message: "A workspace needs at least one owner",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const member = store.setMember({
+      workspaceId,
+      identity,
+      role: role as WorkspaceRole,
+      addedAt: existing?.addedAt ?? new Date(),
+    });
+
+    return json(member, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error("Error updating workspace member:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update workspace member",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function validationError(field: string, message: string) {
+  return json(
+    {
+      error: {
+        code: "VALIDATION_ERROR",
+        message,
+        details: [{ field, message }],
+      },
+    },
+    { status: 400 }
+  );
+}
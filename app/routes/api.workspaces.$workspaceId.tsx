@@ -0,0 +1,116 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import {
+  getIdentities,
+  requireWorkspaceRole,
+} from "~/lib/server/authorization";
+import { getWorkspaceOwner } from "~/lib/server/environmentProfiles";
+import { getProfileStore } from "~/lib/server/profileStore";
+import { getSecretStore } from "~/lib/server/secretStore";
+import { getWorkspaceStore } from "~/lib/server/workspaceStore";
+
+// GET /api/workspaces/:workspaceId - A workspace with its members, and the
+// user's role and identities
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const workspaceId = params.workspaceId!;
+  const role = requireWorkspaceRole(credentials, workspaceId);
+  const store = getWorkspaceStore();
+
+  return json({
+    workspace: store.getWorkspace(workspaceId),
+    role,
+    members: store.listMembers(workspaceId),
+    identities: getIdentities(credentials),
+  });
+}
+
+// PATCH /api/workspaces/:workspaceId - Rename a workspace
+// DELETE /api/workspaces/:workspaceId - Delete a workspace, its profiles
+// and secrets. Its jobs are kept, but only their owners can still open them.
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== "PATCH" && request.method !== "DELETE") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const workspaceId = params.workspaceId!;
+  requireWorkspaceRole(credentials, workspaceId, "owner");
+  const store = getWorkspaceStore();
+
+  if (request.method === "DELETE") {
+    store.deleteWorkspace(workspaceId);
+    getProfileStore().deleteOwnerProfiles(getWorkspaceOwner(workspaceId));
+    getSecretStore().deleteOwnerSecrets(getWorkspaceOwner(workspaceId));
+    console.log(`🗑️ Deleted workspace ${workspaceId}`);
+    return json({ success: true });
+  }
+
+  try {
+    const { name } = await request.json();
+
+    if (typeof name !== "string" || !name.trim() || name.length > 100) {
+      const message = "Name is required and must be between 1-100 characters";
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message,
+            details: [{ field: "name", message }],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    return json(store.updateWorkspace(workspaceId, { name: name.trim() }));
+  } catch (error) {
+    console.error("Error updating workspace:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update workspace",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  extractCredentialsFromCookie,
+  hasValidCredentials,
+} from "~/lib/server/auth";
+import { getIdentities, getOwnIdentities } from "~/lib/server/authorization";
+import { getWorkspaceStore } from "~/lib/server/workspaceStore";
+import { v4 as uuidv4 } from "uuid";
+
+// Workspaces are managed from a signed-in browser only
+
+// GET /api/workspaces - List the workspaces the user is a member of
+export async function loader({ request }: LoaderFunctionArgs) {
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+
+  if (!hasValidCredentials(credentials)) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  return json({
+    workspaces: getWorkspaceStore().listWorkspaces(getIdentities(credentials)),
+  });
+}
+
+// POST /api/workspaces - Create a workspace, owned by its creator
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const credentials = extractCredentialsFromCookie(
+    request.headers.get("Cookie")
+  );
+  const [identity] = getOwnIdentities(credentials);
+
+  if (!hasValidCredentials(credentials) || !identity) {
+    return json(
+      {
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Sign in to manage workspaces",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { name } = await request.json();
+
+    if (typeof name !== "string" || !name.trim() || name.length > 100) {
+      const message = "Name is required and must be between 1-100 characters";
+      return json(
+        {
+          error: {
+            code: "VALIDATION_ERROR",
+            message,
+            details: [{ field: "name", message }],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = getWorkspaceStore();
+    const now = new Date();
+    const workspace = store.createWorkspace({
+      id: uuidv4(),
+      name: name.trim(),
+      createdAt: now,
+      createdBy: identity,
+    });
+    store.setMember({
+      workspaceId: workspace.id,
+      identity,
+      role: "owner",
+      addedAt: now,
+    });
+
+    return json({ ...workspace, role: "owner" }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create workspace",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,15 +8,34 @@ import { useLoaderData, useNavigate, useFetcher } from "@remix-run/react";
 import { useState, useEffect } from "react";
 import { JobService } from "~/lib/jobService.remix";
 import { DiffViewer } from "~/components/DiffViewer";
+import { JobChecks } from "~/components/JobChecks";
+import { EgressLog } from "~/components/EgressLog";
 import { LogStream } from "~/components/LogStream";
-import { Job, JobDiff } from "~/types/job";
+import { Job, JobDiff, JobResources, PatchConflict } from "~/types/job";
+import type {
+  ContainerHardening,
+  NetworkPolicy,
+} from "~/types/environmentProfile";
+import type { RepositoryConfig } from "~/types/repositoryConfig";
 import { formatFullDate } from "~/lib/dateUtils";
 import { AuthWrapper } from "~/components/AuthWrapper";
 import {
   extractCredentialsFromCookie,
   getEffectiveUsername,
+  getRequestCredentials,
 } from "~/lib/server/auth";
 import serverConfig from "~/lib/server/config";
+import { getJobQueue } from "~/lib/server/jobQueue";
+import { canAccessJob, isJobOwner } from "~/lib/server/authorization";
+import { PatchConflictError, isValidBranchName } from "~/lib/server/gitService";
+import {
+  RedactedDiffError,
+  redactDiff,
+  redactJob,
+  redactSecrets,
+} from "~/lib/server/redaction";
+import { ProtectedPathError } from "~/lib/server/repositoryConfig";
+import { RESULT_BEGIN_MARKER } from "~/lib/server/processors/resultManifest";
 import { AIProviderIcon } from "~/components/AIProviderIcons";
 import { parseIssueMentions } from "~/lib/githubService";
 
@@ -43,12 +62,15 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const title = formData.get("title") as string;
     const description = formData.get("description") as string;
     const baseBranch = formData.get("baseBranch") as string;
+    const draft = formData.get("draft") === "true";
+    const useCodeowners = formData.get("useCodeowners") === "true";
+    const labels = splitList(formData.get("labels"));
+    const reviewers = splitList(formData.get("reviewers"));
 
-    try {
-      // Get the authenticated user credentials
-      const cookieHeader = request.headers.get("Cookie");
-      const credentials = extractCredentialsFromCookie(cookieHeader);
+    // Get the authenticated user credentials
+    const credentials = getRequestCredentials(request, "pr:create");
 
+    try {
       // Get job and diff data
       const job = await JobService.getJob(jobId);
       const jobDiff = await JobService.getJobDiff(jobId);
@@ -60,40 +82,62 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         );
       }
 
+      // Only the owner or members of the job's workspace may push its changes
+      if (!canAccessJob(credentials, job, "run")) {
+        return json(
+          { error: "Unauthorized - This job belongs to another user" },
+          { status: 403 }
+        );
+      }
+
       if (!jobDiff.files || jobDiff.files.length === 0) {
         return json({ error: "No changes to commit" }, { status: 400 });
       }
 
-      // Create branch and push changes
-      const result = await JobService.createBranchAndPush(
+      for (const name of [branch, baseBranch]) {
+        if (!(await isValidBranchName(name))) {
+          return json(
+            { error: `Invalid branch name: ${JSON.stringify(name)}` },
+            { status: 400 }
+          );
+        }
+      }
+
+      const result = await JobService.createPullRequest(
         jobId,
         {
           branch,
           title,
           description,
           baseBranch,
+          draft,
+          labels,
+          reviewers,
+          useCodeowners,
         },
         credentials
       );
 
-      // Generate GitHub PR URL
-      let prUrl = null;
-      if (job.repository?.url && job.repository.url.includes("github.com")) {
-        const repoUrl = job.repository.url.replace(/\.git$/, "");
-        prUrl = `${repoUrl}/compare/${branch}?expand=1`;
+      return json({ success: true, ...result });
+    } catch (error) {
+      // Nothing was pushed - report which files clash with the base branch
+      if (error instanceof PatchConflictError) {
+        return json(
+          { error: error.message, conflicts: error.conflicts },
+          { status: 409 }
+        );
       }
 
-      return json({
-        success: true,
-        branch: result.branch,
-        commitHash: result.commitHash,
-        prUrl,
-        message: `Successfully created branch '${branch}' and pushed changes. Commit: ${result.commitHash}`,
-      });
-    } catch (error) {
-      console.error("Failed to create branch and push:", error);
+      if (
+        error instanceof RedactedDiffError ||
+        error instanceof ProtectedPathError
+      ) {
+        return json({ error: error.message }, { status: 409 });
+      }
+
+      console.error("Failed to create pull request:", error);
       return json(
-        { error: `Failed to create branch: ${error.message}` },
+        { error: `Failed to create pull request: ${error.message}` },
         { status: 500 }
       );
     }
@@ -102,6 +146,71 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   return json({ error: "Invalid action" }, { status: 400 });
 };
 
+// What a repository's .hugex.yml set for the job, in a few words
+const describeRepositoryConfig = (config: RepositoryConfig): string => {
+  const parts = [
+    config.image && `image ${config.image}`,
+    Object.keys(config.environment).length &&
+      `${Object.keys(config.environment).length} variables`,
+    config.setup.length && `${config.setup.length} setup commands`,
+    config.verify.length && `${config.verify.length} verify commands`,
+    config.promptPreamble && "prompt preamble",
+    config.protectedPaths.length &&
+      `${config.protectedPaths.length} protected paths`,
+    config.reviewers.length && `reviewers ${config.reviewers.join(", ")}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "No settings";
+};
+
+const describeNetworkPolicy = (policy: NetworkPolicy): string => {
+  switch (policy.mode) {
+    case "none":
+      return "No network access";
+    case "allowlist":
+      return `Only ${policy.allowedHosts.join(", ")}`;
+    default:
+      return "Open";
+  }
+};
+
+// The effective runtime options of a job's container, one per line
+const describeHardening = (hardening: ContainerHardening): string[] =>
+  [
+    hardening.capabilities
+      ? `Capabilities: ${hardening.capabilities.join(", ") || "none"}`
+      : "Capabilities: Docker defaults",
+    hardening.noNewPrivileges && "No new privileges",
+    `User: ${hardening.user || "image default"}`,
+    hardening.readOnlyRootfs && "Read-only root filesystem",
+    ...Object.entries(hardening.tmpfs).map(
+      ([path, sizeMb]) => `Writable ${path} (${sizeMb} MB tmpfs)`
+    ),
+    hardening.pidsLimit && `At most ${hardening.pidsLimit} processes`,
+    ...hardening.ulimits.map(
+      ({ name, soft, hard }) =>
+        `ulimit ${name}: ${soft === hard ? soft : `${soft}/${hard}`}`
+    ),
+  ].filter((setting): setting is string => !!setting);
+
+// What the job asked for when it was submitted, the rest are defaults
+const describeResources = (resources: JobResources): string => {
+  const parts = [
+    resources.memoryMb && `${resources.memoryMb} MB memory`,
+    resources.cpuShares && `${resources.cpuShares} CPU shares`,
+    resources.timeoutMinutes && `${resources.timeoutMinutes} min timeout`,
+    resources.flavor && `${resources.flavor} hardware`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "Defaults";
+};
+
+// Comma separated form values. Labels may contain spaces, so only commas
+// and newlines separate items.
+const splitList = (value: FormDataEntryValue | null): string[] =>
+  String(value || "")
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const jobId = params.jobId;
   if (!jobId) {
@@ -131,18 +240,10 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   console.log(`📋 Job details:`);
   console.log(`📝 Job author: ${job.author}`);
   console.log(`🏷️ Job status: ${job.status}`);
-  console.log(`🔐 Author match: ${job.author === username}`);
-
-  // Check if the job belongs to the authenticated user
-  // In Docker mode, allow access if user has any authentication (HF or GitHub)
-  if (
-    job.author &&
-    job.author !== username &&
-    !(
-      serverConfig.EXECUTION_MODE === "docker" &&
-      (credentials.huggingfaceToken || credentials.githubToken)
-    )
-  ) {
+  const isOwner = isJobOwner(credentials, job);
+  console.log(`🔐 Owner match: ${isOwner}`);
+
+  if (!isOwner && !canAccessJob(credentials, job)) {
     console.log(
       `❌ Access denied: Job author '${job.author}' !== authenticated user '${username}'`
     );
@@ -155,12 +256,53 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 
   const jobDiff = await JobService.getJobDiff(jobId);
   const jobLogs = await JobService.getJobLogs(jobId);
+  const [queuedJob] = getJobQueue().withQueuePositions([job]);
+
+  // Lineage: the job this one was created from, and jobs created from it,
+  // the user may read
+  const parentJob = job.parentJobId
+    ? await JobService.getJob(job.parentJobId)
+    : null;
+  const childJobs = (await JobService.getChildJobs(jobId)).filter((child) =>
+    canAccessJob(credentials, child)
+  );
+
+  // Prompts of the follow-up chain leading to this job, oldest first, up to
+  // the first job the user may not read
+  const promptChain = [job];
+  while (promptChain.length < 50 && promptChain[0].baseJobId) {
+    const baseJob = await JobService.getJob(promptChain[0].baseJobId);
+    if (!baseJob || !canAccessJob(credentials, baseJob)) break;
+    promptChain.unshift(baseJob);
+  }
 
-  return json({ job, jobDiff, jobLogs });
+  // Stored data is redacted when written, this covers older jobs
+  return json({
+    job: redactJob(queuedJob),
+    jobDiff: jobDiff && redactDiff(jobDiff),
+    jobLogs: jobLogs && redactSecrets(jobLogs),
+    parentJob:
+      parentJob && canAccessJob(credentials, parentJob)
+        ? { id: parentJob.id, title: parentJob.title, status: parentJob.status }
+        : null,
+    childJobs: childJobs.map((child) => ({
+      id: child.id,
+      title: child.title,
+      status: child.status,
+      isFollowUp: child.baseJobId === jobId,
+    })),
+    promptChain: promptChain.map((link) => ({
+      id: link.id,
+      description: link.description,
+      status: link.status,
+      createdAt: link.createdAt,
+    })),
+  });
 };
 
 export default function JobDetail() {
-  const { job, jobDiff, jobLogs } = useLoaderData<typeof loader>();
+  const { job, jobDiff, jobLogs, parentJob, childJobs, promptChain } =
+    useLoaderData<typeof loader>();
 
   // Pulse animation styles
   const pulseStyle = {
@@ -169,25 +311,46 @@ export default function JobDetail() {
   const navigate = useNavigate();
   const fetcher = useFetcher<typeof action>();
   // Set default tab based on job status - logs for running jobs, diff for completed ones
-  const getDefaultTab = (status: Job["status"]): "diff" | "files" | "logs" => {
-    if (status === "running" || status === "pending") {
+  const getDefaultTab = (
+    status: Job["status"]
+  ): "diff" | "files" | "logs" | "network" => {
+    if (status === "running" || status === "queued" || status === "pending") {
       return "logs"; // Show logs for active jobs
     }
     return "diff"; // Show diff for completed/failed jobs
   };
 
-  const [activeTab, setActiveTab] = useState<"diff" | "files" | "logs">(
-    getDefaultTab(job.status)
-  );
+  const [activeTab, setActiveTab] = useState<
+    "diff" | "files" | "logs" | "network"
+  >(getDefaultTab(job.status));
   const [userHasManuallyChangedTab, setUserHasManuallyChangedTab] =
     useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [showPRModal, setShowPRModal] = useState(false);
   const [prTitle, setPrTitle] = useState(``);
   const [prDescription, setPrDescription] = useState(``);
   const [prBranch, setPrBranch] = useState(`hugex-${job.id.substring(0, 8)}`);
+  const [prConflicts, setPrConflicts] = useState<PatchConflict[]>([]);
+  const [prDraft, setPrDraft] = useState(false);
+  const [prLabels, setPrLabels] = useState("");
+  const [prReviewers, setPrReviewers] = useState("");
+  const [prUseCodeowners, setPrUseCodeowners] = useState(true);
+  // The branch the job ran against, which its diff applies to
+  const baseBranch = job.repository?.branch || job.branch || "main";
   const [isHeaderExpanded, setIsHeaderExpanded] = useState(false);
+  const [duplicating, setDuplicating] = useState(false);
+  const [showFollowUpModal, setShowFollowUpModal] = useState(false);
+  const [followUpPrompt, setFollowUpPrompt] = useState("");
+  const [showDuplicateModal, setShowDuplicateModal] = useState(false);
+  const [duplicateForm, setDuplicateForm] = useState({
+    title: job.title,
+    description: job.description,
+    repositoryUrl: job.repository?.url || "",
+    repositoryBranch: job.repository?.branch || "",
+    image: job.image || "",
+  });
 
   // Parse issue mentions from job description
   const issueMentions = parseIssueMentions(job.description);
@@ -210,14 +373,18 @@ export default function JobDetail() {
   }, [job.status, userHasManuallyChangedTab]);
 
   // Create a wrapper function for tab changes to track manual changes
-  const handleTabChange = (tab: "diff" | "files" | "logs") => {
+  const handleTabChange = (tab: "diff" | "files" | "logs" | "network") => {
     setActiveTab(tab);
     setUserHasManuallyChangedTab(true);
   };
 
   // Auto-refresh for running jobs (smart refresh that doesn't interrupt log streaming)
   useEffect(() => {
-    if (job.status === "running" || job.status === "pending") {
+    if (
+      job.status === "running" ||
+      job.status === "queued" ||
+      job.status === "pending"
+    ) {
       const interval = setInterval(async () => {
         // If user is watching logs, use gentle background refresh instead of page reload
         if (activeTab === "logs") {
@@ -250,13 +417,22 @@ export default function JobDetail() {
   // Handle fetcher response for PR creation
   useEffect(() => {
     if (fetcher.data && fetcher.state === "idle") {
-      if (fetcher.data.error) {
+      if ("conflicts" in fetcher.data && fetcher.data.conflicts) {
+        // Shown in the modal, next to the branch the user tried to push
+        setPrConflicts(fetcher.data.conflicts as PatchConflict[]);
+      } else if (fetcher.data.error) {
         alert(`Error: ${fetcher.data.error}`);
       } else if (fetcher.data.success) {
         if (fetcher.data.message) {
-          alert(fetcher.data.message);
+          const warnings =
+            "warnings" in fetcher.data
+              ? (fetcher.data.warnings as string[])
+              : [];
+          alert(
+            [fetcher.data.message, ...warnings.map((w) => `⚠️ ${w}`)].join("\n")
+          );
         }
-        // Open GitHub PR creation page if URL is available
+        // Open the pull request, or GitHub's PR creation page without a token
         if (fetcher.data.prUrl) {
           window.open(fetcher.data.prUrl, "_blank");
         }
@@ -274,10 +450,110 @@ export default function JobDetail() {
     }, 500);
   };
 
+  // Cancel a pending, queued or running job
+  const handleCancel = async () => {
+    if (!confirm("Cancel this job? Any work in progress will be lost.")) {
+      return;
+    }
+
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/cancel`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(`Error: ${data.error?.message || "Failed to cancel job"}`);
+        setCancelling(false);
+        return;
+      }
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to cancel job:", error);
+      alert("Failed to cancel job");
+      setCancelling(false);
+    }
+  };
+
+  // Create a new job from this one, as-is (re-run) or with edited fields
+  const handleDuplicate = async (overrides: Record<string, unknown> = {}) => {
+    setDuplicating(true);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(overrides),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(`Error: ${data.error?.message || "Failed to create job"}`);
+        setDuplicating(false);
+        return;
+      }
+      setShowDuplicateModal(false);
+      setDuplicating(false);
+      navigate(`/jobs/${data.id}`);
+    } catch (error) {
+      console.error("Failed to duplicate job:", error);
+      alert("Failed to create job");
+      setDuplicating(false);
+    }
+  };
+
+  // Continue from this job's changes with a new prompt
+  const handleFollowUp = async () => {
+    setDuplicating(true);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/follow-up`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt: followUpPrompt }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(
+          `Error: ${data.error?.message || "Failed to create follow-up job"}`
+        );
+        setDuplicating(false);
+        return;
+      }
+      setShowFollowUpModal(false);
+      setFollowUpPrompt("");
+      setDuplicating(false);
+      navigate(`/jobs/${data.id}`);
+    } catch (error) {
+      console.error("Failed to create follow-up job:", error);
+      alert("Failed to create follow-up job");
+      setDuplicating(false);
+    }
+  };
+
+  const handleDuplicateSubmit = () => {
+    handleDuplicate({
+      title: duplicateForm.title.trim(),
+      description: duplicateForm.description.trim(),
+      repository: duplicateForm.repositoryUrl.trim()
+        ? {
+            url: duplicateForm.repositoryUrl.trim(),
+            ...(duplicateForm.repositoryBranch.trim() && {
+              branch: duplicateForm.repositoryBranch.trim(),
+            }),
+          }
+        : null,
+      image: duplicateForm.image.trim() || null,
+    });
+  };
+
   // Function to extract logs excluding the diff portion
   const getLogsWithoutDiff = (fullLogs: string): string => {
     if (!fullLogs) return "";
 
+    // Agents using the result manifest only append the framed result
+    const manifestIndex = fullLogs.lastIndexOf(RESULT_BEGIN_MARKER);
+    if (manifestIndex !== -1) {
+      return fullLogs.substring(0, manifestIndex).trim();
+    }
+
     // console.log("Full logs:", fullLogs);
     const delimiter =
       "================================================================================";
@@ -300,7 +576,10 @@ export default function JobDetail() {
     if (!fullLogs) return false;
     const delimiter =
       "================================================================================";
-    return fullLogs.indexOf(delimiter) !== -1;
+    return (
+      fullLogs.includes(RESULT_BEGIN_MARKER) ||
+      fullLogs.indexOf(delimiter) !== -1
+    );
   };
 
   // Function to parse and colorize terminal output
@@ -419,8 +698,14 @@ export default function JobDetail() {
         return "bg-blue-100 text-blue-800";
       case "pending":
         return "bg-yellow-100 text-yellow-800";
+      case "queued":
+        return "bg-yellow-100 text-yellow-800";
       case "failed":
         return "bg-red-100 text-red-800";
+      case "timed_out":
+        return "bg-orange-100 text-orange-800";
+      case "cancelled":
+        return "bg-gray-100 text-gray-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -434,8 +719,14 @@ export default function JobDetail() {
         return "Running";
       case "pending":
         return "Pending";
+      case "queued":
+        return job.queuePosition ? `Queued #${job.queuePosition}` : "Queued";
       case "failed":
         return "Failed";
+      case "timed_out":
+        return "Timed out";
+      case "cancelled":
+        return "Cancelled";
       default:
         return "Unknown";
     }
@@ -456,7 +747,9 @@ export default function JobDetail() {
             </button>
 
             <div className="flex items-center gap-4">
-              {(job.status === "running" || job.status === "pending") && (
+              {(job.status === "running" ||
+                job.status === "queued" ||
+                job.status === "pending") && (
                 <div className="flex items-center gap-2 rounded-full bg-blue-50 px-3 py-1.5 text-sm text-blue-600 dark:bg-blue-900/20 dark:text-blue-400">
                   <div className="h-1.5 w-1.5 animate-pulse rounded-full bg-blue-500"></div>
                   <span className="font-medium">
@@ -467,6 +760,64 @@ export default function JobDetail() {
                 </div>
               )}
 
+              {(job.status === "running" ||
+                job.status === "queued" ||
+                job.status === "pending") && (
+                <button
+                  onClick={handleCancel}
+                  disabled={cancelling}
+                  className="flex items-center gap-2 rounded-lg border border-red-300 px-4 py-2.5 text-sm font-medium text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-red-700 dark:text-red-400 dark:hover:bg-red-900/20"
+                  title="Cancel this job"
+                >
+                  <i
+                    className={`fas ${
+                      cancelling ? "fa-spinner fa-spin" : "fa-stop-circle"
+                    }`}
+                  ></i>
+                  {cancelling ? "Cancelling..." : "Cancel"}
+                </button>
+              )}
+
+              {job.status !== "running" &&
+                job.status !== "queued" &&
+                job.status !== "pending" && (
+                  <button
+                    onClick={() => handleDuplicate()}
+                    disabled={duplicating}
+                    className="flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                    title="Run this job again with the same parameters"
+                  >
+                    <i
+                      className={`fas ${
+                        duplicating ? "fa-spinner fa-spin" : "fa-redo"
+                      }`}
+                    ></i>
+                    Re-run
+                  </button>
+                )}
+
+              {job.status === "completed" && (
+                <button
+                  onClick={() => setShowFollowUpModal(true)}
+                  disabled={duplicating}
+                  className="flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                  title="Continue from these changes with a new prompt"
+                >
+                  <i className="fas fa-comment-dots"></i>
+                  Follow up
+                </button>
+              )}
+
+              <button
+                onClick={() => setShowDuplicateModal(true)}
+                disabled={duplicating}
+                className="flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                title="Create a new job from this one"
+              >
+                <i className="fas fa-copy"></i>
+                Duplicate & edit
+              </button>
+
               <button
                 onClick={handleRefresh}
                 disabled={refreshing}
@@ -480,6 +831,22 @@ export default function JobDetail() {
                 ></i>
               </button>
 
+              {job.pullRequest && (
+                <a
+                  href={job.pullRequest.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                  title="Open pull request on GitHub"
+                >
+                  <i className="fab fa-github"></i>
+                  PR #{job.pullRequest.number}
+                  {job.pullRequest.draft && (
+                    <span className="text-xs text-gray-500">(draft)</span>
+                  )}
+                </a>
+              )}
+
               <button
                 onClick={() => {
                   setPrTitle(job.title);
@@ -526,6 +893,7 @@ export default function JobDetail() {
                   }
 
                   setPrDescription(description);
+                  setPrConflicts([]);
                   setShowPRModal(true);
                 }}
                 disabled={
@@ -626,9 +994,13 @@ export default function JobDetail() {
                         ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
                         : job.status === "running"
                           ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
-                          : job.status === "pending"
+                          : job.status === "pending" || job.status === "queued"
                             ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
-                            : "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+                            : job.status === "cancelled"
+                              ? "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                              : job.status === "timed_out"
+                                ? "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400"
+                                : "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
                     }`}
                   >
                     {getStatusText(job.status)}
@@ -664,6 +1036,173 @@ export default function JobDetail() {
               </div>
             </div>
 
+            {/* Failure Reason */}
+            {job.status === "timed_out" && job.error && (
+              <div className="flex items-start gap-3 border-b border-orange-200 bg-orange-50 px-8 py-4 text-sm text-orange-800 dark:border-orange-900/40 dark:bg-orange-900/20 dark:text-orange-300">
+                <i className="fas fa-hourglass-end mt-0.5"></i>
+                <span>{job.error}</span>
+              </div>
+            )}
+            {job.status === "failed" && job.error && (
+              <div className="flex items-start gap-3 border-b border-red-200 bg-red-50 px-8 py-4 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-300">
+                <i className="fas fa-exclamation-circle mt-0.5"></i>
+                <span>{job.error}</span>
+              </div>
+            )}
+            {job.diffRedacted && (
+              <div className="flex items-start gap-3 border-b border-yellow-200 bg-yellow-50 px-8 py-4 text-sm text-yellow-800 dark:border-yellow-900/40 dark:bg-yellow-900/20 dark:text-yellow-300">
+                <i className="fas fa-user-secret mt-0.5"></i>
+                <span>
+                  The changes contain credentials, which are redacted below.
+                  They can&apos;t be pushed until a follow-up removes them.
+                </span>
+              </div>
+            )}
+
+            {/* Lineage */}
+            {(parentJob || childJobs.length > 0) && (
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 border-b border-gray-200 px-8 py-3 text-sm text-gray-600 dark:border-gray-700 dark:text-gray-400">
+                {parentJob && (
+                  <div className="flex items-center gap-2">
+                    <i className="fas fa-level-up-alt text-gray-400"></i>
+                    <span>Created from</span>
+                    <a
+                      href={`/jobs/${parentJob.id}`}
+                      className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      {parentJob.title}
+                    </a>
+                    <span className="text-xs text-gray-400">
+                      ({getStatusText(parentJob.status)})
+                    </span>
+                  </div>
+                )}
+                {childJobs.some((child) => !child.isFollowUp) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <i className="fas fa-redo text-gray-400"></i>
+                    <span>Re-runs:</span>
+                    {childJobs
+                      .filter((child) => !child.isFollowUp)
+                      .map((child) => (
+                        <a
+                          key={child.id}
+                          href={`/jobs/${child.id}`}
+                          className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                          title={`${child.title} (${getStatusText(child.status)})`}
+                        >
+                          {child.id.substring(0, 8)}
+                        </a>
+                      ))}
+                  </div>
+                )}
+                {childJobs.some((child) => child.isFollowUp) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <i className="fas fa-comment-dots text-gray-400"></i>
+                    <span>Follow-ups:</span>
+                    {childJobs
+                      .filter((child) => child.isFollowUp)
+                      .map((child) => (
+                        <a
+                          key={child.id}
+                          href={`/jobs/${child.id}`}
+                          className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                          title={`${child.title} (${getStatusText(child.status)})`}
+                        >
+                          {child.id.substring(0, 8)}
+                        </a>
+                      ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Prompt Chain */}
+            {promptChain.length > 1 && (
+              <div className="border-b border-gray-200 px-8 py-4 dark:border-gray-700">
+                <h3 className="mb-3 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Conversation
+                </h3>
+                <ol className="space-y-3">
+                  {promptChain.map((link, index) => (
+                    <li key={link.id} className="flex items-start gap-3">
+                      <span className="mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-gray-100 text-xs font-medium text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                        {index + 1}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <p
+                          className={`whitespace-pre-wrap text-sm ${
+                            link.id === job.id
+                              ? "font-medium text-gray-900 dark:text-gray-100"
+                              : "text-gray-600 dark:text-gray-400"
+                          }`}
+                        >
+                          {link.description}
+                        </p>
+                        <div className="mt-1 flex items-center gap-2 text-xs text-gray-400">
+                          {link.id === job.id ? (
+                            <span>This job</span>
+                          ) : (
+                            <a
+                              href={`/jobs/${link.id}`}
+                              className="text-blue-600 hover:underline dark:text-blue-400"
+                            >
+                              {link.id.substring(0, 8)}
+                            </a>
+                          )}
+                          <span>·</span>
+                          <span>{getStatusText(link.status)}</span>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {/* Agent Result */}
+            {(job.result?.summary ||
+              (job.result?.artifacts && job.result.artifacts.length > 0)) && (
+              <div className="border-b border-gray-200 px-8 py-4 dark:border-gray-700">
+                <h3 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Agent summary
+                </h3>
+                {job.result.summary && (
+                  <p className="whitespace-pre-wrap text-sm text-gray-600 dark:text-gray-400">
+                    {job.result.summary}
+                  </p>
+                )}
+                {job.result.artifacts && job.result.artifacts.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {job.result.artifacts.map((artifact) => (
+                      <li
+                        key={artifact.name}
+                        className="flex items-center gap-2 text-gray-600 dark:text-gray-400"
+                      >
+                        <i className="fas fa-paperclip text-gray-400"></i>
+                        {artifact.url ? (
+                          <a
+                            href={artifact.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline dark:text-blue-400"
+                          >
+                            {artifact.name}
+                          </a>
+                        ) : (
+                          <span>{artifact.name}</span>
+                        )}
+                        {artifact.path && (
+                          <span className="font-mono text-xs text-gray-400">
+                            {artifact.path}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {/* Expandable Detailed Content */}
             {isHeaderExpanded && (
               <div className="border-b border-gray-200 p-8 dark:border-gray-700">
@@ -752,7 +1291,10 @@ export default function JobDetail() {
                   </div>
 
                   {/* Secondary Information Table */}
-                  {(job.author || job.repository?.url || job.branch) && (
+                  {(job.author ||
+                    job.repository?.url ||
+                    job.branch ||
+                    job.profile) && (
                     <div className="overflow-hidden rounded-lg bg-gray-50 dark:bg-gray-700/30">
                       <table className="w-full">
                         <thead>
@@ -828,6 +1370,92 @@ export default function JobDetail() {
                               </td>
                             </tr>
                           )}
+                          {job.profile && (
+                            <tr className="">
+                              <td className="px-4 py-3 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <i className="fas fa-layer-group w-4 text-gray-400"></i>
+                                  <span className="font-medium text-gray-600 dark:text-gray-400">
+                                    Profile
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-4 py-3">
+                                <span className="font-medium text-gray-600 dark:text-gray-100">
+                                  {job.profile.name}
+                                </span>
+                              </td>
+                            </tr>
+                          )}
+                          {job.repositoryConfig && (
+                            <tr>
+                              <td className="px-4 py-3 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <i className="fas fa-file-code w-4 text-gray-400"></i>
+                                  <span className="font-medium text-gray-600 dark:text-gray-400">
+                                    .hugex.yml
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-100">
+                                {describeRepositoryConfig(job.repositoryConfig)}
+                              </td>
+                            </tr>
+                          )}
+                          {job.network && (
+                            <tr>
+                              <td className="px-4 py-3 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <i className="fas fa-network-wired w-4 text-gray-400"></i>
+                                  <span className="font-medium text-gray-600 dark:text-gray-400">
+                                    Network
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-100">
+                                {describeNetworkPolicy(job.network)}
+                              </td>
+                            </tr>
+                          )}
+                          {job.hardening && (
+                            <tr>
+                              <td className="px-4 py-3 align-top text-sm">
+                                <div className="flex items-center gap-2">
+                                  <i className="fas fa-shield-alt w-4 text-gray-400"></i>
+                                  <span className="font-medium text-gray-600 dark:text-gray-400">
+                                    Hardening
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-100">
+                                <span className="font-medium capitalize">
+                                  {job.hardening.preset}
+                                </span>
+                                <ul className="mt-1 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                                  {describeHardening(job.hardening).map(
+                                    (setting) => (
+                                      <li key={setting}>{setting}</li>
+                                    )
+                                  )}
+                                </ul>
+                              </td>
+                            </tr>
+                          )}
+                          {job.resources && (
+                            <tr>
+                              <td className="px-4 py-3 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <i className="fas fa-microchip w-4 text-gray-400"></i>
+                                  <span className="font-medium text-gray-600 dark:text-gray-400">
+                                    Resources
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-100">
+                                {describeResources(job.resources)}
+                              </td>
+                            </tr>
+                          )}
                         </tbody>
                       </table>
                     </div>
@@ -1042,7 +1670,9 @@ export default function JobDetail() {
                 >
                   <span className="flex items-center gap-2">
                     Logs
-                    {(job.status === "running" || job.status === "pending") &&
+                    {(job.status === "running" ||
+                      job.status === "queued" ||
+                      job.status === "pending") &&
                       !userHasManuallyChangedTab && (
                         <span
                           className="h-1.5 w-1.5 animate-pulse rounded-full bg-blue-500"
@@ -1051,12 +1681,35 @@ export default function JobDetail() {
                       )}
                   </span>
                 </button>
+                {job.executionMode === "docker" && job.network && (
+                  <button
+                    onClick={() => handleTabChange("network")}
+                    className={`border-b-2 px-6 py-4 text-sm font-medium transition-colors ${
+                      activeTab === "network"
+                        ? "border-blue-500 text-blue-600 dark:text-blue-400"
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 dark:text-gray-400 dark:hover:border-gray-600 dark:hover:text-gray-300"
+                    }`}
+                  >
+                    <span className="flex items-center gap-2">
+                      Network
+                      {job.egress?.some((record) => record.unexpected) && (
+                        <i
+                          className="fas fa-exclamation-triangle text-xs text-amber-500"
+                          title="Requests to unexpected hosts"
+                        ></i>
+                      )}
+                    </span>
+                  </button>
+                )}
               </nav>
             </div>
 
             <div className="p-8">
               {activeTab === "diff" && (
                 <div>
+                  {job.checks && job.checks.length > 0 && (
+                    <JobChecks checks={job.checks} />
+                  )}
                   {jobDiff ? (
                     <DiffViewer files={jobDiff.files} />
                   ) : (
@@ -1073,11 +1726,17 @@ export default function JobDetail() {
                       <p className="text-sm" style={pulseStyle}>
                         {job.status === "pending"
                           ? "Job is pending - changes will appear when processing starts"
-                          : job.status === "running"
-                            ? "Job is running - changes will appear when completed"
-                            : job.status === "failed"
-                              ? "Job failed - no changes were generated"
-                              : "This job completed without generating a diff"}
+                          : job.status === "queued"
+                            ? "Job is queued - changes will appear once it starts and completes"
+                            : job.status === "running"
+                              ? "Job is running - changes will appear when completed"
+                              : job.status === "failed"
+                                ? "Job failed - no changes were generated"
+                                : job.status === "timed_out"
+                                  ? "Job timed out - no changes were generated"
+                                  : job.status === "cancelled"
+                                    ? "Job was cancelled - no changes were kept"
+                                    : "This job completed without generating a diff"}
                       </p>
                     </div>
                   )}
@@ -1153,9 +1812,32 @@ export default function JobDetail() {
                 </div>
               )}
 
+              {activeTab === "network" && job.network && (
+                <div>
+                  {job.egress && job.egress.length > 0 ? (
+                    <EgressLog egress={job.egress} network={job.network} />
+                  ) : (
+                    <div className="py-12 text-center text-gray-500 dark:text-gray-400">
+                      <div className="mb-4">
+                        <i className="fas fa-network-wired text-6xl text-gray-300 dark:text-gray-600"></i>
+                      </div>
+                      <p className="text-sm">
+                        {job.network.mode === "none"
+                          ? "This job ran without network access"
+                          : job.egress
+                            ? "This job made no outbound requests"
+                            : "Outbound requests appear here once the job's container has exited"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {activeTab === "logs" && (
                 <div>
-                  {job.status === "running" || job.status === "pending" ? (
+                  {job.status === "running" ||
+                  job.status === "queued" ||
+                  job.status === "pending" ? (
                     // Use real-time streaming for active jobs
                     <LogStream
                       jobId={job.id}
@@ -1212,7 +1894,11 @@ export default function JobDetail() {
                             ? "Job is running - logs will appear as processing continues"
                             : job.status === "failed"
                               ? "Job failed - check if any logs were generated before failure"
-                              : "This job completed without generating logs"}
+                              : job.status === "timed_out"
+                                ? "Job timed out - check if any logs were generated before it was stopped"
+                                : job.status === "cancelled"
+                                  ? "Job was cancelled before any logs were generated"
+                                  : "This job completed without generating logs"}
                       </p>
                     </div>
                   )}
@@ -1222,6 +1908,230 @@ export default function JobDetail() {
           </div>
         </div>
 
+        {/* Follow-up Modal */}
+        {showFollowUpModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="w-full max-w-2xl rounded-xl border border-gray-200 bg-white shadow-xl dark:border-gray-700 dark:bg-gray-800">
+              <div className="border-b border-gray-200 p-6 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                    Follow Up
+                  </h2>
+                  <button
+                    onClick={() => setShowFollowUpModal(false)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3 p-6">
+                <label
+                  htmlFor="follow-up-prompt"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  What should change next?
+                </label>
+                <textarea
+                  id="follow-up-prompt"
+                  value={followUpPrompt}
+                  onChange={(e) => setFollowUpPrompt(e.target.value)}
+                  rows={5}
+                  maxLength={1000}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                  placeholder="Now also update the tests"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  The new job starts from this job&apos;s changes. Its diff
+                  includes both.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-end gap-3 border-t border-gray-200 p-6 dark:border-gray-700">
+                <button
+                  onClick={() => setShowFollowUpModal(false)}
+                  className="rounded-lg px-4 py-2 text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-transparent"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleFollowUp}
+                  disabled={!followUpPrompt.trim() || duplicating}
+                  className="flex items-center gap-2 rounded-lg border border-gray-300 px-6 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  <i
+                    className={`fas ${
+                      duplicating ? "fa-spinner fa-spin" : "fa-paper-plane"
+                    }`}
+                  ></i>
+                  {duplicating ? "Creating..." : "Continue"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Duplicate & Edit Modal */}
+        {showDuplicateModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-xl border border-gray-200 bg-white shadow-xl dark:border-gray-700 dark:bg-gray-800">
+              <div className="border-b border-gray-200 p-6 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                    Duplicate Job
+                  </h2>
+                  <button
+                    onClick={() => setShowDuplicateModal(false)}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-6 p-6">
+                <div>
+                  <label
+                    htmlFor="duplicate-title"
+                    className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Title
+                  </label>
+                  <input
+                    type="text"
+                    id="duplicate-title"
+                    value={duplicateForm.title}
+                    onChange={(e) =>
+                      setDuplicateForm({
+                        ...duplicateForm,
+                        title: e.target.value,
+                      })
+                    }
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="duplicate-description"
+                    className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Description
+                  </label>
+                  <textarea
+                    id="duplicate-description"
+                    value={duplicateForm.description}
+                    onChange={(e) =>
+                      setDuplicateForm({
+                        ...duplicateForm,
+                        description: e.target.value,
+                      })
+                    }
+                    rows={6}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <label
+                      htmlFor="duplicate-repository-url"
+                      className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Repository URL
+                    </label>
+                    <input
+                      type="text"
+                      id="duplicate-repository-url"
+                      value={duplicateForm.repositoryUrl}
+                      onChange={(e) =>
+                        setDuplicateForm({
+                          ...duplicateForm,
+                          repositoryUrl: e.target.value,
+                        })
+                      }
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                      placeholder="https://github.com/username/repo"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="duplicate-repository-branch"
+                      className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Branch
+                    </label>
+                    <input
+                      type="text"
+                      id="duplicate-repository-branch"
+                      value={duplicateForm.repositoryBranch}
+                      onChange={(e) =>
+                        setDuplicateForm({
+                          ...duplicateForm,
+                          repositoryBranch: e.target.value,
+                        })
+                      }
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                      placeholder="main"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="duplicate-image"
+                    className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Docker Image
+                  </label>
+                  <input
+                    type="text"
+                    id="duplicate-image"
+                    value={duplicateForm.image}
+                    onChange={(e) =>
+                      setDuplicateForm({
+                        ...duplicateForm,
+                        image: e.target.value,
+                      })
+                    }
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                    placeholder="Default image"
+                  />
+                </div>
+
+                {job.environment && Object.keys(job.environment).length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Custom environment variables are copied from this job.
+                    Secrets are not copied.
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-end gap-3 border-t border-gray-200 p-6 dark:border-gray-700">
+                <button
+                  onClick={() => setShowDuplicateModal(false)}
+                  className="rounded-lg px-4 py-2 text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-transparent"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDuplicateSubmit}
+                  disabled={!duplicateForm.title.trim() || duplicating}
+                  className="flex items-center gap-2 rounded-lg border border-gray-300 px-6 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  <i
+                    className={`fas ${
+                      duplicating ? "fa-spinner fa-spin" : "fa-play"
+                    }`}
+                  ></i>
+                  {duplicating ? "Creating..." : "Create Job"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* PR Creation Modal */}
         {showPRModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -1280,6 +2190,104 @@ export default function JobDetail() {
                   />
                 </div>
 
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label
+                      htmlFor="pr-labels"
+                      className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Labels
+                    </label>
+                    <input
+                      id="pr-labels"
+                      type="text"
+                      value={prLabels}
+                      onChange={(e) => setPrLabels(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                      placeholder="bug, needs review"
+                    />
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="pr-reviewers"
+                      className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Reviewers
+                    </label>
+                    <input
+                      id="pr-reviewers"
+                      type="text"
+                      value={prReviewers}
+                      onChange={(e) => setPrReviewers(e.target.value)}
+                      className="w-full rounded-md border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-transparent dark:text-gray-100"
+                      placeholder="octocat, hubot"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={prDraft}
+                      onChange={(e) => setPrDraft(e.target.checked)}
+                    />
+                    Open as draft
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={prUseCodeowners}
+                      onChange={(e) => setPrUseCodeowners(e.target.checked)}
+                    />
+                    Request reviews from CODEOWNERS
+                  </label>
+                </div>
+
+                {(job.referencedIssues?.length || issueMentions.length > 0) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    <i className="fas fa-link mr-1"></i>
+                    Will close{" "}
+                    {Array.from(
+                      new Set(
+                        job.referencedIssues ||
+                          issueMentions.map((mention) => mention.number)
+                      )
+                    )
+                      .map((issue) => `#${issue}`)
+                      .join(", ")}{" "}
+                    when merged
+                  </p>
+                )}
+
+                {prConflicts.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-900/40 dark:bg-red-900/20">
+                    <h3 className="mb-2 flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-300">
+                      <i className="fas fa-exclamation-triangle"></i>
+                      Changes don&apos;t apply to{" "}
+                      <span className="font-mono">
+                        {job.branch || "main"}
+                      </span>{" "}
+                      - nothing was pushed
+                    </h3>
+                    <ul className="space-y-2">
+                      {prConflicts.map((conflict) => (
+                        <li key={conflict.filename} className="text-sm">
+                          <span className="font-mono text-xs text-red-800 dark:text-red-300">
+                            {conflict.filename}
+                          </span>
+                          <ul className="ml-4 list-disc text-xs text-red-700 dark:text-red-400">
+                            {conflict.reasons.map((reason, index) => (
+                              <li key={index}>{reason}</li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {jobDiff && (
                   <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-700/30">
                     <h3 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -1339,7 +2347,11 @@ export default function JobDetail() {
                     formData.append("branch", prBranch);
                     formData.append("title", prTitle);
                     formData.append("description", prDescription);
-                    formData.append("baseBranch", job.branch || "main");
+                    formData.append("baseBranch", baseBranch);
+                    formData.append("draft", String(prDraft));
+                    formData.append("labels", prLabels);
+                    formData.append("reviewers", prReviewers);
+                    formData.append("useCodeowners", String(prUseCodeowners));
 
                     fetcher.submit(formData, { method: "post" });
                   }}
@@ -1358,8 +2370,8 @@ export default function JobDetail() {
                     }`}
                   ></i>
                   {fetcher.state === "submitting"
-                    ? "Creating Branch..."
-                    : "Create Branch & Push"}
+                    ? "Creating Pull Request..."
+                    : "Create Pull Request"}
                 </button>
               </div>
             </div>
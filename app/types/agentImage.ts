@@ -0,0 +1,15 @@
+// How a job's container gets its secrets: as environment variables, or as
+// files on a tmpfs that can each be read once
+export type SecretDelivery = "env" | "files";
+
+// What an agent image tells hugex about itself, as JSON in its
+// hugex.agent-manifest label. Images without one take secrets as
+// environment variables. See lib/server/processors/agentImageManifest.
+export interface AgentImageManifest {
+  version: 1;
+  // The delivery modes the image's agent supports
+  secretDelivery: SecretDelivery[];
+  // Where the agent reads secret files from, one file per secret named after
+  // its variable. Each file is a named pipe, gone once it was read.
+  secretsDir: string;
+}
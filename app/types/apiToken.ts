@@ -0,0 +1,27 @@
+export type ApiTokenScope = "jobs:read" | "jobs:write" | "pr:create";
+
+export const API_TOKEN_SCOPES: { scope: ApiTokenScope; description: string }[] =
+  [
+    {
+      scope: "jobs:read",
+      description: "List jobs, read status, logs and diffs",
+    },
+    {
+      scope: "jobs:write",
+      description: "Create, cancel, duplicate and follow up on jobs",
+    },
+    { scope: "pr:create", description: "Open pull requests for job results" },
+  ];
+
+// A personal API token as listed in the UI. The token itself is only shown
+// once, when it is created.
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  // Start of the token, to tell tokens apart
+  prefix: string;
+  scopes: ApiTokenScope[];
+  createdAt: Date;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+}
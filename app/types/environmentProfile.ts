@@ -0,0 +1,92 @@
+import type { SecretDelivery } from "~/types/agentImage";
+
+// Container resources for jobs run with a profile. Unset limits fall back to
+// the server defaults (DOCKER_MEMORY_LIMIT, DOCKER_CPU_SHARES).
+export interface ProfileResources {
+  memoryMb?: number;
+  cpuShares?: number;
+}
+
+// How a Docker job's container reaches the network: not at all, only
+// through a hugex proxy letting the allowed hosts through, or freely
+export type NetworkMode = "none" | "allowlist" | "open";
+
+export interface NetworkPolicy {
+  mode: NetworkMode;
+  // Hosts the proxy lets through in allowlist mode, and the hosts open jobs
+  // are expected to reach. "*.example.com" matches example.com and its
+  // subdomains.
+  allowedHosts: string[];
+}
+
+// How tightly a Docker job's container is locked down, from Docker's
+// defaults to no capabilities, a non-root user and a read-only root
+// filesystem
+export type HardeningPreset = "permissive" | "standard" | "strict";
+
+// The runtime options a preset stands for, see
+// lib/server/processors/containerHardening
+export interface ContainerHardening {
+  preset: HardeningPreset;
+  // Capabilities the container keeps, all others are dropped. Docker's
+  // defaults when unset.
+  capabilities?: string[];
+  noNewPrivileges: boolean;
+  // "uid:gid" the container runs as, the image's user when unset
+  user?: string;
+  readOnlyRootfs: boolean;
+  // Writable tmpfs mounts and their size in MB. The size of /workspace is
+  // the job's disk quota.
+  tmpfs: Record<string, number>;
+  pidsLimit?: number;
+  ulimits: { name: string; soft: number; hard: number }[];
+}
+
+// A named environment jobs run in. Personal profiles are owned by an
+// identity ("hf:alice"), shared ones by a workspace ("workspace:<id>").
+export interface EnvironmentProfile {
+  id: string;
+  name: string;
+  owner: string;
+  // Empty for the repository's .hugex.yml image, else DOCKER_IMAGE
+  image: string;
+  // Values may contain ${secrets.NAME} references to the secret vault
+  environment: Record<string, string>;
+  // Variables passed to the container as secrets, each a vault reference
+  secrets: Record<string, string>;
+  resources: ProfileResources;
+  // Shell commands run in the checkout before and after the agent. Used
+  // instead of the repository's .hugex.yml ones when set.
+  setup: string[];
+  verify: string[];
+  // Whether a failing verify command fails the job
+  failOnVerify: boolean;
+  network: NetworkPolicy;
+  hardening: HardeningPreset;
+  // How Docker jobs get the secrets, the image must support it
+  secretDelivery: SecretDelivery;
+  // Repositories ("owner/name") the profile is picked for automatically
+  repositories: string[];
+  // Picked for repositories that no profile of the owner lists
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The editable part of a profile, as sent by the browser
+export type EnvironmentProfileInput = Pick<
+  EnvironmentProfile,
+  | "name"
+  | "image"
+  | "environment"
+  | "secrets"
+  | "resources"
+  | "setup"
+  | "verify"
+  | "failOnVerify"
+  | "network"
+  | "hardening"
+  | "secretDelivery"
+  | "repositories"
+  | "isDefault"
+>;
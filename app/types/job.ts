@@ -1,12 +1,30 @@
+import type {
+  ContainerHardening,
+  NetworkPolicy,
+} from "~/types/environmentProfile";
+import type { RepositoryConfig } from "~/types/repositoryConfig";
+
 export interface Job {
   id: string;
   title: string;
   description: string;
-  status: "pending" | "running" | "completed" | "failed";
+  status:
+    | "pending"
+    | "queued"
+    | "running"
+    | "completed"
+    | "failed"
+    | "timed_out"
+    | "cancelled";
   createdAt: Date;
   updatedAt: Date;
   branch?: string;
-  author?: string;
+  author?: string; // Display name of the user who created the job
+  // Identities of that user, e.g. "hf:alice" and "github:alice". See
+  // lib/server/authorization.
+  owners?: string[];
+  // Workspace the job belongs to. Jobs without one are personal.
+  workspaceId?: string;
   tags?: string[];
   repository?: {
     url: string;
@@ -18,9 +36,123 @@ export interface Job {
     files: number;
   };
   logs?: string;
+  // The variables the job ran with, profile and .hugex.yml ones included,
+  // redacted once it ran
   environment?: Record<string, string>;
+  // The variables given for this job itself. Re-runs copy these.
+  environmentOverrides?: Record<string, string>;
   secrets?: Record<string, string>;
+  // The secret values of the job's running Docker container, encrypted, to
+  // redact its output if it's re-attached after a restart
+  redactionSecrets?: string;
   apiJobId?: string;
+  image?: string;
+  // Network access of the job's container, with the hosts hugex allows on
+  // top of the profile's
+  network?: NetworkPolicy;
+  // Outbound requests of the job's container, from its egress proxy
+  egress?: EgressRecord[];
+  // Resources asked for when the job was submitted, see
+  // lib/server/jobResources
+  resources?: JobResources;
+  // Runtime options of the job's Docker container
+  hardening?: ContainerHardening;
+  // Environment profile the job was created with
+  profile?: {
+    id: string;
+    name: string;
+  };
+  // Settings of the repository's .hugex.yml when the job was created
+  repositoryConfig?: RepositoryConfig;
+  result?: JobResult;
+  // Credentials were redacted from the diff shown, it can't be pushed
+  diffRedacted?: boolean;
+  // Setup and verify commands run around the agent, in order
+  checks?: JobCheck[];
+  referencedIssues?: number[]; // Open issues from the prompt, closed by the PR
+  pullRequest?: {
+    number: number;
+    url: string;
+    draft: boolean;
+  };
+  parentJobId?: string; // Job this one was re-run or duplicated from
+  baseJobId?: string; // Follow-ups start from this job's diff
+  executionMode?: "api" | "docker";
+  error?: string; // Why the job failed, shown on the job page
+  priority?: number;
+  queuePosition?: number; // Computed from the live queue, not persisted
+}
+
+// Resources of a job, over those of its environment profile. Unset values
+// fall back to the profile's, then to the server's defaults.
+export interface JobResources {
+  memoryMb?: number;
+  cpuShares?: number;
+  timeoutMinutes?: number;
+  // Hugging Face hardware, e.g. "cpu-upgrade" or "t4-small"
+  flavor?: string;
+}
+
+// The most a job may ask for, set by the server's admin
+export interface JobResourceLimits {
+  maxMemoryMb: number;
+  maxCpuShares: number;
+  maxTimeoutMinutes: number;
+  flavors: string[];
+}
+
+// Requests the egress proxy saw for one host and method
+export interface EgressRecord {
+  host: string;
+  method: string;
+  requests: number;
+  // Requests the proxy refused, for hosts outside an allowlist
+  blocked: number;
+  bytesSent: number;
+  bytesReceived: number;
+  // The host is not among the job's allowed or expected hosts
+  unexpected: boolean;
+}
+
+export interface JobArtifact {
+  name: string;
+  path?: string;
+  url?: string;
+  size?: number;
+}
+
+// What the agent reports at the end of a run, see processors/resultManifest
+export interface JobResultManifest {
+  version: number;
+  exitCode?: number;
+  summary?: string;
+  diff: string;
+  artifacts?: JobArtifact[];
+}
+
+// The manifest as stored on the job, minus the diff which lives in JobDiff
+export interface JobResult {
+  source: "manifest" | "delimiters";
+  exitCode?: number;
+  summary?: string;
+  artifacts?: JobArtifact[];
+}
+
+// A setup or verify command of the job's profile or .hugex.yml, see
+// processors/jobCommands
+export interface JobCheck {
+  phase: "setup" | "verify";
+  command: string;
+  // Unset if the command never ran, e.g. after a failed setup command
+  exitCode?: number;
+  // The end of the command's output
+  output?: string;
+}
+
+// A file from a job's diff that didn't apply to the base branch
+export interface PatchConflict {
+  filename: string;
+  reasons: string[];
 }
 
 export interface FileDiff {
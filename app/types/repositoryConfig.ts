@@ -0,0 +1,21 @@
+// Settings a repository gives its jobs through a .hugex.yml on its base
+// branch. The job's environment profile wins over them, see
+// lib/server/repositoryConfig.
+export interface RepositoryConfig {
+  image?: string;
+  environment: Record<string, string>;
+  // Shell commands, run in order in the job's container
+  setup: string[];
+  verify: string[];
+  // Put before the task in the agent's prompt
+  promptPreamble?: string;
+  // Gitignore-style patterns of files the job must not change
+  protectedPaths: string[];
+  // GitHub users, or "org/team", asked to review the job's pull requests
+  reviewers: string[];
+}
+
+export interface RepositoryConfigError {
+  field: string;
+  message: string;
+}
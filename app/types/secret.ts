@@ -0,0 +1,28 @@
+// A secret in the vault as listed in the UI. Values are write-only: they are
+// decrypted when a job's container is created and never sent back.
+export interface SecretInfo {
+  id: string;
+  // Referenced from profiles as ${secrets.NAME}
+  name: string;
+  // An identity ("hf:alice") or a workspace ("workspace:<id>"), like profiles
+  owner: string;
+  // "owner/name" if the secret only applies to jobs on that repository
+  repository: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// ${secrets.NAME} anywhere in a value
+export const SECRET_REFERENCE_PATTERN =
+  /\$\{secrets\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export function secretReference(name: string): string {
+  return `\${secrets.${name}}`;
+}
+
+// A value that is nothing but a reference, as profile secrets must be
+export function isSecretReference(value: string): boolean {
+  return /^\$\{secrets\.[A-Za-z_][A-Za-z0-9_]*\}$/.test(value);
+}
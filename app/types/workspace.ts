@@ -0,0 +1,33 @@
+// Roles from least to most privileged. Viewers see the workspace's jobs,
+// members also start jobs in it, admins manage members, cancel any job and
+// edit the environment, owners also rename and delete the workspace.
+export const WORKSPACE_ROLES = ["viewer", "member", "admin", "owner"] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+// Whether a role grants at least the privileges of another
+export function isRoleAtLeast(
+  role: WorkspaceRole,
+  required: WorkspaceRole
+): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required);
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: Date;
+  createdBy: string; // Identity, e.g. "hf:alice"
+}
+
+export interface WorkspaceMember {
+  workspaceId: string;
+  identity: string; // "hf:<username>" or "github:<login>"
+  role: WorkspaceRole;
+  addedAt: Date;
+}
+
+// A workspace as listed for one of its members
+export interface WorkspaceMembership extends Workspace {
+  role: WorkspaceRole;
+}
@@ -28,11 +28,17 @@ export default defineConfig({
     // Don't bundle these server-only modules for SSR
     noExternal: [],
     // External these packages to avoid bundling native modules
-    external: ["dockerode", "cpu-features", "ssh2"],
+    external: ["dockerode", "cpu-features", "ssh2", "better-sqlite3"],
   },
   optimizeDeps: {
     // Exclude server-only packages from dependency optimization
-    exclude: ["dockerode", "cpu-features", "ssh2", "@remix-run/node"],
+    exclude: [
+      "dockerode",
+      "cpu-features",
+      "ssh2",
+      "better-sqlite3",
+      "@remix-run/node",
+    ],
   },
   build: {
     rollupOptions: {
@@ -42,6 +48,7 @@ export default defineConfig({
         "dockerode",
         "cpu-features",
         "ssh2",
+        "better-sqlite3",
       ],
     },
   },
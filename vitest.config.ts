@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Unit tests of the server modules, without the Remix plugin. Under
+// NODE_ENV=test, which vitest sets, every store uses its in-memory driver.
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    env: {
+      ADMIN_USERS: "hf:admin",
+      SECRET_VAULT_KEY: "test-vault-key",
+    },
+  },
+});